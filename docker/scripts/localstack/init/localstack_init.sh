@@ -1,3 +1,11 @@
 #!/usr/bin/env bash
 awslocal sqs create-queue --queue-name audit-queue
 awslocal sqs create-queue --queue-name coordinator-queue
+
+# Stand-in for the HMPPS domain events topic, with a queue to read what the UI publishes
+awslocal sns create-topic --name domain-events
+awslocal sqs create-queue --queue-name domain-events-queue
+awslocal sns subscribe \
+  --topic-arn arn:aws:sns:eu-west-2:000000000000:domain-events \
+  --protocol sqs \
+  --notification-endpoint arn:aws:sqs:eu-west-2:000000000000:domain-events-queue
@@ -1,3 +1,4 @@
 #!/usr/bin/env bash
 queues=$(awslocal sqs list-queues)
 echo $queues | grep "audit-queue" || exit 1
+awslocal sns list-topics | grep "domain-events" || exit 1
@@ -167,6 +167,23 @@ export default {
       priority: 1,
     }),
 
+  stubGetAssessmentVersion: (
+    versionUuid: string,
+    response: Partial<EntityAssessmentResponse> = {},
+  ): SuperAgentRequest =>
+    stubFor({
+      request: {
+        method: 'GET',
+        urlPattern: `/coordinator-api/entity/version/${versionUuid}/ASSESSMENT`,
+      },
+      response: {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+        jsonBody: { ...defaultEntityAssessmentResponse, ...response },
+      },
+      priority: 1,
+    }),
+
   stubGetEntityVersions: (entityUuid: string, versions: PreviousVersionsResponse): SuperAgentRequest =>
     stubFor({
       request: {
@@ -0,0 +1,34 @@
+import { expect, type Locator, type Page } from '@playwright/test'
+import AbstractPage from '../abstractPage'
+
+export default class EasyReadPage extends AbstractPage {
+  readonly pageHeading: Locator
+
+  readonly goalCards: Locator
+
+  readonly exportAsPdfButton: Locator
+
+  readonly printButton: Locator
+
+  private constructor(page: Page) {
+    super(page)
+    this.pageHeading = page.getByRole('heading', { level: 1 })
+    this.goalCards = page.locator('[data-qa="easy-read-goal-card"]')
+    this.exportAsPdfButton = page.getByRole('button', { name: 'Export as PDF' })
+    this.printButton = page.getByRole('button', { name: 'Print', exact: true })
+  }
+
+  static async verifyOnPage(page: Page): Promise<EasyReadPage> {
+    const easyReadPage = new EasyReadPage(page)
+    await expect(easyReadPage.pageHeading).toContainText('My sentence plan')
+    return easyReadPage
+  }
+
+  async getGoalTitles(): Promise<string[]> {
+    return this.goalCards.locator('[data-qa="goal-title"]').allTextContents()
+  }
+
+  stepGroup(actorLabel: string): Locator {
+    return this.page.locator('[data-qa="easy-read-step-group"]').filter({ hasText: `${actorLabel} will:` })
+  }
+}
@@ -0,0 +1,43 @@
+import { expect, type Locator, type Page } from '@playwright/test'
+import AbstractPage from '../abstractPage'
+import { ValidationHelper } from '../helpers'
+
+export default class ExportOptionsPage extends AbstractPage {
+  readonly header: Locator
+
+  readonly continueButton: Locator
+
+  readonly easyReadLink: Locator
+
+  private validation: ValidationHelper
+
+  private constructor(page: Page) {
+    super(page)
+    this.header = page.locator('h1')
+    this.continueButton = page.getByRole('button', { name: 'Continue' })
+    this.easyReadLink = page.locator('[data-ai-id="export-options-easy-read-link"]')
+    this.validation = new ValidationHelper(page)
+  }
+
+  get errorSummary(): Locator {
+    return this.validation.errorSummary
+  }
+
+  static async verifyOnPage(page: Page): Promise<ExportOptionsPage> {
+    const exportOptionsPage = new ExportOptionsPage(page)
+    await expect(exportOptionsPage.header).toContainText('Choose what to include')
+    return exportOptionsPage
+  }
+
+  sectionCheckbox(section: 'active' | 'future' | 'achieved' | 'removed'): Locator {
+    return this.page.locator(`[data-ai-id="export-options-${section}-checkbox"]`)
+  }
+
+  excludeCheckbox(exclusion: 'notes' | 'removal-reasons'): Locator {
+    return this.page.locator(`[data-ai-id="export-options-exclude-${exclusion}-checkbox"]`)
+  }
+
+  async clickContinue(): Promise<void> {
+    await this.continueButton.click()
+  }
+}
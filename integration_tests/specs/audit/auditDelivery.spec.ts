@@ -0,0 +1,54 @@
+import { expect } from '@playwright/test'
+import { test, TargetService } from '../../support/fixtures'
+import { currentGoals } from '../../builders/sentencePlanFactories'
+import PlanOverviewPage from '../../pages/sentencePlan/planOverviewPage'
+import { caseUrl, navigateToSentencePlan } from '../sentencePlan/sentencePlanUtils'
+import { AuditEvent, expectAuditEvent } from './sentencePlan/helpers'
+
+// Takes the audit queue down, so runs on its own
+test.describe('Audit delivery @serial', () => {
+  test.afterEach(async ({ auditQueue }) => {
+    await auditQueue.recreateQueue()
+  })
+
+  test('an audit event sent while the queue is down is retried once it is back', async ({
+    page,
+    createSession,
+    sentencePlanBuilder,
+    auditQueue,
+  }) => {
+    const { crn, sentencePlanId, handoverLink } = await createSession({
+      targetService: TargetService.SENTENCE_PLAN,
+    })
+    await sentencePlanBuilder.extend(sentencePlanId).withGoals(currentGoals(1)).save()
+
+    await auditQueue.deleteQueue()
+    await navigateToSentencePlan(page, handoverLink)
+    await PlanOverviewPage.verifyOnPage(page)
+    await auditQueue.recreateQueue()
+
+    const event = await auditQueue.waitForAuditEvent(crn, AuditEvent.VIEW_PLAN_OVERVIEW, { timeout: 30_000 })
+    expectAuditEvent(event)
+  })
+
+  test('an action whose audit event fails closed is blocked while the queue is down', async ({
+    page,
+    createSession,
+    sentencePlanBuilder,
+    auditQueue,
+  }) => {
+    const { sentencePlanId, handoverLink } = await createSession({
+      targetService: TargetService.SENTENCE_PLAN,
+    })
+    await sentencePlanBuilder.extend(sentencePlanId).withGoals(currentGoals(1)).save()
+
+    await navigateToSentencePlan(page, handoverLink)
+    await PlanOverviewPage.verifyOnPage(page)
+
+    // EXPORT_PLAN_DATA is in AUDIT_FAIL_CLOSED_EVENTS in docker-compose.test.yml
+    await auditQueue.deleteQueue()
+    const response = await page.request.get(caseUrl(page, '/sentence-plan/v1.0/plan/export-data/csv'))
+
+    expect(response.status()).toBe(503)
+  })
+})
@@ -2,7 +2,7 @@ import { expect } from '@playwright/test'
 import { test, TargetService } from '../../../support/fixtures'
 import CreateGoalPage from '../../../pages/sentencePlan/createGoalPage'
 import AddStepsPage from '../../../pages/sentencePlan/addStepsPage'
-import { navigateToSentencePlan, sentencePlanV1UrlBuilders } from '../../sentencePlan/sentencePlanUtils'
+import { caseUrl, navigateToSentencePlan, sentencePlanV1UrlBuilders } from '../../sentencePlan/sentencePlanUtils'
 import { AuditEvent, expectAuditEvent } from './helpers'
 
 test.describe('Create a Goal', () => {
@@ -10,7 +10,7 @@ test.describe('Create a Goal', () => {
     const { crn, handoverLink } = await createSession({ targetService: TargetService.SENTENCE_PLAN })
 
     await navigateToSentencePlan(page, handoverLink)
-    await page.goto(sentencePlanV1UrlBuilders.goalCreate('accommodation'))
+    await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalCreate('accommodation')))
 
     const createGoalPage = await CreateGoalPage.verifyOnPage(page)
     await createGoalPage.enterGoalTitle('Audit test goal')
@@ -28,7 +28,7 @@ test.describe('Create a Goal', () => {
     const { crn, handoverLink } = await createSession({ targetService: TargetService.SENTENCE_PLAN })
 
     await navigateToSentencePlan(page, handoverLink)
-    await page.goto(sentencePlanV1UrlBuilders.goalCreate('accommodation'))
+    await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalCreate('accommodation')))
 
     const createGoalPage = await CreateGoalPage.verifyOnPage(page)
     await createGoalPage.enterGoalTitle('Audit test goal with steps')
@@ -2,7 +2,7 @@ import { expect } from '@playwright/test'
 import { test, TargetService } from '../../../support/fixtures'
 import { removedGoals } from '../../../builders/sentencePlanFactories'
 import ConfirmReaddGoalPage from '../../../pages/sentencePlan/confirmReaddGoalPage'
-import { navigateToSentencePlan, sentencePlanV1UrlBuilders } from '../../sentencePlan/sentencePlanUtils'
+import { caseUrl, navigateToSentencePlan, sentencePlanV1UrlBuilders } from '../../sentencePlan/sentencePlanUtils'
 import { AuditEvent, expectAuditEvent } from './helpers'
 
 test.describe('Add a Goal Back to Plan', () => {
@@ -18,7 +18,7 @@ test.describe('Add a Goal Back to Plan', () => {
     const goalUuid = plan.goals[0].uuid
 
     await navigateToSentencePlan(page, handoverLink)
-    await page.goto(sentencePlanV1UrlBuilders.goalConfirmReAdd(goalUuid))
+    await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalConfirmReAdd(goalUuid)))
 
     const confirmPage = await ConfirmReaddGoalPage.verifyOnPage(page)
     await confirmPage.enterReaddNote('Relevant again')
@@ -1,7 +1,7 @@
 import { expect } from '@playwright/test'
 import { test, TargetService } from '../../../support/fixtures'
 import { currentGoals } from '../../../builders/sentencePlanFactories'
-import { navigateToSentencePlan, sentencePlanV1UrlBuilders } from '../../sentencePlan/sentencePlanUtils'
+import { caseUrl, navigateToSentencePlan, sentencePlanV1UrlBuilders } from '../../sentencePlan/sentencePlanUtils'
 import { AuditEvent, expectAuditEvent } from './helpers'
 
 test.describe('Delete a Goal', () => {
@@ -13,7 +13,7 @@ test.describe('Delete a Goal', () => {
     const goalUuid = plan.goals[0].uuid
 
     await navigateToSentencePlan(page, handoverLink)
-    await page.goto(sentencePlanV1UrlBuilders.goalConfirmDelete(goalUuid))
+    await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalConfirmDelete(goalUuid)))
     await page.getByRole('button', { name: 'Confirm' }).click()
     await expect(page).toHaveURL(/\/plan\/overview/)
 
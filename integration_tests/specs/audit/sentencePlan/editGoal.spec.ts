@@ -2,7 +2,7 @@ import { expect } from '@playwright/test'
 import { test, TargetService } from '../../../support/fixtures'
 import { currentGoals } from '../../../builders/sentencePlanFactories'
 import ChangeGoalPage from '../../../pages/sentencePlan/changeGoalPage'
-import { navigateToSentencePlan, sentencePlanV1UrlBuilders } from '../../sentencePlan/sentencePlanUtils'
+import { caseUrl, navigateToSentencePlan, sentencePlanV1UrlBuilders } from '../../sentencePlan/sentencePlanUtils'
 import { AuditEvent, activeGoalWithSteps, expectAuditEvent } from './helpers'
 
 test.describe('Change a Goal', () => {
@@ -14,7 +14,7 @@ test.describe('Change a Goal', () => {
     const goalUuid = plan.goals[0].uuid
 
     await navigateToSentencePlan(page, handoverLink)
-    await page.goto(sentencePlanV1UrlBuilders.goalChange(goalUuid))
+    await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalChange(goalUuid)))
 
     const changeGoalPage = await ChangeGoalPage.verifyOnPage(page)
     await changeGoalPage.setGoalTitle('Updated goal title')
@@ -38,7 +38,7 @@ test.describe('Change a Goal', () => {
     const goalUuid = plan.goals[0].uuid
 
     await navigateToSentencePlan(page, handoverLink)
-    await page.goto(sentencePlanV1UrlBuilders.goalChange(goalUuid))
+    await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalChange(goalUuid)))
 
     const changeGoalPage = await ChangeGoalPage.verifyOnPage(page)
     await changeGoalPage.setGoalTitle('Updated goal title post-agree')
@@ -1,7 +1,7 @@
 import { expect } from '@playwright/test'
 import { test, TargetService } from '../../../support/fixtures'
 import ConfirmAchievedGoalPage from '../../../pages/sentencePlan/confirmAchievedGoalPage'
-import { navigateToSentencePlan, sentencePlanV1UrlBuilders } from '../../sentencePlan/sentencePlanUtils'
+import { caseUrl, navigateToSentencePlan, sentencePlanV1UrlBuilders } from '../../sentencePlan/sentencePlanUtils'
 import { AuditEvent, activeGoalWithSteps, expectAuditEvent } from './helpers'
 
 test.describe('Mark Goal as achieved', () => {
@@ -17,7 +17,7 @@ test.describe('Mark Goal as achieved', () => {
     const goalUuid = plan.goals[0].uuid
 
     await navigateToSentencePlan(page, handoverLink)
-    await page.goto(sentencePlanV1UrlBuilders.goalConfirmAchieved(goalUuid))
+    await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalConfirmAchieved(goalUuid)))
 
     const confirmPage = await ConfirmAchievedGoalPage.verifyOnPage(page)
     await confirmPage.clickConfirm()
@@ -1,7 +1,7 @@
 import { expect } from '@playwright/test'
 import { test, TargetService } from '../../../support/fixtures'
 import ConfirmRemoveGoalPage from '../../../pages/sentencePlan/confirmRemoveGoalPage'
-import { navigateToSentencePlan, sentencePlanV1UrlBuilders } from '../../sentencePlan/sentencePlanUtils'
+import { caseUrl, navigateToSentencePlan, sentencePlanV1UrlBuilders } from '../../sentencePlan/sentencePlanUtils'
 import { AuditEvent, activeGoalWithSteps, expectAuditEvent } from './helpers'
 
 test.describe('Remove a goal', () => {
@@ -17,7 +17,7 @@ test.describe('Remove a goal', () => {
     const goalUuid = plan.goals[0].uuid
 
     await navigateToSentencePlan(page, handoverLink)
-    await page.goto(sentencePlanV1UrlBuilders.goalConfirmRemoved(goalUuid))
+    await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalConfirmRemoved(goalUuid)))
 
     const confirmPage = await ConfirmRemoveGoalPage.verifyOnPage(page)
     await confirmPage.enterRemovalNote('No longer relevant')
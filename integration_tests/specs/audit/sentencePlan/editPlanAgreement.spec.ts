@@ -2,7 +2,7 @@ import { expect } from '@playwright/test'
 import { test, TargetService } from '../../../support/fixtures'
 import { currentGoalsWithCompletedSteps } from '../../../builders/sentencePlanFactories'
 import AgreePlanPage from '../../../pages/sentencePlan/agreePlanPage'
-import { navigateToSentencePlan, sentencePlanV1URLs } from '../../sentencePlan/sentencePlanUtils'
+import { caseUrl, navigateToSentencePlan, sentencePlanV1URLs } from '../../sentencePlan/sentencePlanUtils'
 import { AuditEvent, expectAuditEvent } from './helpers'
 
 test.describe('Agree Plan', () => {
@@ -13,7 +13,7 @@ test.describe('Agree Plan', () => {
     await sentencePlanBuilder.extend(sentencePlanId).withGoals(currentGoalsWithCompletedSteps(1)).save()
 
     await navigateToSentencePlan(page, handoverLink)
-    await page.goto(sentencePlanV1URLs.PLAN_AGREE)
+    await page.goto(caseUrl(page, sentencePlanV1URLs.PLAN_AGREE))
 
     const agreePlanPage = await AgreePlanPage.verifyOnPage(page)
     await agreePlanPage.selectAgreeYes()
@@ -32,7 +32,7 @@ test.describe('Agree Plan', () => {
     await sentencePlanBuilder.extend(sentencePlanId).withGoals(currentGoalsWithCompletedSteps(1)).save()
 
     await navigateToSentencePlan(page, handoverLink)
-    await page.goto(sentencePlanV1URLs.PLAN_AGREE)
+    await page.goto(caseUrl(page, sentencePlanV1URLs.PLAN_AGREE))
 
     const agreePlanPage = await AgreePlanPage.verifyOnPage(page)
     await agreePlanPage.selectAgreeNo()
@@ -52,7 +52,7 @@ test.describe('Agree Plan', () => {
     await sentencePlanBuilder.extend(sentencePlanId).withGoals(currentGoalsWithCompletedSteps(1)).save()
 
     await navigateToSentencePlan(page, handoverLink)
-    await page.goto(sentencePlanV1URLs.PLAN_AGREE)
+    await page.goto(caseUrl(page, sentencePlanV1URLs.PLAN_AGREE))
 
     const agreePlanPage = await AgreePlanPage.verifyOnPage(page)
     await agreePlanPage.selectCouldNotAnswer()
@@ -2,7 +2,7 @@ import { expect } from '@playwright/test'
 import { test, TargetService } from '../../../support/fixtures'
 import { currentGoalsWithCompletedSteps } from '../../../builders/sentencePlanFactories'
 import UpdateAgreePlanPage from '../../../pages/sentencePlan/updateAgreePlanPage'
-import { navigateToSentencePlan, sentencePlanV1URLs } from '../../sentencePlan/sentencePlanUtils'
+import { caseUrl, navigateToSentencePlan, sentencePlanV1URLs } from '../../sentencePlan/sentencePlanUtils'
 import { AuditEvent, expectAuditEvent } from './helpers'
 
 test.describe('Update Agreement', () => {
@@ -17,7 +17,7 @@ test.describe('Update Agreement', () => {
       .save()
 
     await navigateToSentencePlan(page, handoverLink)
-    await page.goto(sentencePlanV1URLs.PLAN_UPDATE_AGREE)
+    await page.goto(caseUrl(page, sentencePlanV1URLs.PLAN_UPDATE_AGREE))
 
     const updatePage = await UpdateAgreePlanPage.verifyOnPage(page)
     await updatePage.selectAgreeYes()
@@ -40,7 +40,7 @@ test.describe('Update Agreement', () => {
       .save()
 
     await navigateToSentencePlan(page, handoverLink)
-    await page.goto(sentencePlanV1URLs.PLAN_UPDATE_AGREE)
+    await page.goto(caseUrl(page, sentencePlanV1URLs.PLAN_UPDATE_AGREE))
 
     const updatePage = await UpdateAgreePlanPage.verifyOnPage(page)
     await updatePage.selectAgreeNo()
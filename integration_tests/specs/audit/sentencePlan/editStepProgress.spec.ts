@@ -2,7 +2,7 @@ import { expect } from '@playwright/test'
 import { test, TargetService } from '../../../support/fixtures'
 import { currentGoalsWithCompletedSteps } from '../../../builders/sentencePlanFactories'
 import UpdateGoalAndStepsPage from '../../../pages/sentencePlan/updateGoalAndStepsPage'
-import { navigateToSentencePlan, sentencePlanV1UrlBuilders } from '../../sentencePlan/sentencePlanUtils'
+import { caseUrl, navigateToSentencePlan, sentencePlanV1UrlBuilders } from '../../sentencePlan/sentencePlanUtils'
 import { AuditEvent, activeGoalWithSteps, expectAuditEvent } from './helpers'
 
 test.describe('Update Steps', () => {
@@ -18,7 +18,7 @@ test.describe('Update Steps', () => {
     const goalUuid = plan.goals[0].uuid
 
     await navigateToSentencePlan(page, handoverLink)
-    await page.goto(sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid))
+    await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid)))
 
     const updatePage = await UpdateGoalAndStepsPage.verifyOnPage(page)
     await updatePage.setStepStatusByIndex(0, 'IN_PROGRESS')
@@ -43,7 +43,7 @@ test.describe('Update Steps', () => {
     const goalUuid = plan.goals[0].uuid
 
     await navigateToSentencePlan(page, handoverLink)
-    await page.goto(sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid))
+    await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid)))
 
     const updatePage = await UpdateGoalAndStepsPage.verifyOnPage(page)
     await updatePage.clickMarkAsAchieved()
@@ -3,7 +3,7 @@ import { test, TargetService } from '../../../support/fixtures'
 import { currentGoals } from '../../../builders/sentencePlanFactories'
 import AddStepsPage from '../../../pages/sentencePlan/addStepsPage'
 import CreateGoalPage from '../../../pages/sentencePlan/createGoalPage'
-import { navigateToSentencePlan, sentencePlanV1UrlBuilders } from '../../sentencePlan/sentencePlanUtils'
+import { caseUrl, navigateToSentencePlan, sentencePlanV1UrlBuilders } from '../../sentencePlan/sentencePlanUtils'
 import { AuditEvent, expectAuditEvent } from './helpers'
 
 test.describe('Add or Change Steps', () => {
@@ -20,7 +20,7 @@ test.describe('Add or Change Steps', () => {
     const goalUuid = plan.goals[0].uuid
 
     await navigateToSentencePlan(page, handoverLink)
-    await page.goto(sentencePlanV1UrlBuilders.goalAddSteps(goalUuid))
+    await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalAddSteps(goalUuid)))
 
     const addStepsPage = await AddStepsPage.verifyOnPage(page)
     await addStepsPage.enterStep(0, 'probation_practitioner', 'test')
@@ -35,7 +35,7 @@ test.describe('Add or Change Steps', () => {
     const { crn, handoverLink } = await createSession({ targetService: TargetService.SENTENCE_PLAN })
 
     await navigateToSentencePlan(page, handoverLink)
-    await page.goto(sentencePlanV1UrlBuilders.goalCreate('accommodation'))
+    await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalCreate('accommodation')))
 
     const createGoalPage = await CreateGoalPage.verifyOnPage(page)
     await createGoalPage.enterGoalTitle('Audit test goal with steps')
@@ -0,0 +1,49 @@
+import { expect } from '@playwright/test'
+import { test, TargetService } from '../../../support/fixtures'
+import { currentGoals } from '../../../builders/sentencePlanFactories'
+import PlanOverviewPage from '../../../pages/sentencePlan/planOverviewPage'
+import { caseUrl, navigateToSentencePlan } from '../../sentencePlan/sentencePlanUtils'
+import { AuditEvent, expectAuditEvent } from './helpers'
+
+test.describe('Export plan data', () => {
+  test('downloading the plan as CSV sends an audit event with the format', async ({
+    page,
+    createSession,
+    sentencePlanBuilder,
+    auditQueue,
+  }) => {
+    const { crn, sentencePlanId, handoverLink } = await createSession({
+      targetService: TargetService.SENTENCE_PLAN,
+    })
+    await sentencePlanBuilder.extend(sentencePlanId).withGoals(currentGoals(1)).save()
+
+    await navigateToSentencePlan(page, handoverLink)
+    await PlanOverviewPage.verifyOnPage(page)
+
+    const response = await page.request.get(caseUrl(page, '/sentence-plan/v1.0/plan/export-data/csv'))
+    expect(response.status()).toBe(200)
+    expect(response.headers()['content-type']).toContain('text/csv')
+
+    const event = await auditQueue.waitForAuditEvent(crn, AuditEvent.EXPORT_PLAN_DATA)
+    expectAuditEvent(event)
+    expect(event.details.format).toBe('csv')
+  })
+
+  test('browsing to the export data page shows the plan overview instead of the plan data', async ({
+    page,
+    createSession,
+    sentencePlanBuilder,
+  }) => {
+    const { sentencePlanId, handoverLink } = await createSession({
+      targetService: TargetService.SENTENCE_PLAN,
+    })
+    await sentencePlanBuilder.extend(sentencePlanId).withGoals(currentGoals(1)).save()
+
+    await navigateToSentencePlan(page, handoverLink)
+    await PlanOverviewPage.verifyOnPage(page)
+
+    await page.goto(caseUrl(page, '/sentence-plan/v1.0/plan/export-data?format=json'))
+
+    await PlanOverviewPage.verifyOnPage(page)
+  })
+})
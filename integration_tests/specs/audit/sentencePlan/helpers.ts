@@ -9,6 +9,7 @@ export enum AuditEvent {
   VIEW_PLAN_OVERVIEW = 'VIEW_PLAN_OVERVIEW',
   VIEW_SELECT_AREA_OF_NEED = 'VIEW_SELECT_AREA_OF_NEED',
   PRINT_ALL_GOALS = 'PRINT_ALL_GOALS',
+  EXPORT_PLAN_DATA = 'EXPORT_PLAN_DATA',
   VIEW_CREATE_GOAL = 'VIEW_CREATE_GOAL',
   CREATE_GOAL = 'CREATE_GOAL',
   VIEW_CHANGE_GOAL = 'VIEW_CHANGE_GOAL',
@@ -29,11 +30,13 @@ export enum AuditEvent {
   VIEW_CONFIRM_RE_ADD_GOAL = 'VIEW_CONFIRM_RE_ADD_GOAL',
   CREATE_RE_ADD_GOAL = 'CREATE_RE_ADD_GOAL',
   VIEW_INACTIVE_GOAL = 'VIEW_INACTIVE_GOAL',
+  VIEW_GOAL_HISTORY = 'VIEW_GOAL_HISTORY',
   VIEW_ABOUT_PERSON = 'VIEW_ABOUT_PERSON',
   VIEW_SUPERVISION_PACKAGE = 'VIEW_SUPERVISION_PACKAGE',
   VIEW_PLAN_HISTORY = 'VIEW_PLAN_HISTORY',
   VIEW_PREVIOUS_VERSIONS = 'VIEW_PREVIOUS_VERSIONS',
   VIEW_HISTORIC_PLAN = 'VIEW_HISTORIC_PLAN',
+  VIEW_PLAN_COMPARISON = 'VIEW_PLAN_COMPARISON',
   VIEW_HISTORIC_ASSESSMENT = 'VIEW_HISTORIC_ASSESSMENT',
 }
 
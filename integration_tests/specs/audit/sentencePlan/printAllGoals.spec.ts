@@ -1,5 +1,6 @@
 import { test, TargetService } from '../../../support/fixtures'
 import { currentGoals } from '../../../builders/sentencePlanFactories'
+import ExportOptionsPage from '../../../pages/sentencePlan/exportOptionsPage'
 import PlanOverviewPage from '../../../pages/sentencePlan/planOverviewPage'
 import PrintPreviewPage from '../../../pages/sentencePlan/printPreviewPage'
 import { navigateToSentencePlan } from '../../sentencePlan/sentencePlanUtils'
@@ -21,6 +22,8 @@ test.describe('Print all goals', () => {
     const planOverviewPage = await PlanOverviewPage.verifyOnPage(page)
 
     const [newPage] = await Promise.all([page.waitForEvent('popup'), planOverviewPage.printAllGoalsButton.click()])
+    const exportOptionsPage = await ExportOptionsPage.verifyOnPage(newPage)
+    await exportOptionsPage.clickContinue()
     await PrintPreviewPage.verifyOnPage(newPage)
 
     const event = await auditQueue.waitForAuditEvent(crn, AuditEvent.PRINT_ALL_GOALS)
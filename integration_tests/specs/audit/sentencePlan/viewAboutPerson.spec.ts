@@ -1,5 +1,5 @@
 import { test, TargetService } from '../../../support/fixtures'
-import { navigateToSentencePlan, sentencePlanV1URLs } from '../../sentencePlan/sentencePlanUtils'
+import { caseUrl, navigateToSentencePlan, sentencePlanV1URLs } from '../../sentencePlan/sentencePlanUtils'
 import { AuditEvent, expectAuditEvent } from './helpers'
 
 test.describe('View About Page', () => {
@@ -11,7 +11,7 @@ test.describe('View About Page', () => {
     await sentencePlanBuilder.extend(sentencePlanId).save()
 
     await navigateToSentencePlan(page, handoverLink)
-    await page.goto(sentencePlanV1URLs.ABOUT_PERSON)
+    await page.goto(caseUrl(page, sentencePlanV1URLs.ABOUT_PERSON))
 
     const event = await auditQueue.waitForAuditEvent(crn, AuditEvent.VIEW_ABOUT_PERSON)
     expectAuditEvent(event)
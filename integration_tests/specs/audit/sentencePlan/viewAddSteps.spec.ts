@@ -1,7 +1,7 @@
 import { test, TargetService } from '../../../support/fixtures'
 import { currentGoals } from '../../../builders/sentencePlanFactories'
 import AddStepsPage from '../../../pages/sentencePlan/addStepsPage'
-import { navigateToSentencePlan, sentencePlanV1UrlBuilders } from '../../sentencePlan/sentencePlanUtils'
+import { caseUrl, navigateToSentencePlan, sentencePlanV1UrlBuilders } from '../../sentencePlan/sentencePlanUtils'
 import { AuditEvent, expectAuditEvent } from './helpers'
 
 test.describe('View Add or Change Steps', () => {
@@ -13,7 +13,7 @@ test.describe('View Add or Change Steps', () => {
     const goalUuid = plan.goals[0].uuid
 
     await navigateToSentencePlan(page, handoverLink)
-    await page.goto(sentencePlanV1UrlBuilders.goalAddSteps(goalUuid))
+    await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalAddSteps(goalUuid)))
     await AddStepsPage.verifyOnPage(page)
 
     const event = await auditQueue.waitForAuditEvent(crn, AuditEvent.VIEW_ADD_STEPS)
@@ -1,7 +1,7 @@
 import { test, TargetService } from '../../../support/fixtures'
 import { currentGoals } from '../../../builders/sentencePlanFactories'
 import ChangeGoalPage from '../../../pages/sentencePlan/changeGoalPage'
-import { navigateToSentencePlan, sentencePlanV1UrlBuilders } from '../../sentencePlan/sentencePlanUtils'
+import { caseUrl, navigateToSentencePlan, sentencePlanV1UrlBuilders } from '../../sentencePlan/sentencePlanUtils'
 import { AuditEvent, expectAuditEvent } from './helpers'
 
 test.describe('View Change a Goal page', () => {
@@ -13,7 +13,7 @@ test.describe('View Change a Goal page', () => {
     const goalUuid = plan.goals[0].uuid
 
     await navigateToSentencePlan(page, handoverLink)
-    await page.goto(sentencePlanV1UrlBuilders.goalChange(goalUuid))
+    await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalChange(goalUuid)))
     await ChangeGoalPage.verifyOnPage(page)
 
     const event = await auditQueue.waitForAuditEvent(crn, AuditEvent.VIEW_CHANGE_GOAL)
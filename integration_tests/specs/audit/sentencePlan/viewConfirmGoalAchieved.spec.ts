@@ -1,6 +1,6 @@
 import { test, TargetService } from '../../../support/fixtures'
 import ConfirmAchievedGoalPage from '../../../pages/sentencePlan/confirmAchievedGoalPage'
-import { navigateToSentencePlan, sentencePlanV1UrlBuilders } from '../../sentencePlan/sentencePlanUtils'
+import { caseUrl, navigateToSentencePlan, sentencePlanV1UrlBuilders } from '../../sentencePlan/sentencePlanUtils'
 import { AuditEvent, activeGoalWithSteps, expectAuditEvent } from './helpers'
 
 test.describe('View Mark Goal as achieved confirmation', () => {
@@ -16,7 +16,7 @@ test.describe('View Mark Goal as achieved confirmation', () => {
     const goalUuid = plan.goals[0].uuid
 
     await navigateToSentencePlan(page, handoverLink)
-    await page.goto(sentencePlanV1UrlBuilders.goalConfirmAchieved(goalUuid))
+    await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalConfirmAchieved(goalUuid)))
     await ConfirmAchievedGoalPage.verifyOnPage(page)
 
     const event = await auditQueue.waitForAuditEvent(crn, AuditEvent.VIEW_CONFIRM_GOAL_ACHIEVED)
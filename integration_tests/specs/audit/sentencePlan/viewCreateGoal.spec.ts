@@ -1,7 +1,7 @@
 import { expect } from '@playwright/test'
 import { test, TargetService } from '../../../support/fixtures'
 import CreateGoalPage from '../../../pages/sentencePlan/createGoalPage'
-import { navigateToSentencePlan, sentencePlanV1UrlBuilders } from '../../sentencePlan/sentencePlanUtils'
+import { caseUrl, navigateToSentencePlan, sentencePlanV1UrlBuilders } from '../../sentencePlan/sentencePlanUtils'
 import { AuditEvent, expectAuditEvent } from './helpers'
 
 test.describe('View Create a Goal page', () => {
@@ -9,7 +9,7 @@ test.describe('View Create a Goal page', () => {
     const { crn, handoverLink } = await createSession({ targetService: TargetService.SENTENCE_PLAN })
 
     await navigateToSentencePlan(page, handoverLink)
-    await page.goto(sentencePlanV1UrlBuilders.goalCreate('accommodation'))
+    await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalCreate('accommodation')))
     await CreateGoalPage.verifyOnPage(page)
 
     const event = await auditQueue.waitForAuditEvent(crn, AuditEvent.VIEW_CREATE_GOAL)
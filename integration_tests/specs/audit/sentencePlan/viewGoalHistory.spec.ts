@@ -0,0 +1,25 @@
+import { expect } from '@playwright/test'
+import { test, TargetService } from '../../../support/fixtures'
+import { caseUrl, navigateToSentencePlan, sentencePlanV1UrlBuilders } from '../../sentencePlan/sentencePlanUtils'
+import { AuditEvent, activeGoalWithSteps, expectAuditEvent } from './helpers'
+
+test.describe('View Goal History', () => {
+  test('viewing goal history', async ({ page, createSession, sentencePlanBuilder, auditQueue }) => {
+    const { sentencePlanId, crn, handoverLink } = await createSession({
+      targetService: TargetService.SENTENCE_PLAN,
+    })
+    const plan = await sentencePlanBuilder
+      .extend(sentencePlanId)
+      .withGoals(activeGoalWithSteps())
+      .withAgreementStatus('AGREED')
+      .save()
+    const goalUuid = plan.goals[0].uuid
+
+    await navigateToSentencePlan(page, handoverLink)
+    await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalHistory(goalUuid)))
+
+    const event = await auditQueue.waitForAuditEvent(crn, AuditEvent.VIEW_GOAL_HISTORY)
+    expectAuditEvent(event, goalUuid)
+    expect(event.details.goalStatus).toBe('ACTIVE')
+  })
+})
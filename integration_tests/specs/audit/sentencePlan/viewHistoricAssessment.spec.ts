@@ -0,0 +1,25 @@
+import { expect } from '@playwright/test'
+import { test, TargetService } from '../../../support/fixtures'
+import { caseUrl, navigateToSentencePlan, sentencePlanV1UrlBuilders } from '../../sentencePlan/sentencePlanUtils'
+import coordinatorApi from '../../../mockApis/coordinatorApi'
+import { AuditEvent, expectAuditEvent } from './helpers'
+
+test.describe('View Historic Assessment', () => {
+  test('visiting a previous assessment version', async ({ page, createSession, sentencePlanBuilder, auditQueue }) => {
+    const { sentencePlanId, crn, handoverLink } = await createSession({
+      targetService: TargetService.SENTENCE_PLAN,
+      assessmentType: 'SAN_SP',
+    })
+    await sentencePlanBuilder.extend(sentencePlanId).save()
+
+    const versionUuid = 'c3d4e5f6-a7b8-9012-cdef-123456789012'
+    await coordinatorApi.stubGetAssessmentVersion(versionUuid, { sentencePlanId })
+
+    await navigateToSentencePlan(page, handoverLink)
+    await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.assessmentVersion(versionUuid)))
+
+    const event = await auditQueue.waitForAuditEvent(crn, AuditEvent.VIEW_HISTORIC_ASSESSMENT)
+    expectAuditEvent(event)
+    expect(event.details.assessmentVersionUuid).toBe(versionUuid)
+  })
+})
@@ -1,7 +1,7 @@
 import { expect } from '@playwright/test'
 import { test, TargetService } from '../../../support/fixtures'
 import { removedGoals } from '../../../builders/sentencePlanFactories'
-import { navigateToSentencePlan, sentencePlanV1UrlBuilders } from '../../sentencePlan/sentencePlanUtils'
+import { caseUrl, navigateToSentencePlan, sentencePlanV1UrlBuilders } from '../../sentencePlan/sentencePlanUtils'
 import { AuditEvent, achievedGoals, expectAuditEvent } from './helpers'
 
 test.describe('View Goal Details', () => {
@@ -17,7 +17,7 @@ test.describe('View Goal Details', () => {
     const goalUuid = plan.goals[0].uuid
 
     await navigateToSentencePlan(page, handoverLink)
-    await page.goto(sentencePlanV1UrlBuilders.goalViewInactive(goalUuid))
+    await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalViewInactive(goalUuid)))
 
     const event = await auditQueue.waitForAuditEvent(crn, AuditEvent.VIEW_INACTIVE_GOAL)
     expectAuditEvent(event, goalUuid)
@@ -36,7 +36,7 @@ test.describe('View Goal Details', () => {
     const goalUuid = plan.goals[0].uuid
 
     await navigateToSentencePlan(page, handoverLink)
-    await page.goto(sentencePlanV1UrlBuilders.goalViewInactive(goalUuid))
+    await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalViewInactive(goalUuid)))
 
     const event = await auditQueue.waitForAuditEvent(crn, AuditEvent.VIEW_INACTIVE_GOAL)
     expectAuditEvent(event, goalUuid)
@@ -0,0 +1,26 @@
+import { expect } from '@playwright/test'
+import { test, TargetService } from '../../../support/fixtures'
+import { caseUrl, navigateToSentencePlan, sentencePlanV1UrlBuilders } from '../../sentencePlan/sentencePlanUtils'
+import { AuditEvent, expectAuditEvent } from './helpers'
+
+test.describe('Compares versions of Sentence Plan', () => {
+  test('comparing two plan versions', async ({ page, createSession, sentencePlanBuilder, auditQueue }) => {
+    const { sentencePlanId, crn, handoverLink } = await createSession({
+      targetService: TargetService.SENTENCE_PLAN,
+    })
+
+    // Backdate events so there is a version to compare the current plan against
+    const versionDate = new Date(2026, 0, 1, 9)
+    const versionDateEnd = new Date(2026, 0, 1, 17)
+
+    await sentencePlanBuilder.extend(sentencePlanId).withEventsBackdated(versionDate, versionDateEnd).save()
+
+    await navigateToSentencePlan(page, handoverLink)
+    await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.planCompare(versionDateEnd.getTime(), Date.now())))
+
+    const event = await auditQueue.waitForAuditEvent(crn, AuditEvent.VIEW_PLAN_COMPARISON)
+    expectAuditEvent(event)
+    expect(event.details.fromPlanVersionTimestamp).toBe(String(versionDateEnd.getTime()))
+    expect(event.details.toPlanVersionTimestamp).toBeDefined()
+  })
+})
@@ -1,6 +1,6 @@
 import { test, TargetService } from '../../../support/fixtures'
 import { currentGoalsWithCompletedSteps } from '../../../builders/sentencePlanFactories'
-import { navigateToSentencePlan, sentencePlanV1URLs } from '../../sentencePlan/sentencePlanUtils'
+import { caseUrl, navigateToSentencePlan, sentencePlanV1URLs } from '../../sentencePlan/sentencePlanUtils'
 import { AuditEvent, expectAuditEvent } from './helpers'
 
 test.describe('View Plan History Page', () => {
@@ -15,7 +15,7 @@ test.describe('View Plan History Page', () => {
       .save()
 
     await navigateToSentencePlan(page, handoverLink)
-    await page.goto(sentencePlanV1URLs.PLAN_HISTORY)
+    await page.goto(caseUrl(page, sentencePlanV1URLs.PLAN_HISTORY))
 
     const event = await auditQueue.waitForAuditEvent(crn, AuditEvent.VIEW_PLAN_HISTORY)
     expectAuditEvent(event)
@@ -2,7 +2,7 @@ import { expect } from '@playwright/test'
 import { test, TargetService } from '../../../support/fixtures'
 import { currentGoals, mixedGoals, removedGoals } from '../../../builders/sentencePlanFactories'
 import PlanOverviewPage from '../../../pages/sentencePlan/planOverviewPage'
-import { navigateToSentencePlan, sentencePlanV1URLs } from '../../sentencePlan/sentencePlanUtils'
+import { caseUrl, navigateToSentencePlan, sentencePlanV1URLs } from '../../sentencePlan/sentencePlanUtils'
 import { AuditEvent, achievedGoals, expectAuditEvent } from './helpers'
 
 test.describe('View Plan Overview page', () => {
@@ -44,7 +44,7 @@ test.describe('View Plan Overview page', () => {
     await sentencePlanBuilder.extend(sentencePlanId).withGoals(achievedGoals()).withAgreementStatus('AGREED').save()
 
     await navigateToSentencePlan(page, handoverLink)
-    await page.goto(`${sentencePlanV1URLs.PLAN_OVERVIEW}?goalStatusTab=achieved`)
+    await page.goto(caseUrl(page, `${sentencePlanV1URLs.PLAN_OVERVIEW}?goalStatusTab=achieved`))
     await PlanOverviewPage.verifyOnPage(page)
 
     const event = await auditQueue.waitForAuditEvent(crn, AuditEvent.VIEW_PLAN_OVERVIEW, {
@@ -60,7 +60,7 @@ test.describe('View Plan Overview page', () => {
     await sentencePlanBuilder.extend(sentencePlanId).withGoals(removedGoals(1)).withAgreementStatus('AGREED').save()
 
     await navigateToSentencePlan(page, handoverLink)
-    await page.goto(`${sentencePlanV1URLs.PLAN_OVERVIEW}?goalStatusTab=removed`)
+    await page.goto(caseUrl(page, `${sentencePlanV1URLs.PLAN_OVERVIEW}?goalStatusTab=removed`))
     await PlanOverviewPage.verifyOnPage(page)
 
     const event = await auditQueue.waitForAuditEvent(crn, AuditEvent.VIEW_PLAN_OVERVIEW, {
@@ -1,5 +1,5 @@
 import { test, TargetService } from '../../../support/fixtures'
-import { navigateToSentencePlan, sentencePlanV1URLs } from '../../sentencePlan/sentencePlanUtils'
+import { caseUrl, navigateToSentencePlan, sentencePlanV1URLs } from '../../sentencePlan/sentencePlanUtils'
 import { AuditEvent, expectAuditEvent } from './helpers'
 
 test.describe('View Supervision Package Page', () => {
@@ -10,7 +10,7 @@ test.describe('View Supervision Package Page', () => {
     await sentencePlanBuilder.extend(sentencePlanId).save()
 
     await navigateToSentencePlan(page, handoverLink)
-    await page.goto(sentencePlanV1URLs.SUPERVISION_PACKAGE)
+    await page.goto(caseUrl(page, sentencePlanV1URLs.SUPERVISION_PACKAGE))
 
     const event = await auditQueue.waitForAuditEvent(crn, AuditEvent.VIEW_SUPERVISION_PACKAGE)
     expectAuditEvent(event)
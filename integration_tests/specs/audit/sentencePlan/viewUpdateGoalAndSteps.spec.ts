@@ -1,6 +1,6 @@
 import { test, TargetService } from '../../../support/fixtures'
 import UpdateGoalAndStepsPage from '../../../pages/sentencePlan/updateGoalAndStepsPage'
-import { navigateToSentencePlan, sentencePlanV1UrlBuilders } from '../../sentencePlan/sentencePlanUtils'
+import { caseUrl, navigateToSentencePlan, sentencePlanV1UrlBuilders } from '../../sentencePlan/sentencePlanUtils'
 import { AuditEvent, activeGoalWithSteps, expectAuditEvent } from './helpers'
 
 test.describe('View Update Goal and Steps page', () => {
@@ -16,7 +16,7 @@ test.describe('View Update Goal and Steps page', () => {
     const goalUuid = plan.goals[0].uuid
 
     await navigateToSentencePlan(page, handoverLink)
-    await page.goto(sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid))
+    await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid)))
     await UpdateGoalAndStepsPage.verifyOnPage(page)
 
     const event = await auditQueue.waitForAuditEvent(crn, AuditEvent.VIEW_UPDATE_GOAL_AND_STEPS)
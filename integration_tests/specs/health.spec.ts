@@ -20,6 +20,15 @@ test.describe('Health', () => {
       expect(Object.keys(payload.components)).not.toContain('supervisionPackageApi')
     })
 
+    test('Health check reports the domain events outbox without it affecting the status', async ({ page }) => {
+      const response = await page.request.get('/health')
+      const payload = await response.json()
+
+      expect(payload.components.domainEventsOutbox.status).toBe('UP')
+      expect(payload.components.domainEventsOutbox.details.pending).toEqual(expect.any(Number))
+      expect(payload.components.domainEventsOutbox.details.deadLettered).toEqual(expect.any(Number))
+    })
+
     test('Ping is accessible and status is UP', async ({ page }) => {
       const response = await page.request.get('/ping')
       const payload = await response.json()
@@ -1,6 +1,11 @@
 import { expect } from '@playwright/test'
 import { test, TargetService } from '../../../support/fixtures'
-import { navigateToSentencePlan, navigateToPlanOverviewViaMpop, sentencePlanV1URLs } from '../sentencePlanUtils'
+import {
+  caseUrl,
+  navigateToSentencePlan,
+  navigateToPlanOverviewViaMpop,
+  sentencePlanV1URLs,
+} from '../sentencePlanUtils'
 
 test.describe('About Person Tab', () => {
   test.describe('SAN_SP assessment type (private beta)', () => {
@@ -26,8 +31,8 @@ test.describe('About Person Tab', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1URLs.ABOUT_PERSON)
-      await expect(page).toHaveURL(sentencePlanV1URLs.ABOUT_PERSON)
+      await page.goto(caseUrl(page, sentencePlanV1URLs.ABOUT_PERSON))
+      await expect(page).toHaveURL(caseUrl(page, sentencePlanV1URLs.ABOUT_PERSON))
     })
 
     test('shows "view information from assessment" link on plan overview', async ({
@@ -74,7 +79,7 @@ test.describe('About Person Tab', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1URLs.ABOUT_PERSON)
+      await page.goto(caseUrl(page, sentencePlanV1URLs.ABOUT_PERSON))
       await expect(page).toHaveURL(/\/plan\/overview/)
     })
 
@@ -112,7 +117,7 @@ test.describe('About Person Tab', () => {
     })
 
     test('redirects to plan overview when visiting About page directly', async ({ page }) => {
-      await page.goto(sentencePlanV1URLs.ABOUT_PERSON)
+      await page.goto(caseUrl(page, sentencePlanV1URLs.ABOUT_PERSON))
       await expect(page).toHaveURL(/\/plan\/overview/)
     })
 
@@ -139,7 +144,7 @@ test.describe('About Person Tab', () => {
     })
 
     test('redirects to plan overview when visiting About page directly', async ({ page }) => {
-      await page.goto(sentencePlanV1URLs.ABOUT_PERSON)
+      await page.goto(caseUrl(page, sentencePlanV1URLs.ABOUT_PERSON))
       await expect(page).toHaveURL(/\/plan\/overview/)
     })
 
@@ -5,6 +5,7 @@ import PlanOverviewPage from '../../pages/sentencePlan/planOverviewPage'
 import { currentGoalsWithCompletedSteps } from '../../builders/sentencePlanFactories'
 import {
   buildPageTitle,
+  caseUrl,
   checkAccessibility,
   getDatePlusDaysAsISO,
   navigateToSentencePlan,
@@ -25,7 +26,7 @@ test.describe('Achieve goal journey', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Navigate to confirm-achieved-goal page
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-achieved-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-achieved-goal`))
 
       const achievePage = await ConfirmAchievedGoalPage.verifyOnPage(page)
 
@@ -54,7 +55,7 @@ test.describe('Achieve goal journey', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Navigate to confirm-achieved-goal page
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-achieved-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-achieved-goal`))
 
       const achievePage = await ConfirmAchievedGoalPage.verifyOnPage(page)
 
@@ -75,7 +76,7 @@ test.describe('Achieve goal journey', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Navigate to confirm-achieved-goal page
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-achieved-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-achieved-goal`))
 
       const achievePage = await ConfirmAchievedGoalPage.verifyOnPage(page)
 
@@ -104,7 +105,7 @@ test.describe('Achieve goal journey', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Navigate to confirm-achieved-goal page
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-achieved-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-achieved-goal`))
 
       const achievePage = await ConfirmAchievedGoalPage.verifyOnPage(page)
 
@@ -136,7 +137,7 @@ test.describe('Achieve goal journey', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Navigate to confirm-achieved-goal page
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-achieved-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-achieved-goal`))
 
       const achievePage = await ConfirmAchievedGoalPage.verifyOnPage(page)
 
@@ -159,7 +160,7 @@ test.describe('Achieve goal journey', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Navigate to confirm-achieved-goal page
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-achieved-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-achieved-goal`))
 
       const achievePage = await ConfirmAchievedGoalPage.verifyOnPage(page)
 
@@ -194,7 +195,7 @@ test.describe('Achieve goal journey', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Navigate to confirm-achieved-goal page and confirm
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-achieved-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-achieved-goal`))
       const achievePage = await ConfirmAchievedGoalPage.verifyOnPage(page)
       await achievePage.clickConfirm()
 
@@ -250,12 +251,12 @@ test.describe('Achieve goal journey', () => {
 
       // Navigate to confirm-achieved-goal page for first goal and confirm
       const goalUuid = plan.goals[0].uuid
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-achieved-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-achieved-goal`))
       const achievePage = await ConfirmAchievedGoalPage.verifyOnPage(page)
       await achievePage.clickConfirm()
 
       // Navigate to current goals tab
-      await page.goto('/sentence-plan/v1.0/plan/overview?goalStatusTab=current')
+      await page.goto(caseUrl(page, '/sentence-plan/v1.0/plan/overview?goalStatusTab=current'))
 
       // Verify only 1 goal remains in current goals
       planOverviewPage = await PlanOverviewPage.verifyOnPage(page)
@@ -279,7 +280,7 @@ test.describe('Achieve goal journey', () => {
       const goalUuid = plan.goals[0].uuid
 
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-achieved-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-achieved-goal`))
 
       // Should redirect to plan overview since achieved is only for agreed plans
       await PlanOverviewPage.verifyOnPage(page)
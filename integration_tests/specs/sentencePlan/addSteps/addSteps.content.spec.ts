@@ -8,6 +8,7 @@ import UpdateGoalAndStepsPage from '../../../pages/sentencePlan/updateGoalAndSte
 import { currentGoals, futureGoals } from '../../../builders/sentencePlanFactories'
 import {
   buildPageTitle,
+  caseUrl,
   checkAccessibility,
   getDatePlusDaysAsISO,
   navigateToSentencePlan,
@@ -21,7 +22,7 @@ test.describe('Add or update steps page', () => {
       const { handoverLink } = await createSession({ targetService: TargetService.SENTENCE_PLAN })
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto('/sentence-plan/v1.0/goal/new/add-goal/accommodation')
+      await page.goto(caseUrl(page, '/sentence-plan/v1.0/goal/new/add-goal/accommodation'))
 
       const createGoalPage = await CreateGoalPage.verifyOnPage(page)
       await createGoalPage.enterGoalTitle('Test goal heading')
@@ -58,7 +59,7 @@ test.describe('Add or update steps page', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalAddSteps(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalAddSteps(goalUuid)))
 
       const addStepsPage = await AddStepsPage.verifyOnPage(page)
       await expect(addStepsPage.pageHeading).toHaveText('Add or update steps')
@@ -88,7 +89,7 @@ test.describe('Add or update steps page', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalAddSteps(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalAddSteps(goalUuid)))
 
       const addStepsPage = await AddStepsPage.verifyOnPage(page)
       await expect(addStepsPage.pageHeading).toHaveText('Add steps')
@@ -112,7 +113,7 @@ test.describe('Add or update steps page', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalAddSteps(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalAddSteps(goalUuid)))
 
       const addStepsPage = await AddStepsPage.verifyOnPage(page)
 
@@ -147,7 +148,7 @@ test.describe('Add or update steps page', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalAddSteps(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalAddSteps(goalUuid)))
 
       const addStepsPage = await AddStepsPage.verifyOnPage(page)
 
@@ -177,7 +178,7 @@ test.describe('Add or update steps page', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalAddSteps(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalAddSteps(goalUuid)))
 
       const addStepsPage = await AddStepsPage.verifyOnPage(page)
 
@@ -225,7 +226,7 @@ test.describe('Add or update steps page', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalAddSteps(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalAddSteps(goalUuid)))
 
       const addStepsPage = await AddStepsPage.verifyOnPage(page)
 
@@ -244,7 +245,7 @@ test.describe('Add or update steps page', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalAddSteps(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalAddSteps(goalUuid)))
 
       await AddStepsPage.verifyOnPage(page)
       await checkAccessibility(page)
@@ -6,6 +6,7 @@ import { currentGoals, currentGoalsWithCompletedSteps } from '../../builders/sen
 import {
   buildErrorPageTitle,
   buildPageTitle,
+  caseUrl,
   checkAccessibility,
   navigateToSentencePlan,
   sentencePlanPageTitles,
@@ -131,7 +132,7 @@ test.describe('Agree plan journey', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Navigate to agree plan page
-      await page.goto(sentencePlanV1URLs.PLAN_AGREE)
+      await page.goto(caseUrl(page, sentencePlanV1URLs.PLAN_AGREE))
       const agreePlanPage = await AgreePlanPage.verifyOnPage(page)
 
       // Click save without selecting an option
@@ -159,7 +160,7 @@ test.describe('Agree plan journey', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Navigate to agree plan page
-      await page.goto(sentencePlanV1URLs.PLAN_AGREE)
+      await page.goto(caseUrl(page, sentencePlanV1URLs.PLAN_AGREE))
       const agreePlanPage = await AgreePlanPage.verifyOnPage(page)
 
       // Select No option
@@ -190,7 +191,7 @@ test.describe('Agree plan journey', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Navigate to agree plan page
-      await page.goto(sentencePlanV1URLs.PLAN_AGREE)
+      await page.goto(caseUrl(page, sentencePlanV1URLs.PLAN_AGREE))
       const agreePlanPage = await AgreePlanPage.verifyOnPage(page)
 
       // Select Could not answer option
@@ -219,7 +220,7 @@ test.describe('Agree plan journey', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Navigate to agree plan page
-      await page.goto(sentencePlanV1URLs.PLAN_AGREE)
+      await page.goto(caseUrl(page, sentencePlanV1URLs.PLAN_AGREE))
       const agreePlanPage = await AgreePlanPage.verifyOnPage(page)
 
       await agreePlanPage.selectAgreeYes()
@@ -243,7 +244,7 @@ test.describe('Agree plan journey', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Navigate to agree plan page
-      await page.goto(sentencePlanV1URLs.PLAN_AGREE)
+      await page.goto(caseUrl(page, sentencePlanV1URLs.PLAN_AGREE))
       const agreePlanPage = await AgreePlanPage.verifyOnPage(page)
 
       // Select No
@@ -274,7 +275,7 @@ test.describe('Agree plan journey', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Navigate to agree plan page
-      await page.goto(sentencePlanV1URLs.PLAN_AGREE)
+      await page.goto(caseUrl(page, sentencePlanV1URLs.PLAN_AGREE))
       const agreePlanPage = await AgreePlanPage.verifyOnPage(page)
 
       // Select Could not answer
@@ -320,7 +321,7 @@ test.describe('Agree plan journey', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Navigate to agree plan and agree
-      await page.goto(sentencePlanV1URLs.PLAN_AGREE)
+      await page.goto(caseUrl(page, sentencePlanV1URLs.PLAN_AGREE))
       const agreePlanPage = await AgreePlanPage.verifyOnPage(page)
       await agreePlanPage.selectAgreeYes()
       await agreePlanPage.clickSave()
@@ -3,7 +3,12 @@ import { test, TargetService } from '../../../support/fixtures'
 import CreateGoalPage from '../../../pages/sentencePlan/createGoalPage'
 import ChangeGoalPage from '../../../pages/sentencePlan/changeGoalPage'
 import AddStepsPage from '../../../pages/sentencePlan/addStepsPage'
-import { navigateToSentencePlan, navigateToPlanOverviewViaMpop, getDatePlusDaysAsISO } from '../sentencePlanUtils'
+import {
+  caseUrl,
+  navigateToSentencePlan,
+  navigateToPlanOverviewViaMpop,
+  getDatePlusDaysAsISO,
+} from '../sentencePlanUtils'
 
 test.describe('Assessment Info Details - Access by Assessment Type', () => {
   test.describe('SAN_SP assessment type (private beta)', () => {
@@ -14,7 +19,7 @@ test.describe('Assessment Info Details - Access by Assessment Type', () => {
       })
 
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto('/sentence-plan/v1.0/goal/new/add-goal/accommodation')
+      await page.goto(caseUrl(page, '/sentence-plan/v1.0/goal/new/add-goal/accommodation'))
       const createGoalPage = await CreateGoalPage.verifyOnPage(page)
 
       await expect(createGoalPage.assessmentInfoDetails).toBeVisible()
@@ -87,7 +92,7 @@ test.describe('Assessment Info Details - Access by Assessment Type', () => {
       })
 
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto('/sentence-plan/v1.0/goal/new/add-goal/accommodation')
+      await page.goto(caseUrl(page, '/sentence-plan/v1.0/goal/new/add-goal/accommodation'))
       const createGoalPage = await CreateGoalPage.verifyOnPage(page)
 
       await expect(createGoalPage.assessmentInfoDetails).not.toBeVisible()
@@ -167,7 +172,7 @@ test.describe('Assessment Info Details - Access by Assessment Type', () => {
     })
 
     test('hides assessment info details on create goal page', async ({ page }) => {
-      await page.goto('/sentence-plan/v1.0/goal/new/add-goal/accommodation')
+      await page.goto(caseUrl(page, '/sentence-plan/v1.0/goal/new/add-goal/accommodation'))
       const createGoalPage = await CreateGoalPage.verifyOnPage(page)
 
       await expect(createGoalPage.assessmentInfoDetails).not.toBeVisible()
@@ -211,7 +216,7 @@ test.describe('Assessment Info Details - Access by Assessment Type', () => {
     })
 
     test('hides assessment info details on create goal page', async ({ page }) => {
-      await page.goto('/sentence-plan/v1.0/goal/new/add-goal/accommodation')
+      await page.goto(caseUrl(page, '/sentence-plan/v1.0/goal/new/add-goal/accommodation'))
       const createGoalPage = await CreateGoalPage.verifyOnPage(page)
 
       await expect(createGoalPage.assessmentInfoDetails).not.toBeVisible()
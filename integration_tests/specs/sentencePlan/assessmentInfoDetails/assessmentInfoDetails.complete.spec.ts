@@ -5,7 +5,7 @@ import ChangeGoalPage from '../../../pages/sentencePlan/changeGoalPage'
 import AddStepsPage from '../../../pages/sentencePlan/addStepsPage'
 import PlanOverviewPage from '../../../pages/sentencePlan/planOverviewPage'
 import AboutPage from '../../../pages/sentencePlan/aboutPage'
-import { navigateToSentencePlan, navigateToAboutPage, getDatePlusDaysAsISO } from '../sentencePlanUtils'
+import { caseUrl, navigateToSentencePlan, navigateToAboutPage, getDatePlusDaysAsISO } from '../sentencePlanUtils'
 import coordinatorApi, { SanAssessmentData } from '../../../mockApis/coordinatorApi'
 import { createAssessmentData } from '../../../builders/AssessmentDataFactories'
 
@@ -39,7 +39,7 @@ test.describe('Assessment Info Details - Complete Section', () => {
     })
 
     await navigateToSentencePlan(page, handoverLink)
-    await page.goto('/sentence-plan/v1.0/goal/new/add-goal/accommodation')
+    await page.goto(caseUrl(page, '/sentence-plan/v1.0/goal/new/add-goal/accommodation'))
     const createGoalPage = await CreateGoalPage.verifyOnPage(page)
 
     await expect(createGoalPage.assessmentInfoDetails).toBeVisible()
@@ -96,7 +96,7 @@ test.describe('Assessment Info Details - Complete Section', () => {
     })
 
     await navigateToSentencePlan(page, handoverLink)
-    await page.goto('/sentence-plan/v1.0/goal/new/add-goal/drug-use')
+    await page.goto(caseUrl(page, '/sentence-plan/v1.0/goal/new/add-goal/drug-use'))
     const createGoalPage = await CreateGoalPage.verifyOnPage(page)
 
     expect(await createGoalPage.isAssessmentInfoCollapsed()).toBe(true)
@@ -123,7 +123,7 @@ test.describe('Assessment Info Details - Complete Section', () => {
         const { handoverLink } = await createSession({ targetService: TargetService.SENTENCE_PLAN })
         await navigateToSentencePlan(page, handoverLink)
 
-        await page.goto(`/sentence-plan/v1.0/goal/new/add-goal/${area}`)
+        await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/new/add-goal/${area}`))
         const createGoalPage = await CreateGoalPage.verifyOnPage(page)
 
         await expect(createGoalPage.assessmentInfoDetails).toBeVisible()
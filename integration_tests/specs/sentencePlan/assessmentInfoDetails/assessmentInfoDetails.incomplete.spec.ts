@@ -2,7 +2,7 @@ import { expect } from '@playwright/test'
 import { test, TargetService } from '../../../support/fixtures'
 import CreateGoalPage from '../../../pages/sentencePlan/createGoalPage'
 import AboutPage from '../../../pages/sentencePlan/aboutPage'
-import { navigateToSentencePlan, navigateToAboutPage } from '../sentencePlanUtils'
+import { caseUrl, navigateToSentencePlan, navigateToAboutPage } from '../sentencePlanUtils'
 import coordinatorApi, { SanAssessmentData } from '../../../mockApis/coordinatorApi'
 
 test.describe('Assessment Info Details - Incomplete Section', () => {
@@ -32,7 +32,7 @@ test.describe('Assessment Info Details - Incomplete Section', () => {
     })
 
     await navigateToSentencePlan(page, handoverLink)
-    await page.goto('/sentence-plan/v1.0/goal/new/add-goal/drug-use')
+    await page.goto(caseUrl(page, '/sentence-plan/v1.0/goal/new/add-goal/drug-use'))
     const createGoalPage = await CreateGoalPage.verifyOnPage(page)
 
     await expect(createGoalPage.assessmentInfoDetails).toBeVisible()
@@ -83,7 +83,7 @@ test.describe('Assessment Info Details - Incomplete Section', () => {
     })
 
     await navigateToSentencePlan(page, handoverLink)
-    await page.goto('/sentence-plan/v1.0/goal/new/add-goal/accommodation')
+    await page.goto(caseUrl(page, '/sentence-plan/v1.0/goal/new/add-goal/accommodation'))
     const createGoalPage = await CreateGoalPage.verifyOnPage(page)
 
     await expect(createGoalPage.assessmentInfoDetails).toBeVisible()
@@ -133,7 +133,7 @@ test.describe('Assessment Info Details - Incomplete Section', () => {
     })
 
     await navigateToSentencePlan(page, handoverLink)
-    await page.goto('/sentence-plan/v1.0/goal/new/add-goal/thinking-behaviours-and-attitudes')
+    await page.goto(caseUrl(page, '/sentence-plan/v1.0/goal/new/add-goal/thinking-behaviours-and-attitudes'))
     const createGoalPage = await CreateGoalPage.verifyOnPage(page)
 
     await expect(createGoalPage.assessmentInfoDetails).toBeVisible()
@@ -182,7 +182,7 @@ test.describe('Assessment Info Details - Incomplete Section', () => {
     })
 
     await navigateToSentencePlan(page, handoverLink)
-    await page.goto('/sentence-plan/v1.0/goal/new/add-goal/finances')
+    await page.goto(caseUrl(page, '/sentence-plan/v1.0/goal/new/add-goal/finances'))
     const createGoalPage = await CreateGoalPage.verifyOnPage(page)
 
     expect(await createGoalPage.isAssessmentInfoCollapsed()).toBe(true)
@@ -2,7 +2,7 @@ import { expect } from '@playwright/test'
 import { test, TargetService } from '../../../support/fixtures'
 import CreateGoalPage from '../../../pages/sentencePlan/createGoalPage'
 import AboutPage from '../../../pages/sentencePlan/aboutPage'
-import { navigateToSentencePlan, navigateToAboutPage } from '../sentencePlanUtils'
+import { caseUrl, navigateToSentencePlan, navigateToAboutPage } from '../sentencePlanUtils'
 import coordinatorApi, { SanAssessmentData } from '../../../mockApis/coordinatorApi'
 import { createAssessmentData } from '../../../builders/AssessmentDataFactories'
 
@@ -46,7 +46,7 @@ test.describe('Assessment Info Details - Warnings', () => {
       })
 
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto('/sentence-plan/v1.0/goal/new/add-goal/employment-and-education')
+      await page.goto(caseUrl(page, '/sentence-plan/v1.0/goal/new/add-goal/employment-and-education'))
       const createGoalPage = await CreateGoalPage.verifyOnPage(page)
 
       await expect(createGoalPage.assessmentInfoDetails).toBeVisible()
@@ -66,7 +66,7 @@ test.describe('Assessment Info Details - Warnings', () => {
       await coordinatorApi.stubGetEntityAssessmentError(sentencePlanId)
 
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto('/sentence-plan/v1.0/goal/new/add-goal/accommodation')
+      await page.goto(caseUrl(page, '/sentence-plan/v1.0/goal/new/add-goal/accommodation'))
       const createGoalPage = await CreateGoalPage.verifyOnPage(page)
 
       await expect(createGoalPage.assessmentInfoDetails).toBeVisible()
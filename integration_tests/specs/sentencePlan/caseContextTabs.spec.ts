@@ -0,0 +1,51 @@
+import { expect } from '@playwright/test'
+import { test, TargetService } from '../../support/fixtures'
+import { currentGoals } from '../../builders/sentencePlanFactories'
+import PlanOverviewPage from '../../pages/sentencePlan/planOverviewPage'
+import {
+  caseUrl,
+  handlePrivacyScreenIfPresent,
+  navigateToPlanOverviewViaMpop,
+  sentencePlanV1URLs,
+} from './sentencePlanUtils'
+
+test.describe('Cases open in more than one tab', () => {
+  test('each tab stays on the case it was opened for', async ({ page, createSession, sentencePlanBuilder }) => {
+    const firstCase = await createSession({ targetService: TargetService.SENTENCE_PLAN })
+    await sentencePlanBuilder.extend(firstCase.sentencePlanId).withGoals(currentGoals(1)).save()
+    const secondCase = await createSession({ targetService: TargetService.SENTENCE_PLAN })
+    await sentencePlanBuilder.extend(secondCase.sentencePlanId).withGoals(currentGoals(2)).save()
+
+    await navigateToPlanOverviewViaMpop(page, firstCase.crn)
+    const firstTabOverview = await PlanOverviewPage.verifyOnPage(page)
+    await expect(firstTabOverview.goalCards).toHaveCount(1)
+
+    const secondTab = await page.context().newPage()
+    await secondTab.goto(`${sentencePlanV1URLs.CRN_ENTRY_POINT}/${secondCase.crn}`)
+    await handlePrivacyScreenIfPresent(secondTab)
+    const secondTabOverview = await PlanOverviewPage.verifyOnPage(secondTab)
+    await expect(secondTabOverview.goalCards).toHaveCount(2)
+
+    await page.bringToFront()
+    await page.reload()
+    await expect(firstTabOverview.goalCards).toHaveCount(1)
+
+    await page.goto(caseUrl(page, sentencePlanV1URLs.PLAN_HISTORY))
+    await expect(page).toHaveURL(caseUrl(page, sentencePlanV1URLs.PLAN_HISTORY))
+    await page.goBack()
+    await expect(firstTabOverview.goalCards).toHaveCount(1)
+
+    await secondTab.reload()
+    await expect(secondTabOverview.goalCards).toHaveCount(2)
+  })
+
+  test('rejects plan requests without a case', async ({ page, createSession, sentencePlanBuilder }) => {
+    const { sentencePlanId, crn } = await createSession({ targetService: TargetService.SENTENCE_PLAN })
+    await sentencePlanBuilder.extend(sentencePlanId).save()
+
+    await navigateToPlanOverviewViaMpop(page, crn)
+    const response = await page.request.get(sentencePlanV1URLs.PLAN_OVERVIEW)
+
+    expect(response.status()).toBe(409)
+  })
+})
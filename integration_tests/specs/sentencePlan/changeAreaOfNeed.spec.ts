@@ -6,6 +6,7 @@ import AddStepsPage from '../../pages/sentencePlan/addStepsPage'
 import type { GoalConfig } from '../../builders/types'
 import {
   buildPageTitle,
+  caseUrl,
   getDatePlusDaysAsISO,
   navigateToSentencePlan,
   sentencePlanPageTitles,
@@ -35,7 +36,7 @@ test.describe('Change area of need', () => {
       const goalUuid = plan.goals[0].uuid
 
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto(sentencePlanV1UrlBuilders.goalChange(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalChange(goalUuid)))
 
       const changeGoalPage = await ChangeGoalPage.verifyOnPage(page)
 
@@ -56,7 +57,7 @@ test.describe('Change area of need', () => {
       const goalUuid = plan.goals[0].uuid
 
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto(sentencePlanV1UrlBuilders.goalChange(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalChange(goalUuid)))
 
       const changeGoalPage = await ChangeGoalPage.verifyOnPage(page)
       await changeGoalPage.clickChangeAreaOfNeed()
@@ -74,7 +75,7 @@ test.describe('Change area of need', () => {
       const goalUuid = plan.goals[0].uuid
 
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto(sentencePlanV1UrlBuilders.goalChange(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalChange(goalUuid)))
 
       const changeGoalPage = await ChangeGoalPage.verifyOnPage(page)
       await changeGoalPage.clickAddOrUpdateSteps()
@@ -90,7 +91,7 @@ test.describe('Change area of need', () => {
       const goalUuid = plan.goals[0].uuid
 
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto(sentencePlanV1UrlBuilders.goalChangeArea(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalChangeArea(goalUuid)))
 
       const changeAreaPage = await ChangeAreaOfNeedPage.verifyOnPage(page)
 
@@ -108,7 +109,7 @@ test.describe('Change area of need', () => {
       const goalUuid = plan.goals[0].uuid
 
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto(sentencePlanV1UrlBuilders.goalChangeArea(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalChangeArea(goalUuid)))
 
       const changeAreaPage = await ChangeAreaOfNeedPage.verifyOnPage(page)
       await changeAreaPage.selectAreaAndContinue('finances')
@@ -124,7 +125,7 @@ test.describe('Change area of need', () => {
       await changeGoalPage.saveGoal()
 
       // Re-open the Update goal page fresh (no pending query) — the new area has stuck
-      await page.goto(sentencePlanV1UrlBuilders.goalChange(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalChange(goalUuid)))
       const reloaded = await ChangeGoalPage.verifyOnPage(page)
       expect(await reloaded.getAreaOfNeedInsetText()).toContain('Area of need: finances')
     })
@@ -139,7 +140,7 @@ test.describe('Change area of need', () => {
       const goalUuid = plan.goals[0].uuid
 
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto(sentencePlanV1UrlBuilders.goalChangeArea(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalChangeArea(goalUuid)))
 
       const changeAreaPage = await ChangeAreaOfNeedPage.verifyOnPage(page)
       await changeAreaPage.selectAreaAndContinue('finances')
@@ -149,7 +150,7 @@ test.describe('Change area of need', () => {
       expect(await changeGoalPage.getAreaOfNeedInsetText()).toContain('Area of need: finances')
 
       // Re-open the Update goal page fresh — the area is unchanged
-      await page.goto(sentencePlanV1UrlBuilders.goalChange(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalChange(goalUuid)))
       const reloaded = await ChangeGoalPage.verifyOnPage(page)
       expect(await reloaded.getAreaOfNeedInsetText()).toContain('Area of need: accommodation')
     })
@@ -166,7 +167,7 @@ test.describe('Change area of need', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // A tampered query param that isn't a real area-of-need slug
-      await page.goto(`${sentencePlanV1UrlBuilders.goalChange(goalUuid)}?area=banana`)
+      await page.goto(caseUrl(page, `${sentencePlanV1UrlBuilders.goalChange(goalUuid)}?area=banana`))
 
       const changeGoalPage = await ChangeGoalPage.verifyOnPage(page)
       // The invalid area is ignored — the inset still shows the saved area
@@ -174,7 +175,7 @@ test.describe('Change area of need', () => {
 
       await changeGoalPage.saveGoal()
 
-      await page.goto(sentencePlanV1UrlBuilders.goalChange(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalChange(goalUuid)))
       const reloaded = await ChangeGoalPage.verifyOnPage(page)
       expect(await reloaded.getAreaOfNeedInsetText()).toContain('Area of need: accommodation')
     })
@@ -192,7 +193,7 @@ test.describe('Change area of need', () => {
       const goalUuid = plan.goals[0].uuid
 
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto(sentencePlanV1UrlBuilders.goalChangeArea(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalChangeArea(goalUuid)))
 
       const changeAreaPage = await ChangeAreaOfNeedPage.verifyOnPage(page)
       // Change the primary area to a related area — it should be dropped from the related areas
@@ -208,7 +209,7 @@ test.describe('Change area of need', () => {
       // Select 'no' and persist — confirm the overlap is gone after a fresh reload
       await changeGoalPage.selectIsRelatedToOtherAreas(false)
       await changeGoalPage.saveGoal()
-      await page.goto(sentencePlanV1UrlBuilders.goalChange(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalChange(goalUuid)))
       const reloaded = await ChangeGoalPage.verifyOnPage(page)
       expect(await reloaded.getAreaOfNeedInsetText()).toContain('Area of need: finances')
       await expect(reloaded.isRelatedNo).toBeChecked()
@@ -1,7 +1,7 @@
 import { expect } from '@playwright/test'
 import { test, TargetService } from '../../../support/fixtures'
 import PlanOverviewPage from '../../../pages/sentencePlan/planOverviewPage'
-import { navigateToSentencePlan } from '../sentencePlanUtils'
+import { caseUrl, navigateToSentencePlan } from '../sentencePlanUtils'
 
 test.describe('Top navigation', () => {
   test('should be accessible', async ({ page, createSession, makeAxeBuilder }) => {
@@ -27,7 +27,7 @@ test.describe('Top navigation', () => {
 
     await expect(page.getByRole('link', { name: 'Assess and plan' })).toHaveAttribute(
       'href',
-      '/sentence-plan/v1.0/plan/overview',
+      caseUrl(page, '/sentence-plan/v1.0/plan/overview'),
     )
 
     await expect(planOverviewPage.banner.getByLabel('Account menu')).toMatchAriaSnapshot(`
@@ -51,10 +51,10 @@ test.describe('Top navigation', () => {
             - list:
               - listitem:
                 - link "Test's plan":
-                  - /url: /sentence-plan/v1.0/plan/overview
+                  - /url: ${caseUrl(page, '/sentence-plan/v1.0/plan/overview')}
               - listitem:
                 - link "About Test":
-                  - /url: /sentence-plan/v1.0/about-person
+                  - /url: ${caseUrl(page, '/sentence-plan/v1.0/about-person')}
         `)
 
     await page.getByRole('link', { name: 'About Test' }).click()
@@ -6,6 +6,7 @@ import { currentGoalsWithCompletedSteps } from '../../builders/sentencePlanFacto
 import {
   buildErrorPageTitle,
   buildPageTitle,
+  caseUrl,
   getDatePlusDaysAsISO,
   navigateToSentencePlan,
   sentencePlanPageTitles,
@@ -27,11 +28,11 @@ test.describe('Confirm if achieved page', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid)))
 
       // Draft plans can confirm achievement once every step is completed
       await ConfirmIfAchievedPage.verifyOnPage(page)
-      await expect(page).toHaveURL(sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid))
+      await expect(page).toHaveURL(caseUrl(page, sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid)))
     })
 
     test('redirects to plan overview when not all steps are completed', async ({
@@ -61,9 +62,9 @@ test.describe('Confirm if achieved page', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Direct access is blocked until every step is completed
-      await page.goto(sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid)))
 
-      await expect(page).toHaveURL(planOverviewPageCurrentGoalsTabPath)
+      await expect(page).toHaveURL(caseUrl(page, planOverviewPageCurrentGoalsTabPath))
     })
 
     test('redirects to achieved goals when goal has already been achieved', async ({
@@ -88,10 +89,10 @@ test.describe('Confirm if achieved page', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid)))
 
       await PlanOverviewPage.verifyOnPage(page)
-      await expect(page).toHaveURL(planOverviewPageAchievedGoalsTabPath)
+      await expect(page).toHaveURL(caseUrl(page, planOverviewPageAchievedGoalsTabPath))
     })
 
     test('allows access when plan status is AGREED', async ({ page, createSession, sentencePlanBuilder }) => {
@@ -105,14 +106,14 @@ test.describe('Confirm if achieved page', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid)))
 
       // ensure page title is correct
       await expect(page).toHaveTitle(buildPageTitle(sentencePlanPageTitles.confirmIfAchieved))
 
       // Should be on the confirm-if-achieved page
       await ConfirmIfAchievedPage.verifyOnPage(page)
-      await expect(page).toHaveURL(sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid))
+      await expect(page).toHaveURL(caseUrl(page, sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid)))
     })
 
     test('allows access when plan status is COULD_NOT_ANSWER', async ({ page, createSession, sentencePlanBuilder }) => {
@@ -126,11 +127,11 @@ test.describe('Confirm if achieved page', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid)))
 
       // Should be on the confirm-if-achieved page
       await ConfirmIfAchievedPage.verifyOnPage(page)
-      await expect(page).toHaveURL(sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid))
+      await expect(page).toHaveURL(caseUrl(page, sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid)))
     })
 
     test('allows access when plan status is DO_NOT_AGREE', async ({ page, createSession, sentencePlanBuilder }) => {
@@ -145,11 +146,11 @@ test.describe('Confirm if achieved page', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Try to access confirm-if-achieved page directly
-      await page.goto(sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid)))
 
       // Should be on the confirm-if-achieved page
       await ConfirmIfAchievedPage.verifyOnPage(page)
-      await expect(page).toHaveURL(sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid))
+      await expect(page).toHaveURL(caseUrl(page, sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid)))
     })
   })
 
@@ -165,7 +166,7 @@ test.describe('Confirm if achieved page', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid)))
 
       const confirmPage = await ConfirmIfAchievedPage.verifyOnPage(page)
 
@@ -181,7 +182,7 @@ test.describe('Confirm if achieved page', () => {
       expect(errorText).toContain('Select if they have achieved this goal')
 
       // Should still be on the same page
-      await expect(page).toHaveURL(sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid))
+      await expect(page).toHaveURL(caseUrl(page, sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid)))
     })
   })
 
@@ -197,7 +198,7 @@ test.describe('Confirm if achieved page', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid)))
 
       const confirmPage = await ConfirmIfAchievedPage.verifyOnPage(page)
 
@@ -212,7 +213,7 @@ test.describe('Confirm if achieved page', () => {
       await confirmPage.clickSaveAndContinue()
 
       // Should redirect to achieved tab
-      await expect(page).toHaveURL(planOverviewPageAchievedGoalsTabPath)
+      await expect(page).toHaveURL(caseUrl(page, planOverviewPageAchievedGoalsTabPath))
     })
 
     test('can confirm goal as achieved without optional note', async ({ page, createSession, sentencePlanBuilder }) => {
@@ -226,7 +227,7 @@ test.describe('Confirm if achieved page', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid)))
 
       const confirmPage = await ConfirmIfAchievedPage.verifyOnPage(page)
 
@@ -236,7 +237,7 @@ test.describe('Confirm if achieved page', () => {
       await confirmPage.clickSaveAndContinue()
 
       // Should still redirect to achieved tab (note is optional)
-      await expect(page).toHaveURL(planOverviewPageAchievedGoalsTabPath)
+      await expect(page).toHaveURL(caseUrl(page, planOverviewPageAchievedGoalsTabPath))
     })
 
     test('how helped textarea appears when Yes is selected', async ({ page, createSession, sentencePlanBuilder }) => {
@@ -250,7 +251,7 @@ test.describe('Confirm if achieved page', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid)))
 
       const confirmPage = await ConfirmIfAchievedPage.verifyOnPage(page)
 
@@ -286,7 +287,7 @@ test.describe('Confirm if achieved page', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid)))
 
       const confirmPage = await ConfirmIfAchievedPage.verifyOnPage(page)
 
@@ -296,7 +297,7 @@ test.describe('Confirm if achieved page', () => {
       await confirmPage.clickSaveAndContinue()
 
       // Should redirect to current goals tab (not achieved, since goal is ACTIVE)
-      await expect(page).toHaveURL(planOverviewPageCurrentGoalsTabPath)
+      await expect(page).toHaveURL(caseUrl(page, planOverviewPageCurrentGoalsTabPath))
     })
 
     test('redirects to future tab for FUTURE goals', async ({ page, createSession, sentencePlanBuilder }) => {
@@ -317,7 +318,7 @@ test.describe('Confirm if achieved page', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid)))
 
       const confirmPage = await ConfirmIfAchievedPage.verifyOnPage(page)
 
@@ -327,7 +328,7 @@ test.describe('Confirm if achieved page', () => {
       await confirmPage.clickSaveAndContinue()
 
       // Should redirect to future goals tab (goal is FUTURE)
-      await expect(page).toHaveURL(planOverviewPageFutureGoalsTabPath)
+      await expect(page).toHaveURL(caseUrl(page, planOverviewPageFutureGoalsTabPath))
     })
 
     test('goal remains unchanged when No is selected', async ({ page, createSession, sentencePlanBuilder }) => {
@@ -349,7 +350,7 @@ test.describe('Confirm if achieved page', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid)))
 
       const confirmPage = await ConfirmIfAchievedPage.verifyOnPage(page)
 
@@ -359,7 +360,7 @@ test.describe('Confirm if achieved page', () => {
       await confirmPage.clickSaveAndContinue()
 
       // Verify we're on current tab
-      await expect(page).toHaveURL(planOverviewPageCurrentGoalsTabPath)
+      await expect(page).toHaveURL(caseUrl(page, planOverviewPageCurrentGoalsTabPath))
 
       // Goal should still be in current goals
       const planOverviewPage = await PlanOverviewPage.verifyOnPage(page)
@@ -380,7 +381,7 @@ test.describe('Confirm if achieved page', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid)))
 
       const confirmPage = await ConfirmIfAchievedPage.verifyOnPage(page)
 
@@ -407,7 +408,7 @@ test.describe('Confirm if achieved page', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid)))
 
       const confirmPage = await ConfirmIfAchievedPage.verifyOnPage(page)
 
@@ -441,7 +442,7 @@ test.describe('Confirm if achieved page', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid)))
 
       const confirmPage = await ConfirmIfAchievedPage.verifyOnPage(page)
 
@@ -461,7 +462,7 @@ test.describe('Confirm if achieved page', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid)))
 
       const confirmPage = await ConfirmIfAchievedPage.verifyOnPage(page)
 
@@ -488,7 +489,7 @@ test.describe('Confirm if achieved page', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid)))
 
       const confirmPage = await ConfirmIfAchievedPage.verifyOnPage(page)
 
@@ -508,7 +509,7 @@ test.describe('Confirm if achieved page', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid)))
 
       const confirmPage = await ConfirmIfAchievedPage.verifyOnPage(page)
 
@@ -535,7 +536,7 @@ test.describe('Confirm if achieved page', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid)))
 
       const confirmPage = await ConfirmIfAchievedPage.verifyOnPage(page)
 
@@ -564,7 +565,7 @@ test.describe('Confirm if achieved page', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid)))
 
       const confirmPage = await ConfirmIfAchievedPage.verifyOnPage(page)
 
@@ -599,7 +600,7 @@ test.describe('Confirm if achieved page', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid)))
 
       const confirmPage = await ConfirmIfAchievedPage.verifyOnPage(page)
 
@@ -608,7 +609,7 @@ test.describe('Confirm if achieved page', () => {
       await confirmPage.clickSaveAndContinue()
 
       // Should be on achieved tab
-      await expect(page).toHaveURL(planOverviewPageAchievedGoalsTabPath)
+      await expect(page).toHaveURL(caseUrl(page, planOverviewPageAchievedGoalsTabPath))
 
       // Goal should be visible in achieved tab
       const planOverviewPage = await PlanOverviewPage.verifyOnPage(page)
@@ -657,7 +658,7 @@ test.describe('Confirm if achieved page', () => {
 
       // Confirm the first goal as achieved
       const firstGoalUuid = plan.goals[0].uuid
-      await page.goto(sentencePlanV1UrlBuilders.goalConfirmIfAchieved(firstGoalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalConfirmIfAchieved(firstGoalUuid)))
 
       const confirmPage = await ConfirmIfAchievedPage.verifyOnPage(page)
       await confirmPage.selectYes()
@@ -665,7 +666,7 @@ test.describe('Confirm if achieved page', () => {
       await confirmPage.clickSaveAndContinue()
 
       // Navigate to current tab
-      await page.goto(planOverviewPageCurrentGoalsTabPath)
+      await page.goto(caseUrl(page, planOverviewPageCurrentGoalsTabPath))
 
       // Only 1 goal should remain
       planOverviewPage = await PlanOverviewPage.verifyOnPage(page)
@@ -690,7 +691,7 @@ test.describe('Confirm if achieved page', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid)))
 
       await ConfirmIfAchievedPage.verifyOnPage(page)
 
@@ -700,7 +701,7 @@ test.describe('Confirm if achieved page', () => {
       await backLink.click()
 
       // Should navigate to update-goal-steps
-      await expect(page).toHaveURL(sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid))
+      await expect(page).toHaveURL(caseUrl(page, sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid)))
     })
   })
 
@@ -732,7 +733,7 @@ test.describe('Confirm if achieved page', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Navigate to update-goal-steps page
-      await page.goto(sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid)))
 
       // Verify we're on update-goal-steps page
       await expect(page.locator('h1')).toContainText('Update goal and steps')
@@ -748,7 +749,7 @@ test.describe('Confirm if achieved page', () => {
       await page.getByRole('button', { name: 'Save goal and steps' }).click()
 
       // Should navigate to confirm-if-achieved page
-      await expect(page).toHaveURL(sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid))
+      await expect(page).toHaveURL(caseUrl(page, sentencePlanV1UrlBuilders.goalConfirmIfAchieved(goalUuid)))
       await ConfirmIfAchievedPage.verifyOnPage(page)
     })
 
@@ -779,14 +780,14 @@ test.describe('Confirm if achieved page', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Navigate to update-goal-steps page
-      await page.goto(sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid)))
 
       // Leave the steps as they are (not all completed)
       // Click Save goal and steps button
       await page.getByRole('button', { name: 'Save goal and steps' }).click()
 
       // Should navigate to plan overview current tab (not confirm-if-achieved)
-      await expect(page).toHaveURL(planOverviewPageCurrentGoalsTabPath)
+      await expect(page).toHaveURL(caseUrl(page, planOverviewPageCurrentGoalsTabPath))
     })
 
     test('navigates to plan overview future tab when not all steps are completed for FUTURE goal', async ({
@@ -815,14 +816,14 @@ test.describe('Confirm if achieved page', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Navigate to update-goal-steps page
-      await page.goto(sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid)))
 
       // Leave the steps as they are (not all completed)
       // Click Save goal and steps button
       await page.getByRole('button', { name: 'Save goal and steps' }).click()
 
       // Should navigate to plan overview future tab (not confirm-if-achieved)
-      await expect(page).toHaveURL(planOverviewPageFutureGoalsTabPath)
+      await expect(page).toHaveURL(caseUrl(page, planOverviewPageFutureGoalsTabPath))
     })
 
     test('does not navigate to confirm-if-achieved when some steps are marked as not started yet', async ({
@@ -852,13 +853,13 @@ test.describe('Confirm if achieved page', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Navigate to update-goal-steps page
-      await page.goto(sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid)))
 
       // Click Save goal and steps button
       await page.getByRole('button', { name: 'Save goal and steps' }).click()
 
       // Should navigate to plan overview (not confirm-if-achieved) since not all steps are COMPLETED
-      await expect(page).toHaveURL(planOverviewPageCurrentGoalsTabPath)
+      await expect(page).toHaveURL(caseUrl(page, planOverviewPageCurrentGoalsTabPath))
     })
   })
 })
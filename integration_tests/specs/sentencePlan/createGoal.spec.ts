@@ -8,6 +8,7 @@ import SelectAreaOfNeedPage from '../../pages/sentencePlan/selectAreaOfNeedPage'
 import {
   buildErrorPageTitle,
   buildPageTitle,
+  caseUrl,
   checkAccessibility,
   navigateToSentencePlan,
   sentencePlanPageTitles,
@@ -88,7 +89,7 @@ test.describe('Create Goal Journey', () => {
       const { handoverLink } = await createSession({ targetService: TargetService.SENTENCE_PLAN })
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto('/sentence-plan/v1.0/goal/new/add-goal/accommodation')
+      await page.goto(caseUrl(page, '/sentence-plan/v1.0/goal/new/add-goal/accommodation'))
 
       const createGoalPage = await CreateGoalPage.verifyOnPage(page)
       await createGoalPage.enterGoalTitle('Find stable accommodation')
@@ -119,7 +120,7 @@ test.describe('Create Goal Journey', () => {
       const { handoverLink } = await createSession({ targetService: TargetService.SENTENCE_PLAN })
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto('/sentence-plan/v1.0/goal/new/add-goal/accommodation')
+      await page.goto(caseUrl(page, '/sentence-plan/v1.0/goal/new/add-goal/accommodation'))
 
       const createGoalPage = await CreateGoalPage.verifyOnPage(page)
       await createGoalPage.enterGoalTitle('Find stable accommodation')
@@ -175,7 +176,7 @@ test.describe('Create Goal Journey', () => {
     test('shows goal added notification after creating goal with steps', async ({ page, createSession }) => {
       const { handoverLink } = await createSession({ targetService: TargetService.SENTENCE_PLAN })
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto('/sentence-plan/v1.0/goal/new/add-goal/accommodation')
+      await page.goto(caseUrl(page, '/sentence-plan/v1.0/goal/new/add-goal/accommodation'))
 
       const createGoalPage = await CreateGoalPage.verifyOnPage(page)
       await createGoalPage.enterGoalTitle('Goal with steps notification test')
@@ -197,7 +198,7 @@ test.describe('Create Goal Journey', () => {
     test('future goal with steps redirects to future goals tab', async ({ page, createSession }) => {
       const { handoverLink } = await createSession({ targetService: TargetService.SENTENCE_PLAN })
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto('/sentence-plan/v1.0/goal/new/add-goal/accommodation')
+      await page.goto(caseUrl(page, '/sentence-plan/v1.0/goal/new/add-goal/accommodation'))
 
       const createGoalPage = await CreateGoalPage.verifyOnPage(page)
       await createGoalPage.enterGoalTitle('Future goal with steps')
@@ -219,7 +220,7 @@ test.describe('Create Goal Journey', () => {
     test('current goal with steps redirects to current goals tab', async ({ page, createSession }) => {
       const { handoverLink } = await createSession({ targetService: TargetService.SENTENCE_PLAN })
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto('/sentence-plan/v1.0/goal/new/add-goal/accommodation')
+      await page.goto(caseUrl(page, '/sentence-plan/v1.0/goal/new/add-goal/accommodation'))
 
       const createGoalPage = await CreateGoalPage.verifyOnPage(page)
       await createGoalPage.enterGoalTitle('Current goal with steps')
@@ -242,7 +243,7 @@ test.describe('Create Goal Journey', () => {
     test('can remove a step when multiple exist', async ({ page, createSession }) => {
       const { handoverLink } = await createSession({ targetService: TargetService.SENTENCE_PLAN })
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto('/sentence-plan/v1.0/goal/new/add-goal/accommodation')
+      await page.goto(caseUrl(page, '/sentence-plan/v1.0/goal/new/add-goal/accommodation'))
 
       const createGoalPage = await CreateGoalPage.verifyOnPage(page)
       await createGoalPage.enterGoalTitle('Test goal')
@@ -290,7 +291,7 @@ test.describe('Create Goal Journey', () => {
     test('future goal redirects to future goals tab', async ({ page, createSession }) => {
       const { handoverLink } = await createSession({ targetService: TargetService.SENTENCE_PLAN })
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto('/sentence-plan/v1.0/goal/new/add-goal/accommodation')
+      await page.goto(caseUrl(page, '/sentence-plan/v1.0/goal/new/add-goal/accommodation'))
 
       const createGoalPage = await CreateGoalPage.verifyOnPage(page)
       await createGoalPage.enterGoalTitle('Future goal')
@@ -309,7 +310,7 @@ test.describe('Create Goal Journey', () => {
     test('current goal redirects to current goals tab', async ({ page, createSession }) => {
       const { handoverLink } = await createSession({ targetService: TargetService.SENTENCE_PLAN })
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto('/sentence-plan/v1.0/goal/new/add-goal/accommodation')
+      await page.goto(caseUrl(page, '/sentence-plan/v1.0/goal/new/add-goal/accommodation'))
 
       const createGoalPage = await CreateGoalPage.verifyOnPage(page)
       await createGoalPage.enterGoalTitle('Current goal')
@@ -331,7 +332,7 @@ test.describe('Create Goal Journey', () => {
     test('can create goal with related areas of need', async ({ page, createSession }) => {
       const { handoverLink } = await createSession({ targetService: TargetService.SENTENCE_PLAN })
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto('/sentence-plan/v1.0/goal/new/add-goal/accommodation')
+      await page.goto(caseUrl(page, '/sentence-plan/v1.0/goal/new/add-goal/accommodation'))
 
       const createGoalPage = await CreateGoalPage.verifyOnPage(page)
       await createGoalPage.enterGoalTitle('Housing and employment goal')
@@ -397,7 +398,7 @@ test.describe('Create Goal Journey', () => {
     test('displays the selected area of need in an inset in lower case', async ({ page, createSession }) => {
       const { handoverLink } = await createSession({ targetService: TargetService.SENTENCE_PLAN })
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto('/sentence-plan/v1.0/goal/new/add-goal/accommodation')
+      await page.goto(caseUrl(page, '/sentence-plan/v1.0/goal/new/add-goal/accommodation'))
 
       const createGoalPage = await CreateGoalPage.verifyOnPage(page)
 
@@ -408,7 +409,7 @@ test.describe('Create Goal Journey', () => {
     test('excludes the selected area of need from the related areas checkboxes', async ({ page, createSession }) => {
       const { handoverLink } = await createSession({ targetService: TargetService.SENTENCE_PLAN })
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto('/sentence-plan/v1.0/goal/new/add-goal/accommodation')
+      await page.goto(caseUrl(page, '/sentence-plan/v1.0/goal/new/add-goal/accommodation'))
 
       const createGoalPage = await CreateGoalPage.verifyOnPage(page)
       await createGoalPage.selectIsRelated(true)
@@ -422,7 +423,7 @@ test.describe('Create Goal Journey', () => {
     }) => {
       const { handoverLink } = await createSession({ targetService: TargetService.SENTENCE_PLAN })
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto('/sentence-plan/v1.0/goal/new/add-goal/accommodation')
+      await page.goto(caseUrl(page, '/sentence-plan/v1.0/goal/new/add-goal/accommodation'))
 
       const createGoalPage = await CreateGoalPage.verifyOnPage(page)
       await createGoalPage.changeAreaOfNeedLink.click()
@@ -441,7 +442,7 @@ test.describe('Create Goal Journey', () => {
     }) => {
       const { handoverLink } = await createSession({ targetService: TargetService.SENTENCE_PLAN })
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto('/sentence-plan/v1.0/goal/new/add-goal/accommodation')
+      await page.goto(caseUrl(page, '/sentence-plan/v1.0/goal/new/add-goal/accommodation'))
 
       const createGoalPage = await CreateGoalPage.verifyOnPage(page)
       await createGoalPage.changeAreaOfNeedLink.click()
@@ -458,7 +459,7 @@ test.describe('Create Goal Journey', () => {
     test('shows error when goal title is empty', async ({ page, createSession }) => {
       const { handoverLink } = await createSession({ targetService: TargetService.SENTENCE_PLAN })
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto('/sentence-plan/v1.0/goal/new/add-goal/accommodation')
+      await page.goto(caseUrl(page, '/sentence-plan/v1.0/goal/new/add-goal/accommodation'))
 
       const createGoalPage = await CreateGoalPage.verifyOnPage(page)
 
@@ -480,7 +481,7 @@ test.describe('Create Goal Journey', () => {
     test('shows error when can start now is not selected', async ({ page, createSession }) => {
       const { handoverLink } = await createSession({ targetService: TargetService.SENTENCE_PLAN })
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto('/sentence-plan/v1.0/goal/new/add-goal/accommodation')
+      await page.goto(caseUrl(page, '/sentence-plan/v1.0/goal/new/add-goal/accommodation'))
 
       const createGoalPage = await CreateGoalPage.verifyOnPage(page)
       await createGoalPage.enterGoalTitle('Test goal')
@@ -501,7 +502,7 @@ test.describe('Create Goal Journey', () => {
     test('shows error when target date is required but not selected', async ({ page, createSession }) => {
       const { handoverLink } = await createSession({ targetService: TargetService.SENTENCE_PLAN })
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto('/sentence-plan/v1.0/goal/new/add-goal/accommodation')
+      await page.goto(caseUrl(page, '/sentence-plan/v1.0/goal/new/add-goal/accommodation'))
 
       const createGoalPage = await CreateGoalPage.verifyOnPage(page)
       await createGoalPage.enterGoalTitle('Test goal')
@@ -523,7 +524,7 @@ test.describe('Create Goal Journey', () => {
     test('shows error when related areas yes selected but none chosen', async ({ page, createSession }) => {
       const { handoverLink } = await createSession({ targetService: TargetService.SENTENCE_PLAN })
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto('/sentence-plan/v1.0/goal/new/add-goal/accommodation')
+      await page.goto(caseUrl(page, '/sentence-plan/v1.0/goal/new/add-goal/accommodation'))
 
       const createGoalPage = await CreateGoalPage.verifyOnPage(page)
       await createGoalPage.enterGoalTitle('Test goal')
@@ -539,7 +540,7 @@ test.describe('Create Goal Journey', () => {
     test('shows error when set another date is selected but left empty', async ({ page, createSession }) => {
       const { handoverLink } = await createSession({ targetService: TargetService.SENTENCE_PLAN })
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto('/sentence-plan/v1.0/goal/new/add-goal/accommodation')
+      await page.goto(caseUrl(page, '/sentence-plan/v1.0/goal/new/add-goal/accommodation'))
 
       const createGoalPage = await CreateGoalPage.verifyOnPage(page)
       await createGoalPage.enterGoalTitle('Test goal')
@@ -643,7 +644,7 @@ test.describe('Create Goal Journey', () => {
         test(`can create goal for ${area} area`, async ({ page, createSession }) => {
           const { handoverLink } = await createSession({ targetService: TargetService.SENTENCE_PLAN })
           await navigateToSentencePlan(page, handoverLink)
-          await page.goto(`/sentence-plan/v1.0/goal/new/add-goal/${area}`)
+          await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/new/add-goal/${area}`))
 
           const createGoalPage = await CreateGoalPage.verifyOnPage(page)
           await expect(createGoalPage.goalTitleInput).toBeVisible()
@@ -658,7 +659,7 @@ test.describe('Create Goal Journey', () => {
       const { handoverLink } = await createSession({ targetService: TargetService.SENTENCE_PLAN })
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto('/sentence-plan/v1.0/goal/new/add-goal/not-a-real-area')
+      await page.goto(caseUrl(page, '/sentence-plan/v1.0/goal/new/add-goal/not-a-real-area'))
 
       await expect(page).toHaveURL(/\/goal\/new\/select-area-of-need/)
     })
@@ -3,6 +3,7 @@ import { test, TargetService } from '../../support/fixtures'
 import PlanOverviewPage from '../../pages/sentencePlan/planOverviewPage'
 import { currentGoals, futureGoals } from '../../builders/sentencePlanFactories'
 import {
+  caseUrl,
   checkAccessibility,
   navigateToSentencePlan,
   sentencePlanV1UrlBuilders,
@@ -23,7 +24,7 @@ test.describe('Delete goal journey', () => {
       const goalUuid = plan.goals[0].uuid
 
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto(sentencePlanV1UrlBuilders.goalConfirmDelete(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalConfirmDelete(goalUuid)))
 
       await expect(
         page.getByText(/Delete this goal if it’s not needed\. It will not be saved to .+'s plan\./),
@@ -52,7 +53,7 @@ test.describe('Delete goal journey', () => {
       const goalUuid = plan.goals[0].uuid
 
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto(sentencePlanV1UrlBuilders.goalConfirmDelete(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalConfirmDelete(goalUuid)))
 
       await page.getByRole('button', { name: 'Confirm' }).click()
 
@@ -71,7 +72,7 @@ test.describe('Delete goal journey', () => {
       const goalUuid = plan.goals[0].uuid
 
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto(sentencePlanV1UrlBuilders.goalConfirmDelete(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalConfirmDelete(goalUuid)))
 
       // Should redirect to plan overview since delete is only for draft plans
       await PlanOverviewPage.verifyOnPage(page)
@@ -98,10 +99,10 @@ test.describe('Delete goal journey', () => {
       const goalUuid = plan.goals[0].uuid
 
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto(sentencePlanV1UrlBuilders.goalConfirmDelete(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalConfirmDelete(goalUuid)))
 
       await PlanOverviewPage.verifyOnPage(page)
-      await expect(page).toHaveURL(planOverviewPageAchievedGoalsTabPath)
+      await expect(page).toHaveURL(caseUrl(page, planOverviewPageAchievedGoalsTabPath))
     })
   })
 })
@@ -0,0 +1,112 @@
+import { expect, type Page } from '@playwright/test'
+import { currentGoals, futureGoals, removedGoals } from '../../builders/sentencePlanFactories'
+import EasyReadPage from '../../pages/sentencePlan/easyReadPage'
+import ExportOptionsPage from '../../pages/sentencePlan/exportOptionsPage'
+import PlanOverviewPage from '../../pages/sentencePlan/planOverviewPage'
+import { test, TargetService } from '../../support/fixtures'
+import { buildPageTitle, caseUrl, navigateToSentencePlan, sentencePlanPageTitles } from './sentencePlanUtils'
+
+const openEasyRead = async (page: Page, handoverLink: string): Promise<EasyReadPage> => {
+  await navigateToSentencePlan(page, handoverLink)
+  const planOverviewPage = await PlanOverviewPage.verifyOnPage(page)
+
+  const [newPage] = await Promise.all([page.waitForEvent('popup'), planOverviewPage.printAllGoalsButton.click()])
+  const exportOptionsPage = await ExportOptionsPage.verifyOnPage(newPage)
+  await exportOptionsPage.easyReadLink.click()
+
+  await expect(newPage).toHaveURL(/\/plan\/easy-read$/)
+  await expect(newPage).toHaveTitle(buildPageTitle(sentencePlanPageTitles.easyRead))
+  return EasyReadPage.verifyOnPage(newPage)
+}
+
+test.describe('Easy read plan', () => {
+  test('shows the goals to work on now and later, but not removed goals', async ({
+    page,
+    createSession,
+    sentencePlanBuilder,
+  }) => {
+    const { sentencePlanId, handoverLink } = await createSession({
+      targetService: TargetService.SENTENCE_PLAN,
+    })
+    await sentencePlanBuilder
+      .extend(sentencePlanId)
+      .withGoals([...currentGoals(1), ...futureGoals(1), ...removedGoals(1)])
+      .save()
+
+    const easyReadPage = await openEasyRead(page, handoverLink)
+
+    expect(await easyReadPage.getGoalTitles()).toEqual(['Current Goal 1', 'Future Goal 1'])
+    await expect(easyReadPage.page.getByText('Removed Goal 1')).toHaveCount(0)
+  })
+
+  test('groups steps by who does them, without internal statuses', async ({
+    page,
+    createSession,
+    sentencePlanBuilder,
+  }) => {
+    const { sentencePlanId, handoverLink } = await createSession({
+      targetService: TargetService.SENTENCE_PLAN,
+    })
+    await sentencePlanBuilder
+      .extend(sentencePlanId)
+      .withGoals([
+        {
+          title: 'I will find somewhere to live',
+          areaOfNeed: 'accommodation',
+          status: 'ACTIVE',
+          steps: [
+            { actor: 'probation_practitioner', description: 'Refer to housing support', status: 'COMPLETED' },
+            {
+              actor: 'person_on_probation',
+              description: 'Go to the housing appointment',
+              status: 'CANNOT_BE_DONE_YET',
+            },
+          ],
+        },
+      ])
+      .save()
+
+    const easyReadPage = await openEasyRead(page, handoverLink)
+    const stepGroups = easyReadPage.page.locator('[data-qa="easy-read-step-group"]')
+
+    await expect(stepGroups).toHaveCount(2)
+    await expect(stepGroups.first()).toContainText('Go to the housing appointment')
+    await expect(stepGroups.first()).toContainText('Not started yet')
+    await expect(easyReadPage.stepGroup('Probation practitioner')).toContainText('Refer to housing support')
+    await expect(easyReadPage.stepGroup('Probation practitioner')).toContainText('Done')
+    await expect(easyReadPage.page.getByText(/cannot be done yet/i)).toHaveCount(0)
+  })
+
+  test('can be printed or exported as a PDF', async ({ page, createSession, sentencePlanBuilder }) => {
+    const { sentencePlanId, handoverLink } = await createSession({
+      targetService: TargetService.SENTENCE_PLAN,
+    })
+    await sentencePlanBuilder.extend(sentencePlanId).withGoals(currentGoals(1)).save()
+
+    const easyReadPage = await openEasyRead(page, handoverLink)
+
+    await expect(easyReadPage.printButton).toBeVisible()
+    await expect(easyReadPage.exportAsPdfButton).toHaveAttribute(
+      'href',
+      caseUrl(page, '/sentence-plan/v1.0/plan/easy-read/pdf'),
+    )
+  })
+
+  test('is not available when print and share is turned off', async ({
+    page,
+    createSession,
+    sentencePlanBuilder,
+    overrideFeatureFlags,
+  }) => {
+    await overrideFeatureFlags({ 'sp-enable-print-and-share': false })
+    const { sentencePlanId, handoverLink } = await createSession({
+      targetService: TargetService.SENTENCE_PLAN,
+    })
+    await sentencePlanBuilder.extend(sentencePlanId).withGoals(currentGoals(1)).save()
+
+    await navigateToSentencePlan(page, handoverLink)
+    await page.goto(caseUrl(page, '/sentence-plan/v1.0/plan/easy-read'))
+
+    await expect(page).toHaveURL(/\/plan\/overview/)
+  })
+})
@@ -2,7 +2,7 @@ import { expect, type Page } from '@playwright/test'
 import MergedPlanWarningPage from '../../pages/sentencePlan/mergedPlanWarningPage'
 import { test, TargetService } from '../../support/fixtures'
 import { login } from '../../testUtils'
-import { sentencePlanV1URLs } from './sentencePlanUtils'
+import { caseUrl, sentencePlanV1URLs } from './sentencePlanUtils'
 
 const navigateViaMpop = async (page: Page, crn: string): Promise<void> => {
   await login(page)
@@ -22,7 +22,7 @@ test.describe('Merged plan warning page', () => {
       await navigateViaMpop(page, crn)
 
       await MergedPlanWarningPage.verifyOnPage(page)
-      await expect(page).toHaveURL(/\/sentence-plan\/merged-plan-warning/)
+      await expect(page).toHaveURL(/\/merged-plan-warning/)
     })
 
     test('displays the correct heading', async ({ page, createSession, sentencePlanBuilder }) => {
@@ -75,9 +75,9 @@ test.describe('Merged plan warning page', () => {
       await navigateViaMpop(page, crn)
       await MergedPlanWarningPage.verifyOnPage(page)
 
-      await page.goto(`${sentencePlanV1URLs.PLAN_OVERVIEW}?goalStatusTab=current`)
+      await page.goto(caseUrl(page, `${sentencePlanV1URLs.PLAN_OVERVIEW}?goalStatusTab=current`))
 
-      await expect(page).toHaveURL(/\/sentence-plan\/merged-plan-warning/)
+      await expect(page).toHaveURL(/\/merged-plan-warning/)
       await MergedPlanWarningPage.verifyOnPage(page)
     })
   })
@@ -4,7 +4,7 @@ import PlanOverviewPage from '../../pages/sentencePlan/planOverviewPage'
 import PrivacyScreenPage from '../../pages/sentencePlan/privacyScreenPage'
 import { test, TargetService } from '../../support/fixtures'
 import { login } from '../../testUtils'
-import { sentencePlanV1URLs } from './sentencePlanUtils'
+import { caseUrl, sentencePlanV1URLs } from './sentencePlanUtils'
 
 const returnToOasysButton = (page: Page) => page.getByRole('button', { name: 'Return to OASys' })
 
@@ -46,7 +46,7 @@ test.describe('MPoP access flow', () => {
       await sentencePlanBuilder.extend(sentencePlanId).save()
 
       await navigateToMpopPrivacyScreen(page, crn)
-      await page.goto(`${sentencePlanV1URLs.PLAN_OVERVIEW}?goalStatusTab=current`)
+      await page.goto(caseUrl(page, `${sentencePlanV1URLs.PLAN_OVERVIEW}?goalStatusTab=current`))
 
       await PrivacyScreenPage.verifyOnPage(page)
     })
@@ -85,7 +85,7 @@ test.describe('MPoP access flow', () => {
       await sentencePlanBuilder.extend(sentencePlanId).withAgreementStatus('AGREED').save()
 
       await navigateToPlanOverviewViaMpop(page, crn)
-      await page.goto(sentencePlanV1URLs.PLAN_HISTORY)
+      await page.goto(caseUrl(page, sentencePlanV1URLs.PLAN_HISTORY))
 
       await PlanHistoryPage.verifyOnPage(page)
       await expect(returnToOasysButton(page)).toHaveCount(0)
@@ -1,7 +1,7 @@
 import { expect } from '@playwright/test'
 import { test, TargetService } from '../../../support/fixtures'
 import PlanHistoryPage from '../../../pages/sentencePlan/planHistoryPage'
-import { handlePrivacyScreenIfPresent } from '../sentencePlanUtils'
+import { caseUrl, handlePrivacyScreenIfPresent } from '../sentencePlanUtils'
 
 test.describe('Plan History - Navigation', () => {
   test('can navigate to plan history from plan overview', async ({ page, createSession, sentencePlanBuilder }) => {
@@ -51,7 +51,7 @@ test.describe('Plan History - Navigation', () => {
     await handlePrivacyScreenIfPresent(page)
 
     // Try to navigate directly to plan history
-    await page.goto(`/sentence-plan/v1.0/plan/plan-history`)
+    await page.goto(caseUrl(page, `/sentence-plan/v1.0/plan/plan-history`))
 
     // Should be redirected back to plan overview
     await expect(page).toHaveURL(/overview/)
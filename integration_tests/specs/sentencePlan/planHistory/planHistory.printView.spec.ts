@@ -1,7 +1,7 @@
 import { expect } from '@playwright/test'
 import { test, TargetService } from '../../../support/fixtures'
 import PlanHistoryPage from '../../../pages/sentencePlan/planHistoryPage'
-import { handlePrivacyScreenIfPresent, navigateToSentencePlan, sentencePlanV1URLs } from '../sentencePlanUtils'
+import { caseUrl, handlePrivacyScreenIfPresent, navigateToSentencePlan, sentencePlanV1URLs } from '../sentencePlanUtils'
 
 test.describe(`Plan History - Print view`, () => {
   test.beforeEach(async ({ page, createSession, sentencePlanBuilder }) => {
@@ -63,7 +63,7 @@ test.describe(`Plan History - Print view`, () => {
       .save()
 
     await navigateToSentencePlan(page, handoverLink)
-    await page.goto(sentencePlanV1URLs.PLAN_HISTORY)
+    await page.goto(caseUrl(page, sentencePlanV1URLs.PLAN_HISTORY))
     const planHistoryPage = await PlanHistoryPage.verifyOnPage(page)
     await planHistoryPage.clickShowAllSectionsButton()
 
@@ -6,6 +6,7 @@ import PlanOverviewPage from '../../../pages/sentencePlan/planOverviewPage'
 import ChangeGoalPage from '../../../pages/sentencePlan/changeGoalPage'
 import AddStepsPage from '../../../pages/sentencePlan/addStepsPage'
 import {
+  caseUrl,
   checkAccessibility,
   getDatePlusDaysAsISO,
   handlePrivacyScreenIfPresent,
@@ -134,7 +135,7 @@ test.describe('Plan History - Updated Goals', () => {
     await updatePage.setStepStatusByIndex(0, 'IN_PROGRESS')
     await updatePage.clickSaveGoalAndSteps()
 
-    await expect(page).toHaveURL(`${sentencePlanV1URLs.PLAN_OVERVIEW}?goalStatusTab=current`)
+    await expect(page).toHaveURL(caseUrl(page, `${sentencePlanV1URLs.PLAN_OVERVIEW}?goalStatusTab=current`))
 
     await page.getByRole('link', { name: /View plan history/i }).click()
     const planHistoryPage = await PlanHistoryPage.verifyOnPage(page)
@@ -177,7 +178,7 @@ test.describe('Plan History - Updated Goals', () => {
     await updatePage.enterProgressNotes('Good progress being made with support group attendance.')
     await updatePage.clickSaveGoalAndSteps()
 
-    await expect(page).toHaveURL(`${sentencePlanV1URLs.PLAN_OVERVIEW}?goalStatusTab=current`)
+    await expect(page).toHaveURL(caseUrl(page, `${sentencePlanV1URLs.PLAN_OVERVIEW}?goalStatusTab=current`))
 
     await page.getByRole('link', { name: /View plan history/i }).click()
     const planHistoryPage = await PlanHistoryPage.verifyOnPage(page)
@@ -219,7 +220,7 @@ test.describe('Plan History - Updated Goals', () => {
     await addStepsPage.enterStep(0, 'person_on_probation', 'Contact the housing officer')
     await addStepsPage.clickSaveAndContinue()
 
-    await page.goto(sentencePlanV1URLs.PLAN_HISTORY)
+    await page.goto(caseUrl(page, sentencePlanV1URLs.PLAN_HISTORY))
     const planHistoryPage = await PlanHistoryPage.verifyOnPage(page)
 
     await expect(
@@ -262,7 +263,7 @@ test.describe('Plan History - Updated Goals', () => {
     await changeGoalPage.setGoalTitle('Updated goal title')
     await changeGoalPage.saveGoal()
 
-    await page.goto(sentencePlanV1URLs.PLAN_HISTORY)
+    await page.goto(caseUrl(page, sentencePlanV1URLs.PLAN_HISTORY))
     const planHistoryPage = await PlanHistoryPage.verifyOnPage(page)
 
     await expect(
@@ -305,7 +306,7 @@ test.describe('Plan History - Updated Goals', () => {
     await changeGoalPage.selectCanStartNow(false)
     await changeGoalPage.saveGoal()
 
-    await page.goto(sentencePlanV1URLs.PLAN_HISTORY)
+    await page.goto(caseUrl(page, sentencePlanV1URLs.PLAN_HISTORY))
     const planHistoryPage = await PlanHistoryPage.verifyOnPage(page)
 
     await expect(
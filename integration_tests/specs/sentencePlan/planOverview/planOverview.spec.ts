@@ -10,6 +10,7 @@ import PlanOverviewPage from '../../../pages/sentencePlan/planOverviewPage'
 import AddStepsPage from '../../../pages/sentencePlan/addStepsPage'
 import {
   buildPageTitle,
+  caseUrl,
   checkAccessibility,
   navigateToSentencePlan,
   sentencePlanPageTitles,
@@ -255,7 +256,7 @@ test.describe('Plan Overview Page', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Navigate directly to future goals tab
-      await page.goto('/sentence-plan/v1.0/plan/overview?goalStatusTab=future')
+      await page.goto(caseUrl(page, '/sentence-plan/v1.0/plan/overview?goalStatusTab=future'))
       const planOverviewPage = await PlanOverviewPage.verifyOnPage(page)
 
       const goalCount = await planOverviewPage.getGoalCount()
@@ -1,19 +1,31 @@
 import { expect, type Page } from '@playwright/test'
 import { currentGoals, futureGoals, mixedGoals } from '../../builders/sentencePlanFactories'
+import ExportOptionsPage from '../../pages/sentencePlan/exportOptionsPage'
 import PlanOverviewPage from '../../pages/sentencePlan/planOverviewPage'
 import PrintPreviewPage from '../../pages/sentencePlan/printPreviewPage'
 import { test, TargetService } from '../../support/fixtures'
-import { buildPageTitle, navigateToSentencePlan, sentencePlanPageTitles } from './sentencePlanUtils'
+import { buildPageTitle, caseUrl, navigateToSentencePlan, sentencePlanPageTitles } from './sentencePlanUtils'
 
 const oneDay = 24 * 60 * 60 * 1000
 
-const openPrintPreview = async (page: Page, handoverLink: string): Promise<PrintPreviewPage> => {
+const openExportOptions = async (page: Page, handoverLink: string): Promise<ExportOptionsPage> => {
   await navigateToSentencePlan(page, handoverLink)
   const planOverviewPage = await PlanOverviewPage.verifyOnPage(page)
 
   const [newPage] = await Promise.all([page.waitForEvent('popup'), planOverviewPage.printAllGoalsButton.click()])
 
-  await expect(newPage).toHaveURL(/\/plan\/print-preview$/)
+  await expect(newPage).toHaveURL(/\/plan\/export-options$/)
+  await expect(newPage).toHaveTitle(buildPageTitle(sentencePlanPageTitles.exportOptions))
+  return ExportOptionsPage.verifyOnPage(newPage)
+}
+
+const openPrintPreview = async (page: Page, handoverLink: string): Promise<PrintPreviewPage> => {
+  const exportOptionsPage = await openExportOptions(page, handoverLink)
+  const newPage = exportOptionsPage.page
+
+  await exportOptionsPage.clickContinue()
+
+  await expect(newPage).toHaveURL(caseUrl(page, '/sentence-plan/v1.0/plan/print-preview'))
   await expect(newPage).toHaveTitle(buildPageTitle(sentencePlanPageTitles.printPreview))
   return PrintPreviewPage.verifyOnPage(newPage)
 }
@@ -36,6 +48,52 @@ test.describe('Print preview', () => {
     ])
   })
 
+  test('prints only the chosen sections and keeps them for the PDF export', async ({
+    page,
+    createSession,
+    sentencePlanBuilder,
+  }) => {
+    const { sentencePlanId, handoverLink } = await createSession({
+      targetService: TargetService.SENTENCE_PLAN,
+    })
+    await sentencePlanBuilder.extend(sentencePlanId).withGoals(mixedGoals()).save()
+
+    const exportOptionsPage = await openExportOptions(page, handoverLink)
+    await expect(exportOptionsPage.sectionCheckbox('active')).toBeChecked()
+    await expect(exportOptionsPage.sectionCheckbox('future')).toBeChecked()
+
+    await exportOptionsPage.sectionCheckbox('future').uncheck()
+    await exportOptionsPage.excludeCheckbox('notes').check()
+    await exportOptionsPage.clickContinue()
+
+    await expect(exportOptionsPage.page).toHaveURL(
+      caseUrl(page, '/sentence-plan/v1.0/plan/print-preview?sections=active%2Cachieved%2Cremoved&exclude=notes'),
+    )
+    const printPreviewPage = await PrintPreviewPage.verifyOnPage(exportOptionsPage.page)
+
+    expect(await printPreviewPage.getGoalTitles()).toEqual(['Find stable housing', 'Get employment support'])
+    await expect(printPreviewPage.exportAsPdfButton).toHaveAttribute(
+      'href',
+      caseUrl(page, '/sentence-plan/v1.0/plan/print-preview/pdf?sections=active%2Cachieved%2Cremoved&exclude=notes'),
+    )
+  })
+
+  test('requires at least one section to be chosen', async ({ page, createSession, sentencePlanBuilder }) => {
+    const { sentencePlanId, handoverLink } = await createSession({
+      targetService: TargetService.SENTENCE_PLAN,
+    })
+    await sentencePlanBuilder.extend(sentencePlanId).withGoals(currentGoals(1)).save()
+
+    const exportOptionsPage = await openExportOptions(page, handoverLink)
+    await exportOptionsPage.sectionCheckbox('active').uncheck()
+    await exportOptionsPage.sectionCheckbox('future').uncheck()
+    await exportOptionsPage.sectionCheckbox('achieved').uncheck()
+    await exportOptionsPage.sectionCheckbox('removed').uncheck()
+    await exportOptionsPage.clickContinue()
+
+    await expect(exportOptionsPage.errorSummary).toContainText('Select at least one section to include')
+  })
+
   test('does not provide navigation back into the plan', async ({ page, createSession, sentencePlanBuilder }) => {
     const { sentencePlanId, handoverLink } = await createSession({
       targetService: TargetService.SENTENCE_PLAN,
@@ -63,7 +121,7 @@ test.describe('Print preview', () => {
     await expect(printPreviewPage.exportAsPdfButton).toBeVisible()
     await expect(printPreviewPage.exportAsPdfButton).toHaveAttribute(
       'href',
-      '/sentence-plan/v1.0/plan/print-preview/pdf',
+      caseUrl(page, '/sentence-plan/v1.0/plan/print-preview/pdf'),
     )
     await expect(printPreviewPage.printButton).toBeVisible()
     await expect(printPreviewPage.printAllGoalsButton).toHaveCount(0)
@@ -139,6 +197,24 @@ test.describe('Print preview', () => {
   })
 
   test.describe('Print all goals button', () => {
+    test('is hidden when print and share is turned off', async ({
+      page,
+      createSession,
+      sentencePlanBuilder,
+      overrideFeatureFlags,
+    }) => {
+      await overrideFeatureFlags({ 'sp-enable-print-and-share': false })
+      const { sentencePlanId, handoverLink } = await createSession({
+        targetService: TargetService.SENTENCE_PLAN,
+      })
+      await sentencePlanBuilder.extend(sentencePlanId).withGoals(currentGoals(1)).save()
+
+      await navigateToSentencePlan(page, handoverLink)
+      const planOverviewPage = await PlanOverviewPage.verifyOnPage(page)
+
+      await expect(planOverviewPage.printAllGoalsButton).toHaveCount(0)
+    })
+
     test('is hidden when a draft plan has no goals', async ({ page, createSession, sentencePlanBuilder }) => {
       const { sentencePlanId, handoverLink } = await createSession({
         targetService: TargetService.SENTENCE_PLAN,
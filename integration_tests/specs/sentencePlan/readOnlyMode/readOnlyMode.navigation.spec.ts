@@ -2,7 +2,7 @@ import { expect } from '@playwright/test'
 import { test, TargetService } from '../../../support/fixtures'
 import PlanOverviewPage from '../../../pages/sentencePlan/planOverviewPage'
 import { currentGoals } from '../../../builders/sentencePlanFactories'
-import { navigateToSentencePlan, sentencePlanV1URLs, sentencePlanV1UrlBuilders } from '../sentencePlanUtils'
+import { caseUrl, navigateToSentencePlan, sentencePlanV1URLs, sentencePlanV1UrlBuilders } from '../sentencePlanUtils'
 import PlanHistoryPage from '../../../pages/sentencePlan/planHistoryPage'
 
 test.describe('READ_ONLY Access Mode', () => {
@@ -112,9 +112,9 @@ test.describe('READ_ONLY Access Mode', () => {
       await sentencePlanBuilder.extend(sentencePlanId).withGoals(currentGoals(1)).withAgreementStatus('AGREED').save()
 
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto(sentencePlanV1URLs.ABOUT_PERSON)
+      await page.goto(caseUrl(page, sentencePlanV1URLs.ABOUT_PERSON))
 
-      await expect(page).toHaveURL(sentencePlanV1URLs.ABOUT_PERSON)
+      await expect(page).toHaveURL(caseUrl(page, sentencePlanV1URLs.ABOUT_PERSON))
       await expect(page.getByRole('button', { name: /Create goal/i })).not.toBeVisible()
     })
   })
@@ -148,8 +148,8 @@ test.describe('READ_ONLY Access Mode', () => {
 
       await restrictedUrls.reduce(async (previousNavigation, url) => {
         await previousNavigation
-        await page.goto(url)
-        await expect(page).toHaveURL(`${sentencePlanV1URLs.PLAN_OVERVIEW}?goalStatusTab=current`)
+        await page.goto(caseUrl(page, url))
+        await expect(page).toHaveURL(caseUrl(page, `${sentencePlanV1URLs.PLAN_OVERVIEW}?goalStatusTab=current`))
       }, Promise.resolve())
     })
 
@@ -162,14 +162,14 @@ test.describe('READ_ONLY Access Mode', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1URLs.ABOUT_PERSON)
-      await expect(page).toHaveURL(sentencePlanV1URLs.ABOUT_PERSON)
+      await page.goto(caseUrl(page, sentencePlanV1URLs.ABOUT_PERSON))
+      await expect(page).toHaveURL(caseUrl(page, sentencePlanV1URLs.ABOUT_PERSON))
 
-      await page.goto(sentencePlanV1URLs.PLAN_HISTORY)
-      await expect(page).toHaveURL(sentencePlanV1URLs.PLAN_HISTORY)
+      await page.goto(caseUrl(page, sentencePlanV1URLs.PLAN_HISTORY))
+      await expect(page).toHaveURL(caseUrl(page, sentencePlanV1URLs.PLAN_HISTORY))
 
-      await page.goto(sentencePlanV1URLs.PREVIOUS_VERSIONS)
-      await expect(page).toHaveURL(sentencePlanV1URLs.PREVIOUS_VERSIONS)
+      await page.goto(caseUrl(page, sentencePlanV1URLs.PREVIOUS_VERSIONS))
+      await expect(page).toHaveURL(caseUrl(page, sentencePlanV1URLs.PREVIOUS_VERSIONS))
     })
   })
 
@@ -208,7 +208,7 @@ test.describe('READ_ONLY Access Mode', () => {
         .save()
 
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto(sentencePlanV1URLs.PLAN_HISTORY)
+      await page.goto(caseUrl(page, sentencePlanV1URLs.PLAN_HISTORY))
       const planHistoryPage = await PlanHistoryPage.verifyOnPage(page)
       await planHistoryPage.clickShowAllSectionsButton()
 
@@ -225,7 +225,7 @@ test.describe('READ_ONLY Access Mode', () => {
         .save()
 
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto(sentencePlanV1URLs.PLAN_HISTORY)
+      await page.goto(caseUrl(page, sentencePlanV1URLs.PLAN_HISTORY))
       const planHistoryPage = await PlanHistoryPage.verifyOnPage(page)
       await planHistoryPage.clickShowAllSectionsButton()
 
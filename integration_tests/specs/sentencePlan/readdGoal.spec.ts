@@ -8,6 +8,7 @@ import { removedGoals } from '../../builders/sentencePlanFactories'
 import {
   buildErrorPageTitle,
   buildPageTitle,
+  caseUrl,
   getDatePlusDaysAsISO,
   navigateToSentencePlan,
   sentencePlanPageTitles,
@@ -25,7 +26,7 @@ test.describe('Re-add goal journey', () => {
       const goalUuid = plan.goals[0].uuid
 
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-readd-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-readd-goal`))
 
       // ensure page title is correct
       await expect(page).toHaveTitle(buildPageTitle(sentencePlanPageTitles.confirmReAddGoal))
@@ -49,7 +50,7 @@ test.describe('Re-add goal journey', () => {
       const goalUuid = plan.goals[0].uuid
 
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-readd-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-readd-goal`))
 
       const readdPage = await ConfirmReaddGoalPage.verifyOnPage(page)
       await readdPage.enterReaddNote('Person will work on this in the future')
@@ -69,7 +70,7 @@ test.describe('Re-add goal journey', () => {
       const goalUuid = plan.goals[0].uuid
 
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-readd-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-readd-goal`))
 
       const readdPage = await ConfirmReaddGoalPage.verifyOnPage(page)
       await readdPage.selectCanStartNow(false)
@@ -96,7 +97,7 @@ test.describe('Re-add goal journey', () => {
       const goalUuid = plan.goals[0].uuid
 
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-readd-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-readd-goal`))
 
       const readdPage = await ConfirmReaddGoalPage.verifyOnPage(page)
       await readdPage.enterReaddNote('Test note')
@@ -119,7 +120,7 @@ test.describe('Re-add goal journey', () => {
       const goalUuid = plan.goals[0].uuid
 
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-readd-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-readd-goal`))
 
       const readdPage = await ConfirmReaddGoalPage.verifyOnPage(page)
       await readdPage.clickCancel()
@@ -139,7 +140,7 @@ test.describe('Re-add goal journey', () => {
       const goalUuid = plan.goals[0].uuid
 
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-readd-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-readd-goal`))
 
       const readdPage = await ConfirmReaddGoalPage.verifyOnPage(page)
       const headerText = await readdPage.getHeaderText()
@@ -167,7 +168,7 @@ test.describe('Re-add goal journey', () => {
       const goalUuid = plan.goals[0].uuid
 
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-readd-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-readd-goal`))
 
       const readdPage = await ConfirmReaddGoalPage.verifyOnPage(page)
 
@@ -185,7 +186,7 @@ test.describe('Re-add goal journey', () => {
       const goalUuid = plan.goals[0].uuid
 
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-readd-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-readd-goal`))
 
       const readdPage = await ConfirmReaddGoalPage.verifyOnPage(page)
 
@@ -202,7 +203,7 @@ test.describe('Re-add goal journey', () => {
       const goalUuid = plan.goals[0].uuid
 
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-readd-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-readd-goal`))
 
       const readdPage = await ConfirmReaddGoalPage.verifyOnPage(page)
 
@@ -226,7 +227,7 @@ test.describe('Re-add goal journey', () => {
       const goalUuid = plan.goals[0].uuid
 
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/view-inactive-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/view-inactive-goal`))
 
       const viewPage = await ViewInactiveGoalPage.verifyOnPage(page)
       await viewPage.clickAddToPlan()
@@ -273,14 +274,14 @@ test.describe('Re-add goal journey', () => {
 
       // Verify initial state: 2 active goals
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto('/sentence-plan/v1.0/plan/overview?goalStatusTab=current')
+      await page.goto(caseUrl(page, '/sentence-plan/v1.0/plan/overview?goalStatusTab=current'))
 
       let planOverviewPage = await PlanOverviewPage.verifyOnPage(page)
       expect(await planOverviewPage.getGoalCount()).toBe(2)
 
       // Re-add the removed goal
       const removedGoalUuid = plan.goals[2].uuid
-      await page.goto(`/sentence-plan/v1.0/goal/${removedGoalUuid}/confirm-readd-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${removedGoalUuid}/confirm-readd-goal`))
 
       const readdPage = await ConfirmReaddGoalPage.verifyOnPage(page)
       await readdPage.enterReaddNote('Ready to work on this again')
@@ -323,7 +324,7 @@ test.describe('Re-add goal journey', () => {
       const goalUuid = plan.goals[0].uuid
 
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-readd-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-readd-goal`))
 
       const readdPage = await ConfirmReaddGoalPage.verifyOnPage(page)
       await readdPage.enterReaddNote('Ready to work on this again')
@@ -369,13 +370,13 @@ test.describe('Re-add goal journey', () => {
       expect(await planOverviewPage.goalCardHasTargetDateText(0)).toBe(true)
 
       // Remove the goal (this should clear the target_date via markGoalAsRemoved effect)
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-remove-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-remove-goal`))
       const removePage = await ConfirmRemoveGoalPage.verifyOnPage(page)
       await removePage.enterRemovalNote('Temporarily removing this goal')
       await removePage.clickConfirm()
 
       // Now re-add as a future goal
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-readd-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-readd-goal`))
       const readdPage = await ConfirmReaddGoalPage.verifyOnPage(page)
       await readdPage.enterReaddNote('Will work on this later')
       await readdPage.selectCanStartNow(false)
@@ -419,13 +420,13 @@ test.describe('Re-add goal journey', () => {
         .save()
 
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto('/sentence-plan/v1.0/plan/overview?goalStatusTab=removed')
+      await page.goto(caseUrl(page, '/sentence-plan/v1.0/plan/overview?goalStatusTab=removed'))
 
       let planOverviewPage = await PlanOverviewPage.verifyOnPage(page)
       expect(await planOverviewPage.getGoalCount()).toBe(2)
 
       const goalUuid = plan.goals[0].uuid
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-readd-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-readd-goal`))
 
       const readdPage = await ConfirmReaddGoalPage.verifyOnPage(page)
       await readdPage.enterReaddNote('Re-adding this goal')
@@ -433,7 +434,7 @@ test.describe('Re-add goal journey', () => {
       await readdPage.selectTargetDateOption('6_months')
       await readdPage.clickConfirm()
 
-      await page.goto('/sentence-plan/v1.0/plan/overview?goalStatusTab=removed')
+      await page.goto(caseUrl(page, '/sentence-plan/v1.0/plan/overview?goalStatusTab=removed'))
 
       planOverviewPage = await PlanOverviewPage.verifyOnPage(page)
       expect(await planOverviewPage.getGoalCount()).toBe(1)
@@ -452,7 +453,7 @@ test.describe('Re-add goal journey', () => {
       const goalUuid = plan.goals[0].uuid
 
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-readd-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-readd-goal`))
 
       await expect(page).toHaveURL(/\/plan\/overview/)
     })
@@ -475,7 +476,7 @@ test.describe('Re-add goal journey', () => {
       const goalUuid = plan.goals[0].uuid
 
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-readd-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-readd-goal`))
 
       await expect(page).toHaveURL(/\/plan\/overview/)
     })
@@ -6,6 +6,7 @@ import { currentGoalsWithCompletedSteps } from '../../builders/sentencePlanFacto
 import {
   buildErrorPageTitle,
   buildPageTitle,
+  caseUrl,
   checkAccessibility,
   getDatePlusDaysAsISO,
   navigateToSentencePlan,
@@ -28,7 +29,7 @@ test.describe('Remove goal journey', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Navigate to confirm-remove-goal page
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-remove-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-remove-goal`))
 
       const removePage = await ConfirmRemoveGoalPage.verifyOnPage(page)
 
@@ -95,7 +96,7 @@ test.describe('Remove goal journey', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Navigate to confirm-remove-goal page
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-remove-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-remove-goal`))
 
       const removePage = await ConfirmRemoveGoalPage.verifyOnPage(page)
 
@@ -125,7 +126,7 @@ test.describe('Remove goal journey', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Navigate to confirm-remove-goal page
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-remove-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-remove-goal`))
 
       const removePage = await ConfirmRemoveGoalPage.verifyOnPage(page)
 
@@ -150,7 +151,7 @@ test.describe('Remove goal journey', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Navigate to confirm-remove-goal page
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-remove-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-remove-goal`))
 
       const removePage = await ConfirmRemoveGoalPage.verifyOnPage(page)
 
@@ -181,7 +182,7 @@ test.describe('Remove goal journey', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Navigate to confirm-remove-goal page
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-remove-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-remove-goal`))
 
       const removePage = await ConfirmRemoveGoalPage.verifyOnPage(page)
 
@@ -204,7 +205,7 @@ test.describe('Remove goal journey', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Navigate to confirm-remove-goal page
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-remove-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-remove-goal`))
 
       const removePage = await ConfirmRemoveGoalPage.verifyOnPage(page)
 
@@ -241,7 +242,7 @@ test.describe('Remove goal journey', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Navigate to confirm-remove-goal page and confirm
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-remove-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-remove-goal`))
       const removePage = await ConfirmRemoveGoalPage.verifyOnPage(page)
       await removePage.enterRemovalNote('No longer needed')
       await removePage.clickConfirm()
@@ -296,13 +297,13 @@ test.describe('Remove goal journey', () => {
 
       // Navigate to confirm-remove-goal page for first goal and confirm
       const goalUuid = plan.goals[0].uuid
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-remove-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-remove-goal`))
       const removePage = await ConfirmRemoveGoalPage.verifyOnPage(page)
       await removePage.enterRemovalNote('No longer relevant')
       await removePage.clickConfirm()
 
       // Navigate to current goals tab
-      await page.goto('/sentence-plan/v1.0/plan/overview?goalStatusTab=current')
+      await page.goto(caseUrl(page, '/sentence-plan/v1.0/plan/overview?goalStatusTab=current'))
 
       // Verify only 1 goal remains in current goals
       planOverviewPage = await PlanOverviewPage.verifyOnPage(page)
@@ -334,7 +335,7 @@ test.describe('Remove goal journey', () => {
 
       // Remove the goal
       const goalUuid = plan.goals[0].uuid
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-remove-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-remove-goal`))
       const removePage = await ConfirmRemoveGoalPage.verifyOnPage(page)
       await removePage.enterRemovalNote('Testing tab visibility')
       await removePage.clickConfirm()
@@ -360,7 +361,7 @@ test.describe('Remove goal journey', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Remove the goal
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-remove-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-remove-goal`))
       const removePage = await ConfirmRemoveGoalPage.verifyOnPage(page)
       await removePage.enterRemovalNote('Testing action link')
       await removePage.clickConfirm()
@@ -392,7 +393,7 @@ test.describe('Remove goal journey', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Try to navigate to confirm-remove-goal page without agreeing plan
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-remove-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-remove-goal`))
 
       // Should redirect to plan overview (remove is only for agreed plans)
       await expect(page).toHaveURL(/\/plan\/overview/)
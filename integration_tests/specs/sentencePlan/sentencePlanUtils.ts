@@ -1,6 +1,7 @@
 import { AxeBuilder } from '@axe-core/playwright'
 import { expect, Page } from '@playwright/test'
 import { AgreementStatus } from '@server/forms/sentence-plan/effects'
+import { parseCaseContextPath, toCaseContextPath } from '@server/forms/shared/caseContext'
 import PrivacyScreenPage from '../../pages/sentencePlan/privacyScreenPage'
 import PlanOverviewPage from '../../pages/sentencePlan/planOverviewPage'
 import { login } from '../../testUtils'
@@ -63,12 +64,31 @@ export const sentencePlanV1UrlBuilders = {
     `${sentencePlanV1URLs.GOAL_MANAGEMENT_ROOT_PATH}/${goalUuid}/confirm-readd-goal`,
   goalViewInactive: (goalUuid: string) =>
     `${sentencePlanV1URLs.GOAL_MANAGEMENT_ROOT_PATH}/${goalUuid}/view-inactive-goal`,
+  goalHistory: (goalUuid: string) => `${sentencePlanV1URLs.GOAL_MANAGEMENT_ROOT_PATH}/${goalUuid}/history`,
   goalCreate: (areaOfNeed: string) => `${sentencePlanV1URLs.GOAL_MANAGEMENT_ROOT_PATH}/new/add-goal/${areaOfNeed}`,
   goalSelectAreaOfNeed: () => `${sentencePlanV1URLs.GOAL_MANAGEMENT_ROOT_PATH}/new/select-area-of-need`,
+  planCompare: (fromTimestamp: number, toTimestamp: number) =>
+    `${sentencePlanFormPath}${v1Path}${planOverviewJourneyPath}/compare/${fromTimestamp}/${toTimestamp}`,
+  assessmentVersion: (versionUuid: string) => `${sentencePlanFormPath}${v1Path}/view-previous-version/${versionUuid}`,
   planReorderGoal: (goalUuid: string, direction: 'up' | 'down', status: 'ACTIVE' | 'FUTURE' | 'ACHIEVED' | 'REMOVED') =>
     `${sentencePlanV1URLs.PLAN_OVERVIEW}?goalUuid=${goalUuid}&direction=${direction}&status=${status}`,
 }
 
+/**
+ * The sentence plan URL for the case open in the page. Each tab carries the case context ID of
+ * its case in its path, e.g. /sentence-plan/case/:id/v1.0/plan/overview, and plan pages reject
+ * requests without one.
+ */
+export const caseUrl = (page: Page, url: string): string => {
+  const caseContextPath = parseCaseContextPath(new URL(page.url()).pathname)
+
+  if (!caseContextPath) {
+    throw new Error(`The page is not open on a case: ${page.url()}`)
+  }
+
+  return toCaseContextPath(url, caseContextPath.caseContextId)
+}
+
 // Page titles for sentence plan - matches step.title or dynamicTitle values
 export const sentencePlanPageTitles = {
   // Goal management
@@ -101,6 +121,8 @@ export const sentencePlanPageTitles = {
   previousVersions: 'Previous versions',
   historicPlan: 'View historic version',
   printPreview: 'Print preview',
+  exportOptions: 'Choose what to include',
+  easyRead: 'Easy read plan',
 }
 
 export const sentencePlanServiceName = 'Sentence plan'
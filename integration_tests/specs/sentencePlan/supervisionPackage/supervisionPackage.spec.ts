@@ -1,7 +1,7 @@
 import { expect } from '@playwright/test'
 import { test, TargetService } from '../../../support/fixtures'
 import PlanOverviewPage from '../../../pages/sentencePlan/planOverviewPage'
-import { checkAccessibility, navigateToSentencePlan, sentencePlanV1URLs } from '../sentencePlanUtils'
+import { caseUrl, checkAccessibility, navigateToSentencePlan, sentencePlanV1URLs } from '../sentencePlanUtils'
 
 /**
  * Every CRN gets the fully populated default from the wiremock catch-alls: an early
@@ -44,7 +44,7 @@ test.describe('Supervision package', () => {
     await navigateToSentencePlan(page, handoverLink)
 
     await PlanOverviewPage.verifyOnPage(page)
-    await page.goto(sentencePlanV1URLs.SUPERVISION_PACKAGE)
+    await page.goto(caseUrl(page, sentencePlanV1URLs.SUPERVISION_PACKAGE))
 
     await expect(page.getByRole('heading', { name: 'Next appointment' })).toBeVisible()
     // No next-appointment href is passed (the arrange-appointment journey lives in MPoP),
@@ -60,7 +60,7 @@ test.describe('Supervision package', () => {
     await navigateToSentencePlan(page, handoverLink)
 
     await PlanOverviewPage.verifyOnPage(page)
-    await page.goto(sentencePlanV1URLs.SUPERVISION_PACKAGE)
+    await page.goto(caseUrl(page, sentencePlanV1URLs.SUPERVISION_PACKAGE))
 
     await expect(page.getByText('Standard stage')).toBeVisible()
   })
@@ -76,7 +76,7 @@ test.describe('Supervision package', () => {
     await navigateToSentencePlan(page, handoverLink)
 
     await PlanOverviewPage.verifyOnPage(page)
-    await page.goto(sentencePlanV1URLs.SUPERVISION_PACKAGE)
+    await page.goto(caseUrl(page, sentencePlanV1URLs.SUPERVISION_PACKAGE))
 
     await expect(page.getByText('In breach', { exact: true })).toBeVisible()
     await expect(page.getByText('Offender personality disorder', { exact: true })).toBeVisible()
@@ -90,7 +90,7 @@ test.describe('Supervision package', () => {
     await navigateToSentencePlan(page, handoverLink)
 
     await PlanOverviewPage.verifyOnPage(page)
-    await page.goto(sentencePlanV1URLs.SUPERVISION_PACKAGE)
+    await page.goto(caseUrl(page, sentencePlanV1URLs.SUPERVISION_PACKAGE))
 
     // The package still renders — one API failing must not take the others down.
     await expect(page.getByText('Early engagement stage')).toBeVisible()
@@ -105,7 +105,7 @@ test.describe('Supervision package', () => {
     await navigateToSentencePlan(page, handoverLink)
 
     await PlanOverviewPage.verifyOnPage(page)
-    await page.goto(sentencePlanV1URLs.SUPERVISION_PACKAGE)
+    await page.goto(caseUrl(page, sentencePlanV1URLs.SUPERVISION_PACKAGE))
 
     await expect(page.getByText('No appointments scheduled')).toBeVisible()
   })
@@ -138,7 +138,7 @@ test.describe('Supervision package', () => {
 
     // Direct navigation is blocked too — it redirects to the plan overview, so the
     // supervision package heading is not shown.
-    await page.goto(sentencePlanV1URLs.SUPERVISION_PACKAGE)
+    await page.goto(caseUrl(page, sentencePlanV1URLs.SUPERVISION_PACKAGE))
     await expect(page.getByRole('heading', { name: 'Supervision package' })).toBeHidden()
   })
 
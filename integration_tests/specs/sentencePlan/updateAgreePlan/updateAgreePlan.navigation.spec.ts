@@ -3,7 +3,7 @@ import { test, TargetService } from '../../../support/fixtures'
 import UpdateAgreePlanPage from '../../../pages/sentencePlan/updateAgreePlanPage'
 import PlanOverviewPage from '../../../pages/sentencePlan/planOverviewPage'
 import { currentGoalsWithCompletedSteps } from '../../../builders/sentencePlanFactories'
-import { navigateToSentencePlan, sentencePlanV1URLs } from '../sentencePlanUtils'
+import { caseUrl, navigateToSentencePlan, sentencePlanV1URLs } from '../sentencePlanUtils'
 
 test.describe('Update agree plan - Navigation', () => {
   test.describe('access control', () => {
@@ -20,7 +20,7 @@ test.describe('Update agree plan - Navigation', () => {
         .save()
 
       await navigateToSentencePlan(page, handoverLink)
-      await page.goto(sentencePlanV1URLs.PLAN_UPDATE_AGREE)
+      await page.goto(caseUrl(page, sentencePlanV1URLs.PLAN_UPDATE_AGREE))
 
       await PlanOverviewPage.verifyOnPage(page)
     })
@@ -4,7 +4,7 @@ import UpdateAgreePlanPage from '../../../pages/sentencePlan/updateAgreePlanPage
 import PlanOverviewPage from '../../../pages/sentencePlan/planOverviewPage'
 import PlanHistoryPage from '../../../pages/sentencePlan/planHistoryPage'
 import { currentGoalsWithCompletedSteps } from '../../../builders/sentencePlanFactories'
-import { navigateToSentencePlan, sentencePlanV1URLs } from '../sentencePlanUtils'
+import { caseUrl, navigateToSentencePlan, sentencePlanV1URLs } from '../sentencePlanUtils'
 
 test.describe('Update agree plan - Plan history', () => {
   test.beforeEach(async ({ page, createSession, sentencePlanBuilder }) => {
@@ -28,7 +28,7 @@ test.describe('Update agree plan - Plan history', () => {
 
     // Navigate to plan history
     await expect(page).toHaveURL(/\/plan\/overview/)
-    await page.goto(sentencePlanV1URLs.PLAN_HISTORY)
+    await page.goto(caseUrl(page, sentencePlanV1URLs.PLAN_HISTORY))
     const planHistoryPage = await PlanHistoryPage.verifyOnPage(page)
 
     // Verify updated agreement entry
@@ -50,7 +50,7 @@ test.describe('Update agree plan - Plan history', () => {
 
     // Navigate to plan history
     await expect(page).toHaveURL(/\/plan\/overview/)
-    await page.goto(sentencePlanV1URLs.PLAN_HISTORY)
+    await page.goto(caseUrl(page, sentencePlanV1URLs.PLAN_HISTORY))
     const planHistoryPage = await PlanHistoryPage.verifyOnPage(page)
 
     await planHistoryPage.clickShowAllSectionsButton()
@@ -75,7 +75,7 @@ test.describe('Update agree plan - Plan history', () => {
 
     // Navigate to plan history
     await expect(page).toHaveURL(/\/plan\/overview/)
-    await page.goto(sentencePlanV1URLs.PLAN_HISTORY)
+    await page.goto(caseUrl(page, sentencePlanV1URLs.PLAN_HISTORY))
     const planHistoryPage = await PlanHistoryPage.verifyOnPage(page)
 
     await planHistoryPage.clickShowAllSectionsButton()
@@ -101,7 +101,7 @@ test.describe('Update agree plan - Plan history', () => {
 
     // Navigate to plan history
     await expect(page).toHaveURL(/\/plan\/overview/)
-    await page.goto(sentencePlanV1URLs.PLAN_HISTORY)
+    await page.goto(caseUrl(page, sentencePlanV1URLs.PLAN_HISTORY))
     const planHistoryPage = await PlanHistoryPage.verifyOnPage(page)
 
     await planHistoryPage.clickShowAllSectionsButton()
@@ -126,7 +126,7 @@ test.describe('Update agree plan - Plan history', () => {
 
     // Navigate to plan history
     await expect(page).toHaveURL(/\/plan\/overview/)
-    await page.goto(sentencePlanV1URLs.PLAN_HISTORY)
+    await page.goto(caseUrl(page, sentencePlanV1URLs.PLAN_HISTORY))
     const planHistoryPage = await PlanHistoryPage.verifyOnPage(page)
 
     await planHistoryPage.clickShowAllSectionsButton()
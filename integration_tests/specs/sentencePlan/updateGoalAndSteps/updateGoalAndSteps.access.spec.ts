@@ -2,7 +2,12 @@ import { expect } from '@playwright/test'
 import { test, TargetService } from '../../../support/fixtures'
 import UpdateGoalAndStepsPage from '../../../pages/sentencePlan/updateGoalAndStepsPage'
 import { currentGoals } from '../../../builders/sentencePlanFactories'
-import { navigateToSentencePlan, postAgreementProcessStatuses, sentencePlanV1UrlBuilders } from '../sentencePlanUtils'
+import {
+  caseUrl,
+  navigateToSentencePlan,
+  postAgreementProcessStatuses,
+  sentencePlanV1UrlBuilders,
+} from '../sentencePlanUtils'
 
 test.describe('Update goal and steps page - access control', () => {
   test('redirects to plan overview when plan is not agreed', async ({ page, createSession, sentencePlanBuilder }) => {
@@ -14,7 +19,7 @@ test.describe('Update goal and steps page - access control', () => {
     await navigateToSentencePlan(page, handoverLink)
 
     // try to access update-goal-steps page directly
-    await page.goto(sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid))
+    await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid)))
 
     // should be redirected to plan overview
     await expect(page).toHaveURL(/\/plan\/overview/)
@@ -36,11 +41,11 @@ test.describe('Update goal and steps page - access control', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid)))
 
       // should be on the update-goal-steps page
       await UpdateGoalAndStepsPage.verifyOnPage(page)
-      await expect(page).toHaveURL(sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid))
+      await expect(page).toHaveURL(caseUrl(page, sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid)))
     })
   }
 
@@ -52,7 +57,7 @@ test.describe('Update goal and steps page - access control', () => {
 
     // try to access with a non-existent goal UUID
     const nonExistentUuid = '00000000-0000-0000-0000-000000000000'
-    await page.goto(sentencePlanV1UrlBuilders.goalUpdateSteps(nonExistentUuid))
+    await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalUpdateSteps(nonExistentUuid)))
 
     // should be redirected to plan overview
     await expect(page).toHaveURL(/\/plan\/overview/)
@@ -3,6 +3,7 @@ import { test, TargetService } from '../../../support/fixtures'
 import UpdateGoalAndStepsPage from '../../../pages/sentencePlan/updateGoalAndStepsPage'
 import { currentGoals, futureGoals } from '../../../builders/sentencePlanFactories'
 import {
+  caseUrl,
   getDatePlusDaysAsISO,
   navigateToSentencePlan,
   stepStatusOptions,
@@ -37,7 +38,7 @@ test.describe('Update goal and steps page', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid)))
 
       const updatePage = await UpdateGoalAndStepsPage.verifyOnPage(page)
 
@@ -90,7 +91,7 @@ test.describe('Update goal and steps page', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid)))
 
       const updatePage = await UpdateGoalAndStepsPage.verifyOnPage(page)
 
@@ -118,7 +119,7 @@ test.describe('Update goal and steps page', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid)))
 
       const updatePage = await UpdateGoalAndStepsPage.verifyOnPage(page)
 
@@ -159,7 +160,7 @@ test.describe('Update goal and steps page', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid)))
 
       const updatePage = await UpdateGoalAndStepsPage.verifyOnPage(page)
 
@@ -203,7 +204,7 @@ test.describe('Update goal and steps page', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid)))
 
       const updatePage = await UpdateGoalAndStepsPage.verifyOnPage(page)
 
@@ -236,7 +237,7 @@ test.describe('Update goal and steps page', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid)))
 
       const updatePage = await UpdateGoalAndStepsPage.verifyOnPage(page)
 
@@ -264,7 +265,7 @@ test.describe('Update goal and steps page', () => {
 
         await navigateToSentencePlan(page, handoverLink)
 
-        await page.goto(sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid))
+        await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid)))
 
         const updatePage = await UpdateGoalAndStepsPage.verifyOnPage(page)
 
@@ -292,7 +293,7 @@ test.describe('Update goal and steps page', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid)))
 
       const updatePage = await UpdateGoalAndStepsPage.verifyOnPage(page)
 
@@ -321,7 +322,7 @@ test.describe('Update goal and steps page', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid)))
 
       const updatePage = await UpdateGoalAndStepsPage.verifyOnPage(page)
 
@@ -349,7 +350,7 @@ test.describe('Update goal and steps page', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid)))
 
       const updatePage = await UpdateGoalAndStepsPage.verifyOnPage(page)
 
@@ -388,7 +389,7 @@ test.describe('Update goal and steps page', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid)))
 
       const updatePage = await UpdateGoalAndStepsPage.verifyOnPage(page)
 
@@ -415,7 +416,7 @@ test.describe('Update goal and steps page', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid)))
 
       const updatePage = await UpdateGoalAndStepsPage.verifyOnPage(page)
 
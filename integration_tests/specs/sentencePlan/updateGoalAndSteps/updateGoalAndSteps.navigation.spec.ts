@@ -6,6 +6,7 @@ import ConfirmIfAchievedPage from '../../../pages/sentencePlan/confirmIfAchieved
 import ConfirmAchievedGoalPage from '../../../pages/sentencePlan/confirmAchievedGoalPage'
 import { currentGoals, futureGoals } from '../../../builders/sentencePlanFactories'
 import {
+  caseUrl,
   getDatePlusDaysAsISO,
   navigateToSentencePlan,
   sentencePlanV1URLs,
@@ -46,14 +47,14 @@ test.describe('Update goal and steps page - navigation', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid)))
 
       const updatePage = await UpdateGoalAndStepsPage.verifyOnPage(page)
 
       await updatePage.clickSaveGoalAndSteps()
 
       // should redirect to current goals tab
-      await expect(page).toHaveURL(planOverviewPageCurrentGoalsTabPath)
+      await expect(page).toHaveURL(caseUrl(page, planOverviewPageCurrentGoalsTabPath))
     })
 
     test('redirects to future tab when not all steps completed for FUTURE goal', async ({
@@ -81,14 +82,14 @@ test.describe('Update goal and steps page - navigation', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid)))
 
       const updatePage = await UpdateGoalAndStepsPage.verifyOnPage(page)
 
       await updatePage.clickSaveGoalAndSteps()
 
       // should redirect to future goals tab
-      await expect(page).toHaveURL(planOverviewPageFutureGoalsTabPath)
+      await expect(page).toHaveURL(caseUrl(page, planOverviewPageFutureGoalsTabPath))
     })
 
     test('redirects to confirm-if-achieved when all steps are marked COMPLETED', async ({
@@ -117,7 +118,7 @@ test.describe('Update goal and steps page - navigation', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid)))
 
       const updatePage = await UpdateGoalAndStepsPage.verifyOnPage(page)
 
@@ -158,7 +159,7 @@ test.describe('Update goal and steps page - navigation', () => {
 
         await navigateToSentencePlan(page, handoverLink)
 
-        await page.goto(sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid))
+        await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid)))
 
         const updatePage = await UpdateGoalAndStepsPage.verifyOnPage(page)
 
@@ -169,7 +170,7 @@ test.describe('Update goal and steps page - navigation', () => {
         await updatePage.clickSaveGoalAndSteps()
 
         // should redirect to plan overview not confirm-if-achieved
-        await expect(page).toHaveURL(planOverviewPageCurrentGoalsTabPath)
+        await expect(page).toHaveURL(caseUrl(page, planOverviewPageCurrentGoalsTabPath))
       })
     }
 
@@ -196,7 +197,7 @@ test.describe('Update goal and steps page - navigation', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid)))
 
       let updatePage = await UpdateGoalAndStepsPage.verifyOnPage(page)
 
@@ -207,10 +208,10 @@ test.describe('Update goal and steps page - navigation', () => {
       await updatePage.clickSaveGoalAndSteps()
 
       // should save and redirect to overview
-      await expect(page).toHaveURL(planOverviewPageCurrentGoalsTabPath)
+      await expect(page).toHaveURL(caseUrl(page, planOverviewPageCurrentGoalsTabPath))
 
       // navigate back to update page to verify changes were persisted
-      await page.goto(sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid)))
       updatePage = await UpdateGoalAndStepsPage.verifyOnPage(page)
 
       // verify step status was saved
@@ -249,7 +250,7 @@ test.describe('Update goal and steps page - navigation', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid)))
 
       const updatePage = await UpdateGoalAndStepsPage.verifyOnPage(page)
 
@@ -260,7 +261,7 @@ test.describe('Update goal and steps page - navigation', () => {
       await confirmPage.clickConfirm()
 
       // should redirect to achieved goals tab
-      await expect(page).toHaveURL(planOverviewPageAchievedGoalsTabPath)
+      await expect(page).toHaveURL(caseUrl(page, planOverviewPageAchievedGoalsTabPath))
 
       // verify the goal appears in the achieved goals list
       const planOverviewPage = await PlanOverviewPage.verifyOnPage(page)
@@ -285,13 +286,13 @@ test.describe('Update goal and steps page - navigation', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid)))
 
       const updatePage = await UpdateGoalAndStepsPage.verifyOnPage(page)
 
       await updatePage.clickChangeGoalDetails()
 
-      await expect(page).toHaveURL(sentencePlanV1UrlBuilders.goalChange(goalUuid))
+      await expect(page).toHaveURL(caseUrl(page, sentencePlanV1UrlBuilders.goalChange(goalUuid)))
     })
 
     test('add or change steps link navigates to add-steps page', async ({
@@ -317,13 +318,13 @@ test.describe('Update goal and steps page - navigation', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid)))
 
       const updatePage = await UpdateGoalAndStepsPage.verifyOnPage(page)
 
       await updatePage.clickAddOrChangeSteps()
 
-      await expect(page).toHaveURL(sentencePlanV1UrlBuilders.goalAddSteps(goalUuid))
+      await expect(page).toHaveURL(caseUrl(page, sentencePlanV1UrlBuilders.goalAddSteps(goalUuid)))
     })
 
     test('add steps link (when no steps) navigates to add-steps page', async ({
@@ -348,13 +349,13 @@ test.describe('Update goal and steps page - navigation', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid)))
 
       const updatePage = await UpdateGoalAndStepsPage.verifyOnPage(page)
 
       await updatePage.clickAddSteps()
 
-      await expect(page).toHaveURL(sentencePlanV1UrlBuilders.goalAddSteps(goalUuid))
+      await expect(page).toHaveURL(caseUrl(page, sentencePlanV1UrlBuilders.goalAddSteps(goalUuid)))
     })
 
     test('remove goal from plan link navigates to confirm-remove-goal page', async ({
@@ -372,13 +373,13 @@ test.describe('Update goal and steps page - navigation', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid)))
 
       const updatePage = await UpdateGoalAndStepsPage.verifyOnPage(page)
 
       await updatePage.clickRemoveGoal()
 
-      await expect(page).toHaveURL(sentencePlanV1UrlBuilders.goalConfirmRemoved(goalUuid))
+      await expect(page).toHaveURL(caseUrl(page, sentencePlanV1UrlBuilders.goalConfirmRemoved(goalUuid)))
     })
   })
 
@@ -394,14 +395,14 @@ test.describe('Update goal and steps page - navigation', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid)))
 
       const updatePage = await UpdateGoalAndStepsPage.verifyOnPage(page)
 
       await expect(updatePage.backLink).toBeVisible()
       await updatePage.clickBackLink()
 
-      await expect(page).toHaveURL(planOverviewPageCurrentGoalsTabPath)
+      await expect(page).toHaveURL(caseUrl(page, planOverviewPageCurrentGoalsTabPath))
     })
 
     test('back link navigates to future tab for FUTURE goal', async ({ page, createSession, sentencePlanBuilder }) => {
@@ -415,14 +416,14 @@ test.describe('Update goal and steps page - navigation', () => {
 
       await navigateToSentencePlan(page, handoverLink)
 
-      await page.goto(sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid))
+      await page.goto(caseUrl(page, sentencePlanV1UrlBuilders.goalUpdateSteps(goalUuid)))
 
       const updatePage = await UpdateGoalAndStepsPage.verifyOnPage(page)
 
       await expect(updatePage.backLink).toBeVisible()
       await updatePage.clickBackLink()
 
-      await expect(page).toHaveURL(planOverviewPageFutureGoalsTabPath)
+      await expect(page).toHaveURL(caseUrl(page, planOverviewPageFutureGoalsTabPath))
     })
   })
 })
@@ -7,6 +7,7 @@ import PlanHistoryPage from '../../pages/sentencePlan/planHistoryPage'
 import { currentGoalsWithCompletedSteps } from '../../builders/sentencePlanFactories'
 import {
   buildPageTitle,
+  caseUrl,
   getDatePlusDaysAsISO,
   navigateToSentencePlan,
   sentencePlanPageTitles,
@@ -38,13 +39,13 @@ test.describe('View inactive goal page', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Mark goal as achieved
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-achieved-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-achieved-goal`))
       const achievePage = await ConfirmAchievedGoalPage.verifyOnPage(page)
       await achievePage.enterHowHelpedNote('Secured stable housing')
       await achievePage.clickConfirm()
 
       // Navigate to view-inactive-goal page
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/view-inactive-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/view-inactive-goal`))
 
       const viewPage = await ViewInactiveGoalPage.verifyOnPage(page)
 
@@ -79,12 +80,12 @@ test.describe('View inactive goal page', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Mark goal as achieved
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-achieved-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-achieved-goal`))
       const achievePage = await ConfirmAchievedGoalPage.verifyOnPage(page)
       await achievePage.clickConfirm()
 
       // Navigate to view-inactive-goal page
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/view-inactive-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/view-inactive-goal`))
 
       const viewPage = await ViewInactiveGoalPage.verifyOnPage(page)
 
@@ -105,12 +106,12 @@ test.describe('View inactive goal page', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Mark goal as achieved
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-achieved-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-achieved-goal`))
       const achievePage = await ConfirmAchievedGoalPage.verifyOnPage(page)
       await achievePage.clickConfirm()
 
       // Navigate to view-inactive-goal page
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/view-inactive-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/view-inactive-goal`))
 
       const viewPage = await ViewInactiveGoalPage.verifyOnPage(page)
 
@@ -148,13 +149,13 @@ test.describe('View inactive goal page', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Mark goal as removed
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-remove-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-remove-goal`))
       const removePage = await ConfirmRemoveGoalPage.verifyOnPage(page)
       await removePage.enterRemovalNote('No longer relevant to current situation')
       await removePage.clickConfirm()
 
       // Navigate to view-inactive-goal page
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/view-inactive-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/view-inactive-goal`))
 
       const viewPage = await ViewInactiveGoalPage.verifyOnPage(page)
 
@@ -185,13 +186,13 @@ test.describe('View inactive goal page', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Mark goal as removed
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-remove-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-remove-goal`))
       const removePage = await ConfirmRemoveGoalPage.verifyOnPage(page)
       await removePage.enterRemovalNote('Testing button visibility')
       await removePage.clickConfirm()
 
       // Navigate to view-inactive-goal page
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/view-inactive-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/view-inactive-goal`))
 
       const viewPage = await ViewInactiveGoalPage.verifyOnPage(page)
 
@@ -212,13 +213,13 @@ test.describe('View inactive goal page', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Mark goal as removed
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-remove-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-remove-goal`))
       const removePage = await ConfirmRemoveGoalPage.verifyOnPage(page)
       await removePage.enterRemovalNote('Testing back link')
       await removePage.clickConfirm()
 
       // Navigate to view-inactive-goal page
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/view-inactive-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/view-inactive-goal`))
 
       const viewPage = await ViewInactiveGoalPage.verifyOnPage(page)
 
@@ -255,12 +256,12 @@ test.describe('View inactive goal page', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Mark goal as achieved
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-achieved-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-achieved-goal`))
       const achievePage = await ConfirmAchievedGoalPage.verifyOnPage(page)
       await achievePage.clickConfirm()
 
       // Navigate to view-inactive-goal page
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/view-inactive-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/view-inactive-goal`))
 
       const viewPage = await ViewInactiveGoalPage.verifyOnPage(page)
 
@@ -297,13 +298,13 @@ test.describe('View inactive goal page', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Mark goal as achieved with a note
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-achieved-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-achieved-goal`))
       const achievePage = await ConfirmAchievedGoalPage.verifyOnPage(page)
       await achievePage.enterHowHelpedNote('This helped them find stable housing')
       await achievePage.clickConfirm()
 
       // Navigate to view-inactive-goal page
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/view-inactive-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/view-inactive-goal`))
 
       const viewPage = await ViewInactiveGoalPage.verifyOnPage(page)
 
@@ -332,12 +333,12 @@ test.describe('View inactive goal page', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Mark goal as achieved without a note
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-achieved-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-achieved-goal`))
       const achievePage = await ConfirmAchievedGoalPage.verifyOnPage(page)
       await achievePage.clickConfirm()
 
       // Navigate to view-inactive-goal page
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/view-inactive-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/view-inactive-goal`))
 
       const viewPage = await ViewInactiveGoalPage.verifyOnPage(page)
 
@@ -372,12 +373,12 @@ test.describe('View inactive goal page', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Mark goal as achieved
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-achieved-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-achieved-goal`))
       const achievePage = await ConfirmAchievedGoalPage.verifyOnPage(page)
       await achievePage.clickConfirm()
 
       // Navigate to view-inactive-goal page
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/view-inactive-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/view-inactive-goal`))
 
       const viewPage = await ViewInactiveGoalPage.verifyOnPage(page)
 
@@ -407,12 +408,12 @@ test.describe('View inactive goal page', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Mark goal as achieved
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/confirm-achieved-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/confirm-achieved-goal`))
       const achievePage = await ConfirmAchievedGoalPage.verifyOnPage(page)
       await achievePage.clickConfirm()
 
       // Navigate to view-inactive-goal page
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/view-inactive-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/view-inactive-goal`))
 
       const viewPage = await ViewInactiveGoalPage.verifyOnPage(page)
 
@@ -447,13 +448,13 @@ test.describe('View inactive goal page', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Visit plan history first to set the "came from plan history" context
-      await page.goto('/sentence-plan/v1.0/plan/plan-history')
+      await page.goto(caseUrl(page, '/sentence-plan/v1.0/plan/plan-history'))
       await PlanHistoryPage.verifyOnPage(page)
 
       // Navigate directly to view-inactive-goal — the link from plan history was removed
       // in SP2-2105 and will be re-introduced later. Direct navigation preserves the
       // referrer, exercising the same back-link routing the link click used to.
-      await page.goto(`/sentence-plan/v1.0/goal/${goalUuid}/view-inactive-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${goalUuid}/view-inactive-goal`))
 
       await ViewInactiveGoalPage.verifyOnPage(page)
 
@@ -476,7 +477,7 @@ test.describe('View inactive goal page', () => {
       await navigateToSentencePlan(page, handoverLink)
 
       // Try to navigate with invalid goal UUID
-      await page.goto(`/sentence-plan/v1.0/goal/${invalidGoalUuid}/view-inactive-goal`)
+      await page.goto(caseUrl(page, `/sentence-plan/v1.0/goal/${invalidGoalUuid}/view-inactive-goal`))
 
       // Should redirect to plan overview
       await expect(page).toHaveURL(/\/plan\/overview/)
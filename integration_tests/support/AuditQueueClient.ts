@@ -1,4 +1,11 @@
-import { SQSClient, ReceiveMessageCommand, DeleteMessageCommand, PurgeQueueCommand } from '@aws-sdk/client-sqs'
+import {
+  SQSClient,
+  ReceiveMessageCommand,
+  DeleteMessageCommand,
+  PurgeQueueCommand,
+  CreateQueueCommand,
+  DeleteQueueCommand,
+} from '@aws-sdk/client-sqs'
 import { appendFileSync, readFileSync, writeFileSync, mkdirSync } from 'node:fs'
 import { join, dirname } from 'node:path'
 
@@ -56,6 +63,15 @@ export class AuditQueueClient {
     writeFileSync(CACHE_FILE, '')
   }
 
+  /** Delete the queue, so audit messages fail to send until it is recreated. */
+  async deleteQueue(): Promise<void> {
+    await this.sqs.send(new DeleteQueueCommand({ QueueUrl: this.queueUrl }))
+  }
+
+  async recreateQueue(): Promise<void> {
+    await this.sqs.send(new CreateQueueCommand({ QueueName: this.queueUrl.split('/').at(-1) }))
+  }
+
   async waitForAuditEvent(
     crn: string,
     eventName: string,
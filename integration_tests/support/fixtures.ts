@@ -4,6 +4,7 @@ import type { AuthenticationClient } from '@ministryofjustice/hmpps-auth-clients
 import { promises as fs } from 'node:fs'
 import type { AccessMode, CriminogenicNeedsData } from '@server/interfaces/handover-api/shared'
 import type { AssessmentType } from '@server/interfaces/coordinator-api/oasysCreate'
+import type { FeatureFlagOverrides } from '@server/utils/featureFlagsUtils'
 import type { PlaywrightExtendedConfig } from '../../playwright.config'
 import { TestHmppsAuthClient } from './apis/TestHmppsAuthClient'
 import { TestAapApiClient } from './apis/TestAapApiClient'
@@ -151,6 +152,11 @@ type TestApiFixtures = {
   createSession: (options: CreateSessionOptions) => Promise<SessionFixture>
   auditQueue: AuditQueueClient
   makeAxeBuilder: () => AxeBuilder
+  /**
+   * Set feature flags for the rest of the test, by Flipt key, whatever Flipt says.
+   * Sent as a cookie, which the UI only honours with FEATURE_FLAG_OVERRIDES_ENABLED, as in docker-compose.test.yml.
+   */
+  overrideFeatureFlags: (overrides: FeatureFlagOverrides) => Promise<void>
 }
 
 type InternalFixtures = {
@@ -319,6 +325,14 @@ export const test = base.extend<TestApiFixtures & InternalFixtures, WorkerFixtur
     await use(makeAxeBuilder)
   },
 
+  overrideFeatureFlags: async ({ context, baseURL }, use) => {
+    const overrideFeatureFlags = async (overrides: FeatureFlagOverrides) => {
+      await context.addCookies([{ name: 'feature-flag-overrides', value: JSON.stringify(overrides), url: baseURL }])
+    }
+
+    await use(overrideFeatureFlags)
+  },
+
   captureDockerLogsOnFailure: [
     // eslint-disable-next-line no-empty-pattern
     async ({}, use, testInfo) => {
@@ -2,6 +2,9 @@ import { HmppsUser } from '../../interfaces/hmppsUser'
 import { HandoverContext } from '../../interfaces/handover-api/response'
 import { CaseDetails } from '../../interfaces/delius-api/caseDetails'
 import { SessionDetails } from '../../interfaces/sessionDetails'
+import { PlanConflict } from '../../interfaces/planConflict'
+import { CaseContext } from '../../interfaces/caseContext'
+import { FeatureFlagOverrides } from '../../utils/featureFlagsUtils'
 
 export declare module 'express-session' {
   // Declare that the session will potentially contain these additional fields
@@ -22,7 +25,12 @@ export declare module 'express-session' {
     telemetryId?: string
     handoverContext?: HandoverContext
     caseDetails?: CaseDetails
+    accessDetails?: CaseContext['accessDetails']
     sessionDetails?: SessionDetails
+    planConflict?: PlanConflict
+    caseContextId?: string
+    caseContexts?: Record<string, CaseContext>
+    assessmentFlags?: string[]
   }
 }
 
@@ -36,6 +44,7 @@ declare global {
       preferencesId?: string
       requestId?: string
       traceId?: string
+      featureFlagOverrides?: FeatureFlagOverrides
       user?: {
         id: string
         name: string
@@ -8,7 +8,9 @@ import { govukComponents } from '@ministryofjustice/hmpps-forge/govuk-components
 import { mojComponents } from '@ministryofjustice/hmpps-forge/moj-components'
 import nunjucksSetup from './utils/nunjucksSetup'
 import errorHandler from './routes/error/errorHandler'
+import planConflictHandler from './routes/error/planConflictHandler'
 import authorisationMiddleware from './middleware/authorisationMiddleware'
+import formAccessPolicyMiddleware from './middleware/formAccessPolicyMiddleware'
 
 import setUpAuthentication from './middleware/setUpAuthentication'
 import setUpCsrf from './middleware/setUpCsrf'
@@ -22,18 +24,34 @@ import setUpPreferencesCookie from './middleware/setUpPreferencesCookie'
 import setUpRequestLogging from './middleware/setUpRequestLogging'
 import setUpPreviousPageTracking from './middleware/setUpPreviousPageTracking'
 import setUpFeatureFlags from './middleware/setUpFeatureFlags'
+import setUpFeatureFlagOverrides from './middleware/setUpFeatureFlagOverrides'
+import setUpRequestScope from './middleware/setUpRequestScope'
+import setUpCaseContextPaths from './middleware/setUpCaseContextPaths'
 
 import routes from './routes'
+import config from './config'
 import type { Services } from './services'
 import logger from '../logger'
 import { forgeDevToolsInstrumentationSink } from './forgeDevTools'
 
 // Form packages
-import accessFormPackage from './forms/access'
-import platformPoliciesFormPackage from './forms/platform'
-import sentencePlanFormPackage from './forms/sentence-plan'
-import trainingSessionLauncher from './forms/training-session-launcher'
-import dataDeletionTool from './forms/data-deletion-tool'
+import accessFormPackage, { accessPolicy as accessFormAccessPolicy } from './forms/access'
+import platformPoliciesFormPackage, { accessPolicy as platformPoliciesAccessPolicy } from './forms/platform'
+import sentencePlanFormPackage, { accessPolicy as sentencePlanAccessPolicy } from './forms/sentence-plan'
+import trainingSessionLauncher, {
+  accessPolicy as trainingSessionLauncherAccessPolicy,
+} from './forms/training-session-launcher'
+import dataDeletionTool, { accessPolicy as dataDeletionToolAccessPolicy } from './forms/data-deletion-tool'
+import { getPublicPaths } from './forms/shared'
+
+// Who can use each form package registered below
+const formAccessPolicies = [
+  trainingSessionLauncherAccessPolicy,
+  dataDeletionToolAccessPolicy,
+  platformPoliciesAccessPolicy,
+  accessFormAccessPolicy,
+  sentencePlanAccessPolicy,
+]
 
 export default function createApp(services: Services): express.Application {
   const app = express()
@@ -71,32 +89,35 @@ export default function createApp(services: Services): express.Application {
       auditService: services.auditService,
       featureFlagService: services.featureFlagService,
       domainEventsService: services.domainEventsService,
+      accessLogStore: services.accessLogStore,
+      accessLogRoles: config.accessLog.roles,
     })
 
   // Setup middleware
-  app.use(setUpHealthChecks(services.applicationInfo))
+  app.use(setUpHealthChecks(services.applicationInfo, [services.domainEventsService.outboxHealthComponent()]))
   app.use(setUpWebSecurity())
   app.use(setUpWebSession())
   app.use(setUpRequestLogging())
   app.use(setUpWebRequestParsing())
+  app.use(setUpCaseContextPaths())
   app.use(setUpPreferencesCookie())
   app.use(setUpStaticResources())
   app.use(
     setUpAuthentication({
-      bypassPaths: [
-        '/training-session-launcher',
-        '/data-deletion-tool',
-        '/platform',
-        // Allow access to session timeout page even with expired session
-        // so we can show the "information deleted" message and re-auth link
-        '/sentence-plan/unsaved-information-deleted',
-      ],
+      bypassPaths: getPublicPaths(formAccessPolicies),
+    }),
+  )
+  app.use(
+    authorisationMiddleware([], services.deliusApiClient, {
+      accessRecheckSeconds: config.caseAccess.recheckSeconds,
     }),
   )
-  app.use(authorisationMiddleware([], services.deliusApiClient))
   app.use(setUpCsrf())
   app.use(setUpCurrentUser())
+  app.use(formAccessPolicyMiddleware(formAccessPolicies))
+  app.use(setUpFeatureFlagOverrides())
   app.use(setUpFeatureFlags(services.featureFlagService))
+  app.use(setUpRequestScope())
   app.use(setUpPreviousPageTracking())
 
   // lazy getter so templates read the session value at render time,
@@ -118,6 +139,7 @@ export default function createApp(services: Services): express.Application {
     logger.warn({ path: req.path }, 'Page not found')
     next(createError(404, 'Not found'))
   })
+  app.use(planConflictHandler())
   app.use(errorHandler(process.env.NODE_ENV === 'production'))
 
   return app
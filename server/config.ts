@@ -13,6 +13,17 @@ function get<T>(name: string, fallback: T, options = { requireInProduction: fals
 }
 
 const requiredInProduction = { requireInProduction: true }
+
+// Roles are configured comma separated, and matched without the ROLE_ prefix
+const getRoles = (name: string, fallback: string): string[] =>
+  get(name, fallback)
+    .split(',')
+    .map(role => role.trim().replace(/^ROLE_/, ''))
+    .filter(Boolean)
+
+// Production itself, rather than a production build deployed to e.g. preprod, which has an environment name
+const environmentName = get('ENVIRONMENT_NAME', '')
+const productionEnvironment = environmentName === 'PRODUCTION' || (production && !environmentName)
 const ingressUrl = get('INGRESS_URL', 'http://localhost:3000', requiredInProduction)
 
 const auditConfig = () => {
@@ -26,6 +37,20 @@ const auditConfig = () => {
     ),
     serviceName: get('AUDIT_SERVICE_NAME', 'UNASSIGNED', auditEnabled && requiredInProduction),
     region: get('AUDIT_SQS_REGION', 'eu-west-2'),
+    // Messages that fail to send are held in memory and retried with backoff
+    delivery: {
+      retryIntervalMs: Number(get('AUDIT_RETRY_INTERVAL_MS', 5000)),
+      maxAttempts: Number(get('AUDIT_MAX_ATTEMPTS', 8)),
+      baseDelayMs: Number(get('AUDIT_RETRY_BASE_DELAY_MS', 1000)),
+      maxDelayMs: Number(get('AUDIT_RETRY_MAX_DELAY_MS', 5 * 60 * 1000)),
+      maxBufferedMessages: Number(get('AUDIT_MAX_BUFFERED_MESSAGES', 1000)),
+      failClosedAttempts: Number(get('AUDIT_FAIL_CLOSED_ATTEMPTS', 3)),
+      // Comma separated AuditEvent names that block the user's action if they can't be sent
+      failClosedEvents: get('AUDIT_FAIL_CLOSED_EVENTS', '')
+        .split(',')
+        .map(event => event.trim())
+        .filter(Boolean),
+    },
   }
 }
 
@@ -51,6 +76,12 @@ export default {
     password: process.env.CACHE_REDIS_AUTH_TOKEN,
     tls_enabled: get('REDIS_TLS_ENABLED', 'false'),
   },
+  assessmentCache: {
+    // Expiry of entries written by the UI
+    ttlSeconds: Number(get('ASSESSMENT_CACHE_TTL_SECONDS', 60 * 5)),
+    // Assessments cached by the UI longer ago than this are ignored and re-fetched
+    maxAgeSeconds: Number(get('ASSESSMENT_CACHE_MAX_AGE_SECONDS', 60 * 60)),
+  },
   session: {
     secret: get('SESSION_SECRET', 'app-insecure-default-session', requiredInProduction),
     expiryMinutes: Number(get('WEB_SESSION_TIMEOUT_IN_MINUTES', 60)),
@@ -112,6 +143,7 @@ export default {
         deadline: Number(get('AAP_API_TIMEOUT_DEADLINE', 5000)),
       },
       agent: new AgentConfig(Number(get('AAP_API_TIMEOUT_RESPONSE', 5000))),
+      enforceResponseValidation: get('AAP_API_ENFORCE_RESPONSE_VALIDATION', 'false') === 'true',
     },
     deliusApi: {
       url: get('DELIUS_API_URL', 'http://localhost:9091', requiredInProduction),
@@ -168,16 +200,44 @@ export default {
   sns: {
     region: get('SNS_REGION', 'eu-west-2'),
     topicArn: get('SNS_TOPIC_ARN', ''),
+    // Events wait in a Redis outbox until SNS accepts them, when Redis is enabled
+    outbox: {
+      pollIntervalMs: Number(get('DOMAIN_EVENTS_OUTBOX_POLL_INTERVAL_MS', 10000)),
+      batchSize: Number(get('DOMAIN_EVENTS_OUTBOX_BATCH_SIZE', 50)),
+      maxAttempts: Number(get('DOMAIN_EVENTS_OUTBOX_MAX_ATTEMPTS', 10)),
+      baseDelayMs: Number(get('DOMAIN_EVENTS_OUTBOX_BASE_DELAY_MS', 5000)),
+      maxDelayMs: Number(get('DOMAIN_EVENTS_OUTBOX_MAX_DELAY_MS', 15 * 60 * 1000)),
+      leaseMs: Number(get('DOMAIN_EVENTS_OUTBOX_LEASE_MS', 30000)),
+    },
+  },
+  // Who has accessed a case, recorded from audit events when Redis is enabled
+  accessLog: {
+    // Roles, without the ROLE_ prefix, that can see a case's access log
+    roles: getRoles('ACCESS_LOG_ROLES', 'ARNS_ACCESS_LOG'),
+    maxEntries: Number(get('ACCESS_LOG_MAX_ENTRIES', 1000)),
+    retentionDays: Number(get('ACCESS_LOG_RETENTION_DAYS', 365)),
+  },
+  caseAccess: {
+    // How long a user's Delius access to a case is trusted before it's checked again
+    recheckSeconds: Number(get('CASE_ACCESS_RECHECK_SECONDS', 60)),
+  },
+  pdf: {
+    // How plans are turned into PDFs: 'url' has Gotenberg load the page with the user's session,
+    // 'html' posts the page rendered in-process to Gotenberg, and 'stub' skips Gotenberg entirely
+    renderer: get('PDF_RENDERER', 'url') as 'url' | 'html' | 'stub',
   },
   forms: {
     sentencePlan: {
       enabled: get('FORM_SENTENCE_PLAN_ENABLED', 'true') === 'true',
     },
     trainingSessionLauncher: {
-      enabled: get('FORM_TRAINING_SESSION_LAUNCHER_ENABLED', 'false') === 'true',
+      // Never in production, whatever it's set to
+      enabled: get('FORM_TRAINING_SESSION_LAUNCHER_ENABLED', 'false') === 'true' && !productionEnvironment,
+      roles: getRoles('FORM_TRAINING_SESSION_LAUNCHER_ROLES', 'ARNS_TRAINER'),
     },
     dataDeletionTool: {
       enabled: get('FORM_DATA_DELETION_TOOL_ENABLED', 'false') === 'true',
+      roles: getRoles('FORM_DATA_DELETION_TOOL_ROLES', 'ARNS_ADMIN'),
       environments: {
         local: {
           authUrl: 'http:///hmpps-auth:9090/auth',
@@ -204,7 +264,8 @@ export default {
   },
   ingressUrl,
   logLevel: get('LOG_LEVEL', 'info'),
-  environmentName: get('ENVIRONMENT_NAME', ''),
+  environmentName,
+  productionEnvironment,
   feedbackFormUrl: get('FEEDBACK_FORM_URL', '#'),
   nationalRolloutFeedbackUrl: get('NATIONAL_ROLLOUT_FEEDBACK_URL', '#'),
   serviceNowFormUrl: get('SERVICE_NOW_FORM_URL', '#service-now-link', requiredInProduction),
@@ -212,6 +273,12 @@ export default {
   mpopUrl: get('MPOP_URL', 'http://localhost:3000/sign-in', requiredInProduction),
   smartSurveyPopupCode: get('SMART_SURVEY_POPUP_CODE', ''),
   featureFlagUrl: get('FEATURE_FLAG_URL', ''),
+  featureFlags: {
+    // A local JSON or YAML file of flag values to use instead of Flipt, e.g. for offline development
+    file: get('FEATURE_FLAG_FILE', ''),
+    // Lets integration tests set flags for a request with a header or cookie. Never in production, whatever it's set to
+    overridesEnabled: get('FEATURE_FLAG_OVERRIDES_ENABLED', 'false') === 'true' && !productionEnvironment,
+  },
   appInsightsConnectionString: get('APPLICATIONINSIGHTS_CONNECTION_STRING', ''),
 
   // Target service OAuth client IDs for handover
@@ -0,0 +1,110 @@
+import CommandBatch from './commandBatch'
+import { User } from '../../interfaces/user'
+import { AddCollectionItemCommandResult, CreateCollectionCommandResult } from '../../interfaces/aap-api/commandResult'
+
+describe('CommandBatch', () => {
+  const user: User = { id: 'user-1', name: 'Test User', authSource: 'HMPPS_AUTH' }
+
+  it('should collect commands in the order they were added', () => {
+    // Arrange
+    const batch = new CommandBatch()
+
+    // Act
+    batch.add({ type: 'CreateCollectionCommand', name: 'GOALS', assessmentUuid: 'assessment-1', user })
+    batch.add({
+      type: 'ReorderCollectionItemCommand',
+      collectionItemUuid: 'goal-1',
+      index: 2,
+      assessmentUuid: 'assessment-1',
+      user,
+    })
+
+    // Assert
+    expect(batch.size).toBe(2)
+    expect(batch.commands.map(command => command.type)).toEqual([
+      'CreateCollectionCommand',
+      'ReorderCollectionItemCommand',
+    ])
+  })
+
+  it('should reference results of earlier commands by their position in the batch', () => {
+    // Arrange
+    const batch = new CommandBatch()
+    batch.add({
+      type: 'ReorderCollectionItemCommand',
+      collectionItemUuid: 'goal-1',
+      index: 2,
+      assessmentUuid: 'assessment-1',
+      user,
+    })
+
+    // Act
+    const collection = batch.add({
+      type: 'CreateCollectionCommand',
+      name: 'GOALS',
+      assessmentUuid: 'assessment-1',
+      user,
+    })
+    const item = batch.add({
+      type: 'AddCollectionItemCommand',
+      collectionUuid: collection.ref('collectionUuid'),
+      answers: {},
+      properties: {},
+      assessmentUuid: 'assessment-1',
+      user,
+    })
+
+    // Assert
+    expect(collection.ref('collectionUuid')).toBe('$ref:1.collectionUuid')
+    expect(item.ref('collectionItemUuid')).toBe('$ref:2.collectionItemUuid')
+    expect(batch.commands[2]).toEqual(expect.objectContaining({ collectionUuid: '$ref:1.collectionUuid' }))
+  })
+
+  it('should pick out the result for a command', () => {
+    // Arrange
+    const batch = new CommandBatch()
+    const collection = batch.add({
+      type: 'CreateCollectionCommand',
+      name: 'GOALS',
+      assessmentUuid: 'assessment-1',
+      user,
+    })
+    const item = batch.add({
+      type: 'AddCollectionItemCommand',
+      collectionUuid: collection.ref('collectionUuid'),
+      answers: {},
+      properties: {},
+      assessmentUuid: 'assessment-1',
+      user,
+    })
+
+    const collectionResult: CreateCollectionCommandResult = {
+      type: 'CreateCollectionCommandResult',
+      collectionUuid: 'collection-1',
+      message: 'Created',
+      success: true,
+    }
+    const itemResult: AddCollectionItemCommandResult = {
+      type: 'AddCollectionItemCommandResult',
+      collectionItemUuid: 'item-1',
+      message: 'Added',
+      success: true,
+    }
+
+    // Act & Assert
+    expect(collection.result([collectionResult, itemResult]).collectionUuid).toBe('collection-1')
+    expect(item.result([collectionResult, itemResult]).collectionItemUuid).toBe('item-1')
+  })
+
+  it('should not let callers modify the batch through the returned commands', () => {
+    // Arrange
+    const batch = new CommandBatch()
+    batch.add({ type: 'CreateCollectionCommand', name: 'GOALS', assessmentUuid: 'assessment-1', user })
+
+    // Act
+    batch.commands.pop()
+
+    // Assert
+    expect(batch.size).toBe(1)
+  })
+})
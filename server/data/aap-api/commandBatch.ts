@@ -0,0 +1,50 @@
+import { Commands, CommandResultRef } from '../../interfaces/aap-api/command'
+import { CommandResultFor, CommandResults } from '../../interfaces/aap-api/commandResult'
+
+/**
+ * Handle for a command added to a CommandBatch.
+ */
+export interface BatchedCommand<T extends Commands> {
+  index: number
+  /** Placeholder for a field of this command's result, for use by later commands in the same batch */
+  ref: (field: Exclude<keyof CommandResultFor<T>, keyof CommandResults> & string) => CommandResultRef
+  /** Pick this command's result out of the results of the executed batch */
+  result: (results: CommandResults[]) => CommandResultFor<T>
+}
+
+/**
+ * Builds a batch of commands that is executed in a single request, so all of them
+ * succeed or fail together.
+ *
+ * Commands can use UUIDs created earlier in the same batch through placeholder refs,
+ * rather than waiting for a separate request to return them.
+ *
+ * @example
+ * const batch = new CommandBatch()
+ * const goals = batch.add({ type: 'CreateCollectionCommand', name: 'GOALS', ... })
+ * const goal = batch.add({ type: 'AddCollectionItemCommand', collectionUuid: goals.ref('collectionUuid'), ... })
+ *
+ * const results = await api.executeCommands(...batch.commands)
+ * const goalUuid = goal.result(results).collectionItemUuid
+ */
+export default class CommandBatch {
+  private readonly batch: Commands[] = []
+
+  add<T extends Commands>(command: T): BatchedCommand<T> {
+    const index = this.batch.push(command) - 1
+
+    return {
+      index,
+      ref: field => `$ref:${index}.${field}`,
+      result: results => results[index] as CommandResultFor<T>,
+    }
+  }
+
+  get commands(): Commands[] {
+    return [...this.batch]
+  }
+
+  get size(): number {
+    return this.batch.length
+  }
+}
@@ -0,0 +1,134 @@
+import QueryMemoiser, { canonicalQueryKey } from './queryMemoiser'
+import { AssessmentVersionQuery, Queries, TimelineQuery } from '../../interfaces/aap-api/query'
+import { QueryResults } from '../../interfaces/aap-api/queryResult'
+import { QueriesResponse } from '../../interfaces/aap-api/response'
+import { User } from '../../interfaces/user'
+
+describe('QueryMemoiser', () => {
+  const user: User = { id: 'user-1', name: 'Test User', authSource: 'HMPPS_AUTH' }
+
+  const assessmentQuery: AssessmentVersionQuery = {
+    type: 'AssessmentVersionQuery',
+    user,
+    assessmentIdentifier: { type: 'UUID', uuid: 'uuid-123' },
+  }
+
+  const timelineQuery: TimelineQuery = {
+    type: 'TimelineQuery',
+    user,
+    assessmentIdentifier: { type: 'UUID', uuid: 'uuid-123' },
+    includeCustomTypes: ['GOAL_CREATED'],
+  }
+
+  const respondWith = (queries: Queries[]): QueriesResponse => ({
+    queries: queries.map(query => ({ request: query, result: { type: `${query.type}Result` } as QueryResults })),
+  })
+
+  describe('canonicalQueryKey()', () => {
+    it('should ignore property order and undefined properties', () => {
+      const reordered = {
+        assessmentIdentifier: { uuid: 'uuid-123', type: 'UUID' },
+        timestamp: undefined,
+        user,
+        type: 'AssessmentVersionQuery',
+      } as AssessmentVersionQuery
+
+      expect(canonicalQueryKey(reordered)).toBe(canonicalQueryKey(assessmentQuery))
+    })
+
+    it('should distinguish queries with different values', () => {
+      expect(canonicalQueryKey({ ...assessmentQuery, timestamp: '2025-01-01T00:00:00Z' })).not.toBe(
+        canonicalQueryKey(assessmentQuery),
+      )
+    })
+  })
+
+  describe('load()', () => {
+    it('should send queries made in the same tick in one batch', async () => {
+      // Arrange
+      const executeBatch = jest.fn().mockImplementation(async queries => respondWith(queries))
+      const memoiser = new QueryMemoiser(executeBatch)
+
+      // Act
+      const [assessment, timeline] = await Promise.all([memoiser.load(assessmentQuery), memoiser.load(timelineQuery)])
+
+      // Assert
+      expect(executeBatch).toHaveBeenCalledTimes(1)
+      expect(executeBatch).toHaveBeenCalledWith([assessmentQuery, timelineQuery])
+      expect(assessment).toEqual({ type: 'AssessmentVersionQueryResult' })
+      expect(timeline).toEqual({ type: 'TimelineQueryResult' })
+    })
+
+    it('should only send a repeated query once', async () => {
+      // Arrange
+      const executeBatch = jest.fn().mockImplementation(async queries => respondWith(queries))
+      const memoiser = new QueryMemoiser(executeBatch)
+
+      // Act
+      await memoiser.load(assessmentQuery)
+      await memoiser.load({ ...assessmentQuery })
+
+      // Assert
+      expect(executeBatch).toHaveBeenCalledTimes(1)
+    })
+
+    it('should send the query again once cleared', async () => {
+      // Arrange
+      const executeBatch = jest.fn().mockImplementation(async queries => respondWith(queries))
+      const memoiser = new QueryMemoiser(executeBatch)
+
+      // Act
+      await memoiser.load(assessmentQuery)
+      memoiser.clear()
+      await memoiser.load(assessmentQuery)
+
+      // Assert
+      expect(executeBatch).toHaveBeenCalledTimes(2)
+    })
+
+    it('should give each caller its own copy of a result', async () => {
+      // Arrange
+      const executeBatch = jest.fn().mockImplementation(async queries => respondWith(queries))
+      const memoiser = new QueryMemoiser(executeBatch)
+
+      // Act
+      const first = (await memoiser.load(assessmentQuery)) as QueryResults & { changed?: boolean }
+      first.changed = true
+      const second = await memoiser.load(assessmentQuery)
+
+      // Assert
+      expect(second).toEqual({ type: 'AssessmentVersionQueryResult' })
+      expect(executeBatch).toHaveBeenCalledTimes(1)
+    })
+
+    it('should settle each query in a failed batch on its own result and not memoise the failure', async () => {
+      // Arrange
+      const error = new Error('Assessment not found')
+      const executeBatch = jest.fn().mockImplementation(async (queries: Queries[]) => {
+        if (queries.some(query => query.type === 'TimelineQuery')) {
+          throw error
+        }
+
+        return respondWith(queries)
+      })
+      const memoiser = new QueryMemoiser(executeBatch)
+
+      // Act
+      const results = await Promise.allSettled([memoiser.load(assessmentQuery), memoiser.load(timelineQuery)])
+      const retried = memoiser.load(timelineQuery)
+
+      // Assert
+      expect(results).toEqual([
+        { status: 'fulfilled', value: { type: 'AssessmentVersionQueryResult' } },
+        { status: 'rejected', reason: error },
+      ])
+      await expect(retried).rejects.toBe(error)
+      expect(executeBatch.mock.calls).toEqual([
+        [[assessmentQuery, timelineQuery]],
+        [[assessmentQuery]],
+        [[timelineQuery]],
+        [[timelineQuery]],
+      ])
+    })
+  })
+})
@@ -0,0 +1,105 @@
+import { Queries } from '../../interfaces/aap-api/query'
+import { QueryResults } from '../../interfaces/aap-api/queryResult'
+import { QueriesResponse } from '../../interfaces/aap-api/response'
+
+interface QueuedQuery {
+  query: Queries
+  resolve: (result: QueryResults | undefined) => void
+  reject: (error: unknown) => void
+}
+
+const canonicalise = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(canonicalise)
+  }
+
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, item]) => item !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, item]) => [key, canonicalise(item)]),
+    )
+  }
+
+  return value
+}
+
+/**
+ * Key identifying a query by its shape, so equivalent queries built in different
+ * places (with properties in a different order, or explicitly undefined) match.
+ */
+export const canonicalQueryKey = (query: Queries): string => JSON.stringify(canonicalise(query))
+
+/**
+ * Memoises queries for the lifetime of a request, and batches queries made in the
+ * same tick into a single POST.
+ *
+ * Each caller gets its own copy of a result, so changing it doesn't change what later
+ * callers get. If a batch fails, its queries are sent again one by one, so each settles
+ * on its own result rather than failing with the others. Failed queries aren't memoised,
+ * so a later call can try again.
+ *
+ * @example
+ * const memoiser = new QueryMemoiser(queries => client.postQueries(queries))
+ * const [a, b] = await Promise.all([memoiser.load(query), memoiser.load(query)]) // one query, one POST
+ */
+export default class QueryMemoiser {
+  private readonly results = new Map<string, Promise<QueryResults | undefined>>()
+
+  private queued: QueuedQuery[] = []
+
+  constructor(private readonly executeBatch: (queries: Queries[]) => Promise<QueriesResponse>) {}
+
+  load(query: Queries): Promise<QueryResults | undefined> {
+    const key = canonicalQueryKey(query)
+
+    if (!this.results.has(key)) {
+      const result = new Promise<QueryResults | undefined>((resolve, reject) => {
+        if (this.queued.length === 0) {
+          process.nextTick(() => this.flush())
+        }
+
+        this.queued.push({ query, resolve, reject })
+      })
+
+      this.results.set(key, result)
+
+      result.then(
+        value => value === undefined && this.results.delete(key),
+        () => this.results.delete(key),
+      )
+    }
+
+    return this.results.get(key).then(result => structuredClone(result))
+  }
+
+  /**
+   * Forget memoised results, e.g. once a command has changed the data they came from.
+   */
+  clear(): void {
+    this.results.clear()
+  }
+
+  private async flush(): Promise<void> {
+    const batch = this.queued
+    this.queued = []
+
+    await this.send(batch)
+  }
+
+  private async send(batch: QueuedQuery[]): Promise<void> {
+    try {
+      const response = await this.executeBatch(batch.map(({ query }) => query))
+
+      batch.forEach(({ resolve }, i) => resolve(response.queries[i]?.result))
+    } catch (error) {
+      if (batch.length === 1) {
+        batch[0].reject(error)
+      } else {
+        // The whole POST fails if any query in it does, so find out which
+        await Promise.all(batch.map(queued => this.send([queued])))
+      }
+    }
+  }
+}
@@ -0,0 +1,174 @@
+import { CreateCollectionCommand, UpdateAssessmentAnswersCommand } from '../../interfaces/aap-api/command'
+import { AssessmentVersionQuery, CollectionQuery } from '../../interfaces/aap-api/query'
+import { User } from '../../interfaces/user'
+import { formatIssuePath, validateCommandsResponse, validateQueriesResponse } from './responseValidation'
+
+describe('responseValidation', () => {
+  const user: User = { id: 'user-1', name: 'Test User', authSource: 'HMPPS_AUTH' }
+
+  const assessmentQuery: AssessmentVersionQuery = {
+    type: 'AssessmentVersionQuery',
+    user,
+    assessmentIdentifier: { type: 'UUID', uuid: 'assessment-1' },
+  }
+
+  const collectionQuery: CollectionQuery = {
+    type: 'CollectionQuery',
+    user,
+    assessmentIdentifier: { type: 'UUID', uuid: 'assessment-1' },
+    collectionUuid: 'collection-1',
+    depth: 1,
+  }
+
+  const assessment = {
+    type: 'AssessmentVersionQueryResult',
+    assessmentUuid: 'assessment-1',
+    aggregateUuid: 'aggregate-1',
+    assessmentType: 'SENTENCE_PLAN',
+    formVersion: '1',
+    createdAt: '2025-01-01T00:00:00Z',
+    updatedAt: '2025-01-01T00:00:00Z',
+    answers: { status: { type: 'Single', value: 'ACTIVE' } },
+    properties: {},
+    collections: [
+      {
+        uuid: 'collection-1',
+        createdAt: '2025-01-01T00:00:00Z',
+        updatedAt: '2025-01-01T00:00:00Z',
+        name: 'GOALS',
+        items: [
+          {
+            uuid: 'goal-1',
+            createdAt: '2025-01-01T00:00:00Z',
+            updatedAt: '2025-01-01T00:00:00Z',
+            answers: { 'area-of-need': { type: 'Multi', values: ['accommodation'] } },
+            properties: {},
+          },
+        ],
+      },
+    ],
+    collaborators: [user],
+    identifiers: { CRN: 'X123456' },
+    flags: [] as string[],
+  }
+
+  describe('formatIssuePath()', () => {
+    it('should format indexes, identifiers and other keys the way they are written in code', () => {
+      // Act
+      const path = formatIssuePath(['queries', 0, 'result', 'answers', 'area-of-need', 'values', 1])
+
+      // Assert
+      expect(path).toBe('queries[0].result.answers["area-of-need"].values[1]')
+    })
+  })
+
+  describe('validateQueriesResponse()', () => {
+    it('should accept a response matching the schemas, including fields it does not know about', () => {
+      // Act
+      const error = validateQueriesResponse(
+        { queries: [assessmentQuery] },
+        { queries: [{ request: assessmentQuery, result: { ...assessment, somethingNew: true } }] },
+      )
+
+      // Assert
+      expect(error).toBeUndefined()
+    })
+
+    it('should leave a missing result to the client', () => {
+      // Act
+      const error = validateQueriesResponse(
+        { queries: [assessmentQuery] },
+        { queries: [{ request: assessmentQuery, result: undefined }] },
+      )
+
+      // Assert
+      expect(error).toBeUndefined()
+    })
+
+    it('should name the nested path that failed', () => {
+      // Arrange
+      const invalid = structuredClone(assessment)
+      invalid.collections[0].items[0].answers['area-of-need'] = { type: 'Multi', values: 'accommodation' } as never
+
+      // Act
+      const error = validateQueriesResponse(
+        { queries: [collectionQuery, assessmentQuery] },
+        {
+          queries: [
+            {
+              request: collectionQuery,
+              result: { type: 'CollectionQueryResult', collection: assessment.collections[0] },
+            },
+            { request: assessmentQuery, result: invalid },
+          ],
+        },
+      )
+
+      // Assert
+      expect(error.name).toBe('QueryValidationError')
+      expect(error.queryType).toBe('AssessmentVersionQuery')
+      expect(error.resultIndex).toBe(1)
+      expect(error.result).toBe(invalid)
+      expect(error.path).toBe('queries[1].result.collections[0].items[0].answers["area-of-need"].values')
+      expect(error.message).toContain('AssessmentVersionQuery returned an invalid response at queries[1].result')
+    })
+
+    it('should fail when the API returns fewer results than queries', () => {
+      // Act
+      const error = validateQueriesResponse({ queries: [assessmentQuery, collectionQuery] }, { queries: [] })
+
+      // Assert
+      expect(error.path).toBe('queries')
+      expect(error.resultIndex).toBeUndefined()
+    })
+  })
+
+  describe('validateCommandsResponse()', () => {
+    const createCollection: CreateCollectionCommand = {
+      type: 'CreateCollectionCommand',
+      name: 'NOTES',
+      assessmentUuid: 'assessment-1',
+      user,
+    }
+
+    const updateAnswers: UpdateAssessmentAnswersCommand = {
+      type: 'UpdateAssessmentAnswersCommand',
+      assessmentUuid: 'assessment-1',
+      added: {},
+      removed: [],
+      user,
+    }
+
+    it('should check each result against the schema for its command type', () => {
+      // Act
+      const error = validateCommandsResponse(
+        { commands: [createCollection, updateAnswers] },
+        {
+          commands: [
+            {
+              request: createCollection,
+              result: { type: 'CreateCollectionCommandResult', message: 'Done', success: true, collectionUuid: 'c-1' },
+            },
+            { request: updateAnswers, result: { type: 'CommandResult', message: 'Done', success: 'yes' } },
+          ],
+        },
+      )
+
+      // Assert
+      expect(error.name).toBe('CommandValidationError')
+      expect(error.commandType).toBe('UpdateAssessmentAnswersCommand')
+      expect(error.path).toBe('commands[1].result.success')
+    })
+
+    it('should fall back to the base CommandResult schema for unmapped commands', () => {
+      // Act
+      const error = validateCommandsResponse(
+        { commands: [updateAnswers] },
+        { commands: [{ request: updateAnswers, result: { type: 'CommandResult', message: 'Done', success: true } }] },
+      )
+
+      // Assert
+      expect(error).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,106 @@
+import { z } from 'zod'
+import { CommandsRequest, QueriesRequest } from '../../interfaces/aap-api/request'
+import { CommandsResponse, QueriesResponse } from '../../interfaces/aap-api/response'
+import { ResponseValidationIssue } from '../../interfaces/aap-api/responseValidation'
+import { CommandValidationError } from '../../errors/aap-api/CommandValidationError'
+import { QueryValidationError } from '../../errors/aap-api/QueryValidationError'
+import { commandResultSchema, commandResultSchemas, queryResultSchema, queryResultSchemas } from './schemas'
+
+/**
+ * Formats a schema issue path the way it would be written in code,
+ * e.g. ['queries', 0, 'result', 'answers', 'my-field'] => `queries[0].result.answers["my-field"]`
+ */
+export const formatIssuePath = (path: PropertyKey[]): string =>
+  path.reduce<string>((formatted, segment) => {
+    if (typeof segment === 'number') {
+      return `${formatted}[${segment}]`
+    }
+
+    const key = String(segment)
+
+    if (/^[A-Za-z_$][\w$]*$/.test(key)) {
+      return formatted ? `${formatted}.${key}` : key
+    }
+
+    return `${formatted}[${JSON.stringify(key)}]`
+  }, '')
+
+// Summarises a failed parse, working out which query/command in the batch the first failure belongs to
+const describeFailure = (error: z.ZodError) => {
+  const issues: ResponseValidationIssue[] = error.issues.map(issue => ({
+    path: formatIssuePath(issue.path),
+    message: issue.message,
+  }))
+  const index = error.issues[0].path[1]
+
+  return { issues, path: issues[0].path, resultIndex: typeof index === 'number' ? index : undefined }
+}
+
+// Zod wants a non-empty tuple type, but the length is only known at runtime
+const tupleOf = (items: z.ZodType[]) => z.tuple(items as [z.ZodType, ...z.ZodType[]])
+
+// A missing result is left to the client's own checks, which already raise QueryError/CommandError for it
+const queriesResponseSchema = (request: QueriesRequest) =>
+  z.looseObject({
+    queries: tupleOf(
+      request.queries.map(query =>
+        z.looseObject({ result: (queryResultSchemas[query.type] ?? queryResultSchema).optional() }),
+      ),
+    ),
+  })
+
+const commandsResponseSchema = (request: CommandsRequest) =>
+  z.looseObject({
+    commands: tupleOf(
+      request.commands.map(command =>
+        z.looseObject({ result: (commandResultSchemas[command.type] ?? commandResultSchema).optional() }),
+      ),
+    ),
+    assessmentVersion: z.string().optional(),
+  })
+
+/**
+ * Checks a /query response against the result schema of each query in the request.
+ * Returns a QueryValidationError describing every mismatch, or undefined if the response is valid.
+ */
+export const validateQueriesResponse = (
+  request: QueriesRequest,
+  response: unknown,
+): QueryValidationError | undefined => {
+  const parsed = queriesResponseSchema(request).safeParse(response)
+
+  if (parsed.success) {
+    return undefined
+  }
+
+  const { issues, path, resultIndex } = describeFailure(parsed.error)
+  const result = resultIndex === undefined ? undefined : (response as QueriesResponse).queries[resultIndex]?.result
+
+  return new QueryValidationError(request.queries[resultIndex ?? 0]?.type ?? 'Query', result, resultIndex, path, issues)
+}
+
+/**
+ * Checks a /command response against the result schema of each command in the request.
+ * Returns a CommandValidationError describing every mismatch, or undefined if the response is valid.
+ */
+export const validateCommandsResponse = (
+  request: CommandsRequest,
+  response: unknown,
+): CommandValidationError | undefined => {
+  const parsed = commandsResponseSchema(request).safeParse(response)
+
+  if (parsed.success) {
+    return undefined
+  }
+
+  const { issues, path, resultIndex } = describeFailure(parsed.error)
+  const result = resultIndex === undefined ? undefined : (response as CommandsResponse).commands[resultIndex]?.result
+
+  return new CommandValidationError(
+    request.commands[resultIndex ?? 0]?.type ?? 'Command',
+    result,
+    resultIndex,
+    path,
+    issues,
+  )
+}
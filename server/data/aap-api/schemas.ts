@@ -0,0 +1,197 @@
+import { z } from 'zod'
+import { IdentifierType, Identifiers } from '../../interfaces/aap-api/identifier'
+import {
+  Answers,
+  Collection,
+  CollectionItem,
+  EventDTO,
+  MultiValue,
+  Properties,
+  SingleValue,
+  TimelineItem,
+  Values,
+} from '../../interfaces/aap-api/dataModel'
+import {
+  AssessmentVersionQueryResult,
+  CollectionItemQueryResult,
+  CollectionQueryResult,
+  QueryResult,
+  QueryResultMap,
+  TimelineQueryResult,
+} from '../../interfaces/aap-api/queryResult'
+import {
+  AddCollectionItemCommandResult,
+  CommandResult,
+  CommandResultMap,
+  CreateAssessmentCommandResult,
+  CreateCollectionCommandResult,
+  GroupCommandResult,
+} from '../../interfaces/aap-api/commandResult'
+import { User } from '../../interfaces/user'
+import { Commands } from '../../interfaces/aap-api/command'
+
+/**
+ * Runtime schemas for the AAP API response types in interfaces/aap-api.
+ *
+ * Objects are loose, so fields added by the API don't fail validation, and each schema
+ * is checked against its interface at compile time so the two can't drift apart.
+ */
+
+// dataModel.ts
+
+export const singleValueSchema = z.looseObject({
+  type: z.literal('Single'),
+  value: z.string(),
+}) satisfies z.ZodType<SingleValue>
+
+export const multiValueSchema = z.looseObject({
+  type: z.literal('Multi'),
+  values: z.array(z.string()),
+}) satisfies z.ZodType<MultiValue>
+
+export const valuesSchema = z.discriminatedUnion('type', [
+  singleValueSchema,
+  multiValueSchema,
+]) satisfies z.ZodType<Values>
+
+export const answersSchema = z.record(z.string(), valuesSchema) satisfies z.ZodType<Answers>
+
+export const propertiesSchema = z.record(z.string(), valuesSchema) satisfies z.ZodType<Properties>
+
+export const collectionItemSchema: z.ZodType<CollectionItem> = z.looseObject({
+  uuid: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  answers: answersSchema,
+  properties: propertiesSchema,
+  collections: z.array(z.lazy(() => collectionSchema)).optional(),
+})
+
+export const collectionSchema: z.ZodType<Collection> = z.looseObject({
+  uuid: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  name: z.string(),
+  items: z.array(collectionItemSchema),
+})
+
+export const timelineItemSchema = z.looseObject({
+  uuid: z.string(),
+  position: z.number(),
+  event: z.string(),
+  timestamp: z.string(),
+  assessment: z.string(),
+  data: z.record(z.string(), z.any()),
+  customType: z.string().optional(),
+  customData: z.record(z.string(), z.any()).optional(),
+  user: z.looseObject({ id: z.string(), name: z.string() }).optional(),
+}) satisfies z.ZodType<TimelineItem>
+
+export const eventSchema = z.looseObject({
+  uuid: z.string(),
+  createdAt: z.string(),
+  position: z.number(),
+  data: z.record(z.string(), z.any()),
+}) satisfies z.ZodType<EventDTO>
+
+const userSchema = z.looseObject({
+  id: z.string(),
+  name: z.string(),
+  authSource: z.enum(['OASYS', 'HMPPS_AUTH', 'NOT_SPECIFIED', 'EXTERNAL']),
+  token: z.string().optional(),
+}) satisfies z.ZodType<User>
+
+const identifiersSchema = z.partialRecord(z.enum(IdentifierType), z.string()) satisfies z.ZodType<Identifiers>
+
+// queryResult.ts
+
+export const queryResultSchema = z.looseObject({
+  type: z.string(),
+}) satisfies z.ZodType<QueryResult>
+
+export const assessmentVersionQueryResultSchema = z.looseObject({
+  type: z.literal('AssessmentVersionQueryResult'),
+  assessmentUuid: z.string(),
+  aggregateUuid: z.string(),
+  assessmentType: z.string(),
+  formVersion: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  answers: answersSchema,
+  properties: propertiesSchema,
+  collections: z.array(collectionSchema),
+  collaborators: z.array(userSchema),
+  identifiers: identifiersSchema,
+  flags: z.array(z.string()),
+}) satisfies z.ZodType<AssessmentVersionQueryResult>
+
+export const timelineQueryResultSchema = z.looseObject({
+  type: z.literal('TimelineQueryResult'),
+  timeline: z.array(timelineItemSchema),
+}) satisfies z.ZodType<TimelineQueryResult>
+
+export const collectionQueryResultSchema = z.looseObject({
+  type: z.literal('CollectionQueryResult'),
+  collection: collectionSchema,
+}) satisfies z.ZodType<CollectionQueryResult>
+
+export const collectionItemQueryResultSchema = z.looseObject({
+  type: z.literal('CollectionItemQueryResult'),
+  collectionItem: collectionItemSchema,
+}) satisfies z.ZodType<CollectionItemQueryResult>
+
+/**
+ * Result schema for each query type, mirroring QueryResultMap.
+ */
+export const queryResultSchemas: { [K in keyof QueryResultMap]: z.ZodType<QueryResultMap[K]> } = {
+  AssessmentVersionQuery: assessmentVersionQueryResultSchema,
+  TimelineQuery: timelineQueryResultSchema,
+  CollectionQuery: collectionQueryResultSchema,
+  CollectionItemQuery: collectionItemQueryResultSchema,
+}
+
+// commandResult.ts
+
+export const commandResultSchema = z.looseObject({
+  message: z.string(),
+  success: z.boolean(),
+  type: z.string(),
+}) satisfies z.ZodType<CommandResult>
+
+export const createAssessmentCommandResultSchema = commandResultSchema.extend({
+  type: z.literal('CreateAssessmentCommandResult'),
+  assessmentUuid: z.string(),
+}) satisfies z.ZodType<CreateAssessmentCommandResult>
+
+export const createCollectionCommandResultSchema = commandResultSchema.extend({
+  type: z.literal('CreateCollectionCommandResult'),
+  collectionUuid: z.string(),
+}) satisfies z.ZodType<CreateCollectionCommandResult>
+
+export const addCollectionItemCommandResultSchema = commandResultSchema.extend({
+  type: z.literal('AddCollectionItemCommandResult'),
+  collectionItemUuid: z.string(),
+}) satisfies z.ZodType<AddCollectionItemCommandResult>
+
+// Nested requests are echoed back as sent, so only their type is checked
+export const groupCommandResultSchema = commandResultSchema.extend({
+  type: z.literal('GroupCommandResult'),
+  commands: z.array(
+    z.looseObject({
+      request: z.looseObject({ type: z.string() }),
+      result: commandResultSchema,
+    }),
+  ),
+}) satisfies z.ZodType<Omit<GroupCommandResult, 'commands'>>
+
+/**
+ * Result schema for each command type, mirroring CommandResultMap.
+ * Commands not listed here return a plain CommandResult.
+ */
+export const commandResultSchemas: Partial<Record<Commands['type'], z.ZodType<CommandResult>>> &
+  Record<keyof CommandResultMap, z.ZodType<CommandResult>> = {
+  CreateAssessmentCommand: createAssessmentCommandResultSchema,
+  CreateCollectionCommand: createCollectionCommandResultSchema,
+  AddCollectionItemCommand: addCollectionItemCommandResultSchema,
+  GroupCommand: groupCommandResultSchema,
+}
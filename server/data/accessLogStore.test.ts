@@ -0,0 +1,83 @@
+import AccessLogStore from './accessLogStore'
+import { RedisClient } from './redisClient'
+import { AuditEvent, AuditRecord } from '../services/auditService'
+
+const auditRecord: AuditRecord = {
+  action: AuditEvent.VIEW_PLAN_OVERVIEW,
+  who: 'testuser',
+  subjectId: 'X123456',
+  subjectType: 'CRN',
+  correlationId: 'correlation-123',
+  when: '2026-07-30T10:00:00.000Z',
+}
+
+describe('AccessLogStore', () => {
+  const createTransaction = () => {
+    const transaction = {
+      zAdd: jest.fn(),
+      zRemRangeByRank: jest.fn(),
+      expire: jest.fn(),
+      exec: jest.fn().mockResolvedValue([]),
+    }
+    Object.values(transaction)
+      .filter(fn => fn !== transaction.exec)
+      .forEach(fn => fn.mockReturnValue(transaction))
+    return transaction
+  }
+
+  let transaction: ReturnType<typeof createTransaction>
+  let redisClient: Record<string, jest.Mock>
+  let store: AccessLogStore
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+
+    transaction = createTransaction()
+    redisClient = {
+      connect: jest.fn().mockResolvedValue(undefined),
+      multi: jest.fn(() => transaction),
+      zRange: jest.fn(),
+    }
+
+    store = new AccessLogStore({ maxEntries: 100, retentionDays: 30 }, redisClient as unknown as RedisClient)
+  })
+
+  describe('record()', () => {
+    it('should add the record for its subject, trimming old records and refreshing the expiry', async () => {
+      // Act
+      await store.record(auditRecord)
+
+      // Assert
+      expect(transaction.zAdd).toHaveBeenCalledWith('audit:access-log:CRN:X123456', {
+        score: Date.parse('2026-07-30T10:00:00.000Z'),
+        value: JSON.stringify(auditRecord),
+      })
+      expect(transaction.zRemRangeByRank).toHaveBeenCalledWith('audit:access-log:CRN:X123456', 0, -101)
+      expect(transaction.expire).toHaveBeenCalledWith('audit:access-log:CRN:X123456', 30 * 24 * 60 * 60)
+      expect(transaction.exec).toHaveBeenCalled()
+    })
+
+    it('should ignore records without a subject', async () => {
+      // Act
+      await store.record({ ...auditRecord, subjectId: undefined, subjectType: undefined })
+
+      // Assert
+      expect(redisClient.connect).not.toHaveBeenCalled()
+      expect(redisClient.multi).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('findBySubject()', () => {
+    it('should return the newest records first, skipping ones that cannot be read', async () => {
+      // Arrange
+      redisClient.zRange.mockResolvedValue([JSON.stringify(auditRecord), '{not json'])
+
+      // Act
+      const result = await store.findBySubject('CRN', 'X123456', 50)
+
+      // Assert
+      expect(redisClient.zRange).toHaveBeenCalledWith('audit:access-log:CRN:X123456', 0, 49, { REV: true })
+      expect(result).toEqual([auditRecord])
+    })
+  })
+})
@@ -0,0 +1,75 @@
+import { RedisClient, createRedisClient } from './redisClient'
+import type { AuditRecord, AuditSink } from '../services/auditService'
+
+export interface AccessLogConfig {
+  /** Most records kept for each subject, after which the oldest are removed */
+  maxEntries: number
+  /** Days a subject's records are kept after the last one was added */
+  retentionDays: number
+}
+
+const getKey = (subjectType: string, subjectId: string) => `audit:access-log:${subjectType}:${subjectId}`
+
+/**
+ * Redis-backed store of audit records by subject (e.g. a CRN), so practitioners can see who
+ * has accessed a case. Fed by AuditService as one of its sinks.
+ *
+ * Each subject has a sorted set of records scored by when they happened. Records without a
+ * subject are ignored.
+ *
+ * Errors are thrown to the caller.
+ */
+export default class AccessLogStore implements AuditSink {
+  private client: RedisClient
+
+  private connectionPromise: Promise<unknown> | undefined
+
+  constructor(
+    private readonly config: AccessLogConfig,
+    client?: RedisClient,
+  ) {
+    this.client = client ?? createRedisClient()
+  }
+
+  private ensureConnected(): Promise<unknown> {
+    if (!this.connectionPromise) {
+      this.connectionPromise = this.client.connect()
+    }
+
+    return this.connectionPromise
+  }
+
+  async record(auditRecord: AuditRecord): Promise<void> {
+    if (!auditRecord.subjectType || !auditRecord.subjectId) {
+      return
+    }
+
+    await this.ensureConnected()
+
+    const key = getKey(auditRecord.subjectType, auditRecord.subjectId)
+
+    await this.client
+      .multi()
+      .zAdd(key, { score: Date.parse(auditRecord.when), value: JSON.stringify(auditRecord) })
+      .zRemRangeByRank(key, 0, -(this.config.maxEntries + 1))
+      .expire(key, this.config.retentionDays * 24 * 60 * 60)
+      .exec()
+  }
+
+  /**
+   * The most recent records for a subject, newest first. Records that can't be read are skipped.
+   */
+  async findBySubject(subjectType: string, subjectId: string, limit: number): Promise<AuditRecord[]> {
+    await this.ensureConnected()
+
+    const values = await this.client.zRange(getKey(subjectType, subjectId), 0, limit - 1, { REV: true })
+
+    return values.flatMap(value => {
+      try {
+        return [JSON.parse(value.toString()) as AuditRecord]
+      } catch {
+        return []
+      }
+    })
+  }
+}
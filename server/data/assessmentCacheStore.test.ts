@@ -0,0 +1,242 @@
+import { telemetry } from '@ministryofjustice/hmpps-azure-telemetry'
+import AssessmentCacheStore from './assessmentCacheStore'
+import { RedisClient } from './redisClient'
+import { AssessmentVersionQueryResult } from '../interfaces/aap-api/queryResult'
+
+jest.mock('@ministryofjustice/hmpps-azure-telemetry', () => ({
+  telemetry: { trackEvent: jest.fn() },
+}))
+
+jest.mock('../config', () => ({
+  redis: { enabled: true },
+  cacheRedis: {},
+  assessmentCache: { ttlSeconds: 300, maxAgeSeconds: 3600 },
+}))
+
+jest.mock('../../logger', () => ({
+  debug: jest.fn(),
+  error: jest.fn(),
+}))
+
+describe('AssessmentCacheStore', () => {
+  const now = new Date('2025-06-01T12:00:00Z')
+
+  const assessment = {
+    type: 'AssessmentVersionQueryResult',
+    assessmentUuid: 'uuid-123',
+    updatedAt: '2025-06-01T11:30:00Z',
+  } as AssessmentVersionQueryResult
+
+  const multi = {
+    incr: jest.fn().mockReturnThis(),
+    expire: jest.fn().mockReturnThis(),
+    del: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue([]),
+  }
+
+  let redisClient: jest.Mocked<Pick<RedisClient, 'connect' | 'get' | 'eval' | 'multi'>>
+  let store: AssessmentCacheStore
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.useFakeTimers().setSystemTime(now)
+
+    redisClient = {
+      connect: jest.fn().mockResolvedValue(undefined),
+      get: jest.fn(),
+      eval: jest.fn(),
+      multi: jest.fn().mockReturnValue(multi),
+    } as unknown as typeof redisClient
+
+    store = new AssessmentCacheStore(redisClient as unknown as RedisClient)
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  describe('get()', () => {
+    it('should return a recently cached assessment and record a hit', async () => {
+      // Arrange
+      redisClient.get.mockResolvedValue(JSON.stringify({ cachedAt: now.getTime() - 60 * 1000, assessment }))
+
+      // Act
+      const result = await store.get('uuid-123')
+
+      // Assert
+      expect(result).toEqual(assessment)
+      expect(redisClient.get).toHaveBeenCalledWith('assessment:uuid-123:latest')
+      expect(telemetry.trackEvent).toHaveBeenCalledWith('AssessmentCacheHit', { assessmentUuid: 'uuid-123' })
+    })
+
+    it('should record a miss when nothing is cached', async () => {
+      // Arrange
+      redisClient.get.mockResolvedValue(null)
+
+      // Act
+      const result = await store.get('uuid-123')
+
+      // Assert
+      expect(result).toBeNull()
+      expect(telemetry.trackEvent).toHaveBeenCalledWith('AssessmentCacheMiss', {
+        assessmentUuid: 'uuid-123',
+        reason: 'NOT_FOUND',
+      })
+    })
+
+    it('should return an assessment that was last updated long ago', async () => {
+      // Arrange
+      const idleAssessment = { ...assessment, updatedAt: '2025-01-01T09:00:00Z' }
+      redisClient.get.mockResolvedValue(
+        JSON.stringify({ cachedAt: now.getTime() - 60 * 1000, assessment: idleAssessment }),
+      )
+
+      // Act
+      const result = await store.get('uuid-123')
+
+      // Assert
+      expect(result).toEqual(idleAssessment)
+    })
+
+    it('should ignore an assessment cached longer ago than the max age', async () => {
+      // Arrange
+      redisClient.get.mockResolvedValue(JSON.stringify({ cachedAt: now.getTime() - 3601 * 1000, assessment }))
+
+      // Act
+      const result = await store.get('uuid-123')
+
+      // Assert
+      expect(result).toBeNull()
+      expect(telemetry.trackEvent).toHaveBeenCalledWith('AssessmentCacheMiss', {
+        assessmentUuid: 'uuid-123',
+        reason: 'STALE',
+      })
+    })
+
+    it('should ignore a cached assessment behind the version the caller knows of', async () => {
+      // Arrange
+      redisClient.get.mockResolvedValue(JSON.stringify({ cachedAt: now.getTime() - 60 * 1000, assessment }))
+
+      // Act
+      const behind = await store.get('uuid-123', '2025-06-01T11:45:00Z')
+      const current = await store.get('uuid-123', assessment.updatedAt)
+
+      // Assert
+      expect(behind).toBeNull()
+      expect(current).toEqual(assessment)
+      expect(telemetry.trackEvent).toHaveBeenCalledWith('AssessmentCacheMiss', {
+        assessmentUuid: 'uuid-123',
+        reason: 'STALE',
+      })
+    })
+
+    it('should ignore an assessment cached by something else when it is behind the version the caller knows of', async () => {
+      // Arrange
+      redisClient.get.mockResolvedValue(JSON.stringify(assessment))
+
+      // Act
+      const result = await store.get('uuid-123', '2025-06-01T11:45:00Z')
+
+      // Assert
+      expect(result).toBeNull()
+    })
+
+    it('should return an assessment cached by something else as it is', async () => {
+      // Arrange
+      redisClient.get.mockResolvedValue(JSON.stringify(assessment))
+
+      // Act
+      const result = await store.get('uuid-123')
+
+      // Assert
+      expect(result).toEqual(assessment)
+    })
+
+    it('should record a miss when Redis fails', async () => {
+      // Arrange
+      redisClient.get.mockRejectedValue(new Error('Connection lost'))
+
+      // Act
+      const result = await store.get('uuid-123')
+
+      // Assert
+      expect(result).toBeNull()
+      expect(telemetry.trackEvent).toHaveBeenCalledWith('AssessmentCacheMiss', {
+        assessmentUuid: 'uuid-123',
+        reason: 'ERROR',
+      })
+    })
+  })
+
+  describe('getGeneration()', () => {
+    it('should return the generation the assessment is at', async () => {
+      // Arrange
+      redisClient.get.mockResolvedValue('3')
+
+      // Act
+      const generation = await store.getGeneration('uuid-123')
+
+      // Assert
+      expect(generation).toBe('3')
+      expect(redisClient.get).toHaveBeenCalledWith('assessment:uuid-123:generation')
+    })
+
+    it('should start at generation 0', async () => {
+      // Arrange
+      redisClient.get.mockResolvedValue(null)
+
+      // Act & Assert
+      await expect(store.getGeneration('uuid-123')).resolves.toBe('0')
+    })
+
+    it('should return null when Redis fails, so nothing is cached', async () => {
+      // Arrange
+      redisClient.get.mockRejectedValue(new Error('Connection lost'))
+
+      // Act & Assert
+      await expect(store.getGeneration('uuid-123')).resolves.toBeNull()
+    })
+  })
+
+  describe('set()', () => {
+    it('should store the assessment and when it was cached, only if still at the generation it was fetched at', async () => {
+      // Act
+      await store.set(assessment, '3')
+
+      // Assert
+      expect(redisClient.eval).toHaveBeenCalledWith(expect.stringContaining("redis.call('GET', KEYS[2])"), {
+        keys: ['assessment:uuid-123:latest', 'assessment:uuid-123:generation'],
+        arguments: [JSON.stringify({ cachedAt: now.getTime(), assessment }), '3', '300'],
+      })
+    })
+
+    it('should not store the assessment without a generation', async () => {
+      // Act
+      await store.set(assessment, null)
+
+      // Assert
+      expect(redisClient.eval).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('invalidate()', () => {
+    it('should delete the latest key and move the assessment on a generation', async () => {
+      // Act
+      await store.invalidate('uuid-123')
+
+      // Assert
+      expect(multi.incr).toHaveBeenCalledWith('assessment:uuid-123:generation')
+      expect(multi.expire).toHaveBeenCalledWith('assessment:uuid-123:generation', 300)
+      expect(multi.del).toHaveBeenCalledWith('assessment:uuid-123:latest')
+      expect(multi.exec).toHaveBeenCalled()
+    })
+
+    it('should not throw when Redis fails', async () => {
+      // Arrange
+      multi.exec.mockRejectedValueOnce(new Error('Connection lost'))
+
+      // Act & Assert
+      await expect(store.invalidate('uuid-123')).resolves.toBeUndefined()
+    })
+  })
+})
@@ -1,8 +1,38 @@
+import { telemetry } from '@ministryofjustice/hmpps-azure-telemetry'
 import { RedisClient, createRedisClient } from './redisClient'
 import { AssessmentVersionQueryResult } from '../interfaces/aap-api/queryResult'
 import logger from '../../logger'
 import config from '../config'
 
+type CacheMissReason = 'NOT_FOUND' | 'STALE' | 'ERROR'
+
+/**
+ * A cached assessment, with when the UI cached it. Entries written by something else
+ * are the bare assessment.
+ */
+interface CacheEntry {
+  cachedAt: number
+  assessment: AssessmentVersionQueryResult
+}
+
+const getKey = (assessmentUuid: string) => `assessment:${assessmentUuid}:latest`
+
+// Bumped on every invalidation, so a read that started before a write can't cache what it read after it
+const getGenerationKey = (assessmentUuid: string) => `assessment:${assessmentUuid}:generation`
+
+/**
+ * Sets KEYS[1] to ARGV[1] for ARGV[3] seconds, only if the generation in KEYS[2] is still ARGV[2].
+ */
+const SET_IF_GENERATION_SCRIPT = `
+if (redis.call('GET', KEYS[2]) or '0') == ARGV[2] then
+  return redis.call('SET', KEYS[1], ARGV[1], 'EX', ARGV[3])
+end
+return nil
+`
+
+const isCacheEntry = (value: CacheEntry | AssessmentVersionQueryResult): value is CacheEntry =>
+  'cachedAt' in value && 'assessment' in value
+
 export default class AssessmentCacheStore {
   private client: RedisClient
 
@@ -20,7 +50,32 @@ export default class AssessmentCacheStore {
     return this.connectionPromise
   }
 
-  async get(assessmentUuid: string): Promise<AssessmentVersionQueryResult | null> {
+  private recordMiss(assessmentUuid: string, reason: CacheMissReason): null {
+    telemetry.trackEvent('AssessmentCacheMiss', { assessmentUuid, reason })
+
+    return null
+  }
+
+  /**
+   * A cached assessment is stale when it's behind the version the caller knows of, or when the UI
+   * cached it longer ago than the configured max age, in case a write elsewhere didn't invalidate it.
+   * Entries written elsewhere otherwise expire as their writer set.
+   */
+  private isStale(entry: CacheEntry | AssessmentVersionQueryResult, knownVersion: string | undefined): boolean {
+    const { updatedAt } = isCacheEntry(entry) ? entry.assessment : entry
+
+    if (knownVersion && new Date(updatedAt).getTime() < new Date(knownVersion).getTime()) {
+      return true
+    }
+
+    return isCacheEntry(entry) && Date.now() - entry.cachedAt > config.assessmentCache.maxAgeSeconds * 1000
+  }
+
+  /**
+   * The cached latest version of the assessment. `knownVersion` is the `updatedAt` of the latest
+   * version the caller has seen, if any, so a cached copy older than that isn't returned.
+   */
+  async get(assessmentUuid: string, knownVersion?: string): Promise<AssessmentVersionQueryResult | null> {
     if (!config.redis.enabled) {
       return null
     }
@@ -28,17 +83,97 @@ export default class AssessmentCacheStore {
     try {
       await this.ensureConnected()
 
-      const data = await this.client.get(`assessment:${assessmentUuid}:latest`)
+      const data = await this.client.get(getKey(assessmentUuid))
 
       if (!data) {
-        return null
+        return this.recordMiss(assessmentUuid, 'NOT_FOUND')
       }
 
-      return JSON.parse(data.toString()) as AssessmentVersionQueryResult
+      const entry = JSON.parse(data.toString()) as CacheEntry | AssessmentVersionQueryResult
+
+      if (this.isStale(entry, knownVersion)) {
+        logger.debug(
+          {
+            assessmentUuid,
+            knownVersion,
+            ...(isCacheEntry(entry) && { cachedAt: new Date(entry.cachedAt).toISOString() }),
+          },
+          'Ignoring stale cached assessment',
+        )
+
+        return this.recordMiss(assessmentUuid, 'STALE')
+      }
+
+      telemetry.trackEvent('AssessmentCacheHit', { assessmentUuid })
+
+      return isCacheEntry(entry) ? entry.assessment : entry
     } catch (error) {
       logger.error({ err: error, assessmentUuid }, 'Failed to get cached assessment')
 
+      return this.recordMiss(assessmentUuid, 'ERROR')
+    }
+  }
+
+  /**
+   * The assessment's current cache generation, to read before fetching it and pass to set() after.
+   * Null when the cache isn't in use, in which case nothing will be cached.
+   */
+  async getGeneration(assessmentUuid: string): Promise<string | null> {
+    if (!config.redis.enabled) {
+      return null
+    }
+
+    try {
+      await this.ensureConnected()
+
+      return (await this.client.get(getGenerationKey(assessmentUuid)))?.toString() ?? '0'
+    } catch (error) {
+      logger.error({ err: error, assessmentUuid }, 'Failed to get assessment cache generation')
+
       return null
     }
   }
+
+  /**
+   * Cache an assessment fetched after getGeneration() returned `generation`. Nothing is cached if
+   * the assessment was invalidated since, as what was fetched may be older than the write.
+   */
+  async set(assessment: AssessmentVersionQueryResult, generation: string | null): Promise<void> {
+    if (!config.redis.enabled || generation === null) {
+      return
+    }
+
+    const entry: CacheEntry = { cachedAt: Date.now(), assessment }
+
+    try {
+      await this.ensureConnected()
+
+      await this.client.eval(SET_IF_GENERATION_SCRIPT, {
+        keys: [getKey(assessment.assessmentUuid), getGenerationKey(assessment.assessmentUuid)],
+        arguments: [JSON.stringify(entry), generation, String(config.assessmentCache.ttlSeconds)],
+      })
+    } catch (error) {
+      logger.error({ err: error, assessmentUuid: assessment.assessmentUuid }, 'Failed to cache assessment')
+    }
+  }
+
+  async invalidate(assessmentUuid: string): Promise<void> {
+    if (!config.redis.enabled) {
+      return
+    }
+
+    try {
+      await this.ensureConnected()
+
+      // The generation outlives any read that could have started before this write
+      await this.client
+        .multi()
+        .incr(getGenerationKey(assessmentUuid))
+        .expire(getGenerationKey(assessmentUuid), config.assessmentCache.ttlSeconds)
+        .del(getKey(assessmentUuid))
+        .exec()
+    } catch (error) {
+      logger.error({ err: error, assessmentUuid }, 'Failed to invalidate cached assessment')
+    }
+  }
 }
@@ -1,6 +1,7 @@
 import type { AuthenticationClient } from '@ministryofjustice/hmpps-auth-clients'
 import AssessmentPlatformApiClient from './assessmentPlatformApiClient'
 import { CommandError } from '../errors/aap-api/CommandError'
+import { CommandConflictError } from '../errors/aap-api/CommandConflictError'
 import { QueryError } from '../errors/aap-api/QueryError'
 import { CommandsResponse, QueriesResponse } from '../interfaces/aap-api/response'
 import { CreateAssessmentCommand, UpdateAssessmentAnswersCommand } from '../interfaces/aap-api/command'
@@ -8,6 +9,12 @@ import { AssessmentVersionQuery, TimelineQuery } from '../interfaces/aap-api/que
 import { CreateAssessmentCommandResult, CommandResult, CommandResults } from '../interfaces/aap-api/commandResult'
 import { AssessmentVersionQueryResult, TimelineQueryResult } from '../interfaces/aap-api/queryResult'
 import { User } from '../interfaces/user'
+import AssessmentCacheStore from './assessmentCacheStore'
+import { runInRequestScope } from '../utils/requestScope'
+import config from '../config'
+import logger from '../../logger'
+import { QueryValidationError } from '../errors/aap-api/QueryValidationError'
+import { CommandValidationError } from '../errors/aap-api/CommandValidationError'
 
 jest.mock('../config', () => ({
   apis: {
@@ -15,6 +22,7 @@ jest.mock('../config', () => ({
       url: 'http://localhost:8080',
       timeout: { response: 10000, deadline: 10000 },
       agent: { maxSockets: 100, maxFreeSockets: 10, freeSocketTimeout: 30000 },
+      enforceResponseValidation: false,
     },
   },
 }))
@@ -198,6 +206,79 @@ describe('AssessmentPlatformApiClient', () => {
     })
   })
 
+  describe('executeCommandsAtVersion()', () => {
+    const command: UpdateAssessmentAnswersCommand = {
+      type: 'UpdateAssessmentAnswersCommand',
+      assessmentUuid: 'uuid-123',
+      user: mockUser,
+      added: { question1: { type: 'Single', value: 'answer1' } },
+      removed: [],
+    }
+
+    const successResult: CommandResult = {
+      type: 'CommandResult',
+      message: 'Updated',
+      success: true,
+    }
+
+    it('should send the expected version and return the new assessment version', async () => {
+      // Arrange
+      const response: CommandsResponse = {
+        commands: [{ request: command, result: successResult }],
+        assessmentVersion: '2025-01-02T00:00:00Z',
+      }
+
+      mockPost.mockResolvedValue(response)
+
+      // Act
+      const { results, assessmentVersion } = await client.executeCommandsAtVersion('2025-01-01T00:00:00Z', command)
+
+      // Assert
+      expect(results).toEqual([successResult])
+      expect(assessmentVersion).toBe('2025-01-02T00:00:00Z')
+      expect(mockPost).toHaveBeenCalledWith(
+        { path: '/command', data: { commands: [command], expectedVersion: '2025-01-01T00:00:00Z' } },
+        expect.anything(),
+      )
+    })
+
+    it('should omit the expected version when none is given', async () => {
+      // Arrange
+      mockPost.mockResolvedValue({ commands: [{ request: command, result: successResult }] })
+
+      // Act
+      await client.executeCommandsAtVersion(undefined, command)
+
+      // Assert
+      expect(mockPost).toHaveBeenCalledWith({ path: '/command', data: { commands: [command] } }, expect.anything())
+    })
+
+    it('should throw CommandConflictError when the API rejects the version', async () => {
+      // Arrange
+      mockPost.mockRejectedValue({ responseStatus: 409, data: { assessmentVersion: '2025-01-03T00:00:00Z' } })
+
+      // Act
+      const result = client.executeCommandsAtVersion('2025-01-01T00:00:00Z', command)
+
+      // Assert
+      await expect(result).rejects.toBeInstanceOf(CommandConflictError)
+      await expect(result).rejects.toMatchObject({
+        commandTypes: ['UpdateAssessmentAnswersCommand'],
+        expectedVersion: '2025-01-01T00:00:00Z',
+        currentVersion: '2025-01-03T00:00:00Z',
+      })
+    })
+
+    it('should rethrow other API errors unchanged', async () => {
+      // Arrange
+      const apiError = { responseStatus: 500 }
+      mockPost.mockRejectedValue(apiError)
+
+      // Act & Assert
+      await expect(client.executeCommandsAtVersion('2025-01-01T00:00:00Z', command)).rejects.toBe(apiError)
+    })
+  })
+
   describe('executeQuery()', () => {
     const query: AssessmentVersionQuery = {
       type: 'AssessmentVersionQuery',
@@ -344,4 +425,357 @@ describe('AssessmentPlatformApiClient', () => {
       }
     })
   })
+
+  describe('within a request scope', () => {
+    const assessmentQuery: AssessmentVersionQuery = {
+      type: 'AssessmentVersionQuery',
+      user: mockUser,
+      assessmentIdentifier: { type: 'UUID', uuid: 'uuid-123' },
+      timestamp: '2025-01-01T00:00:00Z',
+    }
+
+    const timelineQuery: TimelineQuery = {
+      type: 'TimelineQuery',
+      user: mockUser,
+      assessmentIdentifier: { type: 'UUID', uuid: 'uuid-123' },
+    }
+
+    const assessmentResult = { type: 'AssessmentVersionQueryResult' } as AssessmentVersionQueryResult
+    const timelineResult = { type: 'TimelineQueryResult', timeline: [] } as unknown as TimelineQueryResult
+
+    beforeEach(() => {
+      mockPost.mockImplementation(async ({ path, data }) =>
+        path === '/query'
+          ? {
+              queries: data.queries.map((query: { type: string }) => ({
+                request: query,
+                result: query.type === 'TimelineQuery' ? timelineResult : assessmentResult,
+              })),
+            }
+          : { commands: data.commands.map((command: unknown) => ({ request: command, result: { success: true } })) },
+      )
+    })
+
+    it('should send repeated queries once', async () => {
+      // Act
+      const results = await runInRequestScope(async () => {
+        const first = await client.executeQuery(assessmentQuery)
+        const second = await client.executeQuery({ ...assessmentQuery })
+        return [first, second]
+      })
+
+      // Assert
+      expect(results).toEqual([assessmentResult, assessmentResult])
+      expect(mockPost).toHaveBeenCalledTimes(1)
+    })
+
+    it('should batch queries made at the same time into one POST', async () => {
+      // Act
+      await runInRequestScope(() =>
+        Promise.all([client.executeQuery(assessmentQuery), client.executeQuery(timelineQuery)]),
+      )
+
+      // Assert
+      expect(mockPost).toHaveBeenCalledTimes(1)
+      expect(mockPost).toHaveBeenCalledWith(
+        { path: '/query', data: { queries: [assessmentQuery, timelineQuery] } },
+        expect.anything(),
+      )
+    })
+
+    it('should query again after a command has been executed', async () => {
+      // Arrange
+      const command: UpdateAssessmentAnswersCommand = {
+        type: 'UpdateAssessmentAnswersCommand',
+        assessmentUuid: 'uuid-123',
+        user: mockUser,
+        added: {},
+        removed: [],
+      }
+
+      // Act
+      await runInRequestScope(async () => {
+        await client.executeQuery(assessmentQuery)
+        await client.executeCommands(command)
+        await client.executeQuery(assessmentQuery)
+      })
+
+      // Assert
+      expect(mockPost.mock.calls.filter(([{ path }]) => path === '/query')).toHaveLength(2)
+    })
+
+    it('should not share results between requests', async () => {
+      // Act
+      await runInRequestScope(() => client.executeQuery(assessmentQuery))
+      await runInRequestScope(() => client.executeQuery(assessmentQuery))
+
+      // Assert
+      expect(mockPost).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe('assessment cache', () => {
+    let cachedClient: AssessmentPlatformApiClient
+    let cachedPost: jest.SpyInstance
+    let assessmentCache: jest.Mocked<Pick<AssessmentCacheStore, 'get' | 'getGeneration' | 'set' | 'invalidate'>>
+
+    const latestQuery: AssessmentVersionQuery = {
+      type: 'AssessmentVersionQuery',
+      user: mockUser,
+      assessmentIdentifier: { type: 'UUID', uuid: 'uuid-123' },
+    }
+
+    const assessment: AssessmentVersionQueryResult = {
+      type: 'AssessmentVersionQueryResult',
+      assessmentUuid: 'uuid-123',
+      aggregateUuid: 'agg-123',
+      assessmentType: 'TEST',
+      formVersion: '1',
+      createdAt: '2025-01-01T00:00:00Z',
+      updatedAt: '2025-01-01T00:00:00Z',
+      answers: {},
+      properties: {},
+      collections: [],
+      collaborators: [mockUser],
+      identifiers: {},
+      flags: [],
+    }
+
+    beforeEach(() => {
+      assessmentCache = {
+        get: jest.fn().mockResolvedValue(null),
+        getGeneration: jest.fn().mockResolvedValue('2'),
+        set: jest.fn().mockResolvedValue(undefined),
+        invalidate: jest.fn().mockResolvedValue(undefined),
+      }
+
+      cachedClient = new AssessmentPlatformApiClient(
+        mockAuthenticationClient,
+        assessmentCache as unknown as AssessmentCacheStore,
+      )
+      cachedPost = jest.spyOn(cachedClient as unknown as { post: jest.Mock }, 'post')
+    })
+
+    afterEach(() => {
+      config.apis.aapApi.enforceResponseValidation = false
+    })
+
+    it('should return a cached latest version without calling the API', async () => {
+      // Arrange
+      assessmentCache.get.mockResolvedValue(assessment)
+
+      // Act
+      const result = await cachedClient.executeQuery(latestQuery)
+
+      // Assert
+      expect(result).toEqual(assessment)
+      expect(cachedPost).not.toHaveBeenCalled()
+    })
+
+    it('should cache the latest version fetched on a cache miss, at the generation read before fetching', async () => {
+      // Arrange
+      cachedPost.mockResolvedValue({ queries: [{ request: latestQuery, result: assessment }] })
+
+      // Act
+      await cachedClient.executeQuery(latestQuery)
+
+      // Assert
+      expect(assessmentCache.getGeneration).toHaveBeenCalledWith('uuid-123')
+      expect(assessmentCache.getGeneration.mock.invocationCallOrder[0]).toBeLessThan(
+        cachedPost.mock.invocationCallOrder[0],
+      )
+      expect(assessmentCache.set).toHaveBeenCalledWith(assessment, '2')
+    })
+
+    it('should not cache point-in-time versions', async () => {
+      // Arrange
+      const historicQuery = { ...latestQuery, timestamp: '2025-01-01T00:00:00Z' }
+      cachedPost.mockResolvedValue({ queries: [{ request: historicQuery, result: assessment }] })
+
+      // Act
+      await cachedClient.executeQuery(historicQuery)
+
+      // Assert
+      expect(assessmentCache.get).not.toHaveBeenCalled()
+      expect(assessmentCache.getGeneration).not.toHaveBeenCalled()
+      expect(assessmentCache.set).not.toHaveBeenCalled()
+    })
+
+    it('should invalidate each assessment changed by a successful batch', async () => {
+      // Arrange
+      const command1: UpdateAssessmentAnswersCommand = {
+        type: 'UpdateAssessmentAnswersCommand',
+        assessmentUuid: 'uuid-123',
+        user: mockUser,
+        added: {},
+        removed: [],
+      }
+      const command2: UpdateAssessmentAnswersCommand = { ...command1, assessmentUuid: 'uuid-456' }
+      const success: CommandResult = { type: 'CommandResult', message: 'Updated', success: true }
+
+      cachedPost.mockResolvedValue({
+        commands: [
+          { request: command1, result: success },
+          { request: command1, result: success },
+          { request: command2, result: success },
+        ],
+      })
+
+      // Act
+      await cachedClient.executeCommands(command1, command1, command2)
+
+      // Assert
+      expect(assessmentCache.invalidate).toHaveBeenCalledTimes(2)
+      expect(assessmentCache.invalidate).toHaveBeenCalledWith('uuid-123')
+      expect(assessmentCache.invalidate).toHaveBeenCalledWith('uuid-456')
+    })
+
+    it('should invalidate the assessment when a command fails', async () => {
+      // Arrange
+      const command: UpdateAssessmentAnswersCommand = {
+        type: 'UpdateAssessmentAnswersCommand',
+        assessmentUuid: 'uuid-123',
+        user: mockUser,
+        added: {},
+        removed: [],
+      }
+
+      cachedPost.mockResolvedValue({
+        commands: [{ request: command, result: { type: 'CommandResult', message: 'Failed', success: false } }],
+      })
+
+      // Act & Assert
+      await expect(cachedClient.executeCommands(command)).rejects.toThrow(CommandError)
+      expect(assessmentCache.invalidate).toHaveBeenCalledWith('uuid-123')
+    })
+
+    it('should invalidate the assessment and query again when an enforced response validation fails', async () => {
+      // Arrange
+      config.apis.aapApi.enforceResponseValidation = true
+      const command: UpdateAssessmentAnswersCommand = {
+        type: 'UpdateAssessmentAnswersCommand',
+        assessmentUuid: 'uuid-123',
+        user: mockUser,
+        added: {},
+        removed: [],
+      }
+      const timelineQuery: TimelineQuery = { ...latestQuery, type: 'TimelineQuery' }
+      const timeline: TimelineQueryResult = { type: 'TimelineQueryResult', timeline: [] }
+
+      cachedPost
+        .mockResolvedValueOnce({ queries: [{ request: timelineQuery, result: timeline }] })
+        .mockResolvedValueOnce({ commands: [{ request: command, result: { type: 'CommandResult', success: true } }] })
+        .mockResolvedValueOnce({ queries: [{ request: timelineQuery, result: timeline }] })
+
+      // Act & Assert
+      await runInRequestScope(async () => {
+        await cachedClient.executeQueries(timelineQuery)
+        await expect(cachedClient.executeCommands(command)).rejects.toThrow(CommandValidationError)
+        await cachedClient.executeQueries(timelineQuery)
+      })
+
+      expect(assessmentCache.invalidate).toHaveBeenCalledWith('uuid-123')
+      expect(cachedPost).toHaveBeenCalledTimes(3)
+    })
+
+    it('should not use a cached version behind the version the caller knows of', async () => {
+      // Arrange
+      cachedPost.mockResolvedValue({ queries: [{ request: latestQuery, result: assessment }] })
+
+      // Act
+      await cachedClient.executeQuery(latestQuery, '2025-01-02T00:00:00Z')
+
+      // Assert
+      expect(assessmentCache.get).toHaveBeenCalledWith('uuid-123', '2025-01-02T00:00:00Z')
+    })
+  })
+
+  describe('response validation', () => {
+    const query: TimelineQuery = {
+      type: 'TimelineQuery',
+      user: mockUser,
+      assessmentIdentifier: { type: 'UUID', uuid: 'uuid-123' },
+    }
+
+    const command: CreateAssessmentCommand = {
+      type: 'CreateAssessmentCommand',
+      assessmentType: 'TEST',
+      formVersion: '1',
+      user: mockUser,
+    }
+
+    const invalidQueriesResponse = {
+      queries: [{ request: query, result: { type: 'TimelineQueryResult', timeline: [{ uuid: 'event-1' }] } }],
+    }
+
+    const invalidCommandsResponse = {
+      commands: [
+        { request: command, result: { type: 'CreateAssessmentCommandResult', message: 'Done', success: true } },
+      ],
+    }
+
+    afterEach(() => {
+      config.apis.aapApi.enforceResponseValidation = false
+    })
+
+    it('should log and return the response when validation fails and enforcement is off', async () => {
+      // Arrange
+      mockPost.mockResolvedValue(invalidQueriesResponse)
+
+      // Act
+      const [result] = await client.executeQueries(query)
+
+      // Assert
+      expect(result).toEqual(invalidQueriesResponse.queries[0].result)
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({ path: 'queries[0].result.timeline[0].position' }),
+        expect.stringContaining('TimelineQuery returned an invalid response at queries[0].result.timeline[0].position'),
+      )
+    })
+
+    it('should throw QueryValidationError naming the failing path when enforcement is on', async () => {
+      // Arrange
+      config.apis.aapApi.enforceResponseValidation = true
+      mockPost.mockResolvedValue(invalidQueriesResponse)
+
+      // Act
+      const error = await client.executeQueries(query).catch(e => e)
+
+      // Assert
+      expect(error).toBeInstanceOf(QueryValidationError)
+      expect(error).toBeInstanceOf(QueryError)
+      expect(error.queryType).toBe('TimelineQuery')
+      expect(error.resultIndex).toBe(0)
+      expect(error.path).toBe('queries[0].result.timeline[0].position')
+    })
+
+    it('should throw CommandValidationError naming the failing path when enforcement is on', async () => {
+      // Arrange
+      config.apis.aapApi.enforceResponseValidation = true
+      mockPost.mockResolvedValue(invalidCommandsResponse)
+
+      // Act
+      const error = await client.executeCommand(command).catch(e => e)
+
+      // Assert
+      expect(error).toBeInstanceOf(CommandValidationError)
+      expect(error).toBeInstanceOf(CommandError)
+      expect(error.commandType).toBe('CreateAssessmentCommand')
+      expect(error.path).toBe('commands[0].result.assessmentUuid')
+    })
+
+    it('should not log when the response is valid', async () => {
+      // Arrange
+      config.apis.aapApi.enforceResponseValidation = true
+      mockPost.mockResolvedValue({
+        queries: [{ request: query, result: { type: 'TimelineQueryResult', timeline: [] } }],
+      })
+
+      // Act
+      await client.executeQueries(query)
+
+      // Assert
+      expect(logger.warn).not.toHaveBeenCalled()
+    })
+  })
 })
@@ -1,16 +1,22 @@
-import { RestClient, asSystem, ApiConfig } from '@ministryofjustice/hmpps-rest-client'
+import { RestClient, asSystem, ApiConfig, type SanitisedError } from '@ministryofjustice/hmpps-rest-client'
 import type { AuthenticationClient } from '@ministryofjustice/hmpps-auth-clients'
 import config from '../config'
 import logger from '../../logger'
 import { CommandsRequest, QueriesRequest } from '../interfaces/aap-api/request'
-import { CommandsResponse, QueriesResponse } from '../interfaces/aap-api/response'
+import { CommandsConflictResponse, CommandsResponse, QueriesResponse } from '../interfaces/aap-api/response'
 import { Commands } from '../interfaces/aap-api/command'
 import { Queries } from '../interfaces/aap-api/query'
-import { CommandResultFor, CommandResultsFor } from '../interfaces/aap-api/commandResult'
-import { QueryResultFor, QueryResultsFor } from '../interfaces/aap-api/queryResult'
+import { CommandResultFor, CommandResultsFor, VersionedCommandResults } from '../interfaces/aap-api/commandResult'
+import { AssessmentVersionQueryResult, QueryResultFor, QueryResultsFor } from '../interfaces/aap-api/queryResult'
 import { CommandError } from '../errors/aap-api/CommandError'
+import { CommandConflictError } from '../errors/aap-api/CommandConflictError'
 import { QueryError } from '../errors/aap-api/QueryError'
 import AssessmentCacheStore from './assessmentCacheStore'
+import QueryMemoiser from './aap-api/queryMemoiser'
+import { getRequestScoped } from '../utils/requestScope'
+import { validateCommandsResponse, validateQueriesResponse } from './aap-api/responseValidation'
+import { CommandValidationError } from '../errors/aap-api/CommandValidationError'
+import { QueryValidationError } from '../errors/aap-api/QueryValidationError'
 import { DataDeletionDataResponse, DataDeletionRequest, DataDeletionResponse } from '../interfaces/aap-api/dataDeletion'
 
 export default class AssessmentPlatformApiClient extends RestClient {
@@ -54,32 +60,88 @@ export default class AssessmentPlatformApiClient extends RestClient {
    * )
    */
   async executeCommands<T extends Commands[]>(...commands: T): Promise<CommandResultsFor<T>> {
-    const response = await this.executeCommandsRaw({ commands })
+    const { results } = await this.executeCommandsAtVersion(undefined, ...commands)
+    return results
+  }
 
-    response.commands.forEach((cmd, i) => {
-      if (!cmd.result?.success) {
-        throw new CommandError(commands[i].type, cmd.result, i)
+  /**
+   * Execute multiple commands as a batch, guarded by an optimistic concurrency check.
+   * The API only applies the batch if the assessment is still at `expectedVersion`
+   * (the `updatedAt` of the version the commands were built from).
+   * Throws CommandConflictError if the assessment has changed since, or CommandError if any command fails.
+   * Passing an undefined `expectedVersion` skips the check.
+   *
+   * @example
+   * const { results, assessmentVersion } = await api.executeCommandsAtVersion(
+   *   assessment.updatedAt,
+   *   { type: 'AddCollectionItemCommand', ... },
+   * )
+   */
+  async executeCommandsAtVersion<T extends Commands[]>(
+    expectedVersion: string | undefined,
+    ...commands: T
+  ): Promise<VersionedCommandResults<T>> {
+    try {
+      let response: CommandsResponse
+
+      try {
+        response = await this.executeCommandsRaw(expectedVersion ? { commands, expectedVersion } : { commands })
+      } catch (error) {
+        const sanitisedError = error as SanitisedError<CommandsConflictResponse>
+
+        if (expectedVersion && sanitisedError.responseStatus === 409) {
+          throw new CommandConflictError(
+            commands.map(command => command.type),
+            expectedVersion,
+            sanitisedError.data?.assessmentVersion,
+          )
+        }
+
+        throw error
       }
-    })
 
-    return response.commands.map(c => c.result) as CommandResultsFor<T>
+      response.commands.forEach((cmd, i) => {
+        if (!cmd.result?.success) {
+          throw new CommandError(commands[i].type, cmd.result, i)
+        }
+      })
+
+      return {
+        results: response.commands.map(c => c.result) as CommandResultsFor<T>,
+        assessmentVersion: response.assessmentVersion,
+      }
+    } finally {
+      // However the request ended, the API may have applied the batch, so don't trust what was read before it
+      this.getRequestMemoiser()?.clear()
+      await this.invalidateCachedAssessments(commands)
+    }
   }
 
   /**
    * Execute a single query and return the typed result.
    * For AssessmentVersionQuery with a UUID identifier and no timestamp,
-   * checks Redis cache before calling the API.
+   * checks Redis cache before calling the API, and caches the result on a miss.
+   * A cached version older than `knownVersion`, the latest version the caller has seen, isn't used.
    * Throws if the query fails (no result returned).
    */
-  async executeQuery<T extends Queries>(query: T): Promise<QueryResultFor<T>> {
+  async executeQuery<T extends Queries>(query: T, knownVersion?: string): Promise<QueryResultFor<T>> {
     if (query.type === 'AssessmentVersionQuery' && query.assessmentIdentifier.type === 'UUID' && !query.timestamp) {
-      const cached = await this.assessmentCache?.get(query.assessmentIdentifier.uuid)
+      const assessmentUuid = query.assessmentIdentifier.uuid
+      const cached = await this.assessmentCache?.get(assessmentUuid, knownVersion)
 
       if (cached) {
-        logger.debug({ assessmentUuid: query.assessmentIdentifier.uuid }, 'Assessment cache hit')
+        logger.debug({ assessmentUuid }, 'Assessment cache hit')
 
         return cached as QueryResultFor<T>
       }
+
+      // Read before fetching, so a write made while the query is in flight stops the result being cached
+      const generation = (await this.assessmentCache?.getGeneration(assessmentUuid)) ?? null
+      const [result] = await this.executeQueries(query)
+
+      await this.assessmentCache?.set(result as AssessmentVersionQueryResult, generation)
+
+      return result
     }
 
     const [result] = await this.executeQueries(query)
@@ -89,6 +151,7 @@ export default class AssessmentPlatformApiClient extends RestClient {
 
   /**
    * Execute multiple queries and return typed results.
+   * Within a request, results are memoised and queries made in the same tick are batched together.
    * Throws if any query fails.
    *
    * @example
@@ -98,24 +161,69 @@ export default class AssessmentPlatformApiClient extends RestClient {
    * )
    */
   async executeQueries<T extends Queries[]>(...queries: T): Promise<QueryResultsFor<T>> {
-    const response = await this.executeQueriesRaw({ queries })
+    const memoiser = this.getRequestMemoiser()
+
+    const results = memoiser
+      ? await Promise.all(queries.map(query => memoiser.load(query)))
+      : (await this.executeQueriesRaw({ queries })).queries.map(q => q.result)
 
-    response.queries.forEach((q, i) => {
-      if (!q.result) {
-        throw new QueryError(queries[i].type, q.result, i)
+    results.forEach((result, i) => {
+      if (!result) {
+        throw new QueryError(queries[i].type, result, i)
       }
     })
 
-    return response.queries.map(q => q.result) as QueryResultsFor<T>
+    return results as QueryResultsFor<T>
+  }
+
+  // Within a request, identical queries are only sent once, and queries made together share one POST
+  private getRequestMemoiser(): QueryMemoiser | undefined {
+    return getRequestScoped(this, () => new QueryMemoiser(queries => this.executeQueriesRaw({ queries })))
+  }
+
+  // Commands change the latest version of the assessments they target, so drop those from the cache
+  private async invalidateCachedAssessments(commands: Commands[]): Promise<void> {
+    if (!this.assessmentCache) {
+      return
+    }
+
+    const assessmentUuids = new Set(
+      commands.flatMap(command => ('assessmentUuid' in command ? [command.assessmentUuid] : [])),
+    )
+
+    await Promise.all([...assessmentUuids].map(assessmentUuid => this.assessmentCache.invalidate(assessmentUuid)))
   }
 
   // Raw CQRS endpoints - used internally
   private async executeCommandsRaw(request: CommandsRequest): Promise<CommandsResponse> {
-    return this.post({ path: '/command', data: request as unknown as Record<string, unknown> }, asSystem())
+    const response = await this.post<CommandsResponse>(
+      { path: '/command', data: request as unknown as Record<string, unknown> },
+      asSystem(),
+    )
+    this.handleInvalidResponse(validateCommandsResponse(request, response))
+    return response
   }
 
   private async executeQueriesRaw(request: QueriesRequest): Promise<QueriesResponse> {
-    return this.post({ path: '/query', data: request as unknown as Record<string, unknown> }, asSystem())
+    const response = await this.post<QueriesResponse>(
+      { path: '/query', data: request as unknown as Record<string, unknown> },
+      asSystem(),
+    )
+    this.handleInvalidResponse(validateQueriesResponse(request, response))
+    return response
+  }
+
+  // Responses that don't match the schemas only fail the request once enforcement is switched on
+  private handleInvalidResponse(error: QueryValidationError | CommandValidationError | undefined): void {
+    if (!error) {
+      return
+    }
+
+    if (config.apis.aapApi.enforceResponseValidation) {
+      throw error
+    }
+
+    logger.warn({ path: error.path, issues: error.issues }, error.message)
   }
 
   // Data deletion endpoints
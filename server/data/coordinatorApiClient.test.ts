@@ -149,6 +149,23 @@ describe('CoordinatorApiClient', () => {
     })
   })
 
+  describe('getAssessmentVersion()', () => {
+    it('should fetch the assessment version with system auth', async () => {
+      // Arrange
+      const versionUuid = 'san-version-uuid'
+      const expectedResponse = { sanAssessmentId: 'san-uuid', sanAssessmentVersion: 3 } as EntityAssessmentResponse
+
+      mockGet.mockResolvedValue(expectedResponse)
+
+      // Act
+      const result = await client.getAssessmentVersion(versionUuid)
+
+      // Assert
+      expect(result).toEqual(expectedResponse)
+      expect(mockGet).toHaveBeenCalledWith({ path: `/entity/version/${versionUuid}/ASSESSMENT` }, asSystem())
+    })
+  })
+
   describe('getVersionsByEntityId()', () => {
     it('should fetch assessment and plan versions with system auth', async () => {
       // Arrange
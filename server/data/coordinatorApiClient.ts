@@ -57,6 +57,18 @@ export default class CoordinatorApiClient extends RestClient {
     return this.get({ path: `/entity/${entityUuid}/ASSESSMENT` }, asSystem())
   }
 
+  /**
+   * Get a previous version of a SAN assessment
+   * Retrieves the assessment as it was at the given version, as listed by getVersionsByEntityId
+   *
+   * @param versionUuid - The UUID of the assessment version
+   * @returns Assessment data for that version, in the same shape as getEntityAssessment
+   * @throws 404 if the version was not found
+   */
+  async getAssessmentVersion(versionUuid: string): Promise<EntityAssessmentResponse> {
+    return this.get({ path: `/entity/version/${versionUuid}/ASSESSMENT` }, asSystem())
+  }
+
   /**
    * Get previous versions for an entity.
    */
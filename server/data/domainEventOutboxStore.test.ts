@@ -0,0 +1,151 @@
+import DomainEventOutboxStore, { OutboxMessage } from './domainEventOutboxStore'
+import { RedisClient } from './redisClient'
+
+const message: OutboxMessage = {
+  id: 'message-1',
+  event: {
+    eventType: 'arns.sentence.plan.goals.completed',
+    version: 1,
+    occurredAt: '2026-07-30T10:00:00.000Z',
+  },
+  attempts: 0,
+}
+
+describe('DomainEventOutboxStore', () => {
+  const createTransaction = () => {
+    const transaction = {
+      hSet: jest.fn(),
+      hDel: jest.fn(),
+      zAdd: jest.fn(),
+      zRem: jest.fn(),
+      lPush: jest.fn(),
+      del: jest.fn(),
+      exec: jest.fn().mockResolvedValue([]),
+    }
+    Object.values(transaction)
+      .filter(fn => fn !== transaction.exec)
+      .forEach(fn => fn.mockReturnValue(transaction))
+    return transaction
+  }
+
+  let transaction: ReturnType<typeof createTransaction>
+  let redisClient: Record<string, jest.Mock>
+  let store: DomainEventOutboxStore
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+
+    transaction = createTransaction()
+    redisClient = {
+      connect: jest.fn().mockResolvedValue(undefined),
+      multi: jest.fn(() => transaction),
+      zRangeByScore: jest.fn(),
+      hGet: jest.fn(),
+      set: jest.fn(),
+      zCard: jest.fn(),
+      lLen: jest.fn(),
+    }
+
+    store = new DomainEventOutboxStore(redisClient as unknown as RedisClient)
+  })
+
+  describe('add()', () => {
+    it('should store the message and schedule it in one transaction', async () => {
+      // Act
+      await store.add(message, 1000)
+
+      // Assert
+      expect(redisClient.connect).toHaveBeenCalledTimes(1)
+      expect(transaction.hSet).toHaveBeenCalledWith(
+        'domain-events:outbox:messages',
+        'message-1',
+        JSON.stringify(message),
+      )
+      expect(transaction.zAdd).toHaveBeenCalledWith('domain-events:outbox:pending', { score: 1000, value: 'message-1' })
+      expect(transaction.exec).toHaveBeenCalled()
+    })
+  })
+
+  describe('getDue()', () => {
+    it('should return the messages due by now, marking ones that cannot be read', async () => {
+      // Arrange
+      redisClient.zRangeByScore.mockResolvedValue(['message-1', 'missing', 'corrupt'])
+      redisClient.hGet.mockImplementation(
+        async (_key: string, id: string) =>
+          ({ 'message-1': JSON.stringify(message), corrupt: '{not json' })[id] ?? null,
+      )
+
+      // Act
+      const result = await store.getDue(2000, 10)
+
+      // Assert
+      expect(redisClient.zRangeByScore).toHaveBeenCalledWith('domain-events:outbox:pending', '-inf', 2000, {
+        LIMIT: { offset: 0, count: 10 },
+      })
+      expect(result).toEqual([
+        { id: 'message-1', message },
+        { id: 'missing', message: undefined },
+        { id: 'corrupt', message: undefined },
+      ])
+    })
+  })
+
+  describe('claim()', () => {
+    it('should take a lease on the message only if no one else holds it', async () => {
+      // Arrange
+      redisClient.set.mockResolvedValueOnce('OK').mockResolvedValueOnce(null)
+
+      // Act
+      const first = await store.claim('message-1', 5000)
+      const second = await store.claim('message-1', 5000)
+
+      // Assert
+      expect(redisClient.set).toHaveBeenCalledWith('domain-events:outbox:lock:message-1', '1', {
+        condition: 'NX',
+        expiration: { type: 'PX', value: 5000 },
+      })
+      expect(first).toBe(true)
+      expect(second).toBe(false)
+    })
+  })
+
+  describe('deadLetter()', () => {
+    it('should move the message to the dead-letter list with the reason', async () => {
+      // Arrange
+      jest.useFakeTimers().setSystemTime(new Date('2026-07-30T11:00:00.000Z'))
+
+      // Act
+      await store.deadLetter('message-1', { ...message, attempts: 10 }, 'SNS unavailable')
+
+      // Assert
+      expect(transaction.lPush).toHaveBeenCalledWith(
+        'domain-events:outbox:dead-letter',
+        JSON.stringify({
+          ...message,
+          attempts: 10,
+          lastError: 'SNS unavailable',
+          deadLetteredAt: '2026-07-30T11:00:00.000Z',
+        }),
+      )
+      expect(transaction.hDel).toHaveBeenCalledWith('domain-events:outbox:messages', 'message-1')
+      expect(transaction.zRem).toHaveBeenCalledWith('domain-events:outbox:pending', 'message-1')
+      expect(transaction.del).toHaveBeenCalledWith('domain-events:outbox:lock:message-1')
+
+      jest.useRealTimers()
+    })
+  })
+
+  describe('getCounts()', () => {
+    it('should count the pending and dead-lettered messages', async () => {
+      // Arrange
+      redisClient.zCard.mockResolvedValue(3)
+      redisClient.lLen.mockResolvedValue(1)
+
+      // Act
+      const result = await store.getCounts()
+
+      // Assert
+      expect(result).toEqual({ pending: 3, deadLettered: 1 })
+    })
+  })
+})
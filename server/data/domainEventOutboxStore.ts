@@ -0,0 +1,148 @@
+import { RedisClient, createRedisClient } from './redisClient'
+import type { DomainEvent } from '../services/domainEventsService'
+
+/**
+ * A domain event waiting in the outbox to be published.
+ */
+export interface OutboxMessage {
+  id: string
+  event: DomainEvent
+  /** Number of failed attempts to publish the event so far */
+  attempts: number
+  lastError?: string
+}
+
+/**
+ * A message moved out of the outbox after failing to publish. The event is missing
+ * when the message itself could not be read.
+ */
+export interface DeadLetteredMessage extends Omit<OutboxMessage, 'event'> {
+  event?: DomainEvent
+  deadLetteredAt: string
+}
+
+const MESSAGES_KEY = 'domain-events:outbox:messages'
+const PENDING_KEY = 'domain-events:outbox:pending'
+const DEAD_LETTER_KEY = 'domain-events:outbox:dead-letter'
+const getLockKey = (id: string) => `domain-events:outbox:lock:${id}`
+
+/**
+ * Redis-backed outbox for domain events, so an event survives SNS being unavailable.
+ *
+ * Messages are kept in a hash by id, with a sorted set of their ids scored by when they are
+ * next due to be published. Messages that keep failing are moved to a dead-letter list for
+ * someone to look at, rather than being retried forever.
+ *
+ * Errors are thrown to the caller, which decides whether to fall back to publishing directly.
+ */
+export default class DomainEventOutboxStore {
+  private client: RedisClient
+
+  private connectionPromise: Promise<unknown> | undefined
+
+  constructor(client?: RedisClient) {
+    this.client = client ?? createRedisClient()
+  }
+
+  private ensureConnected(): Promise<unknown> {
+    if (!this.connectionPromise) {
+      this.connectionPromise = this.client.connect()
+    }
+
+    return this.connectionPromise
+  }
+
+  async add(message: OutboxMessage, dueAt: number): Promise<void> {
+    await this.ensureConnected()
+
+    await this.client
+      .multi()
+      .hSet(MESSAGES_KEY, message.id, JSON.stringify(message))
+      .zAdd(PENDING_KEY, { score: dueAt, value: message.id })
+      .exec()
+  }
+
+  /**
+   * Messages due to be published by `now`, oldest first. Ids left in the pending set without
+   * a message, or with a message that can't be read, are returned as `undefined` messages so
+   * they can be dead-lettered.
+   */
+  async getDue(now: number, limit: number): Promise<{ id: string; message?: OutboxMessage }[]> {
+    await this.ensureConnected()
+
+    const ids = await this.client.zRangeByScore(PENDING_KEY, '-inf', now, { LIMIT: { offset: 0, count: limit } })
+
+    return Promise.all(
+      ids.map(async rawId => {
+        const id = rawId.toString()
+        const data = await this.client.hGet(MESSAGES_KEY, id)
+
+        try {
+          return { id, message: data ? (JSON.parse(data.toString()) as OutboxMessage) : undefined }
+        } catch {
+          return { id, message: undefined }
+        }
+      }),
+    )
+  }
+
+  /**
+   * Claim a message for publishing, so other instances leave it alone until the lease runs out.
+   */
+  async claim(id: string, leaseMs: number): Promise<boolean> {
+    await this.ensureConnected()
+
+    const result = await this.client.set(getLockKey(id), '1', {
+      condition: 'NX',
+      expiration: { type: 'PX', value: leaseMs },
+    })
+
+    return result === 'OK'
+  }
+
+  async reschedule(message: OutboxMessage, dueAt: number): Promise<void> {
+    await this.ensureConnected()
+
+    await this.client
+      .multi()
+      .hSet(MESSAGES_KEY, message.id, JSON.stringify(message))
+      .zAdd(PENDING_KEY, { score: dueAt, value: message.id })
+      .del(getLockKey(message.id))
+      .exec()
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.ensureConnected()
+
+    await this.client.multi().hDel(MESSAGES_KEY, id).zRem(PENDING_KEY, id).del(getLockKey(id)).exec()
+  }
+
+  async deadLetter(id: string, message: OutboxMessage | undefined, reason: string): Promise<void> {
+    await this.ensureConnected()
+
+    const deadLettered: DeadLetteredMessage = {
+      ...(message ?? { id, attempts: 0 }),
+      lastError: reason,
+      deadLetteredAt: new Date().toISOString(),
+    }
+
+    await this.client
+      .multi()
+      .lPush(DEAD_LETTER_KEY, JSON.stringify(deadLettered))
+      .hDel(MESSAGES_KEY, id)
+      .zRem(PENDING_KEY, id)
+      .del(getLockKey(id))
+      .exec()
+  }
+
+  async getCounts(): Promise<{ pending: number; deadLettered: number }> {
+    await this.ensureConnected()
+
+    const [pending, deadLettered] = await Promise.all([
+      this.client.zCard(PENDING_KEY),
+      this.client.lLen(DEAD_LETTER_KEY),
+    ])
+
+    return { pending: Number(pending), deadLettered: Number(deadLettered) }
+  }
+}
@@ -31,6 +31,10 @@ describe('GotenbergClient', () => {
         expect(multipartBody).toContain('true;scope=^http://assessment-ui/')
         expect(multipartBody).toContain('skipNetworkIdleEvent')
         expect(multipartBody).toContain('printBackground')
+        expect(multipartBody).toMatch(/name="pdfa"\r\n\r\nPDF\/A-2b/)
+        expect(multipartBody).toMatch(/name="pdfua"\r\n\r\ntrue/)
+        expect(multipartBody).toMatch(/name="generateTaggedPdf"\r\n\r\ntrue/)
+        expect(multipartBody).not.toContain('header.html')
         return true
       })
       .matchHeader('Gotenberg-Trace', 'request-id')
@@ -63,4 +67,65 @@ describe('GotenbergClient', () => {
     await expect(render).rejects.toMatchObject({ responseStatus: 503 })
     await expect(render).rejects.not.toHaveProperty('request')
   })
+
+  it('renders HTML as a PDF, loading its assets from the render origin', async () => {
+    const pdf = Buffer.from('%PDF-1.7')
+    const gotenberg = nock(config.url)
+      .post('/forms/chromium/convert/html', body => {
+        const multipartBody = body.toString()
+
+        expect(multipartBody).toContain('filename="index.html"')
+        expect(multipartBody).toContain('<head lang="en"><base href="http://assessment-ui/"><title>Plan</title>')
+        expect(multipartBody).not.toContain('Cookie')
+        expect(multipartBody).toContain('printBackground')
+        return true
+      })
+      .matchHeader('Gotenberg-Trace', 'request-id')
+      .reply(200, pdf, { 'Content-Type': 'application/pdf' })
+
+    const result = await new GotenbergClient(config).renderPdfFromHtml({
+      html: '<html><head lang="en"><title>Plan</title></head><body></body></html>',
+      requestId: 'request-id',
+    })
+
+    expect(result).toEqual(pdf)
+    expect(gotenberg.isDone()).toBe(true)
+  })
+
+  it('adds the document title, language, header and footer', async () => {
+    const gotenberg = nock(config.url)
+      .post('/forms/chromium/convert/html', body => {
+        const multipartBody = body.toString()
+
+        expect(multipartBody).toContain('{"Title":"Sentence plan for Buster Sanford","Language":"en-GB"}')
+        expect(multipartBody).toContain('filename="header.html"')
+        expect(multipartBody).toContain('<header>Buster Sanford</header>')
+        expect(multipartBody).toContain('filename="footer.html"')
+        expect(multipartBody).toContain('<footer><span class="pageNumber"></span></footer>')
+        expect(multipartBody).toMatch(/name="marginTop"\r\n\r\n20mm/)
+        expect(multipartBody).toMatch(/name="pdfua"\r\n\r\ntrue/)
+        return true
+      })
+      .reply(200, Buffer.from('%PDF-1.7'), { 'Content-Type': 'application/pdf' })
+
+    await new GotenbergClient(config).renderPdfFromHtml({
+      html: '<html><head><title>Plan</title></head><body></body></html>',
+      document: {
+        title: 'Sentence plan for Buster Sanford',
+        language: 'en-GB',
+        headerHtml: '<header>Buster Sanford</header>',
+        footerHtml: '<footer><span class="pageNumber"></span></footer>',
+      },
+    })
+
+    expect(gotenberg.isDone()).toBe(true)
+  })
+
+  it('rejects when Gotenberg cannot convert the HTML', async () => {
+    nock(config.url).post('/forms/chromium/convert/html').reply(503, 'Service unavailable')
+
+    const render = new GotenbergClient(config).renderPdfFromHtml({ html: '<html></html>' })
+
+    await expect(render).rejects.toMatchObject({ responseStatus: 503 })
+  })
 })
@@ -1,6 +1,7 @@
 import { RestClient, SanitisedError, type ApiConfig } from '@ministryofjustice/hmpps-rest-client'
 import type superagent from 'superagent'
 import logger from '../../logger'
+import type { PdfDocument } from '../services/pdf-renderers/pdfRenderer'
 
 export type GotenbergConfig = ApiConfig & {
   renderUrl: string
@@ -9,6 +10,13 @@ export type GotenbergConfig = ApiConfig & {
 export type PdfRenderRequest = {
   path: string
   sessionCookie: string
+  document?: PdfDocument
+  requestId?: string
+}
+
+export type HtmlPdfRenderRequest = {
+  html: string
+  document?: PdfDocument
   requestId?: string
 }
 
@@ -32,6 +40,47 @@ const sanitiseError = (error: unknown): SanitisedError => {
 }
 
 const CONVERT_URL_PATH = '/forms/chromium/convert/url'
+const CONVERT_HTML_PATH = '/forms/chromium/convert/html'
+
+/**
+ * PDF/A-2b is the archivable standard Gotenberg can convert to. Alongside PDF/UA, Chromium is
+ * asked for a tagged PDF with an outline from the page's headings, so it can be navigated with
+ * a screen reader.
+ */
+const PDF_A_STANDARD = 'PDF/A-2b'
+
+/** Room for the running header and footer, which are printed in the page margins */
+const HEADER_FOOTER_MARGIN = '20mm'
+
+const withDocumentOptions = (
+  request: superagent.SuperAgentRequest,
+  document: PdfDocument | undefined,
+): superagent.SuperAgentRequest => {
+  request
+    .field('printBackground', true)
+    .field('generateTaggedPdf', true)
+    .field('generateDocumentOutline', true)
+    .field('pdfa', PDF_A_STANDARD)
+    .field('pdfua', true)
+
+  if (!document) {
+    return request
+  }
+
+  return request
+    .field('metadata', JSON.stringify({ Title: document.title, Language: document.language }))
+    .field('marginTop', HEADER_FOOTER_MARGIN)
+    .field('marginBottom', HEADER_FOOTER_MARGIN)
+    .attach('files', Buffer.from(document.headerHtml), 'header.html')
+    .attach('files', Buffer.from(document.footerHtml), 'footer.html')
+}
+
+/**
+ * Gotenberg loads the page's stylesheets, scripts and images itself, so relative URLs are
+ * resolved against the render origin. Static resources don't need a session.
+ */
+const withBaseUrl = (html: string, baseUrl: string): string =>
+  html.replace(/<head(\s[^>]*)?>/i, head => `${head}<base href="${baseUrl}">`)
 
 /**
  * Header sent by Gotenberg's headless Chromium when it loads a page to turn into a PDF.
@@ -50,7 +99,7 @@ export default class GotenbergClient extends RestClient {
     super('Gotenberg API', gotenbergConfig, logger)
   }
 
-  async renderPdfFromUrl({ path, sessionCookie, requestId }: PdfRenderRequest): Promise<Buffer> {
+  async renderPdfFromUrl({ path, sessionCookie, document, requestId }: PdfRenderRequest): Promise<Buffer> {
     const renderUrl = new URL(path, this.gotenbergConfig.renderUrl)
     const headerScope = `^${escapeRegularExpression(renderUrl.origin)}/`
 
@@ -60,19 +109,21 @@ export default class GotenbergClient extends RestClient {
       // RestClient 1.0 supports undefined for unauthenticated calls at runtime,
       // although its public type does not yet include undefined.
       return await this.makeRestClientCall<Buffer>(undefined as never, async ({ superagent: client, agent }) => {
-        const request = client
-          .post(`${this.gotenbergConfig.url}${CONVERT_URL_PATH}`)
-          .agent(agent)
-          .field('url', renderUrl.toString())
-          .field(
-            'extraHttpHeaders',
-            JSON.stringify({
-              Cookie: `${sessionCookie};scope=${headerScope}`,
-              [GOTENBERG_RENDER_HEADER]: `${GOTENBERG_RENDER_HEADER_VALUE};scope=${headerScope}`,
-            }),
-          )
-          .field('skipNetworkIdleEvent', false)
-          .field('printBackground', true)
+        const request = withDocumentOptions(
+          client
+            .post(`${this.gotenbergConfig.url}${CONVERT_URL_PATH}`)
+            .agent(agent)
+            .field('url', renderUrl.toString())
+            .field(
+              'extraHttpHeaders',
+              JSON.stringify({
+                Cookie: `${sessionCookie};scope=${headerScope}`,
+                [GOTENBERG_RENDER_HEADER]: `${GOTENBERG_RENDER_HEADER_VALUE};scope=${headerScope}`,
+              }),
+            )
+            .field('skipNetworkIdleEvent', false),
+          document,
+        )
           .buffer(true)
           .responseType('blob')
           .timeout(this.gotenbergConfig.timeout)
@@ -88,4 +139,38 @@ export default class GotenbergClient extends RestClient {
       return this.handleError<Buffer, unknown>(CONVERT_URL_PATH, 'POST', sanitiseError(error))
     }
   }
+
+  async renderPdfFromHtml({ html, document, requestId }: HtmlPdfRenderRequest): Promise<Buffer> {
+    const baseUrl = new URL('/', this.gotenbergConfig.renderUrl).toString()
+
+    this.logger.info(`${this.name} POST: ${CONVERT_HTML_PATH}`)
+
+    try {
+      // RestClient 1.0 supports undefined for unauthenticated calls at runtime,
+      // although its public type does not yet include undefined.
+      return await this.makeRestClientCall<Buffer>(undefined as never, async ({ superagent: client, agent }) => {
+        const request = withDocumentOptions(
+          client
+            .post(`${this.gotenbergConfig.url}${CONVERT_HTML_PATH}`)
+            .agent(agent)
+            // Gotenberg converts the file named index.html
+            .attach('files', Buffer.from(withBaseUrl(html, baseUrl)), 'index.html')
+            .field('skipNetworkIdleEvent', false),
+          document,
+        )
+          .buffer(true)
+          .responseType('blob')
+          .timeout(this.gotenbergConfig.timeout)
+
+        if (requestId) {
+          request.set('Gotenberg-Trace', requestId)
+        }
+
+        const response = await request
+        return response.body
+      })
+    } catch (error) {
+      return this.handleError<Buffer, unknown>(CONVERT_HTML_PATH, 'POST', sanitiseError(error))
+    }
+  }
 }
@@ -12,6 +12,8 @@ import CoordinatorApiClient from './coordinatorApiClient'
 import ArnsApiClient from './arnsApiClient'
 import AssessmentCacheStore from './assessmentCacheStore'
 import PreferencesStore from './preferencesStore'
+import DomainEventOutboxStore from './domainEventOutboxStore'
+import AccessLogStore from './accessLogStore'
 import GotenbergClient from './gotenbergClient'
 
 const applicationInfo = applicationInfoSupplier()
@@ -44,6 +46,8 @@ export const dataAccess = () => {
     gotenbergClient: new GotenbergClient(config.apis.gotenberg),
     assessmentCacheStore,
     preferencesStore: new PreferencesStore(),
+    domainEventOutboxStore: config.redis.enabled ? new DomainEventOutboxStore() : undefined,
+    accessLogStore: config.redis.enabled ? new AccessLogStore(config.accessLog) : undefined,
   }
 }
 
@@ -59,5 +63,7 @@ export {
   ArnsApiClient,
   GotenbergClient,
   PreferencesStore,
+  DomainEventOutboxStore,
+  AccessLogStore,
   MPoPComponents,
 }
@@ -0,0 +1,29 @@
+/**
+ * Error thrown when a command batch is rejected by the optimistic concurrency check,
+ * because the assessment has changed since the version the commands were built from.
+ *
+ * Unlike CommandError this is not a failure of the commands themselves, so callers
+ * should offer the user the latest version rather than treating it as a server error.
+ *
+ * @example
+ * try {
+ *   await deps.api.executeCommandsAtVersion(expectedVersion, { type: 'AddCollectionItemCommand', ... })
+ * } catch (error) {
+ *   if (error instanceof CommandConflictError) {
+ *     // Someone else has saved in the meantime
+ *     logger.info({ expectedVersion: error.expectedVersion, currentVersion: error.currentVersion })
+ *   }
+ *   throw error
+ * }
+ */
+export class CommandConflictError extends Error {
+  readonly name = 'CommandConflictError'
+
+  constructor(
+    public readonly commandTypes: string[],
+    public readonly expectedVersion: string,
+    public readonly currentVersion?: string,
+  ) {
+    super(`${commandTypes.join(', ')} rejected: assessment has changed since version ${expectedVersion}`)
+  }
+}
@@ -16,7 +16,7 @@ import { CommandResults } from '../../interfaces/aap-api/commandResult'
  * }
  */
 export class CommandError extends Error {
-  readonly name = 'CommandError'
+  readonly name: string = 'CommandError'
 
   constructor(
     public readonly commandType: string,
@@ -0,0 +1,24 @@
+import { CommandResults } from '../../interfaces/aap-api/commandResult'
+import { CommandError } from './CommandError'
+import { ResponseValidationIssue } from '../../interfaces/aap-api/responseValidation'
+
+/**
+ * Error thrown when a command response doesn't match the shape the UI expects.
+ * `path` points at the first field that failed, `issues` lists every failure.
+ *
+ * Only thrown when `AAP_API_ENFORCE_RESPONSE_VALIDATION` is enabled, otherwise it is logged and the response used as is.
+ */
+export class CommandValidationError extends CommandError {
+  readonly name: string = 'CommandValidationError'
+
+  constructor(
+    commandType: string,
+    result: CommandResults | undefined,
+    resultIndex: number | undefined,
+    public readonly path: string,
+    public readonly issues: ResponseValidationIssue[],
+  ) {
+    super(commandType, result, resultIndex)
+    this.message = `${commandType} returned an invalid response at ${path}: ${issues[0]?.message}`
+  }
+}
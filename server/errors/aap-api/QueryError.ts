@@ -16,7 +16,7 @@ import { QueryResults } from '../../interfaces/aap-api/queryResult'
  * }
  */
 export class QueryError extends Error {
-  readonly name = 'QueryError'
+  readonly name: string = 'QueryError'
 
   constructor(
     public readonly queryType: string,
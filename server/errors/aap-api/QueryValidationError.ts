@@ -0,0 +1,24 @@
+import { QueryResults } from '../../interfaces/aap-api/queryResult'
+import { QueryError } from './QueryError'
+import { ResponseValidationIssue } from '../../interfaces/aap-api/responseValidation'
+
+/**
+ * Error thrown when a query response doesn't match the shape the UI expects.
+ * `path` points at the first field that failed, `issues` lists every failure.
+ *
+ * Only thrown when `AAP_API_ENFORCE_RESPONSE_VALIDATION` is enabled, otherwise it is logged and the response used as is.
+ */
+export class QueryValidationError extends QueryError {
+  readonly name: string = 'QueryValidationError'
+
+  constructor(
+    queryType: string,
+    result: QueryResults | undefined,
+    resultIndex: number | undefined,
+    public readonly path: string,
+    public readonly issues: ResponseValidationIssue[],
+  ) {
+    super(queryType, result, resultIndex)
+    this.message = `${queryType} returned an invalid response at ${path}: ${issues[0]?.message}`
+  }
+}
@@ -0,0 +1,28 @@
+import { BadRequest, InternalServerError } from 'http-errors'
+import { AccessContext } from '../types'
+import { getTargetService } from '../../registry'
+
+/**
+ * Check the session has what the target service needs before redirecting to it.
+ *
+ * Must be called after the case, practitioner and access details have been set,
+ * so a service isn't entered with a session it can't use.
+ */
+export const checkTargetServiceSession = () => (context: AccessContext) => {
+  const session = context.getSession()
+  const targetService = getTargetService(session.targetService)
+
+  if (!targetService) {
+    throw new BadRequest(`Unknown target service: ${session.targetService}`)
+  }
+
+  const missingFields = targetService.requiredSession.filter(field => !session[field])
+
+  if (missingFields.length) {
+    throw new InternalServerError(`${targetService.name} needs ${missingFields.join(', ')} in the session`)
+  }
+
+  if (!targetService.resolvePlanIdentifier(session)) {
+    throw new InternalServerError(`Cannot determine which plan to open in ${targetService.name}`)
+  }
+}
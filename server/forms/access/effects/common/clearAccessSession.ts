@@ -5,7 +5,8 @@ import { AccessContext } from '../types'
  *
  * This ensures that when a user switches between access routes (e.g., from
  * Handover/OASys to HMPPS Auth), stale session data from the previous
- * route is not carried over.
+ * route is not carried over. Case contexts saved by earlier accesses are kept,
+ * so other tabs can carry on with their own case.
  */
 export const clearAccessSession = () => (context: AccessContext) => {
   const session = context.getSession()
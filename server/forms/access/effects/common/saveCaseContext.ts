@@ -0,0 +1,16 @@
+import { AccessContext } from '../types'
+import { saveCaseContext as saveCaseContextInSession, toCaseContextPath } from '../../../shared/caseContext'
+
+/**
+ * Keep the case just set up in session under a new case context ID, and put the ID in the
+ * path redirected to.
+ *
+ * Runs last, once the case, practitioner and access details are in the session. Target
+ * services carry the ID in their paths, so a tab keeps working on its own case after the
+ * user opens another case in a different tab.
+ */
+export const saveCaseContext = () => (context: AccessContext) => {
+  const caseContextId = saveCaseContextInSession(context.getSession())
+
+  context.setData('redirectPath', toCaseContextPath(context.getData('redirectPath') as string, caseContextId))
+}
@@ -8,6 +8,8 @@ import { setPractitionerDetailsFromAuth } from './crn/setPractitionerDetailsFrom
 import { setAccessDetailsForCrn } from './crn/setAccessDetailsForCrn'
 import { clearAccessSession } from './common/clearAccessSession'
 import { setTargetServiceAndRedirect } from './common/setTargetServiceAndRedirect'
+import { checkTargetServiceSession } from './common/checkTargetServiceSession'
+import { saveCaseContext } from './common/saveCaseContext'
 import { AccessEffectsDeps } from './types'
 
 export const accessEffectRegistry = new EffectRegistry<AccessEffectsDeps>()
@@ -27,4 +29,6 @@ export const AccessEffects = {
   setCaseDetailsFromCrn: accessEffectRegistry.register(setCaseDetailsFromCrn),
   setPractitionerDetailsFromAuth: accessEffectRegistry.register(setPractitionerDetailsFromAuth),
   setAccessDetailsForCrn: accessEffectRegistry.register(setAccessDetailsForCrn),
+  checkTargetServiceSession: accessEffectRegistry.register(checkTargetServiceSession),
+  saveCaseContext: accessEffectRegistry.register(saveCaseContext),
 }
@@ -5,6 +5,7 @@ import { CaseDetails } from '../../../interfaces/delius-api/caseDetails'
 import { PractitionerDetails } from '../../../interfaces/practitionerDetails'
 import { AccessMode } from '../../../interfaces/handover-api/shared'
 import { AuthSource } from '../../../interfaces/hmppsUser'
+import { CaseContext } from '../../../interfaces/caseContext'
 
 /**
  * Generic session details for access flows.
@@ -26,6 +27,8 @@ export interface AccessSession {
   practitionerDetails?: PractitionerDetails
   accessDetails?: AccessSessionDetails
   targetService?: string
+  caseContextId?: string
+  caseContexts?: Record<string, CaseContext>
 }
 
 /**
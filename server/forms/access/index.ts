@@ -3,6 +3,7 @@ import { accessEffectRegistry } from './effects'
 import { AccessEffectsDeps } from './effects/types'
 import { oasysAccessStep } from './steps/oasys-access/step'
 import { crnAccessStep } from './steps/crn-access/step'
+import type { FormAccessPolicy } from '../shared'
 
 /**
  * Access Form Journey
@@ -20,13 +21,13 @@ import { crnAccessStep } from './steps/crn-access/step'
  * // OASys flow to Sentence Plan
  * /access/sentence-plan/oasys
  *   → Loads handover context
- *   → Redirects to /sentence-plan/v1.0/plan/overview
+ *   → Redirects to /sentence-plan/case/:caseContextId/
  *
  * @example
  * // CRN flow to Sentence Plan
  * /access/sentence-plan/crn/X123456
  *   → Loads case details from Delius
- *   → Redirects to /sentence-plan/v1.0/plan/overview
+ *   → Redirects to /sentence-plan/case/:caseContextId/
  */
 const accessJourney = journey({
   code: 'access',
@@ -35,6 +36,16 @@ const accessJourney = journey({
   steps: [oasysAccessStep, crnAccessStep],
 })
 
+/**
+ * OASys users come through the handover, and everyone else signs in with HMPPS Auth.
+ * Access to each case is checked against Delius by authorisationMiddleware.
+ */
+export const accessPolicy: FormAccessPolicy = {
+  path: '/access',
+  enabled: true,
+  authSources: ['OASYS', 'HMPPS_AUTH'],
+}
+
 /**
  * Access Form Package
  *
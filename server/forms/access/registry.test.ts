@@ -0,0 +1,93 @@
+import { getOasysAccessPath, getTargetService, registerTargetService, TargetService, targetServices } from './registry'
+import type { AccessSession } from './effects/types'
+import { CaseDetails } from '../../interfaces/delius-api/caseDetails'
+import { HandoverContext } from '../../interfaces/handover-api/response'
+
+const tieringAssessment: TargetService = {
+  name: 'Tiering Assessment',
+  entryPath: '/tiering-assessment',
+  requiredSession: ['caseDetails'],
+  resolvePlanIdentifier: session => ({
+    type: 'EXTERNAL',
+    identifier: session.caseDetails.crn,
+    identifierType: 'CRN',
+    assessmentType: 'TIERING_ASSESSMENT',
+  }),
+}
+
+describe('access target service registry', () => {
+  afterEach(() => {
+    delete targetServices['tiering-assessment']
+  })
+
+  describe('sentence plan', () => {
+    const sentencePlan = getTargetService('sentence-plan')
+
+    it('should open the plan handed over from OASys', () => {
+      // Arrange
+      const session: AccessSession = {
+        accessDetails: { accessType: 'OASYS', planAccessMode: 'READ_WRITE' },
+        caseDetails: { crn: 'X123456' } as CaseDetails,
+        handoverContext: { sentencePlanContext: { planId: 'plan-uuid' } } as HandoverContext,
+      }
+
+      // Act
+      const result = sentencePlan.resolvePlanIdentifier(session)
+
+      // Assert
+      expect(result).toEqual({ type: 'UUID', uuid: 'plan-uuid' })
+    })
+
+    it('should find the plan by CRN otherwise', () => {
+      // Arrange
+      const session: AccessSession = {
+        accessDetails: { accessType: 'HMPPS_AUTH', planAccessMode: 'READ_WRITE' },
+        caseDetails: { crn: 'X123456' } as CaseDetails,
+      }
+
+      // Act
+      const result = sentencePlan.resolvePlanIdentifier(session)
+
+      // Assert
+      expect(result).toEqual({
+        type: 'EXTERNAL',
+        identifier: 'X123456',
+        identifierType: 'CRN',
+        assessmentType: 'SENTENCE_PLAN',
+      })
+    })
+
+    it('should not resolve a plan without a plan ID or CRN', () => {
+      // Act
+      const result = sentencePlan.resolvePlanIdentifier({})
+
+      // Assert
+      expect(result).toBeUndefined()
+    })
+  })
+
+  describe('registerTargetService()', () => {
+    it('should make a further service available to the access form and handover', () => {
+      // Act
+      registerTargetService('tiering-assessment', tieringAssessment)
+
+      // Assert
+      expect(getTargetService('tiering-assessment')).toBe(tieringAssessment)
+      expect(getOasysAccessPath('tiering-assessment')).toBe('/access/tiering-assessment/oasys')
+    })
+
+    it('should not replace a service that is already registered', () => {
+      // Act & Assert
+      expect(() => registerTargetService('sentence-plan', tieringAssessment)).toThrow(
+        'Target service already registered: sentence-plan',
+      )
+    })
+  })
+
+  describe('getOasysAccessPath()', () => {
+    it('should not give a path for a service that is not registered', () => {
+      expect(getOasysAccessPath('unknown')).toBeUndefined()
+      expect(getOasysAccessPath('constructor')).toBeUndefined()
+    })
+  })
+})
@@ -1,3 +1,11 @@
+import type { AccessSession } from './effects/types'
+import { AssessmentIdentifiers, IdentifierType } from '../../interfaces/aap-api/identifier'
+
+/**
+ * Session fields the access journey can set for a target service.
+ */
+export type AccessSessionField = Exclude<keyof AccessSession, 'targetService' | 'caseContextId' | 'caseContexts'>
+
 /**
  * Target service configuration for access form.
  *
@@ -9,12 +17,41 @@ export interface TargetService {
   name: string
   /** Path to redirect to after access setup completes */
   entryPath: string
+  /** Session fields the service needs, checked before redirecting to it */
+  requiredSession: AccessSessionField[]
+  /**
+   * Which plan or assessment to open for the case in the session.
+   * Returns undefined if the session doesn't say.
+   */
+  resolvePlanIdentifier: (session: AccessSession) => AssessmentIdentifiers | undefined
+}
+
+/**
+ * Sentence Plan opens the plan OASys handed over, or finds the plan by CRN.
+ */
+const resolveSentencePlanIdentifier = (session: AccessSession): AssessmentIdentifiers | undefined => {
+  const planId = session.handoverContext?.sentencePlanContext?.planId
+
+  if (session.accessDetails?.accessType === 'OASYS' && planId) {
+    return { type: 'UUID', uuid: planId }
+  }
+
+  if (session.caseDetails?.crn) {
+    return {
+      type: 'EXTERNAL',
+      identifier: session.caseDetails.crn,
+      identifierType: IdentifierType.CRN,
+      assessmentType: 'SENTENCE_PLAN',
+    }
+  }
+
+  return undefined
 }
 
 /**
  * Registry of target services accessible via the access form.
  *
- * Add new services here to enable access via:
+ * Add new services here, or with registerTargetService, to enable access via:
  * - /access/{service}/oasys (OASys handover flow)
  * - /access/{service}/crn/:crn (Direct CRN access)
  */
@@ -22,13 +59,35 @@ export const targetServices: Record<string, TargetService> = {
   'sentence-plan': {
     name: 'Sentence Plan',
     entryPath: '/sentence-plan',
+    requiredSession: ['caseDetails', 'practitionerDetails', 'accessDetails'],
+    resolvePlanIdentifier: resolveSentencePlanIdentifier,
   },
 }
 
+/**
+ * Register a further target service, e.g. from the form package that hosts it.
+ * Throws if the service key is already taken.
+ */
+export function registerTargetService(serviceKey: string, targetService: TargetService): void {
+  if (targetServices[serviceKey]) {
+    throw new Error(`Target service already registered: ${serviceKey}`)
+  }
+
+  targetServices[serviceKey] = targetService
+}
+
 /**
  * Get target service configuration by service key.
  * Returns undefined if service is not registered.
  */
 export function getTargetService(serviceKey: string): TargetService | undefined {
-  return targetServices[serviceKey]
+  return Object.hasOwn(targetServices, serviceKey) ? targetServices[serviceKey] : undefined
+}
+
+/**
+ * Path to start the OASys flow for a service once the handover sign-in is done.
+ * Returns undefined if service is not registered.
+ */
+export function getOasysAccessPath(serviceKey: string): string | undefined {
+  return getTargetService(serviceKey) ? `/access/${serviceKey}/oasys` : undefined
 }
@@ -11,7 +11,9 @@ import { AccessEffects } from '../../effects'
  * 2. Load case details from Delius by CRN
  * 3. Set practitioner details from HMPPS auth
  * 4. Set access details for CRN-based access
- * 5. Redirect to target service entry point
+ * 5. Check the session has what the target service needs
+ * 6. Keep the case under a new case context ID
+ * 7. Redirect to target service entry point
  */
 export const crnAccessStep = step({
   path: '/:service/crn/:crn',
@@ -25,6 +27,8 @@ export const crnAccessStep = step({
         AccessEffects.setCaseDetailsFromCrn(),
         AccessEffects.setPractitionerDetailsFromAuth(),
         AccessEffects.setAccessDetailsForCrn(),
+        AccessEffects.checkTargetServiceSession(),
+        AccessEffects.saveCaseContext(),
       ],
       next: [redirect({ goto: Data('redirectPath') })],
     }),
@@ -10,7 +10,9 @@ import { AccessEffects } from '../../effects'
  * 1. Validate target service and set redirect path
  * 2. Load handover context from API
  * 3. Extract case details, practitioner details, and access details
- * 4. Redirect to target service entry point
+ * 4. Check the session has what the target service needs
+ * 5. Keep the case under a new case context ID
+ * 6. Redirect to target service entry point
  */
 export const oasysAccessStep = step({
   path: '/:service/oasys',
@@ -25,6 +27,8 @@ export const oasysAccessStep = step({
         AccessEffects.setCaseDetailsFromHandoverContext(),
         AccessEffects.setPractitionerDetailsFromHandoverContext(),
         AccessEffects.setAccessDetailsFromHandoverContext(),
+        AccessEffects.checkTargetServiceSession(),
+        AccessEffects.saveCaseContext(),
       ],
       next: [redirect({ goto: Data('redirectPath') })],
     }),
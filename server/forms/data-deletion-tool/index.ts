@@ -1,17 +1,28 @@
 import { createForgePackage } from '@ministryofjustice/hmpps-forge/core/authoring'
 import { DataDeletionToolEffectsDeps } from './effects/types'
 import config from '../../config'
+import type { FormAccessPolicy } from '../shared'
 import { dataDeletionToolJourney } from './form'
 import { dataDeletionToolComponents } from './components'
 import { dataDeletionToolEffectRegistry } from './effects'
 import { dataDeletionToolTransformerRegistry } from './transformers'
 import { dataDeletionToolConditionRegistry } from './conditions'
 
+/**
+ * Admins only, signed in with HMPPS Auth.
+ */
+export const accessPolicy: FormAccessPolicy = {
+  path: '/data-deletion-tool',
+  enabled: config.forms.dataDeletionTool.enabled ?? false,
+  roles: config.forms.dataDeletionTool.roles,
+  authSources: ['HMPPS_AUTH'],
+}
+
 /**
  * Root Data Deletion Tool Form Package
  */
 export default createForgePackage<DataDeletionToolEffectsDeps>({
-  enabled: config.forms.dataDeletionTool.enabled ?? false,
+  enabled: accessPolicy.enabled,
   journey: dataDeletionToolJourney,
   components: dataDeletionToolComponents,
   functions: [dataDeletionToolEffectRegistry, dataDeletionToolTransformerRegistry, dataDeletionToolConditionRegistry],
@@ -2,6 +2,7 @@ import { createForgePackage, journey } from '@ministryofjustice/hmpps-forge/core
 import { accessibilityStep } from './steps/accessibility/step'
 import { cookiesPolicyStep } from './steps/cookies-policy/step'
 import { privacyPolicyStep } from './steps/privacy-policy/step'
+import type { FormAccessPolicy } from '../shared'
 
 const platformPoliciesJourney = journey({
   code: 'platform-policies',
@@ -11,6 +12,15 @@ const platformPoliciesJourney = journey({
   steps: [accessibilityStep, cookiesPolicyStep, privacyPolicyStep],
 })
 
+/**
+ * Policy pages are for anyone, signed in or not.
+ */
+export const accessPolicy: FormAccessPolicy = {
+  path: '/platform',
+  enabled: true,
+  public: true,
+}
+
 export default createForgePackage({
   journey: platformPoliciesJourney,
 })
@@ -0,0 +1,71 @@
+import nunjucks from 'nunjucks'
+import { StructureType } from '@ministryofjustice/hmpps-forge/core/authoring'
+import { EvaluatedBlock } from '@ministryofjustice/hmpps-forge/core/components'
+import { EasyReadGoalCard } from './easyReadGoalCard'
+
+const nunjucksEnv = nunjucks.configure(
+  ['server/views', 'server/forms', 'node_modules/govuk-frontend/dist/', 'node_modules/@ministryofjustice/frontend/'],
+  { autoescape: true },
+)
+
+describe('easy read goal card', () => {
+  const goal = {
+    type: StructureType.BLOCK,
+    variant: 'easyReadGoalCard',
+    goalTitle: 'I will find somewhere suitable to live',
+    targetDate: '20 December 2026',
+    steps: [
+      {
+        actor: 'probation_practitioner',
+        actorLabel: 'Probation practitioner',
+        description: 'Find accommodation advice',
+        status: 'COMPLETED',
+      },
+      {
+        actor: 'person_on_probation',
+        actorLabel: 'Joan',
+        description: 'Follow the approved premises rules',
+        status: 'IN_PROGRESS',
+      },
+      {
+        actor: 'person_on_probation',
+        actorLabel: 'Joan',
+        description: 'Go to the housing appointment',
+        status: 'CANNOT_BE_DONE_YET',
+      },
+      {
+        actor: 'probation_practitioner',
+        actorLabel: 'Probation practitioner',
+        description: 'Call the old landlord',
+        status: 'NO_LONGER_NEEDED',
+      },
+    ],
+  } as EvaluatedBlock<EasyReadGoalCard>
+
+  it('groups the steps by who does them, the person first', async () => {
+    const html = await EasyReadGoalCard.render(goal, nunjucksEnv)
+
+    expect(html).toContain('data-qa="goal-title">I will find somewhere suitable to live</h3>')
+    expect(html).toContain('I want to do this by 20 December 2026.')
+    expect(html.indexOf('Joan will:')).toBeLessThan(html.indexOf('Probation practitioner will:'))
+    expect(html.indexOf('Go to the housing appointment')).toBeLessThan(html.indexOf('Probation practitioner will:'))
+  })
+
+  it('describes step statuses in plain words and leaves out steps no longer needed', async () => {
+    const html = await EasyReadGoalCard.render(goal, nunjucksEnv)
+
+    expect(html).toContain('<span class="easy-read-goal-card__step-status">Done</span>')
+    expect(html).toContain('<span class="easy-read-goal-card__step-status">Started</span>')
+    expect(html).toContain('<span class="easy-read-goal-card__step-status">Not started yet</span>')
+    expect(html).not.toContain('CANNOT_BE_DONE_YET')
+    expect(html).not.toContain('IN_PROGRESS')
+    expect(html).not.toContain('Call the old landlord')
+  })
+
+  it('says when a goal has no steps yet', async () => {
+    const html = await EasyReadGoalCard.render({ ...goal, steps: [] }, nunjucksEnv)
+
+    expect(html).toContain('There are no steps for this goal yet.')
+    expect(html).not.toContain('will:')
+  })
+})
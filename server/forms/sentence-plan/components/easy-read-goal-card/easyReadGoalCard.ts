@@ -0,0 +1,74 @@
+import { nunjucksComponent } from '@ministryofjustice/hmpps-forge/express-nunjucks'
+import {
+  BlockDefinition,
+  ResolvableArray,
+  ResolvableString,
+  ResolvedPropsOf,
+} from '@ministryofjustice/hmpps-forge/core/components'
+
+interface EasyReadGoalStep {
+  /** Who does the step, e.g. person_on_probation */
+  actor: ResolvableString
+  /** Who does the step, in words: the person's forename or an actorLabels label */
+  actorLabel: ResolvableString
+  description: ResolvableString
+  status: ResolvableString
+}
+
+export interface EasyReadGoalCard extends BlockDefinition {
+  goalTitle: ResolvableString
+  targetDate?: ResolvableString
+  steps?: ResolvableArray<EasyReadGoalStep>
+}
+
+/**
+ * Step statuses in plain words. Steps that are no longer needed are left out, and any
+ * other status reads as not started.
+ */
+const stepStatusText: Record<string, string> = {
+  COMPLETED: 'Done',
+  IN_PROGRESS: 'Started',
+}
+
+const NOT_STARTED_TEXT = 'Not started yet'
+
+/**
+ * Steps grouped by who does them, the person's own steps first.
+ */
+function groupStepsByActor(steps: EasyReadGoalStep[]) {
+  const groups = new Map<string, { actorLabel: string; steps: { description: string; statusText: string }[] }>()
+
+  steps
+    .filter(step => step.status !== 'NO_LONGER_NEEDED')
+    .forEach(step => {
+      const actor = step.actor as string
+      const group = groups.get(actor) ?? { actorLabel: step.actorLabel as string, steps: [] }
+
+      group.steps.push({
+        description: step.description as string,
+        statusText: stepStatusText[step.status as string] ?? NOT_STARTED_TEXT,
+      })
+      groups.set(actor, group)
+    })
+
+  const isPersonOnProbation = (actor: string) => actor === 'person_on_probation'
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => Number(isPersonOnProbation(b)) - Number(isPersonOnProbation(a)))
+    .map(([, group]) => group)
+}
+
+function buildParams(props: ResolvedPropsOf<EasyReadGoalCard>) {
+  return {
+    goalTitle: props.goalTitle,
+    targetDate: props.targetDate,
+    stepGroups: groupStepsByActor((props.steps ?? []) as EasyReadGoalStep[]),
+  }
+}
+
+export const EasyReadGoalCard = nunjucksComponent<EasyReadGoalCard>('easyReadGoalCard', {
+  render: (props, nunjucksEnv) =>
+    nunjucksEnv.render('sentence-plan/components/easy-read-goal-card/template.njk', {
+      params: buildParams(props),
+    }),
+})
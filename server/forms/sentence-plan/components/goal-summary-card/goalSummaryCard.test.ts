@@ -112,6 +112,29 @@ describe('goal summary card', () => {
     expect(html).toContain('1 of 1 step completed.')
   })
 
+  it('renders step target dates and tags overdue steps', async () => {
+    const html = await GoalSummaryCardAgreed.render(
+      {
+        ...baseBlock,
+        variant: 'goalSummaryCardAgreed',
+        steps: [
+          {
+            actor: 'John Smith',
+            description: 'Do the first thing',
+            status: 'IN_PROGRESS',
+            targetDate: '1 March 2025',
+            isOverdue: true,
+          },
+          { actor: 'John Smith', description: 'Do the second thing', status: 'NOT_STARTED', isOverdue: false },
+        ],
+      } as EvaluatedBlock<GoalSummaryCardAgreed>,
+      nunjucksEnv,
+    )
+
+    expect(html).toContain('Aim to complete by 1 March 2025')
+    expect(html.match(/Overdue/g)).toHaveLength(1)
+  })
+
   it('renders data-ai-id on an action link when dataAiId is set', async () => {
     const block = {
       ...baseBlock,
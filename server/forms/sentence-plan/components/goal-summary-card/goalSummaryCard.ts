@@ -17,6 +17,10 @@ export interface GoalStep {
   actor: ResolvableString
   description: ResolvableString
   status: ResolvableString
+  /** Date the step should be done by (formatted string) */
+  targetDate?: ResolvableString
+  /** Whether the step is past its target date and still to do */
+  isOverdue?: ResolvableBoolean
 }
 
 /**
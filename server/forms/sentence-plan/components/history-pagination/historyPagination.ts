@@ -0,0 +1,30 @@
+import { BlockDefinition, ResolvableString, ResolvedPropsOf } from '@ministryofjustice/hmpps-forge/core/components'
+import { nunjucksComponent } from '@ministryofjustice/hmpps-forge/express-nunjucks'
+
+/**
+ * History pagination component.
+ *
+ * Renders GOV.UK previous/next pagination for history pages. Either link is
+ * left out when it has no href, and nothing is rendered when both are missing.
+ */
+export interface HistoryPagination extends BlockDefinition {
+  previousHref?: ResolvableString
+  nextHref?: ResolvableString
+  landmarkLabel?: ResolvableString
+}
+
+function buildParams(props: ResolvedPropsOf<HistoryPagination>) {
+  return {
+    previous: props.previousHref ? { href: props.previousHref, labelText: 'Newer updates' } : undefined,
+    next: props.nextHref ? { href: props.nextHref, labelText: 'Older updates' } : undefined,
+    landmarkLabel: props.landmarkLabel ?? 'Pagination',
+  }
+}
+
+export const HistoryPagination = nunjucksComponent<HistoryPagination>('historyPagination', {
+  render: (props, nunjucksEnv) => {
+    const params = buildParams(props)
+
+    return nunjucksEnv.render('sentence-plan/components/history-pagination/pagination.njk', { params })
+  },
+})
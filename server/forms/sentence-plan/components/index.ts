@@ -1,11 +1,13 @@
 import { AccessibleAutocomplete } from './accessible-autocomplete/accessibleAutocomplete'
 import { AssessmentInfoDetails } from './assessment-info-details/assessmentInfoDetails'
 import { ButtonAsLink } from './button-as-link/buttonAsLink'
+import { EasyReadGoalCard } from './easy-read-goal-card/easyReadGoalCard'
 import {
   GoalSummaryCardAgreed,
   GoalSummaryCardDraft,
   GoalSummaryCardHistory,
 } from './goal-summary-card/goalSummaryCard'
+import { HistoryPagination } from './history-pagination/historyPagination'
 import { PreviousVersions } from './previous-versions/previousVersions'
 import { PrintGoalSummaryCard } from './print-goal-summary-card/printGoalSummaryCard'
 import { WrappingSelect } from './wrapping-select/wrappingSelect'
@@ -14,11 +16,13 @@ import { SupervisionPackage } from './supervision-package/supervisionPackage'
 export { AccessibleAutocomplete } from './accessible-autocomplete/accessibleAutocomplete'
 export { AssessmentInfoDetails } from './assessment-info-details/assessmentInfoDetails'
 export { ButtonAsLink } from './button-as-link/buttonAsLink'
+export { EasyReadGoalCard } from './easy-read-goal-card/easyReadGoalCard'
 export {
   GoalSummaryCardAgreed,
   GoalSummaryCardDraft,
   GoalSummaryCardHistory,
 } from './goal-summary-card/goalSummaryCard'
+export { HistoryPagination } from './history-pagination/historyPagination'
 export { WrappingSelect } from './wrapping-select/wrappingSelect'
 export { PrintGoalSummaryCard } from './print-goal-summary-card/printGoalSummaryCard'
 export { SupervisionPackage } from './supervision-package/supervisionPackage'
@@ -27,9 +31,11 @@ export const sentencePlanComponents = [
   AccessibleAutocomplete,
   AssessmentInfoDetails,
   ButtonAsLink,
+  EasyReadGoalCard,
   GoalSummaryCardDraft,
   GoalSummaryCardAgreed,
   GoalSummaryCardHistory,
+  HistoryPagination,
   PrintGoalSummaryCard,
   PreviousVersions,
   SupervisionPackage,
@@ -7,7 +7,6 @@ import {
 } from '@ministryofjustice/hmpps-forge/core/components'
 import { nunjucksComponent } from '@ministryofjustice/hmpps-forge/express-nunjucks'
 import { PreviousVersionsResponse } from '../../../../interfaces/coordinator-api/previousVersions'
-import config from '../../../../config'
 
 /**
  * Previous versions list component.
@@ -28,7 +27,6 @@ function buildParams(props: ResolvedPropsOf<PreviousVersions>) {
     personName: props.personName,
     versions: props.previousVersions,
     showAssessmentColumn: props.showAssessmentColumn ?? true,
-    sanUrl: config.sanUrl,
     tables: {
       allVersions: {
         tableHeading: 'All versions',
@@ -37,4 +37,40 @@ describe('print goal summary card', () => {
     expect(html).toContain('Area of need: accommodation')
     expect(html).toContain('Also relates to: thinking, behaviours and attitudes')
   })
+
+  describe('notes', () => {
+    const removedGoal = {
+      type: StructureType.BLOCK,
+      variant: 'printGoalSummaryCard',
+      goalTitle: 'Find somewhere suitable to live',
+      goalStatus: 'REMOVED',
+      statusDate: '1 December 2026',
+      areaOfNeed: 'Accommodation',
+      notes: [
+        { type: 'REMOVED', note: 'No longer relevant' },
+        { type: 'READDED', note: 'Relevant again' },
+      ],
+    } as EvaluatedBlock<PrintGoalSummaryCard>
+
+    it('shows why a goal was removed and the practitioner notes', async () => {
+      const html = await PrintGoalSummaryCard.render(removedGoal, nunjucksEnv)
+
+      expect(html).toContain('Removed on 1 December 2026.')
+      expect(html).toContain('data-qa="goal-removal-reason">No longer relevant</p>')
+      expect(html).toContain('<li>Relevant again</li>')
+      expect(html).not.toContain('<li>No longer relevant</li>')
+    })
+
+    it('leaves out the notes and removal reason when asked to', async () => {
+      const html = await PrintGoalSummaryCard.render(
+        { ...removedGoal, showNotes: false, showRemovalReason: false },
+        nunjucksEnv,
+      )
+
+      expect(html).toContain('Removed on 1 December 2026.')
+      expect(html).not.toContain('No longer relevant')
+      expect(html).not.toContain('Relevant again')
+      expect(html).not.toContain('data-qa="goal-notes"')
+    })
+  })
 })
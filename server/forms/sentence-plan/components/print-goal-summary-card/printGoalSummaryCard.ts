@@ -2,6 +2,7 @@ import { nunjucksComponent } from '@ministryofjustice/hmpps-forge/express-nunjuc
 import {
   BlockDefinition,
   ResolvableArray,
+  ResolvableBoolean,
   ResolvableString,
   ResolvedPropsOf,
 } from '@ministryofjustice/hmpps-forge/core/components'
@@ -10,6 +11,13 @@ interface PrintGoalStep {
   actor: ResolvableString
   description: ResolvableString
   status: ResolvableString
+  targetDate?: ResolvableString
+  isOverdue?: ResolvableBoolean
+}
+
+interface PrintGoalNote {
+  type: ResolvableString
+  note: ResolvableString
 }
 
 export interface PrintGoalSummaryCard extends BlockDefinition {
@@ -20,11 +28,18 @@ export interface PrintGoalSummaryCard extends BlockDefinition {
   areaOfNeed: ResolvableString
   relatedAreasOfNeed?: ResolvableArray<string>
   steps?: ResolvableArray<PrintGoalStep>
+  notes?: ResolvableArray<PrintGoalNote>
+  /** Show notes added when the goal was achieved or added back into the plan */
+  showNotes?: ResolvableBoolean
+  /** Show why a removed goal was removed */
+  showRemovalReason?: ResolvableBoolean
 }
 
 function buildParams(props: ResolvedPropsOf<PrintGoalSummaryCard>) {
   const steps = (props.steps ?? []) as PrintGoalStep[]
   const relatedAreasOfNeed = (props.relatedAreasOfNeed ?? []) as string[]
+  const notes = (props.notes ?? []) as PrintGoalNote[]
+  const removalNote = notes.find(note => note.type === 'REMOVED')
 
   return {
     goalTitle: props.goalTitle,
@@ -35,6 +50,8 @@ function buildParams(props: ResolvedPropsOf<PrintGoalSummaryCard>) {
     relatedAreasText: relatedAreasOfNeed.length ? [...relatedAreasOfNeed].sort().join('; ') : undefined,
     steps,
     completedCount: steps.filter(step => step.status === 'COMPLETED').length,
+    removalReason: props.goalStatus === 'REMOVED' && props.showRemovalReason !== false ? removalNote?.note : undefined,
+    notes: props.showNotes === false ? [] : notes.filter(note => note.type !== 'REMOVED'),
   }
 }
 
@@ -0,0 +1,27 @@
+import { deriveAccessLogPermission } from './deriveAccessLogPermission'
+import type { SentencePlanContext, SentencePlanEffectsDeps } from '../types'
+
+const createMockContext = (userRoles: string[]) =>
+  ({
+    getState: jest.fn((key: string) => (key === 'user' ? { id: 'test-user', userRoles } : undefined)),
+    setData: jest.fn(),
+  }) as unknown as SentencePlanContext
+
+const deps = { accessLogRoles: ['ARNS_ACCESS_LOG'] } as unknown as SentencePlanEffectsDeps
+
+describe('deriveAccessLogPermission', () => {
+  it.each([
+    [['PROBATION', 'ARNS_ACCESS_LOG'], true],
+    [['PROBATION'], false],
+    [[], false],
+  ])('should allow a user with roles %j: %s', async (userRoles, expected) => {
+    // Arrange
+    const context = createMockContext(userRoles)
+
+    // Act
+    await deriveAccessLogPermission(deps)(context)
+
+    // Assert
+    expect(context.setData).toHaveBeenCalledWith('canViewAccessLog', expected)
+  })
+})
@@ -0,0 +1,16 @@
+import { SentencePlanContext, SentencePlanEffectsDeps } from '../types'
+
+/**
+ * Work out whether the user can see the case's access log, from their roles.
+ *
+ * Sets:
+ * - Data('canViewAccessLog'): True when the user has one of the access log roles
+ */
+export const deriveAccessLogPermission = (deps: SentencePlanEffectsDeps) => async (context: SentencePlanContext) => {
+  const userRoles = context.getState('user')?.userRoles ?? []
+
+  context.setData(
+    'canViewAccessLog',
+    userRoles.some(role => deps.accessLogRoles.includes(role)),
+  )
+}
@@ -0,0 +1,60 @@
+import { loadAccessLog } from './loadAccessLog'
+import { AuditEvent } from '../../../../services/auditService'
+import type { SentencePlanContext, SentencePlanEffectsDeps } from '../types'
+
+jest.mock('../../../../../logger', () => ({ info: jest.fn(), error: jest.fn() }))
+
+const createMockContext = (crn: string | null = 'X123456') =>
+  ({
+    getSession: jest.fn(() => ({ caseDetails: crn ? { crn } : undefined })),
+    setData: jest.fn(),
+  }) as unknown as SentencePlanContext
+
+const createMockDeps = (findBySubject?: jest.Mock): SentencePlanEffectsDeps =>
+  ({
+    accessLogStore: findBySubject ? { findBySubject } : undefined,
+  }) as unknown as SentencePlanEffectsDeps
+
+describe('loadAccessLog', () => {
+  it('should load the access log for the CRN, labelling each activity', async () => {
+    // Arrange
+    const findBySubject = jest.fn().mockResolvedValue([
+      { action: AuditEvent.PRINT_ALL_GOALS, who: 'user-2', subjectId: 'X123456', when: '2026-07-30T11:00:00.000Z' },
+      { action: AuditEvent.VIEW_PLAN_OVERVIEW, who: 'user-1', subjectId: 'X123456', when: '2026-07-30T10:00:00.000Z' },
+    ])
+    const context = createMockContext()
+
+    // Act
+    await loadAccessLog(createMockDeps(findBySubject))(context)
+
+    // Assert
+    expect(findBySubject).toHaveBeenCalledWith('CRN', 'X123456', 200)
+    expect(context.setData).toHaveBeenCalledWith('accessLog', [
+      { when: '2026-07-30T11:00:00.000Z', who: 'user-2', action: 'Print all goals' },
+      { when: '2026-07-30T10:00:00.000Z', who: 'user-1', action: 'View plan overview' },
+    ])
+  })
+
+  it('should mark the access log as unavailable when it is not recorded', async () => {
+    // Arrange
+    const context = createMockContext()
+
+    // Act
+    await loadAccessLog(createMockDeps())(context)
+
+    // Assert
+    expect(context.setData).toHaveBeenCalledWith('accessLog', [])
+    expect(context.setData).toHaveBeenCalledWith('accessLogUnavailable', true)
+  })
+
+  it('should mark the access log as unavailable when it cannot be loaded', async () => {
+    // Arrange
+    const context = createMockContext()
+
+    // Act
+    await loadAccessLog(createMockDeps(jest.fn().mockRejectedValue(new Error('Redis unavailable'))))(context)
+
+    // Assert
+    expect(context.setData).toHaveBeenCalledWith('accessLogUnavailable', true)
+  })
+})
@@ -0,0 +1,44 @@
+import { AccessLogEntry, SentencePlanContext, SentencePlanEffectsDeps } from '../types'
+import logger from '../../../../../logger'
+
+const ACCESS_LOG_LIMIT = 200
+
+const toSentenceCase = (action: string) => {
+  const words = action.toLowerCase().replaceAll('_', ' ')
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+/**
+ * Load who has accessed the case, newest first, from the audit records kept for its CRN.
+ *
+ * Sets:
+ * - Data('accessLog'): Up to the last 200 audit records for the CRN
+ * - Data('accessLogUnavailable'): True when the records couldn't be loaded, or aren't kept
+ */
+export const loadAccessLog = (deps: SentencePlanEffectsDeps) => async (context: SentencePlanContext) => {
+  const crn = context.getSession()?.caseDetails?.crn
+
+  if (!deps.accessLogStore || !crn) {
+    context.setData('accessLog', [])
+    context.setData('accessLogUnavailable', true)
+    return
+  }
+
+  try {
+    const records = await deps.accessLogStore.findBySubject('CRN', crn, ACCESS_LOG_LIMIT)
+
+    context.setData(
+      'accessLog',
+      records.map((record): AccessLogEntry => ({
+        when: record.when,
+        who: record.who,
+        action: toSentenceCase(record.action),
+      })),
+    )
+  } catch (error) {
+    logger.error({ err: error }, 'Failed to load access log')
+
+    context.setData('accessLog', [])
+    context.setData('accessLogUnavailable', true)
+  }
+}
@@ -5,7 +5,8 @@ import { SentencePlanContext, SentencePlanEffectsDeps } from '../types'
  * Send an audit event via the existing AuditService.
  *
  * Extracts common context (user, CRN, assessmentUuid, correlationId) from the
- * form engine context and delegates to AuditService.send().
+ * form engine context and delegates to AuditService.send(). Throws for events
+ * configured to fail closed when they can't be sent, which blocks the action.
  */
 export const sendAuditEvent =
   (deps: SentencePlanEffectsDeps) =>
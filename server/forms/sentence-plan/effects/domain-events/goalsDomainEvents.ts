@@ -1,21 +1,13 @@
 import { DomainEvent } from '../../../../services/domainEventsService'
+import { buildSentencePlanDomainEvent } from './sentencePlanDomainEvents'
 
 interface GoalsEventParams {
   planUuid?: string
   crn: string
 }
 
-const buildGoalsEvent = (eventType: string, description: string, { planUuid, crn }: GoalsEventParams): DomainEvent => ({
-  eventType,
-  version: 1,
-  occurredAt: new Date().toISOString(),
-  description,
-  ...(planUuid ? { additionalInformation: { planUuid } } : {}),
-  personReference: { identifiers: [{ type: 'CRN', value: crn }] },
-})
+export const goalsCompletedEvent = ({ planUuid, crn }: GoalsEventParams): DomainEvent =>
+  buildSentencePlanDomainEvent('arns.sentence.plan.goals.completed', crn, { planUuid })
 
-export const goalsCompletedEvent = (params: GoalsEventParams): DomainEvent =>
-  buildGoalsEvent('arns.sentence.plan.goals.completed', 'No more open goals', params)
-
-export const goalsAddedEvent = (params: GoalsEventParams): DomainEvent =>
-  buildGoalsEvent('arns.sentence.plan.goals.added', 'There is an open goal', params)
+export const goalsAddedEvent = ({ planUuid, crn }: GoalsEventParams): DomainEvent =>
+  buildSentencePlanDomainEvent('arns.sentence.plan.goals.added', crn, { planUuid })
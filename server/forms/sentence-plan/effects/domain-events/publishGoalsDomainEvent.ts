@@ -3,6 +3,7 @@ import { DomainEvent } from '../../../../services/domainEventsService'
 import { POST_AGREEMENT_PROCESS_STATUSES, SentencePlanContext, SentencePlanEffectsDeps } from '../types'
 import { hasNoOtherOpenGoals } from './openGoals'
 import { goalsAddedEvent, goalsCompletedEvent } from './goalsDomainEvents'
+import { getDomainEventSubject } from './publishSentencePlanDomainEvent'
 
 type GoalsEventFactory = (params: { planUuid: string; crn: string }) => DomainEvent
 
@@ -28,15 +29,12 @@ const publishOnOpenGoalBoundary = async (
     return
   }
 
-  const crn = context.getSession().caseDetails?.crn
+  const { crn, planUuid } = getDomainEventSubject(context)
   if (!crn) {
     logger.error('Cannot publish goals domain event: missing crn')
     return
   }
 
-  const planIdentifier = context.getSession().sessionDetails?.planIdentifier
-  const planUuid = planIdentifier?.type === 'UUID' ? planIdentifier.uuid : undefined
-
   await deps.domainEventsService.publish(buildEvent({ planUuid, crn }))
 }
 
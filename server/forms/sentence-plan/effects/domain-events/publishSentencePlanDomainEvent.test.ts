@@ -0,0 +1,128 @@
+import {
+  publishGoalReaddedEvent,
+  publishGoalRemovedEvent,
+  publishPlanAgreementEvent,
+  publishStepsCompletedEvents,
+} from './publishSentencePlanDomainEvent'
+import { SentencePlanContext, SentencePlanEffectsDeps } from '../types'
+
+jest.mock('../../../../../logger', () => ({ info: jest.fn(), error: jest.fn() }))
+
+const createMockContext = (latestAgreementStatus = 'AGREED', crn: string | null = 'X123456'): SentencePlanContext =>
+  ({
+    getData: jest.fn((key: string) => (key === 'latestAgreementStatus' ? latestAgreementStatus : undefined)),
+    getSession: jest.fn(() => ({
+      caseDetails: crn ? { crn } : undefined,
+      sessionDetails: { planIdentifier: { type: 'UUID', uuid: 'plan-uuid-1' } },
+    })),
+  }) as unknown as SentencePlanContext
+
+const createMockDeps = (): SentencePlanEffectsDeps =>
+  ({ domainEventsService: { publish: jest.fn() } }) as unknown as SentencePlanEffectsDeps
+
+describe('publishSentencePlanDomainEvent', () => {
+  let deps: SentencePlanEffectsDeps
+
+  beforeEach(() => {
+    deps = createMockDeps()
+  })
+
+  describe('publishPlanAgreementEvent', () => {
+    it.each([
+      ['AGREED', 'arns.sentence.plan.agreed'],
+      ['DO_NOT_AGREE', 'arns.sentence.plan.disagreed'],
+      ['UPDATED_AGREED', 'arns.sentence.plan.agreement.updated'],
+      ['UPDATED_DO_NOT_AGREE', 'arns.sentence.plan.agreement.updated'],
+    ] as const)('should publish %s as %s', async (agreementStatus, eventType) => {
+      // Act
+      await publishPlanAgreementEvent(deps, createMockContext('DRAFT'), agreementStatus)
+
+      // Assert
+      expect(deps.domainEventsService.publish).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType,
+          additionalInformation: { planUuid: 'plan-uuid-1', agreementStatus },
+          personReference: { identifiers: [{ type: 'CRN', value: 'X123456' }] },
+        }),
+      )
+    })
+
+    it('should not publish when the person could not answer', async () => {
+      // Act
+      await publishPlanAgreementEvent(deps, createMockContext('DRAFT'), 'COULD_NOT_ANSWER')
+
+      // Assert
+      expect(deps.domainEventsService.publish).not.toHaveBeenCalled()
+    })
+
+    it('should not publish when the crn is missing', async () => {
+      // Act
+      await publishPlanAgreementEvent(deps, createMockContext('DRAFT', null), 'AGREED')
+
+      // Assert
+      expect(deps.domainEventsService.publish).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('publishGoalRemovedEvent', () => {
+    it('should publish the removed goal on an agreed plan', async () => {
+      // Act
+      await publishGoalRemovedEvent(deps, createMockContext(), 'goal-1')
+
+      // Assert
+      expect(deps.domainEventsService.publish).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: 'arns.sentence.plan.goal.removed',
+          additionalInformation: { planUuid: 'plan-uuid-1', goalUuid: 'goal-1' },
+        }),
+      )
+    })
+
+    it('should not publish when the plan is still DRAFT', async () => {
+      // Act
+      await publishGoalRemovedEvent(deps, createMockContext('DRAFT'), 'goal-1')
+
+      // Assert
+      expect(deps.domainEventsService.publish).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('publishGoalReaddedEvent', () => {
+    it('should publish the re-added goal with its new status', async () => {
+      // Act
+      await publishGoalReaddedEvent(deps, createMockContext('UPDATED_AGREED'), 'goal-1', 'FUTURE')
+
+      // Assert
+      expect(deps.domainEventsService.publish).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: 'arns.sentence.plan.goal.readded',
+          additionalInformation: { planUuid: 'plan-uuid-1', goalUuid: 'goal-1', goalStatus: 'FUTURE' },
+        }),
+      )
+    })
+  })
+
+  describe('publishStepsCompletedEvents', () => {
+    it('should publish one event per completed step', async () => {
+      // Act
+      await publishStepsCompletedEvents(deps, createMockContext(), 'goal-1', ['step-1', 'step-2'])
+
+      // Assert
+      expect(deps.domainEventsService.publish).toHaveBeenCalledTimes(2)
+      expect(deps.domainEventsService.publish).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: 'arns.sentence.plan.step.completed',
+          additionalInformation: { planUuid: 'plan-uuid-1', goalUuid: 'goal-1', stepUuid: 'step-2' },
+        }),
+      )
+    })
+
+    it('should not publish when the plan is still DRAFT', async () => {
+      // Act
+      await publishStepsCompletedEvents(deps, createMockContext('DRAFT'), 'goal-1', ['step-1'])
+
+      // Assert
+      expect(deps.domainEventsService.publish).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,120 @@
+import logger from '../../../../../logger'
+import {
+  AgreementStatus,
+  GoalStatus,
+  POST_AGREEMENT_PROCESS_STATUSES,
+  SentencePlanContext,
+  SentencePlanEffectsDeps,
+} from '../types'
+import {
+  buildSentencePlanDomainEvent,
+  SentencePlanDomainEventInformation,
+  SentencePlanDomainEventType,
+} from './sentencePlanDomainEvents'
+
+/**
+ * The person and plan a domain event is about: the CRN from the session, and the plan UUID
+ * when the plan was opened by UUID (it isn't for MPoP access).
+ */
+export const getDomainEventSubject = (context: SentencePlanContext): { crn?: string; planUuid?: string } => {
+  const session = context.getSession()
+  const planIdentifier = session.sessionDetails?.planIdentifier
+
+  return {
+    crn: session.caseDetails?.crn,
+    planUuid: planIdentifier?.type === 'UUID' ? planIdentifier.uuid : undefined,
+  }
+}
+
+/**
+ * Only plans that have been through the agreement process are shared with other services,
+ * so changes to draft plans are not published.
+ */
+const isPlanPastAgreement = (context: SentencePlanContext): boolean =>
+  POST_AGREEMENT_PROCESS_STATUSES.includes(context.getData('latestAgreementStatus'))
+
+/**
+ * Publish a catalogued sentence plan domain event, adding the plan UUID to its information.
+ */
+export const publishSentencePlanDomainEvent = async <T extends SentencePlanDomainEventType>(
+  deps: SentencePlanEffectsDeps,
+  context: SentencePlanContext,
+  eventType: T,
+  information: Omit<SentencePlanDomainEventInformation<T>, 'planUuid'>,
+): Promise<void> => {
+  const { crn, planUuid } = getDomainEventSubject(context)
+
+  if (!crn) {
+    logger.error({ eventType }, 'Cannot publish sentence plan domain event: missing crn')
+    return
+  }
+
+  await deps.domainEventsService.publish(
+    buildSentencePlanDomainEvent(eventType, crn, { ...information, planUuid } as SentencePlanDomainEventInformation<T>),
+  )
+}
+
+/**
+ * Publishes the outcome of a plan agreement: agreed, disagreed or an updated agreement.
+ * 'Could not answer' is not an outcome consumers act on, so nothing is published for it.
+ */
+export const publishPlanAgreementEvent = async (
+  deps: SentencePlanEffectsDeps,
+  context: SentencePlanContext,
+  agreementStatus: AgreementStatus,
+): Promise<void> => {
+  switch (agreementStatus) {
+    case 'AGREED':
+      return publishSentencePlanDomainEvent(deps, context, 'arns.sentence.plan.agreed', { agreementStatus })
+    case 'DO_NOT_AGREE':
+      return publishSentencePlanDomainEvent(deps, context, 'arns.sentence.plan.disagreed', { agreementStatus })
+    case 'UPDATED_AGREED':
+    case 'UPDATED_DO_NOT_AGREE':
+      return publishSentencePlanDomainEvent(deps, context, 'arns.sentence.plan.agreement.updated', {
+        agreementStatus,
+      })
+    default:
+      return undefined
+  }
+}
+
+export const publishGoalRemovedEvent = async (
+  deps: SentencePlanEffectsDeps,
+  context: SentencePlanContext,
+  goalUuid: string,
+): Promise<void> => {
+  if (isPlanPastAgreement(context)) {
+    await publishSentencePlanDomainEvent(deps, context, 'arns.sentence.plan.goal.removed', { goalUuid })
+  }
+}
+
+export const publishGoalReaddedEvent = async (
+  deps: SentencePlanEffectsDeps,
+  context: SentencePlanContext,
+  goalUuid: string,
+  goalStatus: Extract<GoalStatus, 'ACTIVE' | 'FUTURE'>,
+): Promise<void> => {
+  if (isPlanPastAgreement(context)) {
+    await publishSentencePlanDomainEvent(deps, context, 'arns.sentence.plan.goal.readded', { goalUuid, goalStatus })
+  }
+}
+
+/**
+ * Publishes a step completed event for each step, one event per step.
+ */
+export const publishStepsCompletedEvents = async (
+  deps: SentencePlanEffectsDeps,
+  context: SentencePlanContext,
+  goalUuid: string,
+  stepUuids: string[],
+): Promise<void> => {
+  if (!isPlanPastAgreement(context)) {
+    return
+  }
+
+  await Promise.all(
+    stepUuids.map(stepUuid =>
+      publishSentencePlanDomainEvent(deps, context, 'arns.sentence.plan.step.completed', { goalUuid, stepUuid }),
+    ),
+  )
+}
@@ -0,0 +1,95 @@
+import { readFileSync } from 'fs'
+import path from 'path'
+import { z } from 'zod'
+import {
+  buildSentencePlanDomainEvent,
+  sentencePlanDomainEventCatalogue,
+  sentencePlanDomainEventSchema,
+  SentencePlanDomainEventInformation,
+  SentencePlanDomainEventType,
+} from './sentencePlanDomainEvents'
+
+const exampleInformation: { [T in SentencePlanDomainEventType]: SentencePlanDomainEventInformation<T> } = {
+  'arns.sentence.plan.goals.added': { planUuid: 'plan-123' },
+  'arns.sentence.plan.goals.completed': { planUuid: 'plan-123' },
+  'arns.sentence.plan.agreed': { planUuid: 'plan-123', agreementStatus: 'AGREED' },
+  'arns.sentence.plan.disagreed': { planUuid: 'plan-123', agreementStatus: 'DO_NOT_AGREE' },
+  'arns.sentence.plan.agreement.updated': { planUuid: 'plan-123', agreementStatus: 'UPDATED_AGREED' },
+  'arns.sentence.plan.goal.removed': { planUuid: 'plan-123', goalUuid: 'goal-123' },
+  'arns.sentence.plan.goal.readded': { planUuid: 'plan-123', goalUuid: 'goal-123', goalStatus: 'FUTURE' },
+  'arns.sentence.plan.step.completed': { planUuid: 'plan-123', goalUuid: 'goal-123', stepUuid: 'step-123' },
+}
+
+const eventTypes = Object.keys(sentencePlanDomainEventCatalogue) as SentencePlanDomainEventType[]
+
+const readSchemaDocument = (eventType: SentencePlanDomainEventType) => {
+  const { version } = sentencePlanDomainEventCatalogue[eventType]
+  return JSON.parse(readFileSync(path.join(__dirname, 'schemas', `${eventType}.v${version}.json`), 'utf8'))
+}
+
+describe('sentencePlanDomainEvents', () => {
+  beforeAll(() => {
+    jest.useFakeTimers().setSystemTime(new Date('2026-07-30T10:00:00.000Z'))
+  })
+
+  afterAll(() => {
+    jest.useRealTimers()
+  })
+
+  describe.each(eventTypes)('%s', eventType => {
+    it('should match its checked-in JSON schema document', () => {
+      // Arrange
+      const schema = sentencePlanDomainEventSchema(eventType)
+
+      // Act
+      const document = readSchemaDocument(eventType)
+
+      // Assert
+      expect(document).toEqual(z.toJSONSchema(schema))
+    })
+
+    it('should build events that satisfy its schema', () => {
+      // Arrange
+      const schema = sentencePlanDomainEventSchema(eventType)
+
+      // Act
+      const event = buildSentencePlanDomainEvent(eventType, 'X123456', exampleInformation[eventType])
+
+      // Assert
+      expect(schema.safeParse(event).error).toBeUndefined()
+      expect(event).toEqual({
+        eventType,
+        version: sentencePlanDomainEventCatalogue[eventType].version,
+        occurredAt: '2026-07-30T10:00:00.000Z',
+        description: sentencePlanDomainEventCatalogue[eventType].description,
+        additionalInformation: exampleInformation[eventType],
+        personReference: { identifiers: [{ type: 'CRN', value: 'X123456' }] },
+      })
+    })
+  })
+
+  it('should reject information the schema does not describe', () => {
+    // Arrange
+    const event = buildSentencePlanDomainEvent('arns.sentence.plan.goal.removed', 'X123456', {
+      goalUuid: 'goal-123',
+      stepUuid: 'step-123',
+    } as SentencePlanDomainEventInformation<'arns.sentence.plan.goal.removed'>)
+
+    // Act
+    const result = sentencePlanDomainEventSchema('arns.sentence.plan.goal.removed').safeParse(event)
+
+    // Assert
+    expect(result.success).toBe(false)
+  })
+
+  it('should leave out the planUuid when it is not known', () => {
+    // Act
+    const event = buildSentencePlanDomainEvent('arns.sentence.plan.goal.removed', 'X123456', {
+      planUuid: undefined,
+      goalUuid: 'goal-123',
+    })
+
+    // Assert
+    expect(event.additionalInformation).toEqual({ goalUuid: 'goal-123' })
+  })
+})
@@ -0,0 +1,116 @@
+import { z } from 'zod'
+import { DomainEvent } from '../../../../services/domainEventsService'
+
+/**
+ * Catalogue of the domain events published by the sentence plan.
+ *
+ * Each event type has a version and a schema for its `additionalInformation`. Changing what an
+ * event carries in a way consumers would notice means bumping its version. The JSON schema for
+ * each event is checked in under ./schemas, named `<eventType>.v<version>.json`, so consumers
+ * such as MPoP, Delius and tiering can read the contract without reading this code. The contract
+ * tests fail if a document no longer matches `z.toJSONSchema(sentencePlanDomainEventSchema(eventType))`.
+ */
+
+const planUuid = z.string().optional().describe('Sentence plan UUID, when the plan was opened by UUID')
+const goalUuid = z.string().describe('UUID of the goal')
+
+export const sentencePlanDomainEventCatalogue = {
+  'arns.sentence.plan.goals.added': {
+    version: 1,
+    description: 'There is an open goal',
+    additionalInformation: z.strictObject({ planUuid }).optional(),
+  },
+  'arns.sentence.plan.goals.completed': {
+    version: 1,
+    description: 'No more open goals',
+    additionalInformation: z.strictObject({ planUuid }).optional(),
+  },
+  'arns.sentence.plan.agreed': {
+    version: 1,
+    description: 'The person agreed to their plan',
+    additionalInformation: z.strictObject({ planUuid, agreementStatus: z.literal('AGREED') }),
+  },
+  'arns.sentence.plan.disagreed': {
+    version: 1,
+    description: 'The person did not agree to their plan',
+    additionalInformation: z.strictObject({ planUuid, agreementStatus: z.literal('DO_NOT_AGREE') }),
+  },
+  'arns.sentence.plan.agreement.updated': {
+    version: 1,
+    description: 'The person updated their agreement to the plan',
+    additionalInformation: z.strictObject({
+      planUuid,
+      agreementStatus: z.enum(['UPDATED_AGREED', 'UPDATED_DO_NOT_AGREE']),
+    }),
+  },
+  'arns.sentence.plan.goal.removed': {
+    version: 1,
+    description: 'A goal was removed from the plan',
+    additionalInformation: z.strictObject({ planUuid, goalUuid }),
+  },
+  'arns.sentence.plan.goal.readded': {
+    version: 1,
+    description: 'A removed goal was added back to the plan',
+    additionalInformation: z.strictObject({ planUuid, goalUuid, goalStatus: z.enum(['ACTIVE', 'FUTURE']) }),
+  },
+  'arns.sentence.plan.step.completed': {
+    version: 1,
+    description: 'A step was completed',
+    additionalInformation: z.strictObject({ planUuid, goalUuid, stepUuid: z.string().describe('UUID of the step') }),
+  },
+} as const
+
+type Catalogue = typeof sentencePlanDomainEventCatalogue
+
+export type SentencePlanDomainEventType = keyof Catalogue
+
+export type SentencePlanDomainEventInformation<T extends SentencePlanDomainEventType> = NonNullable<
+  z.infer<Catalogue[T]['additionalInformation']>
+>
+
+/**
+ * Full schema of an event type, as published: the HMPPS domain event envelope around
+ * the event's `additionalInformation`.
+ */
+export const sentencePlanDomainEventSchema = (eventType: SentencePlanDomainEventType) => {
+  const { version, description, additionalInformation } = sentencePlanDomainEventCatalogue[eventType]
+
+  return z
+    .strictObject({
+      eventType: z.literal(eventType),
+      version: z.literal(version),
+      occurredAt: z.iso.datetime(),
+      description: z.literal(description),
+      additionalInformation,
+      personReference: z.strictObject({
+        identifiers: z.tuple([z.strictObject({ type: z.literal('CRN'), value: z.string() })]),
+      }),
+    })
+    .meta({ title: `${eventType} v${version}`, description })
+}
+
+/**
+ * Build a sentence plan domain event for a person, identified by CRN.
+ *
+ * `planUuid` is left out when unknown (e.g. MPoP access), and `additionalInformation`
+ * is dropped altogether if that leaves it empty.
+ */
+export const buildSentencePlanDomainEvent = <T extends SentencePlanDomainEventType>(
+  eventType: T,
+  crn: string,
+  information: SentencePlanDomainEventInformation<T>,
+): DomainEvent => {
+  const { version, description } = sentencePlanDomainEventCatalogue[eventType]
+  const additionalInformation = Object.fromEntries(
+    Object.entries(information).filter(([, value]) => value !== undefined),
+  )
+
+  return {
+    eventType,
+    version,
+    occurredAt: new Date().toISOString(),
+    description,
+    ...(Object.keys(additionalInformation).length > 0 ? { additionalInformation } : {}),
+    personReference: { identifiers: [{ type: 'CRN', value: crn }] },
+  }
+}
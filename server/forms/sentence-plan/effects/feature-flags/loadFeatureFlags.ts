@@ -1,12 +1,50 @@
 import { SentencePlanContext, SentencePlanEffectsDeps } from '../types'
 import logger from '../../../../../logger'
-import { BooleanFeatureFlags } from '../../../../utils/featureFlagsUtils'
+import {
+  BooleanFeatureFlags,
+  VariantFeatureFlags,
+  buildFeatureFlagEvaluationContext,
+} from '../../../../utils/featureFlagsUtils'
+import { updateCaseContext } from '../../../shared/caseContext'
 
+/**
+ * Evaluate the feature flags for the user, targeted by what we know about the case:
+ * how they accessed it, its region and location, and the assessment's flags.
+ *
+ * The assessment's flags are kept with the case in the session, so that the flags
+ * evaluated for routes outside the plan pages (setUpFeatureFlags), such as the PDF and
+ * data exports, are targeted the same way.
+ *
+ * Sets:
+ * - Data('featureFlags'): Whether each boolean flag is on
+ * - Data('featureFlagVariants'): The variant given for each variant flag
+ */
 export const loadFeatureFlags = (deps: SentencePlanEffectsDeps) => async (context: SentencePlanContext) => {
   try {
     const user = context.getState('user')
-    const result = await deps.featureFlagService.evaluateBooleanFlags(BooleanFeatureFlags, user?.id)
-    context.setData('featureFlags', result.booleanFeatureFlags)
+    const session = context.getSession()
+    const assessment = context.getData('assessment')
+    const overrides = context.getState('featureFlagOverrides')
+
+    const assessmentFlags = assessment && 'flags' in assessment ? assessment.flags : undefined
+
+    if (session) {
+      updateCaseContext(session, { assessmentFlags })
+    }
+
+    const evaluationContext = buildFeatureFlagEvaluationContext({
+      sessionDetails: session?.sessionDetails,
+      caseDetails: session?.caseDetails,
+      assessmentFlags,
+    })
+
+    const [booleanResult, variantResult] = await Promise.all([
+      deps.featureFlagService.evaluateBooleanFlags(BooleanFeatureFlags, user?.id, evaluationContext, overrides),
+      deps.featureFlagService.evaluateVariantFlags(VariantFeatureFlags, user?.id, evaluationContext, overrides),
+    ])
+
+    context.setData('featureFlags', booleanResult.booleanFeatureFlags)
+    context.setData('featureFlagVariants', variantResult.variantFeatureFlags)
   } catch (error) {
     logger.error('Error in loadFeatureFlags, failed to load feature flags: ', error)
   }
@@ -0,0 +1,116 @@
+import { createGoal } from './createGoal'
+import type { SentencePlanContext, SentencePlanEffectsDeps } from '../types'
+import type { User } from '../../../../interfaces/user'
+import { trackBusinessEvent } from '../telemetry/trackBusinessEvent'
+import { publishGoalsAddedEvent } from '../domain-events/publishGoalsDomainEvent'
+
+jest.mock('../telemetry/trackBusinessEvent', () => ({ trackBusinessEvent: jest.fn() }))
+jest.mock('../domain-events/publishGoalsDomainEvent', () => ({ publishGoalsAddedEvent: jest.fn() }))
+jest.mock('../../versions/v1.0/constants', () => ({ areasOfNeed: [] as unknown[] }))
+
+const user: User = {
+  id: 'user-1',
+  name: 'Fallback User',
+  authSource: 'HMPPS_AUTH',
+}
+
+function createMockContext(data: Record<string, unknown> = {}) {
+  const contextData: Record<string, unknown> = {
+    assessmentUuid: 'assessment-1',
+    planVersion: '2025-01-01T00:00:00Z',
+    ...data,
+  }
+  const answers: Record<string, unknown> = {
+    goal_title: 'Find stable accommodation',
+    related_areas_of_need: [],
+    can_start_now: 'yes',
+    target_date_option: 'date_in_3_months',
+  }
+
+  return {
+    getSession: jest.fn(() => ({ practitionerDetails: { displayName: 'Jane Smith' } })),
+    getState: jest.fn((key: string) => (key === 'user' ? user : undefined)),
+    getData: jest.fn((key: string) => contextData[key]),
+    getAnswer: jest.fn((key: string) => answers[key]),
+    getRequestParam: jest.fn((key: string) => (key === 'areaOfNeed' ? 'accommodation' : undefined)),
+    setData: jest.fn((key: string, value: unknown) => {
+      contextData[key] = value
+    }),
+  } as unknown as SentencePlanContext
+}
+
+function createDeps(executeCommandsAtVersion: jest.Mock) {
+  return { api: { executeCommandsAtVersion } } as unknown as SentencePlanEffectsDeps
+}
+
+describe('createGoal', () => {
+  beforeEach(() => {
+    jest.resetAllMocks()
+  })
+
+  it('should create the GOALS collection, the goal and its GOAL_CREATED event in one batch', async () => {
+    // Arrange
+    const executeCommandsAtVersion = jest.fn().mockResolvedValue({
+      results: [{ collectionUuid: 'goals-collection' }, { collectionItemUuid: 'goal-1' }, {}],
+      assessmentVersion: '2025-01-02T00:00:00Z',
+    })
+    const context = createMockContext()
+
+    // Act
+    await createGoal(createDeps(executeCommandsAtVersion))(context)
+
+    // Assert
+    expect(executeCommandsAtVersion).toHaveBeenCalledTimes(1)
+    expect(executeCommandsAtVersion).toHaveBeenCalledWith(
+      '2025-01-01T00:00:00Z',
+      expect.objectContaining({ type: 'CreateCollectionCommand', name: 'GOALS' }),
+      expect.objectContaining({ type: 'AddCollectionItemCommand', collectionUuid: '$ref:0.collectionUuid' }),
+      expect.objectContaining({
+        type: 'UpdateCollectionItemPropertiesCommand',
+        collectionItemUuid: '$ref:1.collectionItemUuid',
+        timeline: {
+          type: 'GOAL_CREATED',
+          data: expect.objectContaining({ goalTitle: 'Find stable accommodation', createdBy: 'Jane Smith' }),
+        },
+      }),
+    )
+    expect(context.setData).toHaveBeenCalledWith('activeGoalUuid', 'goal-1')
+    expect(publishGoalsAddedEvent).toHaveBeenCalledWith(expect.anything(), context, 'goal-1')
+  })
+
+  it('should add the goal to an existing GOALS collection', async () => {
+    // Arrange
+    const executeCommandsAtVersion = jest.fn().mockResolvedValue({
+      results: [{ collectionItemUuid: 'goal-1' }, {}],
+      assessmentVersion: '2025-01-02T00:00:00Z',
+    })
+
+    // Act
+    await createGoal(createDeps(executeCommandsAtVersion))(
+      createMockContext({ goalsCollectionUuid: 'goals-collection' }),
+    )
+
+    // Assert
+    expect(executeCommandsAtVersion).toHaveBeenCalledWith(
+      '2025-01-01T00:00:00Z',
+      expect.objectContaining({ type: 'AddCollectionItemCommand', collectionUuid: 'goals-collection' }),
+      expect.objectContaining({
+        type: 'UpdateCollectionItemPropertiesCommand',
+        collectionItemUuid: '$ref:0.collectionItemUuid',
+      }),
+    )
+  })
+
+  it('should write neither the goal nor its event when the batch fails', async () => {
+    // Arrange
+    const executeCommandsAtVersion = jest.fn().mockRejectedValue(new Error('Batch rejected'))
+    const context = createMockContext()
+
+    // Act & Assert
+    await expect(createGoal(createDeps(executeCommandsAtVersion))(context)).rejects.toThrow('Batch rejected')
+    expect(executeCommandsAtVersion).toHaveBeenCalledTimes(1)
+    expect(context.setData).not.toHaveBeenCalledWith('activeGoalUuid', expect.anything())
+    expect(trackBusinessEvent).not.toHaveBeenCalled()
+    expect(publishGoalsAddedEvent).not.toHaveBeenCalled()
+  })
+})
@@ -2,6 +2,7 @@ import { BadRequest } from 'http-errors'
 import { trackBusinessEvent } from '../telemetry/trackBusinessEvent'
 import { SentencePlanContext, SentencePlanEffectsDeps } from '../types'
 import { wrapAll } from '../../../../data/aap-api/wrappers'
+import CommandBatch from '../../../../data/aap-api/commandBatch'
 import {
   getRequiredEffectContext,
   calculateTargetDate,
@@ -14,12 +15,15 @@ import { GoalSnapshotData } from './goalSnapshot'
 import { hashGoalText, matchSuggestedGoal } from '../../../../utils/goalTelemetry'
 import { areasOfNeed } from '../../versions/v1.0/constants'
 import { publishGoalsAddedEvent } from '../domain-events/publishGoalsDomainEvent'
+import { executePlanCommands } from '../plan/executePlanCommands'
 
 /**
  * Create a new goal
  *
  * Uses the GOALS collection UUID from derived data, or creates the collection
- * if it doesn't exist. Stores the goal UUID in context for navigation to add-steps.
+ * if it doesn't exist, in the same batch as the goal itself and its GOAL_CREATED
+ * event, so none of them is written without the others. Stores the goal UUID in
+ * context for navigation to add-steps.
  *
  * Form fields used:
  * - goal_title: Goal title
@@ -48,25 +52,25 @@ export const createGoal = (deps: SentencePlanEffectsDeps) => async (context: Sen
   const targetDate = calculateTargetDate(canStartNow, targetDateOption, customDate)
   const status = determineGoalStatus(canStartNow)
 
-  // Get or create GOALS collection
+  // Create the goal, its GOALS collection if missing, and the GOAL_CREATED event in a single batch
+  const batch = new CommandBatch()
   let goalsCollectionUuid = context.getData('goalsCollectionUuid')
 
   if (!goalsCollectionUuid) {
-    const createResult = await deps.api.executeCommand({
+    const createCollection = batch.add({
       type: 'CreateCollectionCommand',
       name: 'GOALS',
       assessmentUuid,
       user,
     })
 
-    goalsCollectionUuid = createResult.collectionUuid
+    goalsCollectionUuid = createCollection.ref('collectionUuid')
   }
 
   const properties = buildGoalProperties(status)
   const answers = buildGoalAnswers(goalTitle, areaOfNeedSlug, relatedAreas, targetDate)
 
-  // Create the goal
-  const addResult = await deps.api.executeCommand({
+  const addGoal = batch.add({
     type: 'AddCollectionItemCommand',
     collectionUuid: goalsCollectionUuid,
     properties: wrapAll(properties),
@@ -75,9 +79,6 @@ export const createGoal = (deps: SentencePlanEffectsDeps) => async (context: Sen
     user,
   })
 
-  // Store goal UUID for redirect to add-steps
-  context.setData('activeGoalUuid', addResult.collectionItemUuid)
-
   const goalSnapshot: GoalSnapshotData = {
     status,
     targetDate: targetDate ?? undefined,
@@ -87,15 +88,16 @@ export const createGoal = (deps: SentencePlanEffectsDeps) => async (context: Sen
     steps: [],
   }
 
-  await deps.api.executeCommand({
+  // Refs aren't substituted inside timeline data, so the event has no goalUuid of its own.
+  // It is read from the goal the event is recorded against instead.
+  batch.add({
     type: 'UpdateCollectionItemPropertiesCommand',
-    collectionItemUuid: addResult.collectionItemUuid,
+    collectionItemUuid: addGoal.ref('collectionItemUuid'),
     added: {},
     removed: [],
     timeline: {
       type: 'GOAL_CREATED',
       data: {
-        goalUuid: addResult.collectionItemUuid,
         goalTitle,
         createdBy: getPractitionerName(context, user),
         goalSnapshot,
@@ -105,12 +107,18 @@ export const createGoal = (deps: SentencePlanEffectsDeps) => async (context: Sen
     user,
   })
 
+  const results = await executePlanCommands(deps, context, ...batch.commands)
+  const goalUuid = addGoal.result(results).collectionItemUuid
+
+  // Store goal UUID for redirect to add-steps
+  context.setData('activeGoalUuid', goalUuid)
+
   const selectedArea = areasOfNeed.find(area => area.slug === areaOfNeedSlug)
   const goalMatch = matchSuggestedGoal(goalTitle as string, selectedArea?.goals ?? [])
 
   trackBusinessEvent(context, 'CREATE_GOAL_PAGE_SUBMITTED', {
     assessmentUuid,
-    goalUuid: addResult.collectionItemUuid,
+    goalUuid,
     goalStatus: status,
     areaOfNeed: areaOfNeedSlug,
     isRelatedToOtherAreas: relatedAreas.length > 0 ? 'yes' : 'no',
@@ -127,5 +135,5 @@ export const createGoal = (deps: SentencePlanEffectsDeps) => async (context: Sen
         : 'N/A',
   })
 
-  await publishGoalsAddedEvent(deps, context, addResult.collectionItemUuid)
+  await publishGoalsAddedEvent(deps, context, goalUuid)
 }
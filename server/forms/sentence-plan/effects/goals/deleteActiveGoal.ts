@@ -2,6 +2,7 @@ import { InternalServerError } from 'http-errors'
 import { SentencePlanContext, SentencePlanEffectsDeps } from '../types'
 import { getRequiredEffectContext } from './goalUtils'
 import { trackBusinessEvent } from '../telemetry/trackBusinessEvent'
+import { executePlanCommands } from '../plan/executePlanCommands'
 
 /**
  * Delete the active goal
@@ -19,7 +20,7 @@ export const deleteActiveGoal = (deps: SentencePlanEffectsDeps) => async (contex
     throw new InternalServerError('Active goal is required for deleteActiveGoal')
   }
 
-  await deps.api.executeCommand({
+  await executePlanCommands(deps, context, {
     type: 'RemoveCollectionItemCommand',
     collectionItemUuid: activeGoal.uuid,
     timeline: {
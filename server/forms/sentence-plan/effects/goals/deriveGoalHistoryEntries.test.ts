@@ -0,0 +1,140 @@
+import { GoalCreatedHistoryEntry, GoalUpdatedHistoryEntry, PlanHistoryEntry, SentencePlanContext } from '../types'
+import { deriveGoalHistoryEntries, diffGoalSnapshots } from './deriveGoalHistoryEntries'
+
+const createdEntry = (overrides: Partial<GoalCreatedHistoryEntry> = {}): GoalCreatedHistoryEntry => ({
+  type: 'goal_created',
+  uuid: 'created-1',
+  date: '2024-01-10T10:00:00Z',
+  goalUuid: 'goal-1',
+  goalTitle: 'Find somewhere to live',
+  createdBy: 'Jane Smith',
+  goalStatus: 'ACTIVE',
+  targetDate: '2024-06-01',
+  areaOfNeedLabel: 'Accommodation',
+  relatedAreasOfNeedLabels: [],
+  steps: [{ actor: 'Probation practitioner', description: 'Contact housing', status: 'NOT_STARTED' }],
+  ...overrides,
+})
+
+const updatedEntry = (overrides: Partial<GoalUpdatedHistoryEntry> = {}): GoalUpdatedHistoryEntry => ({
+  ...createdEntry(),
+  type: 'goal_updated',
+  uuid: 'updated-1',
+  date: '2024-02-10T10:00:00Z',
+  updatedBy: 'Bob Jones',
+  ...overrides,
+})
+
+const createMockContext = (planHistoryEntries: PlanHistoryEntry[], activeGoalUuid = 'goal-1') => {
+  const data: Record<string, unknown> = { planHistoryEntries, activeGoalUuid }
+
+  return {
+    getData: jest.fn((key: string) => data[key]),
+    setData: jest.fn((key: string, value: unknown) => {
+      data[key] = value
+    }),
+  } as unknown as SentencePlanContext
+}
+
+describe('diffGoalSnapshots', () => {
+  it('should return no changes when the goal is unchanged', () => {
+    // Act
+    const changes = diffGoalSnapshots(createdEntry(), updatedEntry())
+
+    // Assert
+    expect(changes).toEqual([])
+  })
+
+  it('should list changes to the goal details', () => {
+    // Arrange
+    const current = updatedEntry({
+      goalTitle: 'Find a flat',
+      targetDate: '2024-09-01',
+      areaOfNeedLabel: 'Finance',
+      relatedAreasOfNeedLabels: ['Accommodation', 'Health and wellbeing'],
+    })
+
+    // Act
+    const changes = diffGoalSnapshots(createdEntry(), current)
+
+    // Assert
+    expect(changes).toEqual([
+      { label: 'Goal', before: 'Find somewhere to live', after: 'Find a flat' },
+      { label: 'Target date', before: '1 June 2024', after: '1 September 2024' },
+      { label: 'Area of need', before: 'Accommodation', after: 'Finance' },
+      { label: 'Related areas of need', before: undefined, after: 'Accommodation, Health and wellbeing' },
+    ])
+  })
+
+  it('should compare steps by position, including added and removed steps', () => {
+    // Arrange
+    const previous = createdEntry({
+      steps: [
+        { actor: 'Probation practitioner', description: 'Contact housing', status: 'NOT_STARTED' },
+        { actor: 'Jane', description: 'Open a bank account', status: 'IN_PROGRESS' },
+      ],
+    })
+    const current = updatedEntry({
+      steps: [{ actor: 'Jane', description: 'Contact housing', status: 'COMPLETED' }],
+    })
+
+    // Act
+    const changes = diffGoalSnapshots(previous, current)
+
+    // Assert
+    expect(changes).toEqual([
+      { label: 'Step 1: who will do this', before: 'Probation practitioner', after: 'Jane' },
+      { label: 'Step 1: status', before: 'Not started', after: 'Completed' },
+      { label: 'Step 2 removed', before: 'Open a bank account', after: undefined },
+    ])
+  })
+})
+
+describe('deriveGoalHistoryEntries', () => {
+  it("should set the active goal's entries newest first with the changes from the previous entry", () => {
+    // Arrange
+    const created = createdEntry()
+    const updated = updatedEntry({
+      steps: [
+        { actor: 'Probation practitioner', description: 'Contact housing', status: 'NOT_STARTED' },
+        { actor: 'Jane', description: 'Open a bank account', status: 'NOT_STARTED' },
+      ],
+    })
+    const otherGoal = createdEntry({ uuid: 'created-2', goalUuid: 'goal-2' })
+    const agreement: PlanHistoryEntry = {
+      type: 'agreement',
+      uuid: 'agreement-1',
+      date: '2024-01-20T10:00:00Z',
+      status: 'AGREED',
+    }
+    const context = createMockContext([updated, agreement, otherGoal, created])
+
+    // Act
+    deriveGoalHistoryEntries()(context)
+
+    // Assert
+    expect(context.setData).toHaveBeenCalledWith('goalHistoryEntries', [
+      { ...updated, changes: [{ label: 'Step 2 added', before: undefined, after: 'Open a bank account' }] },
+      { ...created, changes: [] },
+    ])
+  })
+
+  it('should not compare entries that have no goal details', () => {
+    // Arrange
+    const legacy = createdEntry({
+      goalStatus: undefined,
+      targetDate: undefined,
+      areaOfNeedLabel: undefined,
+      relatedAreasOfNeedLabels: undefined,
+      steps: undefined,
+    })
+    const context = createMockContext([updatedEntry(), legacy])
+
+    // Act
+    deriveGoalHistoryEntries()(context)
+
+    // Assert
+    const [[, entries]] = (context.setData as jest.Mock).mock.calls
+    expect(entries.map((entry: { changes: unknown[] }) => entry.changes)).toEqual([[], []])
+  })
+})
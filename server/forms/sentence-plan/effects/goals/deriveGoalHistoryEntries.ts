@@ -0,0 +1,111 @@
+import { formatDate } from '../../../../utils/utils'
+import { GoalEventContext, GoalHistoryChange, GoalHistoryEntry, PlanHistoryEntry, SentencePlanContext } from '../types'
+
+type GoalPlanHistoryEntry = Exclude<PlanHistoryEntry, { type: 'agreement' }>
+
+const STEP_STATUS_LABELS: Record<string, string> = {
+  NOT_STARTED: 'Not started',
+  IN_PROGRESS: 'In progress',
+  COMPLETED: 'Completed',
+  CANNOT_BE_DONE_YET: 'Cannot be done yet',
+  NO_LONGER_NEEDED: 'No longer needed',
+}
+
+export const stepStatusLabel = (status: string): string => STEP_STATUS_LABELS[status] ?? status
+
+const orUndefined = (value: string | undefined): string | undefined => value || undefined
+
+/**
+ * Add a change to the list when `before` and `after` differ. Empty values count as unset.
+ */
+export const addChange = (changes: GoalHistoryChange[], label: string, before?: string, after?: string) => {
+  if (orUndefined(before) !== orUndefined(after)) {
+    changes.push({ label, before: orUndefined(before), after: orUndefined(after) })
+  }
+}
+
+/**
+ * Compare the goal as it was at two events. Steps have no identity in a snapshot,
+ * so they are compared by position, the same order they are shown in.
+ */
+export const diffGoalSnapshots = (
+  previous: GoalPlanHistoryEntry,
+  current: GoalPlanHistoryEntry,
+): GoalHistoryChange[] => {
+  const changes: GoalHistoryChange[] = []
+
+  addChange(changes, 'Goal', previous.goalTitle, current.goalTitle)
+  addChange(
+    changes,
+    'Target date',
+    previous.targetDate && formatDate(previous.targetDate, 'simple'),
+    current.targetDate && formatDate(current.targetDate, 'simple'),
+  )
+  addChange(changes, 'Area of need', previous.areaOfNeedLabel, current.areaOfNeedLabel)
+  addChange(
+    changes,
+    'Related areas of need',
+    previous.relatedAreasOfNeedLabels?.join(', '),
+    current.relatedAreasOfNeedLabels?.join(', '),
+  )
+
+  const previousSteps = previous.steps ?? []
+  const currentSteps = current.steps ?? []
+
+  for (let index = 0; index < Math.max(previousSteps.length, currentSteps.length); index += 1) {
+    const before = previousSteps[index]
+    const after = currentSteps[index]
+    const stepLabel = `Step ${index + 1}`
+
+    if (!before) {
+      addChange(changes, `${stepLabel} added`, undefined, after.description)
+    } else if (!after) {
+      addChange(changes, `${stepLabel} removed`, before.description, undefined)
+    } else {
+      addChange(changes, `${stepLabel}: who will do this`, before.actor, after.actor)
+      addChange(changes, `${stepLabel}: description`, before.description, after.description)
+      addChange(changes, `${stepLabel}: status`, stepStatusLabel(before.status), stepStatusLabel(after.status))
+      addChange(
+        changes,
+        `${stepLabel}: target date`,
+        before.targetDate && formatDate(before.targetDate, 'simple'),
+        after.targetDate && formatDate(after.targetDate, 'simple'),
+      )
+    }
+  }
+
+  return changes
+}
+
+// Legacy events with no snapshot and no current goal carry no goal context to compare
+const hasGoalContext = (entry: GoalEventContext): boolean => entry.goalStatus !== undefined
+
+/**
+ * Derive the history of the active goal from the plan history entries, with the
+ * changes each event made to the goal since the one before it.
+ *
+ * Requires:
+ * - Data('planHistoryEntries'): Populated by derivePlanHistoryEntries (from the whole timeline)
+ * - Data('activeGoalUuid'): Populated by setActiveGoalContext or loadActiveGoalForEdit
+ *
+ * Sets:
+ * - Data('goalHistoryEntries'): The goal's events, newest first
+ */
+export const deriveGoalHistoryEntries = () => (context: SentencePlanContext) => {
+  const planHistoryEntries = (context.getData('planHistoryEntries') as PlanHistoryEntry[] | undefined) ?? []
+  const activeGoalUuid = context.getData('activeGoalUuid') as string | undefined
+
+  const goalEntries = planHistoryEntries
+    .filter((entry): entry is GoalPlanHistoryEntry => entry.type !== 'agreement' && entry.goalUuid === activeGoalUuid)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+
+  const goalHistoryEntries: GoalHistoryEntry[] = goalEntries.map((entry, index) => {
+    const previous = goalEntries[index - 1]
+    const changes =
+      previous && hasGoalContext(previous) && hasGoalContext(entry) ? diffGoalSnapshots(previous, entry) : []
+
+    return { ...entry, changes }
+  })
+
+  context.setData('goalHistoryEntries', goalHistoryEntries.reverse())
+}
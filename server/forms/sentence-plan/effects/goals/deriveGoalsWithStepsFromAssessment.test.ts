@@ -571,6 +571,36 @@ describe('deriveGoalsWithSteps', () => {
       expect(result.goals[0].steps[0].status).toBe('IN_PROGRESS')
       expect(result.goals[0].steps[0].statusDate).toBe('2025-03-01')
     })
+
+    it('should extract an optional step target date', () => {
+      // Arrange
+      const data = buildData({
+        assessment: {
+          collections: [
+            goalsCollection([
+              goalItem({
+                collections: [
+                  {
+                    name: 'STEPS',
+                    uuid: 'steps-uuid',
+                    items: [
+                      stepItem({ uuid: 'step-with-date', answers: { target_date: '2025-04-30' } }),
+                      stepItem({ uuid: 'step-without-date' }),
+                    ],
+                  },
+                ],
+              }),
+            ]),
+          ],
+        },
+      })
+
+      // Act
+      const result = deriveGoalsWithSteps(data)
+
+      // Assert
+      expect(result.goals[0].steps.map(step => step.targetDate)).toEqual(['2025-04-30', undefined])
+    })
   })
 
   describe('note extraction', () => {
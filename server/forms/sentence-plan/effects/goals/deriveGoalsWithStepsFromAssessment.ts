@@ -116,6 +116,7 @@ export const deriveGoalsWithSteps = (data: DataToDeriveFrom): DerivedGoals => {
         status: stepAnswers.status,
         description: stepAnswers.description,
         statusDate: stepProperties.status_date,
+        targetDate: sanitizeDateValue(stepAnswers.target_date),
       }
     })
 
@@ -81,4 +81,27 @@ describe('snapshotFromGoal', () => {
       { actor: 'person_on_probation', description: 'Find a flat', status: 'NOT_STARTED' },
     ])
   })
+
+  it('should keep the target date of each step', () => {
+    // Arrange
+    const goal = makeGoal({
+      steps: [
+        {
+          uuid: 's-1',
+          actor: 'probation_practitioner',
+          actorLabel: 'Probation practitioner',
+          description: 'Book a housing appointment',
+          status: 'IN_PROGRESS',
+          statusDate: '2024-08-01',
+          targetDate: '2024-09-30',
+        },
+      ],
+    })
+
+    // Act
+    const snapshot = snapshotFromGoal(goal)
+
+    // Assert
+    expect(snapshot.steps[0].targetDate).toBe('2024-09-30')
+  })
 })
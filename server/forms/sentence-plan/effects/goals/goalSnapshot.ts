@@ -13,7 +13,7 @@ export interface GoalSnapshotData {
   statusDate: string
   areaOfNeed: string
   relatedAreasOfNeed: string[]
-  steps: Array<{ actor: string; description: string; status: string }>
+  steps: Array<{ actor: string; description: string; status: string; targetDate?: string }>
 }
 
 /**
@@ -32,6 +32,7 @@ export function snapshotFromGoal(goal: DerivedGoal, overrides: Partial<GoalSnaps
       actor: step.actor,
       description: step.description,
       status: step.status,
+      targetDate: step.targetDate,
     })),
     ...overrides,
   }
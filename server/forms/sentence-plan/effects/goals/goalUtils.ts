@@ -21,6 +21,16 @@ export const sanitizeDateValue = (value: string | undefined): string | undefined
   return value
 }
 
+/**
+ * Convert an ISO date (YYYY-MM-DD) to the DD/MM/YYYY format the MOJ date picker shows.
+ * Anything else, such as a partly typed date, is returned unchanged.
+ */
+export const toDatePickerValue = (value: string | undefined): string | undefined => {
+  const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})/)
+
+  return match ? `${match[3]}/${match[2]}/${match[1]}` : value
+}
+
 export const MONTHS_BY_OPTION: Record<string, number> = {
   date_in_3_months: 3,
   date_in_6_months: 6,
@@ -70,7 +80,7 @@ export const calculateTargetDate = (canStartNow = '', targetDateOption = '', cus
 }
 
 // Determine goal status based on whether they can start now:
-export const determineGoalStatus = (canStartNow = ''): GoalStatus => {
+export const determineGoalStatus = (canStartNow = ''): Extract<GoalStatus, 'ACTIVE' | 'FUTURE'> => {
   return canStartNow === 'yes' ? 'ACTIVE' : 'FUTURE'
 }
 
@@ -205,9 +215,7 @@ export const deriveAreasOfNeedData = (
 } => {
   return {
     currentAreaOfNeed: areasOfNeed.find(a => a.slug === currentAreaSlug),
-    otherAreasOfNeed: areasOfNeed
-      .filter(a => a.slug !== currentAreaSlug)
-      .sort((a, b) => a.text.localeCompare(b.text)),
+    otherAreasOfNeed: areasOfNeed.filter(a => a.slug !== currentAreaSlug).sort((a, b) => a.text.localeCompare(b.text)),
     areaOfNeedSlugs: areasOfNeed.map(a => a.slug),
   }
 }
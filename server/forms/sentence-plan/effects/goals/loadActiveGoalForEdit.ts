@@ -1,5 +1,10 @@
 import { AreaOfNeed, SentencePlanContext } from '../types'
-import { getMatchingTargetDateOption, resolveActiveGoalFromRequest, setActiveGoalData } from './goalUtils'
+import {
+  getMatchingTargetDateOption,
+  resolveActiveGoalFromRequest,
+  setActiveGoalData,
+  toDatePickerValue,
+} from './goalUtils'
 
 /**
  * Load the active goal and pre-populate form fields for editing
@@ -13,6 +18,7 @@ import { getMatchingTargetDateOption, resolveActiveGoalFromRequest, setActiveGoa
  * - is_related_to_other_areas: 'yes' or 'no' based on related areas
  * - related_areas_of_need: Related areas array
  * - can_start_now: 'yes' for ACTIVE goals, 'no' for FUTURE goals
+ * - step_target_date_{index}: Each step's target date, in DD/MM/YYYY for the date picker
  */
 export const loadActiveGoalForEdit = () => async (context: SentencePlanContext) => {
   const areasOfNeed = context.getData('areasOfNeed') as AreaOfNeed[] | undefined
@@ -48,6 +54,11 @@ export const loadActiveGoalForEdit = () => async (context: SentencePlanContext)
   // Pre-populate form fields with existing values
   context.setAnswer('goal_title', activeGoal.title)
 
+  const steps = activeGoal.steps ?? []
+  steps.forEach((step, index) => {
+    context.setAnswer(`step_target_date_${index}`, toDatePickerValue(step.targetDate))
+  })
+
   /*
    * Drop the (possibly newly chosen) primary area from related areas — a goal can't relate
    * to its own area, so it is not offered as a related option.
@@ -1,7 +1,8 @@
+import { isHttpError } from 'http-errors'
 import logger from '../../../../../logger'
 import { transformAssessmentData } from '../../../../utils/assessmentUtils'
 import { SentencePlanContext, SentencePlanEffectsDeps } from '../types'
-import { AssessmentArea } from '../../../../interfaces/coordinator-api/entityAssessment'
+import { AssessmentArea, EntityAssessmentResponse } from '../../../../interfaces/coordinator-api/entityAssessment'
 import { canAccessSanInfo } from '../helpers'
 import { resolveCriminogenicNeedsData } from './criminogenicNeeds'
 
@@ -16,7 +17,19 @@ import { resolveCriminogenicNeedsData } from './criminogenicNeeds'
 // - highScoringAreas: complete and score >= threshold
 // - lowScoringAreas: complete and score < threshold
 // - otherAreas: Finance, Health & wellbeing once completed (no scoring)
-export const loadAllAreasAssessmentInfo = (deps: SentencePlanEffectsDeps) => async (context: SentencePlanContext) => {
+export const loadAllAreasAssessmentInfo = (deps: SentencePlanEffectsDeps) => async (context: SentencePlanContext) =>
+  loadAssessmentAreas(deps, context, assessmentUuid => deps.coordinatorApi.getEntityAssessment(assessmentUuid))
+
+/**
+ * Load and group assessment areas from the SAN assessment returned by `getAssessment`, which
+ * is given the plan's assessmentUuid. Failures set the error state so the page can show a
+ * warning; http-errors thrown by `getAssessment` (e.g. NotFound) are rethrown instead.
+ */
+export const loadAssessmentAreas = async (
+  deps: SentencePlanEffectsDeps,
+  context: SentencePlanContext,
+  getAssessment: (assessmentUuid: string) => Promise<EntityAssessmentResponse>,
+) => {
   if (!canAccessSanInfo(context)) {
     setUnavailableState(context)
     return
@@ -44,7 +57,7 @@ export const loadAllAreasAssessmentInfo = (deps: SentencePlanEffectsDeps) => asy
   }
 
   try {
-    const entityAssessment = await deps.coordinatorApi.getEntityAssessment(assessmentUuid)
+    const entityAssessment = await getAssessment(assessmentUuid)
     const sanAssessmentData = entityAssessment.sanAssessmentData
 
     const criminogenicNeedsData = await resolveCriminogenicNeedsData(deps, context, crn)
@@ -84,6 +97,10 @@ export const loadAllAreasAssessmentInfo = (deps: SentencePlanEffectsDeps) => asy
 
     context.setData('allAreasAssessmentStatus', 'success')
   } catch (error) {
+    if (isHttpError(error)) {
+      throw error
+    }
+
     logger.error({ err: error, assessmentUuid, crn }, 'Failed to load all areas assessment info')
     setErrorState(context)
   }
@@ -0,0 +1,81 @@
+import { NotFound } from 'http-errors'
+import { loadAssessmentVersionInfo } from './loadAssessmentVersionInfo'
+import { canAccessSanInfo } from '../helpers'
+import { resolveCriminogenicNeedsData } from './criminogenicNeeds'
+import { transformAssessmentData } from '../../../../utils/assessmentUtils'
+import { SentencePlanContext, SentencePlanEffectsDeps } from '../types'
+
+jest.mock('../helpers')
+jest.mock('./criminogenicNeeds')
+jest.mock('../../../../utils/assessmentUtils')
+jest.mock('../../../../../logger', () => ({
+  info: jest.fn(),
+  error: jest.fn(),
+  warn: jest.fn(),
+  debug: jest.fn(),
+}))
+
+const mockCanAccessSanInfo = canAccessSanInfo as jest.Mock
+
+const createMockDeps = (getAssessmentVersion: jest.Mock): SentencePlanEffectsDeps =>
+  ({
+    coordinatorApi: { getAssessmentVersion },
+  }) as unknown as SentencePlanEffectsDeps
+
+const createMockContext = (): SentencePlanContext =>
+  ({
+    getData: jest.fn((key: string) => (key === 'assessmentUuid' ? 'plan-uuid' : undefined)),
+    getSession: jest.fn(() => ({ sessionDetails: { accessType: 'HMPPS_AUTH' }, caseDetails: { crn: 'X123456' } })),
+    getState: jest.fn(),
+    getRequestParam: jest.fn(() => 'version-uuid'),
+    setData: jest.fn(),
+  }) as unknown as SentencePlanContext
+
+describe('loadAssessmentVersionInfo', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockCanAccessSanInfo.mockReturnValue(true)
+    ;(transformAssessmentData as jest.Mock).mockReturnValue([])
+    ;(resolveCriminogenicNeedsData as jest.Mock).mockResolvedValue(null)
+  })
+
+  it('should load the assessment version from the URL', async () => {
+    // Arrange
+    const getAssessmentVersion = jest.fn().mockResolvedValue({
+      sentencePlanId: 'plan-uuid',
+      sanAssessmentData: {},
+      lastUpdatedTimestampSAN: '2024-03-01T10:00:00Z',
+    })
+    const context = createMockContext()
+
+    // Act
+    await loadAssessmentVersionInfo(createMockDeps(getAssessmentVersion))(context)
+
+    // Assert
+    expect(getAssessmentVersion).toHaveBeenCalledWith('version-uuid')
+    expect(context.setData).toHaveBeenCalledWith('assessmentLastUpdated', '1 March 2024')
+    expect(context.setData).toHaveBeenCalledWith('allAreasAssessmentStatus', 'success')
+  })
+
+  it('should not find a version that belongs to another plan', async () => {
+    // Arrange
+    const getAssessmentVersion = jest.fn().mockResolvedValue({ sentencePlanId: 'other-plan-uuid' })
+    const context = createMockContext()
+
+    // Act & Assert
+    await expect(loadAssessmentVersionInfo(createMockDeps(getAssessmentVersion))(context)).rejects.toThrow(NotFound)
+    expect(context.setData).not.toHaveBeenCalled()
+  })
+
+  it('should set the error state when the version cannot be loaded', async () => {
+    // Arrange
+    const getAssessmentVersion = jest.fn().mockRejectedValue(new Error('Coordinator API 500'))
+    const context = createMockContext()
+
+    // Act
+    await loadAssessmentVersionInfo(createMockDeps(getAssessmentVersion))(context)
+
+    // Assert
+    expect(context.setData).toHaveBeenCalledWith('allAreasAssessmentStatus', 'error')
+  })
+})
@@ -0,0 +1,29 @@
+import { NotFound } from 'http-errors'
+import { SentencePlanContext, SentencePlanEffectsDeps } from '../types'
+import { loadAssessmentAreas } from './loadAllAreasAssessmentInfo'
+
+/**
+ * Load a previous version of the SAN assessment, by the version uuid in the URL, and group
+ * its areas the same way as loadAllAreasAssessmentInfo does for the latest version.
+ *
+ * The version must belong to this plan, so a version uuid from another case is not found.
+ * Linked indicators and scores are the current ones, as versions do not record them.
+ *
+ * Sets the same data as loadAllAreasAssessmentInfo, e.g.:
+ * - Data('highScoringAreas'), Data('lowScoringAreas'), Data('otherAreas'), Data('incompleteAreas')
+ * - Data('assessmentLastUpdated'): When this version was last updated
+ * - Data('allAreasAssessmentStatus')
+ */
+export const loadAssessmentVersionInfo = (deps: SentencePlanEffectsDeps) => async (context: SentencePlanContext) => {
+  const versionUuid = context.getRequestParam('uuid')
+
+  await loadAssessmentAreas(deps, context, async assessmentUuid => {
+    const assessmentVersion = await deps.coordinatorApi.getAssessmentVersion(versionUuid)
+
+    if (assessmentVersion.sentencePlanId !== assessmentUuid) {
+      throw new NotFound('Assessment version not found')
+    }
+
+    return assessmentVersion
+  })
+}
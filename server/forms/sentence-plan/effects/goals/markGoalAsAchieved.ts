@@ -1,12 +1,13 @@
 import { InternalServerError } from 'http-errors'
 import { SentencePlanContext, SentencePlanEffectsDeps } from '../types'
 import { wrapAll } from '../../../../data/aap-api/wrappers'
-import { Commands } from '../../../../interfaces/aap-api/command'
+import CommandBatch from '../../../../data/aap-api/commandBatch'
 import { getRequiredEffectContext, getPractitionerName } from './goalUtils'
 import { getOrCreateNotesCollection, buildAddNoteCommand } from './noteUtils'
 import { snapshotFromGoal } from './goalSnapshot'
 import { trackBusinessEvent } from '../telemetry/trackBusinessEvent'
 import { publishGoalsCompletedEvent } from '../domain-events/publishGoalsDomainEvent'
+import { executePlanCommands } from '../plan/executePlanCommands'
 
 /**
  * Mark a goal as achieved
@@ -34,10 +35,10 @@ export const markGoalAsAchieved = (deps: SentencePlanEffectsDeps) => async (cont
   const statusDate = new Date().toISOString()
   const goalSnapshot = snapshotFromGoal(activeGoal, { status: 'ACHIEVED', statusDate })
 
-  const commands: Commands[] = []
+  const batch = new CommandBatch()
 
   // 1. Update goal status to ACHIEVED
-  commands.push({
+  batch.add({
     type: 'UpdateCollectionItemPropertiesCommand',
     collectionItemUuid: activeGoal.uuid,
     added: wrapAll({
@@ -62,9 +63,9 @@ export const markGoalAsAchieved = (deps: SentencePlanEffectsDeps) => async (cont
 
   // 2. Add achieved note if provided
   if (howHelped && typeof howHelped === 'string' && howHelped.trim().length > 0) {
-    const collectionUuid = await getOrCreateNotesCollection(deps, { activeGoal, assessmentUuid, user })
+    const collectionUuid = getOrCreateNotesCollection(batch, { activeGoal, assessmentUuid, user })
 
-    commands.push(
+    batch.add(
       buildAddNoteCommand({
         collectionUuid,
         noteText: howHelped,
@@ -77,8 +78,8 @@ export const markGoalAsAchieved = (deps: SentencePlanEffectsDeps) => async (cont
   }
 
   // Execute all commands in a single batch
-  if (commands.length > 0) {
-    await deps.api.executeCommands(...commands)
+  if (batch.size > 0) {
+    await executePlanCommands(deps, context, ...batch.commands)
   }
 
   trackBusinessEvent(context, 'ACHIEVE_GOAL_PAGE_SUBMITTED', { assessmentUuid, goalUuid: activeGoal.uuid })
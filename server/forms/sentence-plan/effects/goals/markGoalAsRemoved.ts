@@ -1,12 +1,14 @@
 import { InternalServerError } from 'http-errors'
 import { SentencePlanContext, SentencePlanEffectsDeps } from '../types'
 import { wrapAll } from '../../../../data/aap-api/wrappers'
-import { Commands } from '../../../../interfaces/aap-api/command'
+import CommandBatch from '../../../../data/aap-api/commandBatch'
 import { getRequiredEffectContext, getPractitionerName } from './goalUtils'
 import { getOrCreateNotesCollection, buildAddNoteCommand } from './noteUtils'
 import { snapshotFromGoal } from './goalSnapshot'
 import { trackBusinessEvent } from '../telemetry/trackBusinessEvent'
 import { publishGoalsCompletedEvent } from '../domain-events/publishGoalsDomainEvent'
+import { publishGoalRemovedEvent } from '../domain-events/publishSentencePlanDomainEvent'
+import { executePlanCommands } from '../plan/executePlanCommands'
 
 /**
  * Mark a goal as removed
@@ -39,10 +41,10 @@ export const markGoalAsRemoved = (deps: SentencePlanEffectsDeps) => async (conte
   // Removing a goal also clears its target date, so the snapshot drops it too.
   const goalSnapshot = snapshotFromGoal(activeGoal, { status: 'REMOVED', statusDate, targetDate: undefined })
 
-  const commands: Commands[] = []
+  const batch = new CommandBatch()
 
   // 1. Update goal status to REMOVED
-  commands.push({
+  batch.add({
     type: 'UpdateCollectionItemPropertiesCommand',
     collectionItemUuid: activeGoal.uuid,
     added: wrapAll({
@@ -65,7 +67,7 @@ export const markGoalAsRemoved = (deps: SentencePlanEffectsDeps) => async (conte
   })
 
   // 2. Clear target_date so it doesn't persist if the goal is re-added as a future goal
-  commands.push({
+  batch.add({
     type: 'UpdateCollectionItemAnswersCommand',
     collectionItemUuid: activeGoal.uuid,
     added: {},
@@ -76,9 +78,9 @@ export const markGoalAsRemoved = (deps: SentencePlanEffectsDeps) => async (conte
 
   // 3. Add removal note if provided
   if (removalNote && typeof removalNote === 'string' && removalNote.trim().length > 0) {
-    const collectionUuid = await getOrCreateNotesCollection(deps, { activeGoal, assessmentUuid, user })
+    const collectionUuid = getOrCreateNotesCollection(batch, { activeGoal, assessmentUuid, user })
 
-    commands.push(
+    batch.add(
       buildAddNoteCommand({
         collectionUuid,
         noteText: removalNote,
@@ -91,11 +93,12 @@ export const markGoalAsRemoved = (deps: SentencePlanEffectsDeps) => async (conte
   }
 
   // Execute all commands in a single batch
-  if (commands.length > 0) {
-    await deps.api.executeCommands(...commands)
+  if (batch.size > 0) {
+    await executePlanCommands(deps, context, ...batch.commands)
   }
 
   trackBusinessEvent(context, 'REMOVE_GOAL_PAGE_SUBMITTED', { assessmentUuid, goalUuid: activeGoal.uuid })
 
+  await publishGoalRemovedEvent(deps, context, activeGoal.uuid)
   await publishGoalsCompletedEvent(deps, context, activeGoal.uuid)
 }
@@ -1,7 +1,8 @@
 import { User } from '../../../../interfaces/user'
 import { Commands } from '../../../../interfaces/aap-api/command'
 import { wrapAll } from '../../../../data/aap-api/wrappers'
-import { DerivedGoal, SentencePlanEffectsDeps } from '../types'
+import CommandBatch from '../../../../data/aap-api/commandBatch'
+import { DerivedGoal } from '../types'
 
 /**
  * Note types used in goal lifecycle events
@@ -9,25 +10,27 @@ import { DerivedGoal, SentencePlanEffectsDeps } from '../types'
 export type NoteType = 'READDED' | 'REMOVED' | 'ACHIEVED'
 
 /**
- * Get existing notes collection UUID or create one if it doesn't exist.
+ * Get existing notes collection UUID, or add a command creating one to the batch.
  *
  * Used by effects that need to add notes to a goal (remove, achieve, re-add, progress).
+ * When the collection doesn't exist yet, the returned value is a placeholder ref to the
+ * collection created earlier in the same batch.
  */
-export const getOrCreateNotesCollection = async (
-  deps: SentencePlanEffectsDeps,
+export const getOrCreateNotesCollection = (
+  batch: CommandBatch,
   params: {
     activeGoal: DerivedGoal
     assessmentUuid: string
     user: User
   },
-): Promise<string> => {
+): string => {
   const { activeGoal, assessmentUuid, user } = params
 
   if (activeGoal.notesCollectionUuid) {
     return activeGoal.notesCollectionUuid
   }
 
-  const createResult = await deps.api.executeCommand({
+  const createCollection = batch.add({
     type: 'CreateCollectionCommand',
     name: 'NOTES',
     parentCollectionItemUuid: activeGoal.uuid,
@@ -35,7 +38,7 @@ export const getOrCreateNotesCollection = async (
     user,
   })
 
-  return createResult.collectionUuid
+  return createCollection.ref('collectionUuid')
 }
 
 /**
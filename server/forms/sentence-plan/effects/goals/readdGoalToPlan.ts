@@ -1,12 +1,14 @@
 import { InternalServerError } from 'http-errors'
 import { DerivedGoal, SentencePlanContext, SentencePlanEffectsDeps } from '../types'
 import { wrapAll } from '../../../../data/aap-api/wrappers'
-import { Commands } from '../../../../interfaces/aap-api/command'
+import CommandBatch from '../../../../data/aap-api/commandBatch'
 import { getRequiredEffectContext, calculateTargetDate, determineGoalStatus, getPractitionerName } from './goalUtils'
 import { getOrCreateNotesCollection, buildAddNoteCommand } from './noteUtils'
 import { snapshotFromGoal } from './goalSnapshot'
 import { trackBusinessEvent } from '../telemetry/trackBusinessEvent'
 import { publishGoalsAddedEvent } from '../domain-events/publishGoalsDomainEvent'
+import { publishGoalReaddedEvent } from '../domain-events/publishSentencePlanDomainEvent'
+import { executePlanCommands } from '../plan/executePlanCommands'
 
 /**
  * Re-add a removed goal back to the plan
@@ -54,7 +56,7 @@ export const readdGoalToPlan = (deps: SentencePlanEffectsDeps) => async (context
     targetDate: targetDate ?? undefined,
   })
 
-  const commands: Commands[] = []
+  const batch = new CommandBatch()
 
   // 1. Update goal status and target date
   const propertiesToAdd: Record<string, unknown> = {
@@ -67,7 +69,7 @@ export const readdGoalToPlan = (deps: SentencePlanEffectsDeps) => async (context
     answersToAdd.target_date = targetDate
   }
 
-  commands.push({
+  batch.add({
     type: 'UpdateCollectionItemPropertiesCommand',
     collectionItemUuid: activeGoal.uuid,
     added: wrapAll(propertiesToAdd),
@@ -88,7 +90,7 @@ export const readdGoalToPlan = (deps: SentencePlanEffectsDeps) => async (context
 
   // Update answers if we have a target date
   if (Object.keys(answersToAdd).length > 0) {
-    commands.push({
+    batch.add({
       type: 'UpdateCollectionItemAnswersCommand',
       collectionItemUuid: activeGoal.uuid,
       added: wrapAll(answersToAdd),
@@ -100,9 +102,9 @@ export const readdGoalToPlan = (deps: SentencePlanEffectsDeps) => async (context
 
   // 2. Add re-add note if provided
   if (readdNote && typeof readdNote === 'string' && readdNote.trim().length > 0) {
-    const collectionUuid = await getOrCreateNotesCollection(deps, { activeGoal, assessmentUuid, user })
+    const collectionUuid = getOrCreateNotesCollection(batch, { activeGoal, assessmentUuid, user })
 
-    commands.push(
+    batch.add(
       buildAddNoteCommand({
         collectionUuid,
         noteText: readdNote,
@@ -114,14 +116,7 @@ export const readdGoalToPlan = (deps: SentencePlanEffectsDeps) => async (context
     )
   }
 
-  // Execute all commands in a single batch
-  if (commands.length > 0) {
-    await deps.api.executeCommands(...commands)
-  }
-
-  trackBusinessEvent(context, 'READD_GOAL_PAGE_SUBMITTED', { assessmentUuid, goalUuid: activeGoal.uuid })
-
-  // Move goal to bottom of the list
+  // 3. Move goal to bottom of the list
   const goals = context.getData('goals') as DerivedGoal[]
 
   if (goals && goals.length > 1) {
@@ -129,7 +124,7 @@ export const readdGoalToPlan = (deps: SentencePlanEffectsDeps) => async (context
 
     // Only reorder if the goal isn't already at the bottom
     if (activeGoal.collectionIndex < maxCollectionIndex) {
-      await deps.api.executeCommand({
+      batch.add({
         type: 'ReorderCollectionItemCommand',
         collectionItemUuid: activeGoal.uuid,
         index: maxCollectionIndex,
@@ -139,5 +134,13 @@ export const readdGoalToPlan = (deps: SentencePlanEffectsDeps) => async (context
     }
   }
 
+  // Execute all commands in a single batch
+  if (batch.size > 0) {
+    await executePlanCommands(deps, context, ...batch.commands)
+  }
+
+  trackBusinessEvent(context, 'READD_GOAL_PAGE_SUBMITTED', { assessmentUuid, goalUuid: activeGoal.uuid })
+
+  await publishGoalReaddedEvent(deps, context, activeGoal.uuid, status)
   await publishGoalsAddedEvent(deps, context, activeGoal.uuid)
 }
@@ -1,5 +1,6 @@
 import { DerivedGoal, SentencePlanContext, SentencePlanEffectsDeps } from '../types'
 import { getRequiredEffectContext } from './goalUtils'
+import { executePlanCommands } from '../plan/executePlanCommands'
 
 /**
  * Reorder a goal within its status group.
@@ -55,7 +56,7 @@ export const reorderGoal = (deps: SentencePlanEffectsDeps) => async (context: Se
   const adjacentGoal = sameStatusGoals[adjacentFilteredIndex]
 
   // Swap positions by moving current goal to adjacent goal's collection index
-  await deps.api.executeCommand({
+  await executePlanCommands(deps, context, {
     type: 'ReorderCollectionItemCommand',
     collectionItemUuid: goal.uuid,
     index: adjacentGoal.collectionIndex,
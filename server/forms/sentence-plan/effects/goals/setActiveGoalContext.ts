@@ -25,6 +25,7 @@ export const setActiveGoalContext = () => async (context: SentencePlanContext) =
       actor: step.actor,
       description: step.description,
       status: step.status,
+      targetDate: step.targetDate,
     }))
 
     context.setData('activeGoalStepsOriginal', stepsOriginal)
@@ -2,7 +2,7 @@ import { InternalServerError } from 'http-errors'
 import { trackBusinessEvent } from '../telemetry/trackBusinessEvent'
 import { SentencePlanContext, SentencePlanEffectsDeps } from '../types'
 import { wrapAll } from '../../../../data/aap-api/wrappers'
-import { Commands } from '../../../../interfaces/aap-api/command'
+import CommandBatch from '../../../../data/aap-api/commandBatch'
 import {
   getRequiredEffectContext,
   getPractitionerName,
@@ -14,6 +14,7 @@ import {
 import { snapshotFromGoal } from './goalSnapshot'
 import { hashGoalText, matchSuggestedGoal } from '../../../../utils/goalTelemetry'
 import { areasOfNeed } from '../../versions/v1.0/constants'
+import { executePlanCommands } from '../plan/executePlanCommands'
 
 /**
  * Update an existing goal
@@ -82,35 +83,36 @@ export const updateActiveGoal = (deps: SentencePlanEffectsDeps) => async (contex
   })
 
   // Batch both updates in a single API call for atomicity
-  const commands: Commands[] = [
-    {
-      type: 'UpdateCollectionItemAnswersCommand',
-      collectionItemUuid: activeGoal.uuid,
-      added: wrapAll(answers),
-      removed: answersToRemove,
-      assessmentUuid,
-      user,
-    },
-    {
-      type: 'UpdateCollectionItemPropertiesCommand',
-      collectionItemUuid: activeGoal.uuid,
-      added: wrapAll(properties),
-      removed: [],
-      timeline: {
-        type: 'GOAL_UPDATED',
-        data: {
-          goalUuid: activeGoal.uuid,
-          goalTitle: goalTitle as string,
-          updatedBy: getPractitionerName(context, user),
-          goalSnapshot,
-        },
+  const batch = new CommandBatch()
+
+  batch.add({
+    type: 'UpdateCollectionItemAnswersCommand',
+    collectionItemUuid: activeGoal.uuid,
+    added: wrapAll(answers),
+    removed: answersToRemove,
+    assessmentUuid,
+    user,
+  })
+
+  batch.add({
+    type: 'UpdateCollectionItemPropertiesCommand',
+    collectionItemUuid: activeGoal.uuid,
+    added: wrapAll(properties),
+    removed: [],
+    timeline: {
+      type: 'GOAL_UPDATED',
+      data: {
+        goalUuid: activeGoal.uuid,
+        goalTitle: goalTitle as string,
+        updatedBy: getPractitionerName(context, user),
+        goalSnapshot,
       },
-      assessmentUuid,
-      user,
     },
-  ]
+    assessmentUuid,
+    user,
+  })
 
-  await deps.api.executeCommands(...commands)
+  await executePlanCommands(deps, context, ...batch.commands)
 
   const selectedArea = areasOfNeed.find(area => area.slug === activeGoal.areaOfNeed)
   const goalMatch = matchSuggestedGoal(goalTitle as string, selectedArea?.goals ?? [])
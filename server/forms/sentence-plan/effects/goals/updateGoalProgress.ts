@@ -1,23 +1,25 @@
 import { InternalServerError } from 'http-errors'
 import { DerivedStep, SentencePlanContext, SentencePlanEffectsDeps } from '../types'
 import { wrapAll } from '../../../../data/aap-api/wrappers'
-import { Commands } from '../../../../interfaces/aap-api/command'
+import CommandBatch from '../../../../data/aap-api/commandBatch'
 import { getRequiredEffectContext, getPractitionerName } from './goalUtils'
 import { getOrCreateNotesCollection, buildAddNoteCommand } from './noteUtils'
 import { snapshotFromGoal } from './goalSnapshot'
 import { trackBusinessEvent } from '../telemetry/trackBusinessEvent'
+import { executePlanCommands } from '../plan/executePlanCommands'
 
 /**
- * Update goal progress - update step statuses and add progress note
+ * Update goal progress - update step statuses and target dates, and add progress note
  *
  * This effect:
- * 1. Updates the status of each step based on form fields (step_status_0, step_status_1, etc.)
+ * 1. Updates the status and target date of each step based on form fields (step_status_0, step_target_date_0, etc.)
  * 2. Adds a progress note if the user entered one
  * 3. Emits a GOAL_UPDATED timeline event if any changes were made
  * 4. Sets 'allStepsCompleted' boolean in context (used by confirm-if-achieved journey)
  *
  * Form fields used:
  * - step_status_{index}: Status for each step
+ * - step_target_date_{index}: Optional target date for each step (ISO date, empty to clear)
  * - progress_notes: Optional progress note text
  */
 export const updateGoalProgress = (deps: SentencePlanEffectsDeps) => async (context: SentencePlanContext) => {
@@ -33,31 +35,44 @@ export const updateGoalProgress = (deps: SentencePlanEffectsDeps) => async (cont
   const hasProgressNotes = progressNotes && typeof progressNotes === 'string' && progressNotes.trim().length > 0
 
   const steps: DerivedStep[] = activeGoal.steps ?? []
-  const commands: Commands[] = []
+  const batch = new CommandBatch()
 
-  // Track if any step statuses changed
-  let hasStepStatusChanges = false
+  // A missing target date answer keeps the saved date; an empty one clears it
+  const getTargetDate = (step: DerivedStep, index: number): string | undefined => {
+    const answer = context.getAnswer(`step_target_date_${index}`)
+    return answer === undefined ? step.targetDate : answer || undefined
+  }
+
+  // Track if any step statuses or target dates changed
+  let hasStepChanges = false
 
-  // 1. Update step statuses
+  // 1. Update step statuses and target dates
   steps.forEach((step, index) => {
     const newStatus = context.getAnswer(`step_status_${index}`)
+    const newTargetDate = getTargetDate(step, index)
+
+    // Only update what has changed
+    const hasStatusChanged = Boolean(newStatus) && newStatus !== step.status
+    const hasTargetDateChanged = newTargetDate !== step.targetDate
 
-    // Only update if status has changed
-    if (newStatus && newStatus !== step.status) {
-      hasStepStatusChanges = true
-      commands.push({
+    if (hasStatusChanged || hasTargetDateChanged) {
+      hasStepChanges = true
+      batch.add({
         type: 'UpdateCollectionItemAnswersCommand',
         collectionItemUuid: step.uuid,
         added: wrapAll({
-          status: newStatus,
+          status: hasStatusChanged ? newStatus : undefined,
+          target_date: hasTargetDateChanged ? newTargetDate : undefined,
         }),
-        removed: [],
+        removed: hasTargetDateChanged && !newTargetDate ? ['target_date'] : [],
         assessmentUuid,
         user,
       })
+    }
 
+    if (hasStatusChanged) {
       // Update status_date property when status changes
-      commands.push({
+      batch.add({
         type: 'UpdateCollectionItemPropertiesCommand',
         collectionItemUuid: step.uuid,
         added: wrapAll({
@@ -72,9 +87,9 @@ export const updateGoalProgress = (deps: SentencePlanEffectsDeps) => async (cont
 
   // 2. Add progress note if provided
   if (hasProgressNotes) {
-    const collectionUuid = await getOrCreateNotesCollection(deps, { activeGoal, assessmentUuid, user })
+    const collectionUuid = getOrCreateNotesCollection(batch, { activeGoal, assessmentUuid, user })
 
-    commands.push(
+    batch.add(
       buildAddNoteCommand({
         collectionUuid,
         noteText: progressNotes,
@@ -87,19 +102,20 @@ export const updateGoalProgress = (deps: SentencePlanEffectsDeps) => async (cont
   }
 
   // 3. Emit GOAL_UPDATED timeline event if any changes were made
-  if (hasStepStatusChanges || hasProgressNotes) {
+  if (hasStepChanges || hasProgressNotes) {
     const postUpdateSteps = steps.map((step, index) => {
       const newStatus = context.getAnswer(`step_status_${index}`)
       return {
         actor: step.actor,
         description: step.description,
         status: typeof newStatus === 'string' && newStatus ? newStatus : step.status,
+        targetDate: getTargetDate(step, index),
       }
     })
 
     const goalSnapshot = snapshotFromGoal(activeGoal, { steps: postUpdateSteps })
 
-    commands.push({
+    batch.add({
       type: 'UpdateCollectionItemPropertiesCommand',
       collectionItemUuid: activeGoal.uuid,
       added: {},
@@ -120,11 +136,11 @@ export const updateGoalProgress = (deps: SentencePlanEffectsDeps) => async (cont
   }
 
   // Execute all commands in a single batch
-  if (commands.length > 0) {
-    await deps.api.executeCommands(...commands)
+  if (batch.size > 0) {
+    await executePlanCommands(deps, context, ...batch.commands)
   }
 
-  if (hasStepStatusChanges || hasProgressNotes) {
+  if (hasStepChanges || hasProgressNotes) {
     trackBusinessEvent(context, 'UPDATE_STEP_PROGRESS_PAGE_SUBMITTED', { assessmentUuid, goalUuid: activeGoal.uuid })
   }
 
@@ -4,13 +4,21 @@ import { loadNotifications } from './notifications/loadNotifications'
 import { createNavigationEffects } from '../../shared/navigation/createNavigationEffects'
 import { Nav } from './navigation'
 import { initializeSessionFromAccess } from './session/initializeSessionFromAccess'
+import { resolveCaseContext } from './session/resolveCaseContext'
 import { loadSessionData } from './session/loadSessionData'
 import { loadSentenceInformation } from './session/loadSentenceInformation'
 import { loadPlan } from './plan/loadPlan'
 import { deriveGoalsWithStepsFromAssessment } from './goals/deriveGoalsWithStepsFromAssessment'
 import { derivePlanAgreementsFromAssessment } from './plan/derivePlanAgreementsFromAssessment'
 import { loadPlanTimeline } from './plan/loadPlanTimeline'
+import { loadPlanTimelinePage } from './plan/loadPlanTimelinePage'
+import { loadPlanHistoryFilters } from './plan/loadPlanHistoryFilters'
+import { applyPlanHistoryFilters } from './plan/applyPlanHistoryFilters'
+import { loadPlanExportOptions } from './plan/loadPlanExportOptions'
+import { applyPlanExportOptions } from './plan/applyPlanExportOptions'
+import { loadPlanConflict } from './plan/loadPlanConflict'
 import { derivePlanHistoryEntries } from './plan/derivePlanHistoryEntries'
+import { derivePlanDataExport } from './plan/derivePlanDataExport'
 import { derivePlanLastUpdated, derivePlanLastUpdatedForHistoric } from './plan/derivePlanLastUpdated'
 import { updatePlanAgreementStatus } from './plan/updatePlanAgreementStatus'
 import { createGoal } from './goals/createGoal'
@@ -18,8 +26,10 @@ import { setAreaDataFromUrlParam } from './goals/setAreaDataFromUrlParam'
 import { setAreaDataFromActiveGoal } from './goals/setAreaDataFromActiveGoal'
 import { loadAreaAssessmentInfo } from './goals/loadAreaAssessmentInfo'
 import { loadAllAreasAssessmentInfo } from './goals/loadAllAreasAssessmentInfo'
+import { loadAssessmentVersionInfo } from './goals/loadAssessmentVersionInfo'
 import { setActiveGoalContext } from './goals/setActiveGoalContext'
 import { loadActiveGoalForEdit } from './goals/loadActiveGoalForEdit'
+import { deriveGoalHistoryEntries } from './goals/deriveGoalHistoryEntries'
 import { updateActiveGoal } from './goals/updateActiveGoal'
 import { updateGoalProgress } from './goals/updateGoalProgress'
 import { markGoalAsAchieved } from './goals/markGoalAsAchieved'
@@ -35,7 +45,10 @@ import { setPrivacyAccepted } from './access/setPrivacyAccepted'
 import { updatePlanAgreement } from './plan/updatePlanAgreement'
 import { loadPreviousVersions } from './plan/loadPreviousVersions'
 import { loadHistoricPlan } from './plan/loadHistoricPlan'
+import { loadPlanComparison } from './plan/loadPlanComparison'
 import { sendAuditEvent } from './audit/sendAuditEvent'
+import { deriveAccessLogPermission } from './audit/deriveAccessLogPermission'
+import { loadAccessLog } from './audit/loadAccessLog'
 import { loadFeatureFlags } from './feature-flags/loadFeatureFlags'
 import { loadSupervisionPackage } from './supervision-package/loadSupervisionPackage'
 import { sendTelemetryEvent } from './telemetry/sendTelemetryEvent'
@@ -78,6 +91,7 @@ export { AuditEvent } from '../../../services/auditService'
  * ```
  */
 export const SentencePlanEffects = {
+  resolveCaseContext: sentencePlanEffectRegistry.register(resolveCaseContext),
   initializeSessionFromAccess: sentencePlanEffectRegistry.register(initializeSessionFromAccess),
   loadSessionData: sentencePlanEffectRegistry.register(loadSessionData),
   loadSentenceInformation: sentencePlanEffectRegistry.register(loadSentenceInformation),
@@ -90,20 +104,30 @@ export const SentencePlanEffects = {
   deriveGoalsWithStepsFromAssessment: sentencePlanEffectRegistry.register(deriveGoalsWithStepsFromAssessment),
   derivePlanAgreementsFromAssessment: sentencePlanEffectRegistry.register(derivePlanAgreementsFromAssessment),
   loadPlanTimeline: sentencePlanEffectRegistry.register(loadPlanTimeline),
+  loadPlanTimelinePage: sentencePlanEffectRegistry.register(loadPlanTimelinePage),
+  loadPlanHistoryFilters: sentencePlanEffectRegistry.register(loadPlanHistoryFilters),
+  applyPlanHistoryFilters: sentencePlanEffectRegistry.register(applyPlanHistoryFilters),
+  loadPlanExportOptions: sentencePlanEffectRegistry.register(loadPlanExportOptions),
+  applyPlanExportOptions: sentencePlanEffectRegistry.register(applyPlanExportOptions),
+  loadPlanConflict: sentencePlanEffectRegistry.register(loadPlanConflict),
   derivePlanHistoryEntries: sentencePlanEffectRegistry.register(derivePlanHistoryEntries),
+  derivePlanDataExport: sentencePlanEffectRegistry.register(derivePlanDataExport),
   derivePlanLastUpdated: sentencePlanEffectRegistry.register(derivePlanLastUpdated),
   derivePlanLastUpdatedForHistoric: sentencePlanEffectRegistry.register(derivePlanLastUpdatedForHistoric),
   updatePlanAgreementStatus: sentencePlanEffectRegistry.register(updatePlanAgreementStatus),
   updatePlanAgreement: sentencePlanEffectRegistry.register(updatePlanAgreement),
   loadPreviousVersions: sentencePlanEffectRegistry.register(loadPreviousVersions),
   loadHistoricPlan: sentencePlanEffectRegistry.register(loadHistoricPlan),
+  loadPlanComparison: sentencePlanEffectRegistry.register(loadPlanComparison),
   createGoal: sentencePlanEffectRegistry.register(createGoal),
   setAreaDataFromUrlParam: sentencePlanEffectRegistry.register(setAreaDataFromUrlParam),
   setAreaDataFromActiveGoal: sentencePlanEffectRegistry.register(setAreaDataFromActiveGoal),
   loadAreaAssessmentInfo: sentencePlanEffectRegistry.register(loadAreaAssessmentInfo),
   loadAllAreasAssessmentInfo: sentencePlanEffectRegistry.register(loadAllAreasAssessmentInfo),
+  loadAssessmentVersionInfo: sentencePlanEffectRegistry.register(loadAssessmentVersionInfo),
   setActiveGoalContext: sentencePlanEffectRegistry.register(setActiveGoalContext),
   loadActiveGoalForEdit: sentencePlanEffectRegistry.register(loadActiveGoalForEdit),
+  deriveGoalHistoryEntries: sentencePlanEffectRegistry.register(deriveGoalHistoryEntries),
   updateActiveGoal: sentencePlanEffectRegistry.register(updateActiveGoal),
   updateGoalProgress: sentencePlanEffectRegistry.register(updateGoalProgress),
   markGoalAsAchieved: sentencePlanEffectRegistry.register(markGoalAsAchieved),
@@ -116,6 +140,8 @@ export const SentencePlanEffects = {
   removeStepFromStepEditSession: sentencePlanEffectRegistry.register(removeStepFromStepEditSession),
   saveStepEditSession: sentencePlanEffectRegistry.register(saveStepEditSession),
   sendAuditEvent: sentencePlanEffectRegistry.register(sendAuditEvent),
+  deriveAccessLogPermission: sentencePlanEffectRegistry.register(deriveAccessLogPermission),
+  loadAccessLog: sentencePlanEffectRegistry.register(loadAccessLog),
   sendTelemetryEvent: sentencePlanEffectRegistry.register(sendTelemetryEvent),
   loadFeatureFlags: sentencePlanEffectRegistry.register(loadFeatureFlags),
   loadSupervisionPackage: sentencePlanEffectRegistry.register(loadSupervisionPackage),
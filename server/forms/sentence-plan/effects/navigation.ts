@@ -15,6 +15,12 @@ export const Nav = {
   PLAN_HISTORY: 'plan-history',
   PREVIOUS_VERSIONS: 'previous-versions',
   VIEW_HISTORIC: 'view-historic',
+  COMPARE_VERSIONS: 'compare-versions',
+  ACCESS_LOG: 'access-log',
+  PLAN_CHANGED: 'plan-changed',
+  EXPORT_OPTIONS: 'export-options',
+  EASY_READ: 'easy-read',
+  EXPORT_DATA: 'export-data',
   UPDATE_AGREE_PLAN: 'update-agree-plan',
   AGREE_PLAN: 'agree-plan',
   SELECT_AREA_OF_NEED: 'select-area-of-need',
@@ -29,7 +35,9 @@ export const Nav = {
   CONFIRM_REMOVE_GOAL: 'confirm-remove-goal',
   CONFIRM_READD_GOAL: 'confirm-readd-goal',
   VIEW_INACTIVE_GOAL: 'view-inactive-goal',
+  GOAL_HISTORY: 'goal-history',
   ABOUT: 'about',
+  VIEW_PREVIOUS_ASSESSMENT: 'view-previous-assessment',
   SUPERVISION_PACKAGE: 'supervision-package',
 } as const
 
@@ -48,6 +56,12 @@ export const NAV_KEY_PATTERNS: Record<NavigationReferrer, string> = {
   [Nav.PLAN_HISTORY]: '/plan/plan-history',
   [Nav.PREVIOUS_VERSIONS]: '/plan/previous-versions',
   [Nav.VIEW_HISTORIC]: '/view-historic/',
+  [Nav.COMPARE_VERSIONS]: '/plan/compare/',
+  [Nav.ACCESS_LOG]: '/plan/access-log',
+  [Nav.PLAN_CHANGED]: '/plan/plan-changed',
+  [Nav.EXPORT_OPTIONS]: '/plan/export-options',
+  [Nav.EASY_READ]: '/plan/easy-read',
+  [Nav.EXPORT_DATA]: '/plan/export-data',
   [Nav.UPDATE_AGREE_PLAN]: '/update-agree-plan',
   [Nav.AGREE_PLAN]: '/agree-plan',
   [Nav.SELECT_AREA_OF_NEED]: '/select-area-of-need',
@@ -62,6 +76,8 @@ export const NAV_KEY_PATTERNS: Record<NavigationReferrer, string> = {
   [Nav.CONFIRM_REMOVE_GOAL]: '/confirm-remove-goal',
   [Nav.CONFIRM_READD_GOAL]: '/confirm-readd-goal',
   [Nav.VIEW_INACTIVE_GOAL]: '/view-inactive-goal',
+  [Nav.GOAL_HISTORY]: '/history',
   [Nav.ABOUT]: '/about-person',
+  [Nav.VIEW_PREVIOUS_ASSESSMENT]: '/view-previous-version/',
   [Nav.SUPERVISION_PACKAGE]: '/supervision-package',
 }
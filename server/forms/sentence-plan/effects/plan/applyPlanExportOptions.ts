@@ -0,0 +1,19 @@
+import { SentencePlanContext } from '../types'
+import { buildPlanExportQuery, parsePlanExportOptions } from './planExportOptions'
+
+/**
+ * Turn the submitted export options into a print-preview URL, so the options live in
+ * the query string and reach the PDF download too. The URL is relative, so the print
+ * preview is for the case the options were chosen for.
+ *
+ * Sets:
+ * - Data('exportOptionsUrl'): URL to redirect to
+ */
+export const applyPlanExportOptions = () => async (context: SentencePlanContext) => {
+  const options = parsePlanExportOptions({
+    sections: context.getAnswer('export_sections') ?? [],
+    exclude: context.getAnswer('export_exclude') ?? [],
+  })
+
+  context.setData('exportOptionsUrl', `print-preview${buildPlanExportQuery(options)}`)
+}
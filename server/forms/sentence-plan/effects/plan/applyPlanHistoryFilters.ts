@@ -0,0 +1,30 @@
+import { PlanHistoryFilters, SentencePlanContext } from '../types'
+import { buildPlanHistoryHref, parsePlanHistoryFilters, toFilterDate } from './planHistoryFilters'
+
+/**
+ * Turn the submitted plan history filters into a plan-history URL, so the
+ * filters live in the query string and filtered pages can be bookmarked.
+ * Applying filters always goes back to the first page.
+ *
+ * Requires:
+ * - Data('planHistoryPractitioners'): Populated by loadPlanHistoryFilters
+ *
+ * Sets:
+ * - Data('planHistoryFilterUrl'): URL to redirect to
+ */
+export const applyPlanHistoryFilters = () => async (context: SentencePlanContext) => {
+  const practitionerOptions =
+    (context.getData('planHistoryPractitioners') as Array<{ value: string; text: string }>) ?? []
+
+  const filters: PlanHistoryFilters = parsePlanHistoryFilters(
+    {
+      from: toFilterDate(context.getAnswer('history_from')),
+      to: toFilterDate(context.getAnswer('history_to')),
+      type: context.getAnswer('history_event_types') ?? [],
+      practitioner: context.getAnswer('history_practitioner'),
+    },
+    practitionerOptions.filter(option => option.value).map(option => ({ id: option.value, name: option.text })),
+  )
+
+  context.setData('planHistoryFilterUrl', buildPlanHistoryHref(filters, 1))
+}
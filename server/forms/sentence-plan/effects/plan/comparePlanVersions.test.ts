@@ -0,0 +1,130 @@
+import { AssessmentVersionQueryResult } from '../../../../interfaces/aap-api/queryResult'
+import { AgreementStatus, DerivedGoal, DerivedStep, HistoricPlanData } from '../types'
+import { comparePlanVersions } from './comparePlanVersions'
+
+const createStep = (overrides: Partial<DerivedStep> = {}): DerivedStep => ({
+  uuid: 'step-1',
+  actor: 'probation_practitioner',
+  actorLabel: 'Probation practitioner',
+  status: 'NOT_STARTED',
+  description: 'Contact housing',
+  statusDate: '2024-01-10T10:00:00Z',
+  ...overrides,
+})
+
+const createGoal = (overrides: Partial<DerivedGoal> = {}): DerivedGoal => ({
+  uuid: 'goal-1',
+  title: 'Find somewhere to live',
+  status: 'ACTIVE',
+  targetDate: '2024-06-01',
+  statusDate: '2024-01-10T10:00:00Z',
+  areaOfNeed: 'accommodation',
+  areaOfNeedLabel: 'Accommodation',
+  relatedAreasOfNeed: [],
+  relatedAreasOfNeedLabels: [],
+  steps: [createStep()],
+  notes: [],
+  collectionIndex: 0,
+  isFirstInStatus: true,
+  isLastInStatus: true,
+  ...overrides,
+})
+
+const createVersion = (
+  date: string,
+  goals: DerivedGoal[],
+  latestAgreementStatus: AgreementStatus = 'AGREED',
+): HistoricPlanData & { date: string } => ({
+  date,
+  assessment: {} as AssessmentVersionQueryResult,
+  goals,
+  latestAgreementStatus,
+  latestAgreementDate: undefined,
+})
+
+describe('comparePlanVersions', () => {
+  it('should report no changes between identical versions', () => {
+    // Arrange
+    const from = createVersion('2024-01-01T00:00:00.000Z', [createGoal()])
+    const to = createVersion('2024-02-01T00:00:00.000Z', [createGoal()])
+
+    // Act
+    const result = comparePlanVersions(from, to)
+
+    // Assert
+    expect(result.hasChanges).toBe(false)
+    expect(result.agreementStatusChange).toBeUndefined()
+    expect(result.goals).toEqual([expect.objectContaining({ uuid: 'goal-1', change: 'unchanged', changes: [] })])
+  })
+
+  it('should mark added and removed goals, with removed goals last', () => {
+    // Arrange
+    const from = createVersion('2024-01-01T00:00:00.000Z', [createGoal({ uuid: 'goal-old' })])
+    const to = createVersion('2024-02-01T00:00:00.000Z', [createGoal({ uuid: 'goal-new' })])
+
+    // Act
+    const result = comparePlanVersions(from, to)
+
+    // Assert
+    expect(result.hasChanges).toBe(true)
+    expect(result.goals.map(goal => [goal.uuid, goal.change])).toEqual([
+      ['goal-new', 'added'],
+      ['goal-old', 'removed'],
+    ])
+    expect(result.goals[0].steps[0].change).toBe('added')
+    expect(result.goals[1].steps[0].change).toBe('removed')
+  })
+
+  it('should list changes to a goal and its steps', () => {
+    // Arrange
+    const from = createVersion('2024-01-01T00:00:00.000Z', [
+      createGoal({ steps: [createStep(), createStep({ uuid: 'step-2', description: 'Open a bank account' })] }),
+    ])
+    const to = createVersion('2024-02-01T00:00:00.000Z', [
+      createGoal({
+        title: 'Find a flat',
+        status: 'ACHIEVED',
+        steps: [createStep({ status: 'COMPLETED' }), createStep({ uuid: 'step-3', description: 'Get a bus pass' })],
+      }),
+    ])
+
+    // Act
+    const [goal] = comparePlanVersions(from, to).goals
+
+    // Assert
+    expect(goal.change).toBe('changed')
+    expect(goal.changes).toEqual([
+      { label: 'Goal', before: 'Find somewhere to live', after: 'Find a flat' },
+      { label: 'Status', before: 'Working on now', after: 'Achieved' },
+    ])
+    expect(goal.steps.map(step => [step.uuid, step.change, step.changes])).toEqual([
+      ['step-1', 'changed', [{ label: 'Status', before: 'Not started', after: 'Completed' }]],
+      ['step-3', 'added', []],
+      ['step-2', 'removed', []],
+    ])
+  })
+
+  it('should report a change in agreement status', () => {
+    // Arrange
+    const from = createVersion('2024-01-01T00:00:00.000Z', [], 'DO_NOT_AGREE')
+    const to = createVersion('2024-02-01T00:00:00.000Z', [], 'UPDATED_AGREED')
+
+    // Act
+    const result = comparePlanVersions(from, to)
+
+    // Assert
+    expect(result).toEqual({
+      from: '2024-01-01T00:00:00.000Z',
+      to: '2024-02-01T00:00:00.000Z',
+      fromAgreementStatus: 'DO_NOT_AGREE',
+      toAgreementStatus: 'UPDATED_AGREED',
+      agreementStatusChange: {
+        label: 'Agreement status',
+        before: 'Did not agree',
+        after: 'Agreement updated: agreed',
+      },
+      goals: [],
+      hasChanges: true,
+    })
+  })
+})
@@ -0,0 +1,152 @@
+import { formatDate } from '../../../../utils/utils'
+import {
+  AgreementStatus,
+  DerivedGoal,
+  DerivedStep,
+  GoalHistoryChange,
+  HistoricPlanData,
+  PlanComparison,
+  PlanComparisonGoal,
+  PlanComparisonStep,
+} from '../types'
+import { addChange, stepStatusLabel } from '../goals/deriveGoalHistoryEntries'
+
+const GOAL_STATUS_LABELS: Record<string, string> = {
+  ACTIVE: 'Working on now',
+  FUTURE: 'Future goal',
+  ACHIEVED: 'Achieved',
+  REMOVED: 'Removed',
+}
+
+const AGREEMENT_STATUS_LABELS: Record<AgreementStatus, string> = {
+  DRAFT: 'Not agreed yet',
+  AGREED: 'Agreed',
+  DO_NOT_AGREE: 'Did not agree',
+  COULD_NOT_ANSWER: 'Could not answer',
+  UPDATED_AGREED: 'Agreement updated: agreed',
+  UPDATED_DO_NOT_AGREE: 'Agreement updated: did not agree',
+}
+
+const goalStatusLabel = (status: string): string => GOAL_STATUS_LABELS[status] ?? status
+
+const toComparisonStep = (
+  step: DerivedStep,
+  change: PlanComparisonStep['change'],
+  changes: GoalHistoryChange[] = [],
+): PlanComparisonStep => ({
+  uuid: step.uuid,
+  actorLabel: step.actorLabel,
+  description: step.description,
+  status: step.status,
+  change,
+  changes,
+})
+
+const compareSteps = (fromSteps: DerivedStep[], toSteps: DerivedStep[]): PlanComparisonStep[] => {
+  const compared = toSteps.map(toStep => {
+    const fromStep = fromSteps.find(step => step.uuid === toStep.uuid)
+
+    if (!fromStep) {
+      return toComparisonStep(toStep, 'added')
+    }
+
+    const changes: GoalHistoryChange[] = []
+    addChange(changes, 'Who will do this', fromStep.actorLabel, toStep.actorLabel)
+    addChange(changes, 'Step', fromStep.description, toStep.description)
+    addChange(changes, 'Status', stepStatusLabel(fromStep.status), stepStatusLabel(toStep.status))
+    addChange(
+      changes,
+      'Target date',
+      fromStep.targetDate && formatDate(fromStep.targetDate, 'simple'),
+      toStep.targetDate && formatDate(toStep.targetDate, 'simple'),
+    )
+
+    return toComparisonStep(toStep, changes.length ? 'changed' : 'unchanged', changes)
+  })
+
+  const removed = fromSteps
+    .filter(fromStep => !toSteps.some(step => step.uuid === fromStep.uuid))
+    .map(step => toComparisonStep(step, 'removed'))
+
+  return [...compared, ...removed]
+}
+
+const toComparisonGoal = (
+  goal: DerivedGoal,
+  change: PlanComparisonGoal['change'],
+  steps: PlanComparisonStep[],
+  changes: GoalHistoryChange[] = [],
+): PlanComparisonGoal => ({
+  uuid: goal.uuid,
+  title: goal.title,
+  areaOfNeedLabel: goal.areaOfNeedLabel,
+  change,
+  changes,
+  steps,
+})
+
+const compareGoal = (fromGoal: DerivedGoal, toGoal: DerivedGoal): PlanComparisonGoal => {
+  const changes: GoalHistoryChange[] = []
+
+  addChange(changes, 'Goal', fromGoal.title, toGoal.title)
+  addChange(changes, 'Status', goalStatusLabel(fromGoal.status), goalStatusLabel(toGoal.status))
+  addChange(
+    changes,
+    'Target date',
+    fromGoal.targetDate && formatDate(fromGoal.targetDate, 'simple'),
+    toGoal.targetDate && formatDate(toGoal.targetDate, 'simple'),
+  )
+  addChange(changes, 'Area of need', fromGoal.areaOfNeedLabel, toGoal.areaOfNeedLabel)
+  addChange(
+    changes,
+    'Related areas of need',
+    fromGoal.relatedAreasOfNeedLabels.join(', '),
+    toGoal.relatedAreasOfNeedLabels.join(', '),
+  )
+
+  const steps = compareSteps(fromGoal.steps, toGoal.steps)
+  const isChanged = changes.length > 0 || steps.some(step => step.change !== 'unchanged')
+
+  return toComparisonGoal(toGoal, isChanged ? 'changed' : 'unchanged', steps, changes)
+}
+
+/**
+ * Compare the goals, steps and agreement status of two versions of a plan.
+ * Goals and steps are matched by uuid, so a goal moved between statuses is "changed",
+ * not removed and re-added. Goals keep the later version's order, with removed ones last.
+ */
+export const comparePlanVersions = (
+  from: HistoricPlanData & { date: string },
+  to: HistoricPlanData & { date: string },
+): PlanComparison => {
+  const compared = to.goals.map(toGoal => {
+    const fromGoal = from.goals.find(goal => goal.uuid === toGoal.uuid)
+
+    return fromGoal ? compareGoal(fromGoal, toGoal) : toComparisonGoal(toGoal, 'added', compareSteps([], toGoal.steps))
+  })
+
+  const removed = from.goals
+    .filter(fromGoal => !to.goals.some(goal => goal.uuid === fromGoal.uuid))
+    .map(fromGoal => toComparisonGoal(fromGoal, 'removed', compareSteps(fromGoal.steps, [])))
+
+  const goals = [...compared, ...removed]
+
+  const agreementStatusChanges: GoalHistoryChange[] = []
+  addChange(
+    agreementStatusChanges,
+    'Agreement status',
+    AGREEMENT_STATUS_LABELS[from.latestAgreementStatus],
+    AGREEMENT_STATUS_LABELS[to.latestAgreementStatus],
+  )
+  const [agreementStatusChange] = agreementStatusChanges
+
+  return {
+    from: from.date,
+    to: to.date,
+    fromAgreementStatus: from.latestAgreementStatus,
+    toAgreementStatus: to.latestAgreementStatus,
+    agreementStatusChange,
+    goals,
+    hasChanges: Boolean(agreementStatusChange) || goals.some(goal => goal.change !== 'unchanged'),
+  }
+}
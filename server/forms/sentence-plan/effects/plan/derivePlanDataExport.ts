@@ -0,0 +1,22 @@
+import { SentencePlanContext } from '../types'
+import { buildPlanDataExport } from './planDataExport'
+
+/**
+ * Derive the structured export of the plan from the goals, agreements and history
+ * already derived for the page.
+ *
+ * Sets:
+ * - Data('planDataExport'): The plan in the versioned PlanDataExport schema
+ */
+export const derivePlanDataExport = () => async (context: SentencePlanContext) => {
+  context.setData(
+    'planDataExport',
+    buildPlanDataExport({
+      crn: context.getSession()?.caseDetails?.crn,
+      goals: context.getData('goals') ?? [],
+      agreements: context.getData('planAgreements') ?? [],
+      history: context.getData('planHistoryEntries') ?? [],
+      exportedAt: new Date(),
+    }),
+  )
+}
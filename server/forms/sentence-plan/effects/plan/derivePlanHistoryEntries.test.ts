@@ -78,6 +78,33 @@ describe('derivePlanHistoryEntries', () => {
         createdBy: 'Jane Smith',
       })
     })
+
+    it('should take the goal UUID from the goal the event was recorded against when it has none of its own', () => {
+      // Arrange
+      const timeline: TimelineItem[] = [
+        createTimelineItem({
+          uuid: 'tl-1',
+          customType: 'GOAL_CREATED',
+          timestamp: '2024-06-15T10:00:00Z',
+          data: { collectionItemUuid: 'g-1' },
+          customData: { goalTitle: 'Find housing', createdBy: 'Jane Smith' },
+        }),
+      ]
+      const context = createMockContext({
+        planTimeline: timeline,
+        planAgreements: [],
+        goals: [createGoal({ uuid: 'g-1', title: 'Find housing' })],
+      })
+
+      // Act
+      derivePlanHistoryEntries()(context)
+
+      // Assert
+      const entries = (context.setData as jest.Mock).mock.calls[0][1] as PlanHistoryEntry[]
+      expect(entries).toEqual([
+        expect.objectContaining({ type: 'goal_created', goalUuid: 'g-1', currentGoalStatus: 'ACTIVE' }),
+      ])
+    })
   })
 
   describe('GOAL_ACHIEVED events', () => {
@@ -1159,4 +1186,228 @@ describe('derivePlanHistoryEntries', () => {
       )
     })
   })
+
+  describe('paging and filtering', () => {
+    const agreements = [
+      createAgreement({ uuid: 'newest', statusDate: '2024-09-01T00:00:00Z', createdBy: 'Jane Smith' }),
+      createAgreement({ uuid: 'middle', statusDate: '2024-06-20T00:00:00Z', createdBy: 'Bob Jones' }),
+      createAgreement({ uuid: 'oldest', statusDate: '2024-01-01T00:00:00Z', createdBy: 'Jane Smith' }),
+    ]
+
+    const getAgreementUuids = (context: SentencePlanContext) =>
+      ((context.setData as jest.Mock).mock.calls[0][1] as PlanHistoryEntry[])
+        .filter(entry => entry.type === 'agreement')
+        .map(entry => entry.uuid)
+
+    const events = ['2024-08-01T00:00:00Z', '2024-07-01T00:00:00Z', '2024-05-01T00:00:00Z', '2024-03-01T00:00:00Z'].map(
+      (timestamp, index) =>
+        createTimelineItem({
+          uuid: `event-${index + 1}`,
+          timestamp,
+          customType: 'GOAL_ACHIEVED',
+          customData: { goalUuid: `goal-${index + 1}`, goalTitle: 'Goal' },
+        }),
+    )
+
+    const getEntryDates = (context: SentencePlanContext) =>
+      ((context.setData as jest.Mock).mock.calls[0][1] as PlanHistoryEntry[]).map(
+        entry => `${entry.type} ${entry.date}`,
+      )
+
+    it('should show the agreements that fall between the newest events on this page and the next', () => {
+      // Arrange
+      const context = createMockContext({
+        planTimeline: events.slice(1, 3),
+        planAgreements: agreements,
+        goals: [],
+        planHistoryFilters: { page: 2, eventTypes: [] },
+        planTimelinePage: { page: 2, pageSize: 2, eventsLoaded: true, nextPageEventDate: events[3].timestamp },
+      })
+
+      // Act
+      derivePlanHistoryEntries()(context)
+
+      // Assert
+      expect(getEntryDates(context)).toEqual([
+        'goal_achieved 2024-07-01T00:00:00Z',
+        'agreement 2024-06-20T00:00:00Z',
+        'goal_achieved 2024-05-01T00:00:00Z',
+      ])
+      expect(context.setData).toHaveBeenCalledWith('planHistoryPagination', {
+        previousHref: 'plan-history',
+        nextHref: 'plan-history?page=3',
+      })
+    })
+
+    it('should show newer agreements on the first page and older ones on the last', () => {
+      // Arrange
+      const firstPage = createMockContext({
+        planTimeline: events.slice(0, 2),
+        planAgreements: agreements,
+        goals: [],
+        planTimelinePage: { page: 1, pageSize: 2, eventsLoaded: true, nextPageEventDate: events[2].timestamp },
+      })
+      const lastPage = createMockContext({
+        planTimeline: events.slice(2),
+        planAgreements: agreements,
+        goals: [],
+        planTimelinePage: { page: 2, pageSize: 2, eventsLoaded: true },
+      })
+
+      // Act
+      derivePlanHistoryEntries()(firstPage)
+      derivePlanHistoryEntries()(lastPage)
+
+      // Assert
+      expect(getEntryDates(firstPage)).toEqual([
+        'agreement 2024-09-01T00:00:00Z',
+        'goal_achieved 2024-08-01T00:00:00Z',
+        'goal_achieved 2024-07-01T00:00:00Z',
+        'agreement 2024-06-20T00:00:00Z',
+      ])
+      expect(getEntryDates(lastPage)).toEqual([
+        'goal_achieved 2024-05-01T00:00:00Z',
+        'goal_achieved 2024-03-01T00:00:00Z',
+        'agreement 2024-01-01T00:00:00Z',
+      ])
+      expect(lastPage.setData).toHaveBeenCalledWith('planHistoryPagination', {
+        previousHref: 'plan-history',
+        nextHref: undefined,
+      })
+    })
+
+    it('should show no agreements on a page past the last event', () => {
+      // Arrange
+      const context = createMockContext({
+        planTimeline: [],
+        planAgreements: agreements,
+        goals: [],
+        planTimelinePage: { page: 3, pageSize: 2, eventsLoaded: true },
+      })
+
+      // Act
+      derivePlanHistoryEntries()(context)
+
+      // Assert
+      expect(getEntryDates(context)).toEqual([])
+    })
+
+    it('should page the agreements on their own when only agreements are listed', () => {
+      // Arrange
+      const context = createMockContext({
+        planTimeline: [],
+        planAgreements: [...agreements].reverse(),
+        goals: [],
+        planHistoryFilters: { page: 1, eventTypes: ['agreement'] },
+        planTimelinePage: { page: 1, pageSize: 2, eventsLoaded: false },
+      })
+
+      // Act
+      derivePlanHistoryEntries()(context)
+
+      // Assert
+      expect(getAgreementUuids(context)).toEqual(['newest', 'middle'])
+      expect(context.setData).toHaveBeenCalledWith('planHistoryPagination', {
+        previousHref: undefined,
+        nextHref: 'plan-history?type=agreement&page=2',
+      })
+    })
+
+    it('should not let GOAL_DELETED events place agreements on the page', () => {
+      // Arrange
+      const context = createMockContext({
+        planTimeline: [
+          ...events.slice(2),
+          createTimelineItem({
+            uuid: 'deleted',
+            timestamp: '2024-09-15T00:00:00Z',
+            customType: 'GOAL_DELETED',
+            customData: { goalUuid: 'goal-9' },
+          }),
+        ],
+        planAgreements: agreements,
+        goals: [],
+        planTimelinePage: { page: 2, pageSize: 2, eventsLoaded: true },
+      })
+
+      // Act
+      derivePlanHistoryEntries()(context)
+
+      // Assert
+      expect(getEntryDates(context)).toEqual([
+        'goal_achieved 2024-05-01T00:00:00Z',
+        'goal_achieved 2024-03-01T00:00:00Z',
+        'agreement 2024-01-01T00:00:00Z',
+      ])
+    })
+
+    it('should filter agreements by date range, practitioner and event type', () => {
+      // Arrange
+      const byDate = createMockContext({
+        planTimeline: [],
+        planAgreements: agreements,
+        goals: [],
+        planHistoryFilters: { page: 1, from: '2024-06-20', to: '2024-08-31', eventTypes: [] },
+      })
+      const byPractitioner = createMockContext({
+        planTimeline: [],
+        planAgreements: agreements,
+        goals: [],
+        planHistoryFilters: { page: 1, eventTypes: [], practitioner: { id: 'user-1', name: 'Jane Smith' } },
+      })
+      const byType = createMockContext({
+        planTimeline: [],
+        planAgreements: agreements,
+        goals: [],
+        planHistoryFilters: { page: 1, eventTypes: ['created', 'achieved'] },
+      })
+
+      // Act
+      derivePlanHistoryEntries()(byDate)
+      derivePlanHistoryEntries()(byPractitioner)
+      derivePlanHistoryEntries()(byType)
+
+      // Assert
+      expect(getAgreementUuids(byDate)).toEqual(['middle'])
+      expect(getAgreementUuids(byPractitioner)).toEqual(['newest', 'oldest'])
+      expect(getAgreementUuids(byType)).toEqual([])
+    })
+
+    it('should build previous and next links that keep the filters', () => {
+      // Arrange
+      const context = createMockContext({
+        planTimeline: [],
+        planAgreements: [],
+        goals: [],
+        planHistoryFilters: { page: 2, from: '2024-01-01', eventTypes: ['achieved'] },
+        planTimelinePage: {
+          page: 2,
+          pageSize: 20,
+          eventsLoaded: true,
+          nextPageEventDate: '2023-12-01T00:00:00Z',
+        },
+      })
+
+      // Act
+      derivePlanHistoryEntries()(context)
+
+      // Assert
+      expect(context.setData).toHaveBeenCalledWith('planHistoryPagination', {
+        previousHref: 'plan-history?from=2024-01-01&type=achieved',
+        nextHref: 'plan-history?from=2024-01-01&type=achieved&page=3',
+      })
+    })
+
+    it('should not set pagination when the whole timeline is loaded', () => {
+      // Arrange
+      const context = createMockContext({ planTimeline: [], planAgreements: agreements, goals: [] })
+
+      // Act
+      derivePlanHistoryEntries()(context)
+
+      // Assert
+      expect(getAgreementUuids(context)).toEqual(['newest', 'middle', 'oldest'])
+      expect(context.setData).not.toHaveBeenCalledWith('planHistoryPagination', expect.anything())
+    })
+  })
 })
@@ -7,10 +7,20 @@ import {
   GoalStatus,
   PlanAgreementHistoryEntry,
   PlanHistoryEntry,
+  PlanHistoryFilters,
+  PlanHistoryPagination,
+  PlanTimelinePage,
   SentencePlanContext,
 } from '../types'
 import { GoalSnapshotData } from '../goals/goalSnapshot'
 import { sanitizeDateValue } from '../goals/goalUtils'
+import {
+  buildPlanHistoryHref,
+  endOfFilterDay,
+  getTimelineGoalUuid,
+  selectedEventTypes,
+  startOfFilterDay,
+} from './planHistoryFilters'
 
 const resolveAreaLabel = (slug: string | undefined, areasOfNeed: AreaOfNeed[]): string | undefined => {
   if (!slug) {
@@ -36,10 +46,81 @@ const resolveActorLabel = (
   return actorLabels[actor] ?? actor
 }
 
-const getTimelineGoalUuid = (item: TimelineItem): string | undefined => {
-  const goalUuid = item.customData?.goalUuid ?? item.data?.goalUuid
+const toTime = (date: string): number => new Date(date).getTime()
+
+/**
+ * Agreements aren't timeline events, so the filters the API applied to the timeline
+ * are applied to them here.
+ */
+const isAgreementShown = (agreement: DerivedPlanAgreement, filters: PlanHistoryFilters | undefined): boolean => {
+  const date = toTime(agreement.statusDate)
+
+  if (filters) {
+    if (!selectedEventTypes(filters).includes('agreement')) {
+      return false
+    }
+
+    if (filters.from && date < toTime(startOfFilterDay(filters.from))) {
+      return false
+    }
+
+    if (filters.to && date > toTime(endOfFilterDay(filters.to))) {
+      return false
+    }
 
-  return typeof goalUuid === 'string' && goalUuid.length > 0 ? goalUuid : undefined
+    if (filters.practitioner && agreement.createdBy !== filters.practitioner.name) {
+      return false
+    }
+  }
+
+  return true
+}
+
+interface PlanHistoryPage {
+  timeline: TimelineItem[]
+  agreements: DerivedPlanAgreement[]
+  hasNextPage: boolean
+}
+
+/**
+ * Take one page of the history from the page of timeline events loaded and the agreements.
+ *
+ * loadPlanTimelinePage loads only the events on the page, so agreements are placed
+ * between pages by date: a page shows the agreements up to its newest event (or any newer
+ * ones, on the first page) and after the newest event on the next page. So a page can
+ * hold more entries than the page size when agreements fall among its events. When only
+ * agreements are listed, they are paged on their own. GOAL_DELETED events are never
+ * shown, so don't count towards the page's events.
+ */
+const selectPlanHistoryPage = (
+  planTimeline: TimelineItem[],
+  agreements: DerivedPlanAgreement[],
+  timelinePage: PlanTimelinePage,
+): PlanHistoryPage => {
+  if (!timelinePage.eventsLoaded) {
+    const start = (timelinePage.page - 1) * timelinePage.pageSize
+    const newestFirst = [...agreements].sort((a, b) => toTime(b.statusDate) - toTime(a.statusDate))
+
+    return {
+      timeline: [],
+      agreements: newestFirst.slice(start, start + timelinePage.pageSize),
+      hasNextPage: newestFirst.length > start + timelinePage.pageSize,
+    }
+  }
+
+  const events = planTimeline.filter(item => item.customType !== 'GOAL_DELETED')
+  const newestEvent = Math.max(...events.map(item => toTime(item.timestamp)))
+  const nextPageEvent = timelinePage.nextPageEventDate ? toTime(timelinePage.nextPageEventDate) : undefined
+
+  return {
+    timeline: events,
+    agreements: agreements.filter(agreement => {
+      const date = toTime(agreement.statusDate)
+
+      return (timelinePage.page === 1 || date <= newestEvent) && (nextPageEvent === undefined || date > nextPageEvent)
+    }),
+    hasNextPage: nextPageEvent !== undefined,
+  }
 }
 
 /**
@@ -66,6 +147,7 @@ const buildGoalContext = (
         actor: resolveActorLabel(step.actor, actorLabels, personName),
         description: step.description,
         status: step.status,
+        targetDate: sanitizeDateValue(step.targetDate),
       })),
     }
   }
@@ -84,6 +166,7 @@ const buildGoalContext = (
       actor: step.actorLabel,
       description: step.description,
       status: step.status,
+      targetDate: step.targetDate,
     })),
   }
 }
@@ -96,13 +179,20 @@ const buildGoalContext = (
  * legacy-event fallback and for "now" fields like `isCurrentlyActive` and
  * `currentGoalStatus` — those are intentionally about now, not the event time.
  *
+ * Works on whatever timeline is loaded: either the whole timeline (loadPlanTimeline)
+ * or a page of filtered events (loadPlanTimelinePage). Plan agreements are filtered to
+ * match, and when paging only those that fall on the page are shown, and pagination
+ * links are built.
+ *
  * Requires:
- * - Data('planTimeline'): Populated by loadPlanTimeline
+ * - Data('planTimeline'): Populated by loadPlanTimeline or loadPlanTimelinePage
  * - Data('planAgreements'): Populated by derivePlanAgreementsFromAssessment
  * - Data('goals'), Data('areasOfNeed'), Data('actorLabels'), Data('caseData')
+ * - Data('planHistoryFilters'), Data('planTimelinePage'): Optional, populated when paging
  *
  * Sets:
  * - Data('planHistoryEntries'): Array of unified history entries
+ * - Data('planHistoryPagination'): Previous/next page links, when paging
  */
 export const derivePlanHistoryEntries = () => (context: SentencePlanContext) => {
   const planTimeline = (context.getData('planTimeline') as TimelineItem[] | undefined) ?? []
@@ -112,6 +202,12 @@ export const derivePlanHistoryEntries = () => (context: SentencePlanContext) =>
   const actorLabels = (context.getData('actorLabels') as Record<string, string> | undefined) ?? {}
   const caseData = context.getData('caseData') as { name?: { forename?: string } } | undefined
   const personName = caseData?.name?.forename ?? 'Person on probation'
+  const filters = context.getData('planHistoryFilters') as PlanHistoryFilters | undefined
+  const timelinePage = context.getData('planTimelinePage') as PlanTimelinePage | undefined
+  const shownAgreements = planAgreements.filter(agreement => isAgreementShown(agreement, filters))
+  const historyPage: PlanHistoryPage = timelinePage
+    ? selectPlanHistoryPage(planTimeline, shownAgreements, timelinePage)
+    : { timeline: planTimeline, agreements: shownAgreements, hasNextPage: false }
 
   // Steps from "initial step-add" events get folded into the matching
   // GOAL_CREATED entry so creating-a-goal-with-steps shows up as a single
@@ -136,7 +232,7 @@ export const derivePlanHistoryEntries = () => (context: SentencePlanContext) =>
       .filter((goalUuid): goalUuid is string => Boolean(goalUuid)),
   )
 
-  const displayableTimeline = planTimeline.filter(item => {
+  const displayableTimeline = historyPage.timeline.filter(item => {
     const goalUuid = getTimelineGoalUuid(item)
     const isDeletedGoal = goalUuid ? deletedGoalUuids.has(goalUuid) : false
 
@@ -155,7 +251,7 @@ export const derivePlanHistoryEntries = () => (context: SentencePlanContext) =>
     let snapshot = customData.goalSnapshot as GoalSnapshotData | undefined
 
     if (item.customType === 'GOAL_CREATED' && snapshot) {
-      const initialSteps = initialStepAddSteps.get(customData.goalUuid)
+      const initialSteps = goalUuid ? initialStepAddSteps.get(goalUuid) : undefined
       if (initialSteps) {
         snapshot = { ...snapshot, steps: initialSteps }
       }
@@ -172,7 +268,7 @@ export const derivePlanHistoryEntries = () => (context: SentencePlanContext) =>
           type: 'goal_created',
           uuid: `created-${item.uuid}-${item.timestamp}`,
           date,
-          goalUuid: customData.goalUuid,
+          goalUuid,
           goalTitle: customData.goalTitle,
           createdBy: customData.createdBy,
           ...goalContext,
@@ -240,7 +336,7 @@ export const derivePlanHistoryEntries = () => (context: SentencePlanContext) =>
   }
 
   // Add plan agreement entries
-  for (const agreement of planAgreements) {
+  for (const agreement of historyPage.agreements) {
     const entry: PlanAgreementHistoryEntry = {
       type: 'agreement',
       uuid: agreement.uuid,
@@ -258,4 +354,14 @@ export const derivePlanHistoryEntries = () => (context: SentencePlanContext) =>
   entries.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
 
   context.setData('planHistoryEntries', entries)
+
+  if (timelinePage) {
+    const pageFilters: PlanHistoryFilters = filters ?? { page: timelinePage.page, eventTypes: [] }
+    const pagination: PlanHistoryPagination = {
+      previousHref: timelinePage.page > 1 ? buildPlanHistoryHref(pageFilters, timelinePage.page - 1) : undefined,
+      nextHref: historyPage.hasNextPage ? buildPlanHistoryHref(pageFilters, timelinePage.page + 1) : undefined,
+    }
+
+    context.setData('planHistoryPagination', pagination)
+  }
 }
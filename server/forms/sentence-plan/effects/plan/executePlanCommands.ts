@@ -0,0 +1,27 @@
+import { Commands } from '../../../../interfaces/aap-api/command'
+import { CommandResultsFor } from '../../../../interfaces/aap-api/commandResult'
+import { SentencePlanContext, SentencePlanEffectsDeps } from '../types'
+
+/**
+ * Execute a batch of commands against the plan, guarded by the plan version the user was shown.
+ *
+ * The expected version comes from `planVersion` (set by loadPlan from the `_planVersion` form field),
+ * so a save is rejected with a CommandConflictError if someone else changed the plan since the page
+ * was rendered. On success `planVersion` moves on to the version the batch produced, allowing
+ * follow-up batches in the same request. If the API doesn't report a new version the check is
+ * dropped for the rest of the request rather than failing our own follow-up writes.
+ */
+export const executePlanCommands = async <T extends Commands[]>(
+  deps: SentencePlanEffectsDeps,
+  context: SentencePlanContext,
+  ...commands: T
+): Promise<CommandResultsFor<T>> => {
+  const { results, assessmentVersion } = await deps.api.executeCommandsAtVersion(
+    context.getData('planVersion'),
+    ...commands,
+  )
+
+  context.setData('planVersion', assessmentVersion)
+
+  return results
+}
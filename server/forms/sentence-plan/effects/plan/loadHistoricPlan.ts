@@ -1,28 +1,31 @@
 import { NotFound } from 'http-errors'
-import { SentencePlanContext, SentencePlanEffectsDeps } from '../types'
+import { HistoricPlanData, SentencePlanContext, SentencePlanEffectsDeps } from '../types'
 import { derivePlanAgreementsData } from './derivePlanAgreementsFromAssessment'
 import { deriveGoalsWithSteps } from '../goals/deriveGoalsWithStepsFromAssessment'
 import { getRequiredEffectContext } from '../goals/goalUtils'
+import { AssessmentVersionQueryResult } from '../../../../interfaces/aap-api/queryResult'
 
 /**
- * Load a historic plan version using the plan uuid from context and timestamp from URL param.
+ * Convert a version timestamp from the URL (epoch millis) to the point in time to query,
+ * padded to the end of that millisecond so the version itself is included.
  */
-export const loadHistoricPlan = (deps: SentencePlanEffectsDeps) => async (context: SentencePlanContext) => {
-  const { user, assessmentUuid } = getRequiredEffectContext(context, 'loadHistoricPlan')
+export const toHistoricPointInTime = (timestamp: unknown): string => {
+  const pointInTime = new Date(Number(timestamp))
 
-  const pointInTime = new Date(Number(context.getRequestParam('timestamp')))
-
-  const assessment = await deps.api.executeQuery({
-    type: 'AssessmentVersionQuery',
-    user,
-    assessmentIdentifier: { type: 'UUID', uuid: assessmentUuid },
-    timestamp: pointInTime.toISOString().replace('Z', '999Z'),
-  })
-
-  if (!assessment) {
+  if (Number.isNaN(pointInTime.getTime())) {
     throw new NotFound('Historic sentence plan not found')
   }
 
+  return pointInTime.toISOString().replace('Z', '999Z')
+}
+
+/**
+ * Derive the goals and agreement status of a plan as it was in a historic assessment version.
+ */
+export const deriveHistoricPlanData = (
+  assessment: AssessmentVersionQueryResult,
+  context: SentencePlanContext,
+): HistoricPlanData => {
   const planAgreementsData = derivePlanAgreementsData(assessment)
 
   const derivedGoals = deriveGoalsWithSteps({
@@ -32,10 +35,30 @@ export const loadHistoricPlan = (deps: SentencePlanEffectsDeps) => async (contex
     areasOfNeed: context.getData('areasOfNeed'),
   })
 
-  context.setData('historic', {
+  return {
     assessment,
     goals: derivedGoals.goals,
     latestAgreementDate: planAgreementsData.latestAgreementDate,
     latestAgreementStatus: planAgreementsData.latestAgreementStatus,
+  }
+}
+
+/**
+ * Load a historic plan version using the plan uuid from context and timestamp from URL param.
+ */
+export const loadHistoricPlan = (deps: SentencePlanEffectsDeps) => async (context: SentencePlanContext) => {
+  const { user, assessmentUuid } = getRequiredEffectContext(context, 'loadHistoricPlan')
+
+  const assessment = await deps.api.executeQuery({
+    type: 'AssessmentVersionQuery',
+    user,
+    assessmentIdentifier: { type: 'UUID', uuid: assessmentUuid },
+    timestamp: toHistoricPointInTime(context.getRequestParam('timestamp')),
   })
+
+  if (!assessment) {
+    throw new NotFound('Historic sentence plan not found')
+  }
+
+  context.setData('historic', deriveHistoricPlanData(assessment, context))
 }
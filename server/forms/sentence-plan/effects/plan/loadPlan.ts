@@ -2,10 +2,18 @@ import { InternalServerError, NotFound } from 'http-errors'
 import { SentencePlanContext, SentencePlanEffectsDeps } from '../types'
 
 /**
- * Load a sentence plan using the identifier from session details.
+ * Load a sentence plan using the identifier from session details, for the case resolved
+ * from the request's case context ID by resolveCaseContext.
  *
  * Supports both UUID identifiers (OASys flow) and external identifiers (MPOP flow).
  * Must be called after session details have been set with a planIdentifier.
+ *
+ * Also sets `planVersion`, the version subsequent writes are checked against. On a form
+ * submission this is the version the form was rendered from (`_planVersion`), not the
+ * version just loaded, so changes made by someone else in between are detected.
+ *
+ * A cached copy of the plan older than the version already known, from the form or from
+ * commands executed earlier in the request, isn't used.
  */
 export const loadPlan = (deps: SentencePlanEffectsDeps) => async (context: SentencePlanContext) => {
   const user = context.getState('user')
@@ -20,11 +28,15 @@ export const loadPlan = (deps: SentencePlanEffectsDeps) => async (context: Sente
     throw new InternalServerError('Plan identifier is required in session details')
   }
 
-  const assessment = await deps.api.executeQuery({
-    type: 'AssessmentVersionQuery',
-    user,
-    assessmentIdentifier: sessionDetails.planIdentifier,
-  })
+  const knownVersion = context.getData('planVersion') || context.getPostData<string>('_planVersion')
+  const assessment = await deps.api.executeQuery(
+    {
+      type: 'AssessmentVersionQuery',
+      user,
+      assessmentIdentifier: sessionDetails.planIdentifier,
+    },
+    knownVersion,
+  )
 
   if (!assessment) {
     throw new NotFound('Sentence plan not found')
@@ -32,6 +44,7 @@ export const loadPlan = (deps: SentencePlanEffectsDeps) => async (context: Sente
 
   context.setData('assessment', assessment)
   context.setData('assessmentUuid', assessment.assessmentUuid)
+  context.setData('planVersion', context.getPostData<string>('_planVersion') || assessment.updatedAt)
   context.setData('sessionDetails', sessionDetails)
 
   if (session.caseDetails) {
@@ -0,0 +1,49 @@
+import { NotFound } from 'http-errors'
+import { SentencePlanContext, SentencePlanEffectsDeps } from '../types'
+import { getRequiredEffectContext } from '../goals/goalUtils'
+import { deriveHistoricPlanData, toHistoricPointInTime } from './loadHistoricPlan'
+import { comparePlanVersions } from './comparePlanVersions'
+
+/**
+ * Load two historic versions of the plan and compare them.
+ *
+ * The versions come from the `from` and `to` URL params (epoch millis, as on the
+ * previous versions page). They are put in date order, so either order works.
+ *
+ * Sets:
+ * - Data('planComparison'): The goals, steps and agreement status changes between the versions
+ */
+export const loadPlanComparison = (deps: SentencePlanEffectsDeps) => async (context: SentencePlanContext) => {
+  const { user, assessmentUuid } = getRequiredEffectContext(context, 'loadPlanComparison')
+
+  const [from, to] = [Number(context.getRequestParam('from')), Number(context.getRequestParam('to'))].sort(
+    (a, b) => a - b,
+  )
+
+  const [fromAssessment, toAssessment] = await deps.api.executeQueries(
+    {
+      type: 'AssessmentVersionQuery',
+      user,
+      assessmentIdentifier: { type: 'UUID', uuid: assessmentUuid },
+      timestamp: toHistoricPointInTime(from),
+    },
+    {
+      type: 'AssessmentVersionQuery',
+      user,
+      assessmentIdentifier: { type: 'UUID', uuid: assessmentUuid },
+      timestamp: toHistoricPointInTime(to),
+    },
+  )
+
+  if (!fromAssessment || !toAssessment) {
+    throw new NotFound('Historic sentence plan not found')
+  }
+
+  context.setData(
+    'planComparison',
+    comparePlanVersions(
+      { ...deriveHistoricPlanData(fromAssessment, context), date: new Date(from).toISOString() },
+      { ...deriveHistoricPlanData(toAssessment, context), date: new Date(to).toISOString() },
+    ),
+  )
+}
@@ -0,0 +1,85 @@
+import { InternalServerError } from 'http-errors'
+import { TimelineItem } from '../../../../interfaces/aap-api/dataModel'
+import { PlanConflictChange } from '../../../../interfaces/planConflict'
+import { SentencePlanContext, SentencePlanEffectsDeps } from '../types'
+
+const CHANGE_DESCRIPTIONS: Record<string, string> = {
+  GOAL_CREATED: 'Goal created',
+  GOAL_UPDATED: 'Goal updated',
+  GOAL_ACHIEVED: 'Goal marked as achieved',
+  GOAL_REMOVED: 'Goal removed',
+  GOAL_READDED: 'Goal added back into plan',
+  GOAL_DELETED: 'Goal deleted',
+  PLAN_AGREEMENT_STATUS_CHANGED: 'Plan agreement updated',
+}
+
+const toChange = (item: TimelineItem): PlanConflictChange => {
+  const goalTitle = item.customData?.goalTitle
+  const changedBy =
+    item.customData?.createdBy ??
+    item.customData?.updatedBy ??
+    item.customData?.achievedBy ??
+    item.customData?.removedBy ??
+    item.customData?.readdedBy ??
+    item.user?.name
+
+  return {
+    date: item.timestamp,
+    description: CHANGE_DESCRIPTIONS[item.customType],
+    goalTitle: typeof goalTitle === 'string' ? goalTitle : undefined,
+    changedBy: typeof changedBy === 'string' ? changedBy : undefined,
+  }
+}
+
+/**
+ * Load the plan conflict left in the session by the plan conflict error handler,
+ * along with what has changed in the plan since the rejected form was loaded.
+ *
+ * The conflict is removed from the session once read, so reloading the page
+ * after re-applying or discarding the changes falls back to the plan overview.
+ *
+ * Sets:
+ * - Data('planConflict'): The rejected submission, or undefined if there isn't one
+ * - Data('planConflictChanges'): Changes made since the rejected version, newest first
+ */
+export const loadPlanConflict = (deps: SentencePlanEffectsDeps) => async (context: SentencePlanContext) => {
+  const session = context.getSession()
+  const planConflict = session.planConflict
+
+  delete session.planConflict
+
+  context.setData('planConflict', planConflict)
+  context.setData('planConflictChanges', [])
+
+  if (!planConflict) {
+    return
+  }
+
+  const user = context.getState('user')
+  const planIdentifier = session.sessionDetails?.planIdentifier
+
+  if (!user) {
+    throw new InternalServerError('User is required to load plan changes')
+  }
+
+  if (!planIdentifier) {
+    throw new InternalServerError('Plan identifier is required to load plan changes')
+  }
+
+  const result = await deps.api.executeQuery({
+    type: 'TimelineQuery',
+    includeCustomTypes: Object.keys(CHANGE_DESCRIPTIONS),
+    from: planConflict.expectedVersion,
+    assessmentIdentifier: planIdentifier,
+    user,
+  })
+
+  const expectedTime = new Date(planConflict.expectedVersion).getTime()
+
+  const changes = (result.timeline ?? [])
+    .filter(item => new Date(item.timestamp).getTime() > expectedTime)
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+    .map(toChange)
+
+  context.setData('planConflictChanges', changes)
+}
@@ -0,0 +1,23 @@
+import { SentencePlanContext } from '../types'
+import { buildPlanExportQuery, parsePlanExportOptions } from './planExportOptions'
+
+/**
+ * Load the print and export options from the query string.
+ * The export options fields are pre-populated from them.
+ *
+ * Sets:
+ * - Data('exportOptions'): Parsed options, everything included by default
+ * - Data('exportOptionsQuery'): The options as a query string, for links that keep them
+ */
+export const loadPlanExportOptions = () => async (context: SentencePlanContext) => {
+  const options = parsePlanExportOptions({
+    sections: context.getQueryParam('sections'),
+    exclude: context.getQueryParam('exclude'),
+  })
+
+  context.setData('exportOptions', options)
+  context.setData('exportOptionsQuery', buildPlanExportQuery(options))
+
+  context.setAnswer('export_sections', options.sections)
+  context.setAnswer('export_exclude', options.exclude)
+}
@@ -0,0 +1,59 @@
+import { User } from '../../../../interfaces/user'
+import { SentencePlanContext } from '../types'
+import { parsePlanHistoryFilters } from './planHistoryFilters'
+
+interface AssessmentData {
+  collaborators?: User[]
+}
+
+/**
+ * Load the plan history filters from the query string.
+ *
+ * The practitioners offered in the filter are the plan's collaborators,
+ * so only people who have worked on the plan can be picked.
+ * The filter fields are pre-populated from the query string.
+ *
+ * Requires:
+ * - Data('assessment'): Populated by loadPlan
+ *
+ * Sets:
+ * - Data('planHistoryFilters'): Parsed filters, including the page number
+ * - Data('planHistoryPractitioners'): Select options for the practitioner filter
+ */
+export const loadPlanHistoryFilters = () => async (context: SentencePlanContext) => {
+  const assessment = context.getData('assessment') as AssessmentData | undefined
+  const practitioners = [
+    ...new Map((assessment?.collaborators ?? []).map(({ id, name }) => [id, { id, name }])).values(),
+  ].sort((a, b) => a.name.localeCompare(b.name))
+
+  const filters = parsePlanHistoryFilters(
+    {
+      page: context.getQueryParam('page'),
+      from: context.getQueryParam('from'),
+      to: context.getQueryParam('to'),
+      type: context.getQueryParam('type'),
+      practitioner: context.getQueryParam('practitioner'),
+    },
+    practitioners,
+  )
+
+  context.setData('planHistoryFilters', filters)
+  context.setData('planHistoryPractitioners', [
+    { value: '', text: 'All practitioners' },
+    ...practitioners.map(({ id, name }) => ({ value: id, text: name })),
+  ])
+
+  // The date picker works in DD/MM/YYYY
+  const toPickerDate = (date: string) => date.split('-').reverse().join('/')
+
+  if (filters.from) {
+    context.setAnswer('history_from', toPickerDate(filters.from))
+  }
+
+  if (filters.to) {
+    context.setAnswer('history_to', toPickerDate(filters.to))
+  }
+
+  context.setAnswer('history_event_types', filters.eventTypes)
+  context.setAnswer('history_practitioner', filters.practitioner?.id ?? '')
+}
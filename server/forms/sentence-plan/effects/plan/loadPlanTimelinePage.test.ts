@@ -0,0 +1,174 @@
+import { TimelineItem } from '../../../../interfaces/aap-api/dataModel'
+import { PlanHistoryFilters, SentencePlanContext, SentencePlanEffectsDeps } from '../types'
+import { loadPlanTimelinePage } from './loadPlanTimelinePage'
+import { PLAN_HISTORY_PAGE_SIZE } from './planHistoryFilters'
+
+const user = { id: 'user-1', name: 'Jane Smith', authSource: 'HMPPS_AUTH' }
+const planIdentifier = { type: 'UUID', uuid: 'plan-uuid-1' }
+
+const createTimelineItem = (timestamp: string, customType = 'GOAL_CREATED', goalUuid = 'goal-1'): TimelineItem => ({
+  uuid: `event-${timestamp}`,
+  position: 0,
+  assessment: 'plan-uuid-1',
+  event: 'CUSTOM',
+  timestamp,
+  data: {},
+  customType,
+  customData: { goalUuid },
+})
+
+const createMockDeps = (
+  pageTimeline: TimelineItem[],
+  nextPageTimeline: TimelineItem[] = [],
+  deletedTimeline: TimelineItem[] = [],
+) =>
+  ({
+    api: {
+      executeQueries: jest
+        .fn()
+        .mockResolvedValueOnce([
+          { type: 'TimelineQueryResult', timeline: pageTimeline },
+          { type: 'TimelineQueryResult', timeline: nextPageTimeline },
+        ])
+        .mockResolvedValueOnce([{ type: 'TimelineQueryResult', timeline: deletedTimeline }]),
+    },
+  }) as unknown as SentencePlanEffectsDeps & { api: { executeQueries: jest.Mock } }
+
+const createMockContext = (filters?: PlanHistoryFilters, goalUuids: string[] = ['goal-1']): SentencePlanContext => {
+  const data: Record<string, unknown> = { planHistoryFilters: filters, goals: goalUuids.map(uuid => ({ uuid })) }
+
+  return {
+    getState: jest.fn(() => user),
+    getSession: jest.fn(() => ({ sessionDetails: { planIdentifier } })),
+    getData: jest.fn((key: string) => data[key]),
+    setData: jest.fn((key: string, value: unknown) => {
+      data[key] = value
+    }),
+  } as unknown as SentencePlanContext
+}
+
+describe('loadPlanTimelinePage', () => {
+  it('should query the requested page and the newest event on the next page with the filters applied', async () => {
+    // Arrange
+    const deps = createMockDeps([])
+    const context = createMockContext({
+      page: 3,
+      from: '2024-01-01',
+      to: '2024-06-30',
+      eventTypes: ['achieved', 'removed', 'agreement'],
+      practitioner: { id: 'user-2', name: 'Bob Jones' },
+    })
+    const filteredQuery = {
+      type: 'TimelineQuery',
+      includeCustomTypes: ['GOAL_ACHIEVED', 'GOAL_REMOVED'],
+      assessmentIdentifier: planIdentifier,
+      user,
+      from: '2024-01-01T00:00:00.000Z',
+      to: '2024-06-30T23:59:59.999Z',
+      subject: { id: 'user-2', name: 'Bob Jones' },
+    }
+
+    // Act
+    await loadPlanTimelinePage(deps)(context)
+
+    // Assert
+    expect(deps.api.executeQueries).toHaveBeenCalledTimes(1)
+    expect(deps.api.executeQueries).toHaveBeenCalledWith(
+      { ...filteredQuery, pageNumber: 2, pageSize: PLAN_HISTORY_PAGE_SIZE },
+      { ...filteredQuery, pageNumber: 3 * PLAN_HISTORY_PAGE_SIZE, pageSize: 1 },
+    )
+  })
+
+  it('should include every goal event type when no filters are set', async () => {
+    // Arrange
+    const deps = createMockDeps([])
+    const context = createMockContext()
+
+    // Act
+    await loadPlanTimelinePage(deps)(context)
+
+    // Assert
+    const [pageQuery] = deps.api.executeQueries.mock.calls[0]
+    expect(pageQuery.includeCustomTypes).toEqual([
+      'GOAL_CREATED',
+      'GOAL_ACHIEVED',
+      'GOAL_REMOVED',
+      'GOAL_READDED',
+      'GOAL_UPDATED',
+    ])
+    expect(pageQuery.pageNumber).toBe(0)
+    expect(pageQuery).not.toHaveProperty('from')
+    expect(pageQuery).not.toHaveProperty('subject')
+  })
+
+  it('should set the events on the page and when the next page starts', async () => {
+    // Arrange
+    const pageItems = Array.from({ length: PLAN_HISTORY_PAGE_SIZE }, (_, i) =>
+      createTimelineItem(`2024-06-${String(PLAN_HISTORY_PAGE_SIZE - i).padStart(2, '0')}T10:00:00Z`),
+    )
+    const nextPageItem = createTimelineItem('2024-05-01T10:00:00Z')
+    const deps = createMockDeps(pageItems, [nextPageItem])
+    const context = createMockContext({ page: 1, eventTypes: [] })
+
+    // Act
+    await loadPlanTimelinePage(deps)(context)
+
+    // Assert
+    expect(deps.api.executeQueries).toHaveBeenCalledTimes(1)
+    expect(context.setData).toHaveBeenCalledWith('planTimeline', pageItems)
+    expect(context.setData).toHaveBeenCalledWith('planTimelinePage', {
+      page: 1,
+      pageSize: PLAN_HISTORY_PAGE_SIZE,
+      eventsLoaded: true,
+      nextPageEventDate: '2024-05-01T10:00:00Z',
+    })
+  })
+
+  it('should load the GOAL_DELETED events only for goals on the page that are no longer in the plan', async () => {
+    // Arrange
+    const pageItems = [
+      createTimelineItem('2024-06-02T10:00:00Z', 'GOAL_UPDATED', 'goal-2'),
+      createTimelineItem('2024-06-01T10:00:00Z', 'GOAL_CREATED', 'goal-1'),
+    ]
+    const deletedItem = createTimelineItem('2024-07-01T10:00:00Z', 'GOAL_DELETED', 'goal-2')
+    const otherDeletedItem = createTimelineItem('2024-07-02T10:00:00Z', 'GOAL_DELETED', 'goal-3')
+    const deps = createMockDeps(pageItems, [], [deletedItem, otherDeletedItem])
+    const context = createMockContext({ page: 2, eventTypes: [] }, ['goal-1'])
+
+    // Act
+    await loadPlanTimelinePage(deps)(context)
+
+    // Assert
+    expect(deps.api.executeQueries).toHaveBeenLastCalledWith({
+      type: 'TimelineQuery',
+      includeCustomTypes: ['GOAL_DELETED'],
+      assessmentIdentifier: planIdentifier,
+      user,
+      from: '2024-06-01T10:00:00Z',
+    })
+    expect(context.setData).toHaveBeenCalledWith('planTimeline', [...pageItems, deletedItem])
+    expect(context.setData).toHaveBeenCalledWith('planTimelinePage', {
+      page: 2,
+      pageSize: PLAN_HISTORY_PAGE_SIZE,
+      eventsLoaded: true,
+    })
+  })
+
+  it('should not query the timeline when only agreements are selected', async () => {
+    // Arrange
+    const deps = createMockDeps([])
+    const context = createMockContext({ page: 2, eventTypes: ['agreement'] })
+
+    // Act
+    await loadPlanTimelinePage(deps)(context)
+
+    // Assert
+    expect(deps.api.executeQueries).not.toHaveBeenCalled()
+    expect(context.setData).toHaveBeenCalledWith('planTimeline', [])
+    expect(context.setData).toHaveBeenCalledWith('planTimelinePage', {
+      page: 2,
+      pageSize: PLAN_HISTORY_PAGE_SIZE,
+      eventsLoaded: false,
+    })
+  })
+})
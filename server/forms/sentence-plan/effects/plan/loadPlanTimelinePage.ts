@@ -0,0 +1,117 @@
+import { InternalServerError } from 'http-errors'
+import { TimelineItem } from '../../../../interfaces/aap-api/dataModel'
+import { TimelineQuery } from '../../../../interfaces/aap-api/query'
+import {
+  DerivedGoal,
+  PlanHistoryFilters,
+  PlanTimelinePage,
+  SentencePlanContext,
+  SentencePlanEffectsDeps,
+} from '../types'
+import {
+  endOfFilterDay,
+  getTimelineGoalUuid,
+  PLAN_HISTORY_EVENT_CUSTOM_TYPES,
+  PLAN_HISTORY_PAGE_SIZE,
+  selectedEventTypes,
+  startOfFilterDay,
+} from './planHistoryFilters'
+
+/**
+ * Load a page of the goal lifecycle events for the plan history, applying the
+ * date range, event type and practitioner filters in the query itself.
+ *
+ * Plan agreements aren't timeline events, so derivePlanHistoryEntries places them
+ * between the pages of events by date. To know where this page's agreements end,
+ * the newest event on the next page is loaded with the page.
+ *
+ * The history of a deleted goal is hidden, so GOAL_DELETED events are loaded for the
+ * goals on the page that are no longer in the plan, when there are any. A goal can
+ * only be deleted after the events about it, so only deletions from the oldest event
+ * on the page onwards are asked for.
+ *
+ * Requires:
+ * - Data('planHistoryFilters'): Populated by loadPlanHistoryFilters
+ * - Data('goals'): Populated by deriveGoalsWithStepsFromAssessment
+ *
+ * Sets:
+ * - Data('planTimeline'): The TimelineItem[] on the page, plus the GOAL_DELETED events for its goals
+ * - Data('planTimelinePage'): Page details, used to place agreements on the page and build pagination links
+ */
+export const loadPlanTimelinePage = (deps: SentencePlanEffectsDeps) => async (context: SentencePlanContext) => {
+  const user = context.getState('user')
+  const session = context.getSession()
+  const sessionDetails = session.sessionDetails
+  const filters = context.getData('planHistoryFilters') as PlanHistoryFilters | undefined
+  const goals = (context.getData('goals') as DerivedGoal[] | undefined) ?? []
+
+  if (!user) {
+    throw new InternalServerError('User is required to load plan timeline')
+  }
+
+  if (!sessionDetails?.planIdentifier) {
+    throw new InternalServerError('Plan identifier is required to load plan timeline')
+  }
+
+  const customTypes = selectedEventTypes(filters).flatMap(type => PLAN_HISTORY_EVENT_CUSTOM_TYPES[type])
+
+  const page = filters?.page ?? 1
+
+  // Only agreements selected - there are no timeline events to load
+  if (!customTypes.length) {
+    context.setData('planTimeline', [])
+    context.setData('planTimelinePage', { page, pageSize: PLAN_HISTORY_PAGE_SIZE, eventsLoaded: false })
+    return
+  }
+
+  const eventsQuery: TimelineQuery = {
+    type: 'TimelineQuery',
+    includeCustomTypes: customTypes,
+    assessmentIdentifier: sessionDetails.planIdentifier,
+    user,
+    ...(filters?.from && { from: startOfFilterDay(filters.from) }),
+    ...(filters?.to && { to: endOfFilterDay(filters.to) }),
+    ...(filters?.practitioner && { subject: filters.practitioner }),
+  }
+
+  // API pages are zero-based. With a page size of one, the page number is the index of
+  // the next page's newest event
+  const [pageResult, nextPageResult] = await deps.api.executeQueries(
+    { ...eventsQuery, pageNumber: page - 1, pageSize: PLAN_HISTORY_PAGE_SIZE },
+    { ...eventsQuery, pageNumber: page * PLAN_HISTORY_PAGE_SIZE, pageSize: 1 },
+  )
+
+  const events: TimelineItem[] = pageResult.timeline ?? []
+  const nextPageEvent: TimelineItem | undefined = nextPageResult.timeline?.[0]
+
+  const planGoalUuids = new Set(goals.map(goal => goal.uuid))
+  const goneGoalUuids = new Set(
+    events
+      .map(getTimelineGoalUuid)
+      .filter((goalUuid): goalUuid is string => goalUuid !== undefined && !planGoalUuids.has(goalUuid)),
+  )
+
+  let deletedEvents: TimelineItem[] = []
+
+  if (goneGoalUuids.size) {
+    const [deletedResult] = await deps.api.executeQueries({
+      type: 'TimelineQuery',
+      includeCustomTypes: ['GOAL_DELETED'],
+      assessmentIdentifier: sessionDetails.planIdentifier,
+      user,
+      from: events[events.length - 1].timestamp,
+    })
+
+    deletedEvents = (deletedResult.timeline ?? []).filter(item => goneGoalUuids.has(getTimelineGoalUuid(item) ?? ''))
+  }
+
+  const timelinePage: PlanTimelinePage = {
+    page,
+    pageSize: PLAN_HISTORY_PAGE_SIZE,
+    eventsLoaded: true,
+    ...(nextPageEvent && { nextPageEventDate: nextPageEvent.timestamp }),
+  }
+
+  context.setData('planTimeline', [...events, ...deletedEvents])
+  context.setData('planTimelinePage', timelinePage)
+}
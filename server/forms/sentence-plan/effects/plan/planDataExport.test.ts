@@ -0,0 +1,204 @@
+import { DerivedGoal, DerivedPlanAgreement, PlanHistoryEntry } from '../types'
+import { buildPlanDataExport, PLAN_DATA_CSV_COLUMNS, toPlanDataCsv } from './planDataExport'
+
+const goal: DerivedGoal = {
+  uuid: 'goal-1',
+  title: 'I will find somewhere to live',
+  status: 'ACTIVE',
+  targetDate: '2026-12-01',
+  statusDate: '2026-10-01T10:00:00Z',
+  areaOfNeed: 'accommodation',
+  areaOfNeedLabel: 'Accommodation',
+  relatedAreasOfNeed: ['finances', 'health-and-wellbeing'],
+  relatedAreasOfNeedLabels: ['Finances', 'Health and wellbeing'],
+  stepsCollectionUuid: 'steps-collection',
+  steps: [
+    {
+      uuid: 'step-1',
+      actor: 'person_on_probation',
+      actorLabel: 'Buster',
+      status: 'IN_PROGRESS',
+      description: 'Contact the housing team',
+      statusDate: '2026-10-02T10:00:00Z',
+    },
+  ],
+  notesCollectionUuid: 'notes-collection',
+  notes: [
+    {
+      uuid: 'note-1',
+      type: 'PROGRESS',
+      note: 'Has an appointment, "next week"',
+      createdBy: 'Paul Practitioner',
+      createdAt: '2026-10-03T10:00:00Z',
+    },
+  ],
+  collectionIndex: 0,
+  isFirstInStatus: true,
+  isLastInStatus: true,
+}
+
+const agreement: DerivedPlanAgreement = {
+  uuid: 'agreement-1',
+  status: 'AGREED',
+  statusDate: '2026-10-04T10:00:00Z',
+  agreementQuestion: 'Does Buster agree to this plan?',
+  notes: 'Agreed in the office',
+  createdBy: 'Paul Practitioner',
+}
+
+const history: PlanHistoryEntry[] = [
+  {
+    type: 'goal_removed',
+    uuid: 'event-2',
+    date: '2026-10-06T10:00:00Z',
+    goalUuid: 'goal-2',
+    goalTitle: 'I will stop drinking',
+    removedBy: 'Paul Practitioner',
+    reason: 'No longer needed',
+    isCurrentlyActive: false,
+  },
+  {
+    type: 'agreement',
+    uuid: 'agreement-1',
+    date: '2026-10-04T10:00:00Z',
+    status: 'AGREED',
+    createdBy: 'Paul Practitioner',
+    notes: 'Agreed in the office',
+  },
+]
+
+const exportedAt = new Date('2026-10-19T09:30:00Z')
+
+describe('buildPlanDataExport()', () => {
+  it('should give the schema version, when the plan was exported and the CRN', () => {
+    // Act
+    const planDataExport = buildPlanDataExport({ crn: 'X123456', goals: [], agreements: [], history: [], exportedAt })
+
+    // Assert
+    expect(planDataExport).toEqual({
+      schemaVersion: '1.0',
+      exportedAt: '2026-10-19T09:30:00.000Z',
+      crn: 'X123456',
+      goals: [],
+      agreements: [],
+      history: [],
+    })
+  })
+
+  it('should export goals with their steps and notes, without the fields only the pages use', () => {
+    // Act
+    const { goals } = buildPlanDataExport({ goals: [goal], agreements: [], history: [], exportedAt })
+
+    // Assert
+    expect(goals).toEqual([
+      {
+        uuid: 'goal-1',
+        title: 'I will find somewhere to live',
+        status: 'ACTIVE',
+        statusDate: '2026-10-01T10:00:00Z',
+        targetDate: '2026-12-01',
+        areaOfNeed: 'Accommodation',
+        relatedAreasOfNeed: ['Finances', 'Health and wellbeing'],
+        achievedBy: undefined,
+        steps: [
+          {
+            uuid: 'step-1',
+            actor: 'person_on_probation',
+            actorLabel: 'Buster',
+            description: 'Contact the housing team',
+            status: 'IN_PROGRESS',
+            statusDate: '2026-10-02T10:00:00Z',
+            targetDate: undefined,
+          },
+        ],
+        notes: [goal.notes[0]],
+      },
+    ])
+    expect(goals[0]).not.toHaveProperty('collectionIndex')
+    expect(goals[0]).not.toHaveProperty('stepsCollectionUuid')
+  })
+
+  it('should export agreements and history entries', () => {
+    // Act
+    const planDataExport = buildPlanDataExport({ goals: [], agreements: [agreement], history, exportedAt })
+
+    // Assert
+    expect(planDataExport.agreements).toEqual([expect.objectContaining({ uuid: 'agreement-1', status: 'AGREED' })])
+    expect(planDataExport.history).toEqual([
+      {
+        uuid: 'event-2',
+        type: 'goal_removed',
+        date: '2026-10-06T10:00:00Z',
+        goalUuid: 'goal-2',
+        goalTitle: 'I will stop drinking',
+        by: 'Paul Practitioner',
+        notes: 'No longer needed',
+      },
+      {
+        uuid: 'agreement-1',
+        type: 'agreement',
+        date: '2026-10-04T10:00:00Z',
+        by: 'Paul Practitioner',
+        notes: 'Agreed in the office',
+        agreementStatus: 'AGREED',
+      },
+    ])
+  })
+})
+
+describe('toPlanDataCsv()', () => {
+  it('should give one row for each goal, step, note, agreement and history entry', () => {
+    // Arrange
+    const planDataExport = buildPlanDataExport({
+      crn: 'X123456',
+      goals: [goal],
+      agreements: [agreement],
+      history,
+      exportedAt,
+    })
+
+    // Act
+    const rows = toPlanDataCsv(planDataExport).split('\r\n')
+
+    // Assert
+    expect(rows[0]).toBe(PLAN_DATA_CSV_COLUMNS.join(','))
+    expect(rows.slice(1).map(row => row.split(',')[2])).toEqual([
+      'goal',
+      'step',
+      'note',
+      'agreement',
+      'history',
+      'history',
+    ])
+    expect(rows[1]).toBe(
+      '1.0,X123456,goal,goal-1,goal-1,I will find somewhere to live,,ACTIVE,2026-10-01T10:00:00Z,2026-12-01,Accommodation,Finances; Health and wellbeing,,,,,',
+    )
+  })
+
+  it('should quote values with commas or quotes in them', () => {
+    // Arrange
+    const planDataExport = buildPlanDataExport({ goals: [goal], agreements: [], history: [], exportedAt })
+
+    // Act
+    const csv = toPlanDataCsv(planDataExport)
+
+    // Assert
+    expect(csv).toContain(',"Has an appointment, ""next week"""')
+  })
+
+  it('should stop values being read as spreadsheet formulas', () => {
+    // Arrange
+    const planDataExport = buildPlanDataExport({
+      goals: [{ ...goal, title: '=HYPERLINK("http://example.com")', steps: [], notes: [] }],
+      agreements: [],
+      history: [],
+      exportedAt,
+    })
+
+    // Act
+    const csv = toPlanDataCsv(planDataExport)
+
+    // Assert
+    expect(csv).toContain(`"'=HYPERLINK(""http://example.com"")"`)
+  })
+})
@@ -0,0 +1,299 @@
+import type { DerivedGoal, DerivedPlanAgreement, PlanAgreementHistoryEntry, PlanHistoryEntry } from '../types'
+
+/**
+ * Version of the plan data export schema, given in every export as `schemaVersion`.
+ *
+ * Adding a field is a minor version. Renaming or removing one, or changing what it means,
+ * is a major version, so consumers can tell when they need to change.
+ */
+export const PLAN_DATA_EXPORT_SCHEMA_VERSION = '1.0'
+
+export interface PlanDataExportStep {
+  uuid: string
+  /** Who does the step, e.g. person_on_probation or probation_practitioner */
+  actor: string
+  /** Who does the step, in words. The person's forename for person_on_probation */
+  actorLabel: string
+  description: string
+  /** NOT_STARTED, IN_PROGRESS, COMPLETED, CANNOT_BE_DONE_YET or NO_LONGER_NEEDED */
+  status: string
+  statusDate: string
+  /** YYYY-MM-DD */
+  targetDate?: string
+}
+
+export interface PlanDataExportNote {
+  uuid: string
+  /** The goal event the note was added for, e.g. ACHIEVED, REMOVED or READDED */
+  type: string
+  note: string
+  createdBy: string
+  createdAt: string
+}
+
+export interface PlanDataExportGoal {
+  uuid: string
+  /** Written in the first person, e.g. "I will find somewhere to live" */
+  title: string
+  /** ACTIVE, FUTURE, ACHIEVED or REMOVED */
+  status: string
+  statusDate: string
+  /** YYYY-MM-DD */
+  targetDate?: string
+  areaOfNeed: string
+  relatedAreasOfNeed: string[]
+  achievedBy?: string
+  steps: PlanDataExportStep[]
+  notes: PlanDataExportNote[]
+}
+
+export interface PlanDataExportAgreement {
+  uuid: string
+  /** AGREED, DO_NOT_AGREE, COULD_NOT_ANSWER, UPDATED_AGREED or UPDATED_DO_NOT_AGREE */
+  status: string
+  statusDate: string
+  agreementQuestion: string
+  detailsNo?: string
+  detailsCouldNotAnswer?: string
+  notes?: string
+  createdBy?: string
+}
+
+export interface PlanDataExportHistoryEntry {
+  uuid: string
+  /** agreement, goal_created, goal_achieved, goal_removed, goal_readded or goal_updated */
+  type: string
+  date: string
+  /** Set for goal events */
+  goalUuid?: string
+  goalTitle?: string
+  /** Who the event was recorded by */
+  by?: string
+  /** Notes or reason given, e.g. why a goal was removed */
+  notes?: string
+  /** Set for agreement events */
+  agreementStatus?: string
+}
+
+/**
+ * The plan data export, version 1.0. Goals are in plan order, agreements and history
+ * newest first.
+ */
+export interface PlanDataExport {
+  schemaVersion: typeof PLAN_DATA_EXPORT_SCHEMA_VERSION
+  exportedAt: string
+  crn?: string
+  goals: PlanDataExportGoal[]
+  agreements: PlanDataExportAgreement[]
+  history: PlanDataExportHistoryEntry[]
+}
+
+const toExportGoal = (goal: DerivedGoal): PlanDataExportGoal => ({
+  uuid: goal.uuid,
+  title: goal.title,
+  status: goal.status,
+  statusDate: goal.statusDate,
+  targetDate: goal.targetDate,
+  areaOfNeed: goal.areaOfNeedLabel,
+  relatedAreasOfNeed: goal.relatedAreasOfNeedLabels,
+  achievedBy: goal.achievedBy,
+  steps: goal.steps.map(step => ({
+    uuid: step.uuid,
+    actor: step.actor,
+    actorLabel: step.actorLabel,
+    description: step.description,
+    status: step.status,
+    statusDate: step.statusDate,
+    targetDate: step.targetDate,
+  })),
+  notes: goal.notes.map(note => ({
+    uuid: note.uuid,
+    type: note.type,
+    note: note.note,
+    createdBy: note.createdBy,
+    createdAt: note.createdAt,
+  })),
+})
+
+const toExportAgreement = (agreement: DerivedPlanAgreement): PlanDataExportAgreement => ({
+  uuid: agreement.uuid,
+  status: agreement.status,
+  statusDate: agreement.statusDate,
+  agreementQuestion: agreement.agreementQuestion,
+  detailsNo: agreement.detailsNo,
+  detailsCouldNotAnswer: agreement.detailsCouldNotAnswer,
+  notes: agreement.notes,
+  createdBy: agreement.createdBy,
+})
+
+const goalEvent = (entry: Exclude<PlanHistoryEntry, PlanAgreementHistoryEntry>): PlanDataExportHistoryEntry => ({
+  uuid: entry.uuid,
+  type: entry.type,
+  date: entry.date,
+  goalUuid: entry.goalUuid,
+  goalTitle: entry.goalTitle,
+})
+
+const toExportHistoryEntry = (entry: PlanHistoryEntry): PlanDataExportHistoryEntry => {
+  switch (entry.type) {
+    case 'agreement':
+      return {
+        uuid: entry.uuid,
+        type: entry.type,
+        date: entry.date,
+        by: entry.createdBy,
+        notes: [entry.detailsNo, entry.detailsCouldNotAnswer, entry.notes].filter(Boolean).join('\n') || undefined,
+        agreementStatus: entry.status,
+      }
+    case 'goal_created':
+      return { ...goalEvent(entry), by: entry.createdBy }
+    case 'goal_achieved':
+      return { ...goalEvent(entry), by: entry.achievedBy, notes: entry.notes }
+    case 'goal_removed':
+      return { ...goalEvent(entry), by: entry.removedBy, notes: entry.reason }
+    case 'goal_readded':
+      return { ...goalEvent(entry), by: entry.readdedBy, notes: entry.reason }
+    case 'goal_updated':
+    default:
+      return { ...goalEvent(entry), by: entry.updatedBy, notes: entry.notes }
+  }
+}
+
+/**
+ * Build the plan data export from the derived plan.
+ */
+export const buildPlanDataExport = ({
+  crn,
+  goals,
+  agreements,
+  history,
+  exportedAt,
+}: {
+  crn?: string
+  goals: DerivedGoal[]
+  agreements: DerivedPlanAgreement[]
+  history: PlanHistoryEntry[]
+  exportedAt: Date
+}): PlanDataExport => ({
+  schemaVersion: PLAN_DATA_EXPORT_SCHEMA_VERSION,
+  exportedAt: exportedAt.toISOString(),
+  crn,
+  goals: goals.map(toExportGoal),
+  agreements: agreements.map(toExportAgreement),
+  history: history.map(toExportHistoryEntry),
+})
+
+/**
+ * Columns of the CSV export. Each row is one goal, step, note, agreement or history entry,
+ * named in `record_type`, with the columns that don't apply to it left empty.
+ */
+export const PLAN_DATA_CSV_COLUMNS = [
+  'schema_version',
+  'crn',
+  'record_type',
+  'uuid',
+  'goal_uuid',
+  'goal_title',
+  'type',
+  'status',
+  'date',
+  'target_date',
+  'area_of_need',
+  'related_areas_of_need',
+  'actor',
+  'actor_label',
+  'description',
+  'by',
+  'notes',
+] as const
+
+type PlanDataCsvRow = Partial<Record<(typeof PLAN_DATA_CSV_COLUMNS)[number], string>>
+
+/**
+ * Quote a CSV value when it needs it, and stop spreadsheets treating text that starts with
+ * =, +, - or @ as a formula.
+ */
+const toCsvValue = (value: string | undefined): string => {
+  const text = /^[=+\-@\t\r]/.test(value ?? '') ? `'${value}` : (value ?? '')
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const toCsvRows = (planDataExport: PlanDataExport): PlanDataCsvRow[] => [
+  ...planDataExport.goals.flatMap((goal): PlanDataCsvRow[] => [
+    {
+      record_type: 'goal',
+      uuid: goal.uuid,
+      goal_uuid: goal.uuid,
+      goal_title: goal.title,
+      status: goal.status,
+      date: goal.statusDate,
+      target_date: goal.targetDate,
+      area_of_need: goal.areaOfNeed,
+      related_areas_of_need: goal.relatedAreasOfNeed.join('; '),
+      by: goal.achievedBy,
+    },
+    ...goal.steps.map(step => ({
+      record_type: 'step',
+      uuid: step.uuid,
+      goal_uuid: goal.uuid,
+      goal_title: goal.title,
+      status: step.status,
+      date: step.statusDate,
+      target_date: step.targetDate,
+      actor: step.actor,
+      actor_label: step.actorLabel,
+      description: step.description,
+    })),
+    ...goal.notes.map(note => ({
+      record_type: 'note',
+      uuid: note.uuid,
+      goal_uuid: goal.uuid,
+      goal_title: goal.title,
+      type: note.type,
+      date: note.createdAt,
+      by: note.createdBy,
+      notes: note.note,
+    })),
+  ]),
+  ...planDataExport.agreements.map(agreement => ({
+    record_type: 'agreement',
+    uuid: agreement.uuid,
+    status: agreement.status,
+    date: agreement.statusDate,
+    description: agreement.agreementQuestion,
+    by: agreement.createdBy,
+    notes: [agreement.detailsNo, agreement.detailsCouldNotAnswer, agreement.notes].filter(Boolean).join('\n'),
+  })),
+  ...planDataExport.history.map(entry => ({
+    record_type: 'history',
+    uuid: entry.uuid,
+    goal_uuid: entry.goalUuid,
+    goal_title: entry.goalTitle,
+    type: entry.type,
+    status: entry.agreementStatus,
+    date: entry.date,
+    by: entry.by,
+    notes: entry.notes,
+  })),
+]
+
+/**
+ * Flatten the plan data export into CSV, with a header row of PLAN_DATA_CSV_COLUMNS.
+ */
+export const toPlanDataCsv = (planDataExport: PlanDataExport): string =>
+  [
+    PLAN_DATA_CSV_COLUMNS.join(','),
+    ...toCsvRows(planDataExport).map(row =>
+      PLAN_DATA_CSV_COLUMNS.map(column => {
+        switch (column) {
+          case 'schema_version':
+            return toCsvValue(planDataExport.schemaVersion)
+          case 'crn':
+            return toCsvValue(planDataExport.crn)
+          default:
+            return toCsvValue(row[column])
+        }
+      }).join(','),
+    ),
+  ].join('\r\n')
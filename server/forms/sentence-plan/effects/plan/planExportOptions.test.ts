@@ -0,0 +1,68 @@
+import { buildPlanExportQuery, getPlanExportFilename, parsePlanExportOptions } from './planExportOptions'
+
+describe('planExportOptions', () => {
+  describe('parsePlanExportOptions()', () => {
+    it('should parse the sections and exclusions from the query string, in print order', () => {
+      // Act
+      const options = parsePlanExportOptions({ sections: 'future,active', exclude: 'removal-reasons,notes' })
+
+      // Assert
+      expect(options).toEqual({ sections: ['active', 'future'], exclude: ['notes', 'removal-reasons'] })
+    })
+
+    it('should accept repeated query params', () => {
+      // Act
+      const options = parsePlanExportOptions({ sections: ['achieved', 'removed'], exclude: ['notes'] })
+
+      // Assert
+      expect(options).toEqual({ sections: ['achieved', 'removed'], exclude: ['notes'] })
+    })
+
+    it('should include everything when there are no valid options', () => {
+      // Act
+      const options = parsePlanExportOptions({ sections: 'deleted', exclude: 'everything' })
+
+      // Assert
+      expect(options).toEqual({ sections: ['active', 'future', 'achieved', 'removed'], exclude: [] })
+    })
+  })
+
+  describe('buildPlanExportQuery()', () => {
+    it('should leave out the defaults', () => {
+      // Act
+      const query = buildPlanExportQuery(parsePlanExportOptions({}))
+
+      // Assert
+      expect(query).toBe('')
+    })
+
+    it('should build a query string that parses back to the same options', () => {
+      // Arrange
+      const options = parsePlanExportOptions({ sections: 'active,future', exclude: 'notes' })
+
+      // Act
+      const query = buildPlanExportQuery(options)
+
+      // Assert
+      expect(query).toBe('?sections=active%2Cfuture&exclude=notes')
+      expect(parsePlanExportOptions(Object.fromEntries(new URLSearchParams(query)))).toEqual(options)
+    })
+  })
+
+  describe('getPlanExportFilename()', () => {
+    it('should name a whole plan sentence-plan.pdf', () => {
+      expect(getPlanExportFilename(parsePlanExportOptions({}))).toBe('sentence-plan.pdf')
+    })
+
+    it('should say which sections are included and what is left out', () => {
+      // Arrange
+      const options = parsePlanExportOptions({ sections: 'active,future', exclude: 'notes,removal-reasons' })
+
+      // Act
+      const filename = getPlanExportFilename(options)
+
+      // Assert
+      expect(filename).toBe('sentence-plan-active-future-without-notes-and-removal-reasons.pdf')
+    })
+  })
+})
@@ -0,0 +1,82 @@
+import { PlanExportExclusion, PlanExportOptions, PlanExportSection } from '../types'
+
+/**
+ * Goal sections in the order they're printed, each with the goal status it shows.
+ */
+export const PLAN_EXPORT_SECTIONS: Record<PlanExportSection, string> = {
+  active: 'ACTIVE',
+  future: 'FUTURE',
+  achieved: 'ACHIEVED',
+  removed: 'REMOVED',
+}
+
+export const PLAN_EXPORT_SECTION_NAMES = Object.keys(PLAN_EXPORT_SECTIONS) as PlanExportSection[]
+
+export const PLAN_EXPORT_EXCLUSIONS: PlanExportExclusion[] = ['notes', 'removal-reasons']
+
+const toList = (value: unknown): unknown[] => {
+  if (Array.isArray(value)) {
+    return value
+  }
+
+  return typeof value === 'string' ? value.split(',') : []
+}
+
+export interface PlanExportQuery {
+  sections?: unknown
+  exclude?: unknown
+}
+
+/**
+ * Parse the print-preview query string into export options.
+ * Anything invalid is dropped, and no valid sections means all of them, so a plain
+ * print-preview link prints the whole plan.
+ */
+export const parsePlanExportOptions = (query: PlanExportQuery): PlanExportOptions => {
+  const sections = toList(query.sections)
+  const exclude = toList(query.exclude)
+  const selectedSections = PLAN_EXPORT_SECTION_NAMES.filter(section => sections.includes(section))
+
+  return {
+    sections: selectedSections.length ? selectedSections : PLAN_EXPORT_SECTION_NAMES,
+    exclude: PLAN_EXPORT_EXCLUSIONS.filter(exclusion => exclude.includes(exclusion)),
+  }
+}
+
+/**
+ * Build the query string for a set of export options, including the leading '?'.
+ * All sections and nothing left out is the default, so gives an empty string.
+ */
+export const buildPlanExportQuery = (options: PlanExportOptions): string => {
+  const params = new URLSearchParams()
+
+  if (options.sections.length < PLAN_EXPORT_SECTION_NAMES.length) {
+    params.set('sections', options.sections.join(','))
+  }
+
+  if (options.exclude.length) {
+    params.set('exclude', options.exclude.join(','))
+  }
+
+  const query = params.toString()
+
+  return query ? `?${query}` : ''
+}
+
+/**
+ * Name of the PDF a plan is downloaded as, saying what it includes when that isn't everything,
+ * e.g. sentence-plan-active-future-without-notes.pdf
+ */
+export const getPlanExportFilename = (options: PlanExportOptions): string => {
+  const parts = ['sentence-plan']
+
+  if (options.sections.length < PLAN_EXPORT_SECTION_NAMES.length) {
+    parts.push(...options.sections)
+  }
+
+  if (options.exclude.length) {
+    parts.push('without', options.exclude.join('-and-'))
+  }
+
+  return `${parts.join('-')}.pdf`
+}
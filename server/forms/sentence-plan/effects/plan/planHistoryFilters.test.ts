@@ -0,0 +1,106 @@
+import { PlanHistoryFilters } from '../types'
+import { buildPlanHistoryHref, parsePlanHistoryFilters, selectedEventTypes, toFilterDate } from './planHistoryFilters'
+
+describe('planHistoryFilters', () => {
+  const practitioners = [
+    { id: 'user-1', name: 'Jane Smith' },
+    { id: 'user-2', name: 'Bob Jones' },
+  ]
+
+  describe('parsePlanHistoryFilters()', () => {
+    it('should parse every filter from the query string', () => {
+      // Act
+      const filters = parsePlanHistoryFilters(
+        { page: '3', from: '2024-01-01', to: '2024-12-31', type: 'agreement,created', practitioner: 'user-2' },
+        practitioners,
+      )
+
+      // Assert
+      expect(filters).toEqual({
+        page: 3,
+        from: '2024-01-01',
+        to: '2024-12-31',
+        eventTypes: ['created', 'agreement'],
+        practitioner: { id: 'user-2', name: 'Bob Jones' },
+      })
+    })
+
+    it('should accept event types as a repeated query param', () => {
+      // Act
+      const filters = parsePlanHistoryFilters({ type: ['removed', 'readded'] }, practitioners)
+
+      // Assert
+      expect(filters.eventTypes).toEqual(['removed', 'readded'])
+    })
+
+    it('should drop anything invalid instead of failing', () => {
+      // Act
+      const filters = parsePlanHistoryFilters(
+        { page: '-1', from: '2024-13-45', to: 'yesterday', type: 'deleted', practitioner: 'someone-else' },
+        practitioners,
+      )
+
+      // Assert
+      expect(filters).toEqual({
+        page: 1,
+        from: undefined,
+        to: undefined,
+        eventTypes: [],
+        practitioner: undefined,
+      })
+    })
+  })
+
+  describe('toFilterDate()', () => {
+    it('should take the date part of an ISO timestamp', () => {
+      // Act & Assert
+      expect(toFilterDate('2024-03-31T00:00:00.000Z')).toBe('2024-03-31')
+      expect(toFilterDate('31/03/2024')).toBeUndefined()
+      expect(toFilterDate(undefined)).toBeUndefined()
+    })
+  })
+
+  describe('buildPlanHistoryHref()', () => {
+    const filters: PlanHistoryFilters = {
+      page: 2,
+      from: '2024-01-01',
+      eventTypes: ['achieved', 'agreement'],
+      practitioner: { id: 'user-1', name: 'Jane Smith' },
+    }
+
+    it('should put the filters and page in the query string', () => {
+      // Act
+      const href = buildPlanHistoryHref(filters)
+
+      // Assert
+      expect(href).toBe('plan-history?from=2024-01-01&type=achieved%2Cagreement&practitioner=user-1&page=2')
+    })
+
+    it('should leave out the first page and empty filters', () => {
+      // Act & Assert
+      expect(buildPlanHistoryHref(filters, 1)).toBe(
+        'plan-history?from=2024-01-01&type=achieved%2Cagreement&practitioner=user-1',
+      )
+      expect(buildPlanHistoryHref({ page: 1, eventTypes: [] })).toBe('plan-history')
+    })
+
+    it('should round trip through parsePlanHistoryFilters', () => {
+      // Arrange
+      const query = Object.fromEntries(new URLSearchParams(buildPlanHistoryHref(filters).split('?')[1]))
+
+      // Act
+      const parsed = parsePlanHistoryFilters(query, practitioners)
+
+      // Assert
+      expect(parsed).toEqual({ ...filters, to: undefined })
+    })
+  })
+
+  describe('selectedEventTypes()', () => {
+    it('should treat no event types as all of them', () => {
+      // Act & Assert
+      expect(selectedEventTypes({ page: 1, eventTypes: [] })).toHaveLength(6)
+      expect(selectedEventTypes({ page: 1, eventTypes: ['updated'] })).toEqual(['updated'])
+    })
+  })
+})
@@ -0,0 +1,128 @@
+import { TimelineItem } from '../../../../interfaces/aap-api/dataModel'
+import { PlanHistoryEventType, PlanHistoryFilters } from '../types'
+
+export const PLAN_HISTORY_PAGE_SIZE = 20
+
+/**
+ * Timeline custom types behind each goal event type. Agreements aren't timeline
+ * events (they come from the plan's agreements collection), so have none.
+ */
+export const PLAN_HISTORY_EVENT_CUSTOM_TYPES: Record<PlanHistoryEventType, string[]> = {
+  created: ['GOAL_CREATED'],
+  achieved: ['GOAL_ACHIEVED'],
+  removed: ['GOAL_REMOVED'],
+  readded: ['GOAL_READDED'],
+  updated: ['GOAL_UPDATED'],
+  agreement: [],
+}
+
+export const PLAN_HISTORY_EVENT_TYPES = Object.keys(PLAN_HISTORY_EVENT_CUSTOM_TYPES) as PlanHistoryEventType[]
+
+const isPlanHistoryEventType = (value: unknown): value is PlanHistoryEventType =>
+  PLAN_HISTORY_EVENT_TYPES.includes(value as PlanHistoryEventType)
+
+const toList = (value: unknown): unknown[] => {
+  if (Array.isArray(value)) {
+    return value
+  }
+
+  return typeof value === 'string' ? value.split(',') : []
+}
+
+/**
+ * Returns the date if it is a real YYYY-MM-DD date, otherwise undefined.
+ * Accepts full ISO timestamps too, as produced by the date picker's ToISODate formatter.
+ */
+export const toFilterDate = (value: unknown): string | undefined => {
+  const date = typeof value === 'string' ? value.slice(0, 10) : undefined
+
+  if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(Date.parse(date))) {
+    return undefined
+  }
+
+  return date
+}
+
+export interface PlanHistoryQuery {
+  page?: unknown
+  from?: unknown
+  to?: unknown
+  type?: unknown
+  practitioner?: unknown
+}
+
+/**
+ * Parse the plan-history query string into filters.
+ * Anything invalid (e.g. a hand-edited URL) is dropped rather than rejected,
+ * and a practitioner is only kept if they are one of `practitioners`.
+ */
+export const parsePlanHistoryFilters = (
+  query: PlanHistoryQuery,
+  practitioners: Array<{ id: string; name: string }>,
+): PlanHistoryFilters => {
+  const page = Number(query.page)
+  const eventTypes = toList(query.type).filter(isPlanHistoryEventType)
+
+  return {
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+    from: toFilterDate(query.from),
+    to: toFilterDate(query.to),
+    eventTypes: PLAN_HISTORY_EVENT_TYPES.filter(type => eventTypes.includes(type)),
+    practitioner: practitioners.find(practitioner => practitioner.id === query.practitioner),
+  }
+}
+
+/**
+ * Build the plan-history URL for a set of filters. Page 1 and empty filters are left out.
+ */
+export const buildPlanHistoryHref = (filters: PlanHistoryFilters, page = filters.page): string => {
+  const params = new URLSearchParams()
+
+  if (filters.from) {
+    params.set('from', filters.from)
+  }
+
+  if (filters.to) {
+    params.set('to', filters.to)
+  }
+
+  if (filters.eventTypes.length) {
+    params.set('type', filters.eventTypes.join(','))
+  }
+
+  if (filters.practitioner) {
+    params.set('practitioner', filters.practitioner.id)
+  }
+
+  if (page > 1) {
+    params.set('page', String(page))
+  }
+
+  const queryString = params.toString()
+
+  return queryString ? `plan-history?${queryString}` : 'plan-history'
+}
+
+/**
+ * The selected event types, treating "none selected" as all of them.
+ */
+export const selectedEventTypes = (filters: PlanHistoryFilters | undefined): PlanHistoryEventType[] =>
+  filters?.eventTypes.length ? filters.eventTypes : PLAN_HISTORY_EVENT_TYPES
+
+// Filter dates are whole days, so `to` runs to the end of the day
+export const startOfFilterDay = (date: string): string => `${date}T00:00:00.000Z`
+
+export const endOfFilterDay = (date: string): string => `${date}T23:59:59.999Z`
+
+/**
+ * The goal a timeline event is about. GOAL_CREATED events are written in the same batch as
+ * the goal, before its UUID is known, so they are read from the goal they were recorded against.
+ */
+export const getTimelineGoalUuid = (item: TimelineItem): string | undefined => {
+  const goalUuid =
+    item.customData?.goalUuid ??
+    item.data?.goalUuid ??
+    (item.customType === 'GOAL_CREATED' ? item.data?.collectionItemUuid : undefined)
+
+  return typeof goalUuid === 'string' && goalUuid.length > 0 ? goalUuid : undefined
+}
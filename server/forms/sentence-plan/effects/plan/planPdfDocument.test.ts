@@ -0,0 +1,64 @@
+import { buildPlanPdfDocument } from './planPdfDocument'
+
+describe('buildPlanPdfDocument()', () => {
+  const generatedAt = new Date('2026-10-19T09:30:00Z')
+
+  it('should title the PDF after the person and print their name and CRN on every page', () => {
+    // Act
+    const document = buildPlanPdfDocument(
+      { name: { forename: 'Buster', middleName: '', surname: 'Sanford' }, crn: 'X123456' },
+      generatedAt,
+    )
+
+    // Assert
+    expect(document.title).toBe('Sentence plan for Buster Sanford')
+    expect(document.language).toBe('en-GB')
+    expect(document.headerHtml).toContain('<html lang="en-GB">')
+    expect(document.headerHtml).toContain('<span>Buster Sanford</span><span>CRN: X123456</span>')
+  })
+
+  it('should number the pages and say when the PDF was generated in the footer', () => {
+    // Act
+    const document = buildPlanPdfDocument(
+      { name: { forename: 'Buster', middleName: '', surname: 'Sanford' }, crn: 'X123456' },
+      generatedAt,
+    )
+
+    // Assert
+    expect(document.footerHtml).toContain('Page <span class="pageNumber"></span> of <span class="totalPages"></span>')
+    expect(document.footerHtml).toContain('Generated on 19 October 2026')
+  })
+
+  it('should escape the person name', () => {
+    // Act
+    const document = buildPlanPdfDocument(
+      { name: { forename: '<b>Buster</b>', middleName: '', surname: '&' }, crn: 'X1' },
+      generatedAt,
+    )
+
+    // Assert
+    expect(document.headerHtml).toContain('&lt;b&gt;Buster&lt;/b&gt; &amp;')
+    expect(document.headerHtml).not.toContain('<b>')
+  })
+
+  it('should use the title it is given', () => {
+    // Act
+    const document = buildPlanPdfDocument(
+      { name: { forename: 'Buster', middleName: '', surname: 'Sanford' }, crn: 'X123456' },
+      generatedAt,
+      'Easy read sentence plan',
+    )
+
+    // Assert
+    expect(document.title).toBe('Easy read sentence plan for Buster Sanford')
+  })
+
+  it('should fall back to a plain title without case details', () => {
+    // Act
+    const document = buildPlanPdfDocument(undefined, generatedAt)
+
+    // Assert
+    expect(document.title).toBe('Sentence plan')
+    expect(document.headerHtml).toContain('<span></span><span></span>')
+  })
+})
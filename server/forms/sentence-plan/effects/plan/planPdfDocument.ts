@@ -0,0 +1,47 @@
+import type { CaseDetails } from '../../../../interfaces/delius-api/caseDetails'
+import type { PdfDocument } from '../../../../services/pdf-renderers/pdfRenderer'
+import { formatDate } from '../../../../utils/utils'
+
+export const PLAN_PDF_LANGUAGE = 'en-GB'
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+/**
+ * Gotenberg prints the header and footer in their own page, without the app's stylesheets,
+ * and at a tiny default font size.
+ */
+const runningText = (content: string): string => `<!DOCTYPE html>
+<html lang="${PLAN_PDF_LANGUAGE}">
+  <head>
+    <style>
+      body { display: flex; justify-content: space-between; box-sizing: border-box; width: 100%; margin: 0; padding: 0 15mm; font-family: Arial, sans-serif; font-size: 10pt; color: #0b0c0c; }
+    </style>
+  </head>
+  <body>${content}</body>
+</html>
+`
+
+/**
+ * The title, header and footer of a sentence plan PDF, from the same case details as
+ * CaseData: the person's name and CRN on every page, with page numbers and the date the
+ * PDF was generated at the bottom.
+ */
+export const buildPlanPdfDocument = (
+  caseData: Pick<CaseDetails, 'name' | 'crn'> | undefined,
+  generatedAt: Date,
+  title = 'Sentence plan',
+): PdfDocument => {
+  const name = [caseData?.name?.forename, caseData?.name?.surname].filter(Boolean).join(' ')
+  const crn = caseData?.crn ? `CRN: ${caseData.crn}` : ''
+  const generatedOn = `Generated on ${formatDate(generatedAt.toISOString(), 'simple')}`
+
+  return {
+    title: name ? `${title} for ${name}` : title,
+    language: PLAN_PDF_LANGUAGE,
+    headerHtml: runningText(`<span>${escapeHtml(name)}</span><span>${escapeHtml(crn)}</span>`),
+    footerHtml: runningText(
+      `<span>Page <span class="pageNumber"></span> of <span class="totalPages"></span></span><span>${generatedOn}</span>`,
+    ),
+  }
+}
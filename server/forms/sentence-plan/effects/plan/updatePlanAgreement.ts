@@ -9,6 +9,8 @@ import {
 import { wrapAll } from '../../../../data/aap-api/wrappers'
 import { getRequiredEffectContext } from '../goals/goalUtils'
 import { trackBusinessEvent } from '../telemetry/trackBusinessEvent'
+import { executePlanCommands } from './executePlanCommands'
+import { publishPlanAgreementEvent } from '../domain-events/publishSentencePlanDomainEvent'
 
 /**
  * Updates the plan agreement status by adding a new agreement record to the PLAN_AGREEMENTS collection.
@@ -77,7 +79,7 @@ export const updatePlanAgreement = (deps: SentencePlanEffectsDeps) => async (con
   }
 
   // Add the agreement record to the collection
-  await deps.api.executeCommand({
+  await executePlanCommands(deps, context, {
     type: 'AddCollectionItemCommand',
     collectionUuid: planAgreementsCollectionUuid,
     properties: wrapAll(properties),
@@ -91,4 +93,6 @@ export const updatePlanAgreement = (deps: SentencePlanEffectsDeps) => async (con
   })
 
   trackBusinessEvent(context, 'UPDATE_PLAN_AGREEMENT_PAGE_SUBMITTED', { assessmentUuid, status: agreementStatus })
+
+  await publishPlanAgreementEvent(deps, context, agreementStatus)
 }
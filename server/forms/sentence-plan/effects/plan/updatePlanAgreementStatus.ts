@@ -7,8 +7,11 @@ import {
   SentencePlanEffectsDeps,
 } from '../types'
 import { wrapAll } from '../../../../data/aap-api/wrappers'
+import CommandBatch from '../../../../data/aap-api/commandBatch'
 import { getRequiredEffectContext } from '../goals/goalUtils'
 import { trackBusinessEvent } from '../telemetry/trackBusinessEvent'
+import { executePlanCommands } from './executePlanCommands'
+import { publishPlanAgreementEvent } from '../domain-events/publishSentencePlanDomainEvent'
 
 /**
  * Add a new plan agreement record to the PLAN_AGREEMENTS collection
@@ -54,18 +57,19 @@ export const updatePlanAgreementStatus = (deps: SentencePlanEffectsDeps) => asyn
     throw new InternalServerError(`Invalid agreement answer: ${agreementAnswer}`)
   }
 
-  // Get or create PLAN_AGREEMENTS collection
+  // Get or create PLAN_AGREEMENTS collection, in the same batch as the agreement record
+  const batch = new CommandBatch()
   let planAgreementsCollectionUuid = context.getData('planAgreementsCollectionUuid')
 
   if (!planAgreementsCollectionUuid) {
-    const createResult = await deps.api.executeCommand({
+    const createCollection = batch.add({
       type: 'CreateCollectionCommand',
       name: 'PLAN_AGREEMENTS',
       assessmentUuid,
       user,
     })
 
-    planAgreementsCollectionUuid = createResult.collectionUuid
+    planAgreementsCollectionUuid = createCollection.ref('collectionUuid')
   }
 
   // Build properties
@@ -102,7 +106,7 @@ export const updatePlanAgreementStatus = (deps: SentencePlanEffectsDeps) => asyn
   }
 
   // Add the agreement record to the collection
-  await deps.api.executeCommand({
+  batch.add({
     type: 'AddCollectionItemCommand',
     collectionUuid: planAgreementsCollectionUuid,
     properties: wrapAll(properties),
@@ -115,5 +119,9 @@ export const updatePlanAgreementStatus = (deps: SentencePlanEffectsDeps) => asyn
     user,
   })
 
+  await executePlanCommands(deps, context, ...batch.commands)
+
   trackBusinessEvent(context, 'AGREE_PLAN_PAGE_SUBMITTED', { assessmentUuid, status: agreementStatus })
+
+  await publishPlanAgreementEvent(deps, context, agreementStatus)
 }
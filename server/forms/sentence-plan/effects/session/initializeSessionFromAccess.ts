@@ -1,7 +1,7 @@
 import { InternalServerError } from 'http-errors'
 import { SentencePlanContext } from '../types'
 import { trackBusinessEvent } from '../telemetry/trackBusinessEvent'
-import { IdentifierType } from '../../../../interfaces/aap-api/identifier'
+import { getTargetService } from '../../../access/registry'
 
 /**
  * Initialize sentence plan session from access form data.
@@ -12,6 +12,8 @@ import { IdentifierType } from '../../../../interfaces/aap-api/identifier'
  * This effect should run at the start of the plan overview step
  * to bridge the access form setup with sentence plan requirements.
  *
+ * The plan identifier is resolved by Sentence Plan's entry in the access form's
+ * target service registry:
  * For handover access: uses planId from handover context if available
  * For CRN access: uses CRN as external identifier
  */
@@ -27,26 +29,11 @@ export const initializeSessionFromAccess = () => (context: SentencePlanContext)
     throw new InternalServerError('Case details not found - ensure access ran first')
   }
 
-  const { accessDetails, caseDetails, handoverContext } = session
+  const { accessDetails, handoverContext } = session
 
-  // Build plan identifier based on access type
-  let planIdentifier
+  const planIdentifier = getTargetService('sentence-plan').resolvePlanIdentifier(session)
 
-  if (accessDetails.accessType === 'OASYS' && handoverContext?.sentencePlanContext?.planId) {
-    // Handover
-    planIdentifier = {
-      type: 'UUID' as const,
-      uuid: handoverContext.sentencePlanContext.planId,
-    }
-  } else if (caseDetails.crn) {
-    // CRN-based access
-    planIdentifier = {
-      type: 'EXTERNAL' as const,
-      identifier: caseDetails.crn,
-      identifierType: IdentifierType.CRN,
-      assessmentType: 'SENTENCE_PLAN',
-    }
-  } else {
+  if (!planIdentifier) {
     throw new InternalServerError('Cannot determine plan identifier - no planId or CRN available')
   }
 
@@ -0,0 +1,69 @@
+import { Conflict } from 'http-errors'
+import { resolveCaseContext } from './resolveCaseContext'
+import type { SentencePlanContext, SentencePlanSession } from '../types'
+import { CaseDetails } from '../../../../interfaces/delius-api/caseDetails'
+
+const createMockContext = (session: SentencePlanSession, query: Record<string, string> = {}) =>
+  ({
+    getSession: jest.fn(() => session),
+    getQueryParam: jest.fn((key: string) => query[key]),
+    setData: jest.fn(),
+  }) as unknown as SentencePlanContext
+
+const createSession = (): SentencePlanSession => ({
+  caseDetails: { crn: 'X000002' } as CaseDetails,
+  caseContextId: 'second',
+  caseContexts: {
+    first: { caseDetails: { crn: 'X000001' } as CaseDetails },
+    second: { caseDetails: { crn: 'X000002' } as CaseDetails },
+  },
+})
+
+describe('resolveCaseContext', () => {
+  it('should switch to the case the request was made for', () => {
+    // Arrange
+    const session = createSession()
+    const context = createMockContext(session, { caseContext: 'first' })
+
+    // Act
+    resolveCaseContext()(context)
+
+    // Assert
+    expect(session.caseDetails.crn).toBe('X000001')
+    expect(session.caseContextId).toBe('first')
+    expect(context.setData).toHaveBeenCalledWith('caseContextId', 'first')
+  })
+
+  it('should keep the active case when the request is for it', () => {
+    // Arrange
+    const session = createSession()
+    const context = createMockContext(session, { caseContext: 'second' })
+
+    // Act
+    resolveCaseContext()(context)
+
+    // Assert
+    expect(session.caseDetails.crn).toBe('X000002')
+    expect(context.setData).toHaveBeenCalledWith('caseContextId', 'second')
+  })
+
+  it('should reject a case context ID the session does not have', () => {
+    // Arrange
+    const session = createSession()
+    const context = createMockContext(session, { caseContext: 'unknown' })
+
+    // Act & Assert
+    expect(() => resolveCaseContext()(context)).toThrow(Conflict)
+    expect(session.caseDetails.crn).toBe('X000002')
+  })
+
+  it('should reject a request without a case context ID, rather than give it the active case', () => {
+    // Arrange
+    const session = createSession()
+    const context = createMockContext(session)
+
+    // Act & Assert
+    expect(() => resolveCaseContext()(context)).toThrow(Conflict)
+    expect(context.setData).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,30 @@
+import { Conflict } from 'http-errors'
+import { SentencePlanContext } from '../types'
+import { activateCaseContext, CASE_CONTEXT_PARAM } from '../../../shared/caseContext'
+
+/**
+ * Work out which case the request is for, from the case context ID in its path
+ * (`/sentence-plan/case/:id/...`, read as `?caseContext=` once setUpCaseContextPaths has
+ * moved it).
+ *
+ * Someone may have opened another case in a different tab since the page was loaded, so
+ * the case the ID belongs to is made the session's active case before anything else reads
+ * it, and the request changes the plan the page was built for. A request without an ID, or
+ * with one the session doesn't know about, is rejected rather than given the active case.
+ *
+ * Must run before initializeSessionFromAccess, loadPlan and anything else reading the case
+ * from the session.
+ *
+ * Sets:
+ * - Data('caseContextId'): The ID of the case the request is for
+ */
+export const resolveCaseContext = () => (context: SentencePlanContext) => {
+  const session = context.getSession()
+  const caseContextId = context.getQueryParam(CASE_CONTEXT_PARAM)
+
+  if (typeof caseContextId !== 'string' || !activateCaseContext(session, caseContextId)) {
+    throw new Conflict('Case context does not match any case in the session')
+  }
+
+  context.setData('caseContextId', caseContextId)
+}
@@ -1,4 +1,5 @@
 import { SentencePlanContext } from '../types'
+import { toDatePickerValue } from '../goals/goalUtils'
 
 /**
  * Add a new empty step to the step edit session
@@ -27,6 +28,7 @@ export const addStepToStepEditSession = () => async (context: SentencePlanContex
     step.actor = context.getAnswer(`step_actor_${index}`) ?? step.actor
     step.description = context.getAnswer(`step_description_${index}`) ?? step.description
     step.status = context.getAnswer(`step_status_${index}`) ?? step.status
+    step.targetDate = context.getAnswer(`step_target_date_${index}`) ?? step.targetDate
   })
 
   // Add new empty step
@@ -49,5 +51,6 @@ export const addStepToStepEditSession = () => async (context: SentencePlanContex
     context.setAnswer(`step_actor_${index}`, step.actor)
     context.setAnswer(`step_description_${index}`, step.description)
     context.setAnswer(`step_status_${index}`, step.status)
+    context.setAnswer(`step_target_date_${index}`, toDatePickerValue(step.targetDate))
   })
 }
@@ -1,4 +1,5 @@
 import { SentencePlanContext, StepChangesStorage, StepSession } from '../types'
+import { toDatePickerValue } from '../goals/goalUtils'
 
 /**
  * Initialize the step edit session
@@ -68,5 +69,6 @@ export const initializeStepEditSession = () => async (context: SentencePlanConte
     context.setAnswer(`step_actor_${index}`, step.actor)
     context.setAnswer(`step_description_${index}`, step.description)
     context.setAnswer(`step_status_${index}`, step.status)
+    context.setAnswer(`step_target_date_${index}`, toDatePickerValue(step.targetDate))
   })
 }
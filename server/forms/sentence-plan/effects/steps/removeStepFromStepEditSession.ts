@@ -1,4 +1,5 @@
 import { SentencePlanContext } from '../types'
+import { toDatePickerValue } from '../goals/goalUtils'
 
 /**
  * Remove or clear a step from the step edit session
@@ -41,6 +42,7 @@ export const removeStepFromStepEditSession = () => async (context: SentencePlanC
     step.actor = context.getAnswer(`step_actor_${i}`) ?? step.actor
     step.description = context.getAnswer(`step_description_${i}`) ?? step.description
     step.status = context.getAnswer(`step_status_${i}`) ?? step.status
+    step.targetDate = context.getAnswer(`step_target_date_${i}`) ?? step.targetDate
   })
 
   // If only 1 step, clear it instead of removing
@@ -81,5 +83,6 @@ export const removeStepFromStepEditSession = () => async (context: SentencePlanC
     context.setAnswer(`step_actor_${i}`, step.actor)
     context.setAnswer(`step_description_${i}`, step.description)
     context.setAnswer(`step_status_${i}`, step.status)
+    context.setAnswer(`step_target_date_${i}`, toDatePickerValue(step.targetDate))
   })
 }
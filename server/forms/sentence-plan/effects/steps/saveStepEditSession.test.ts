@@ -53,8 +53,10 @@ function createMockContext(options: MockContextOptions = {}) {
 function createDeps() {
   return {
     api: {
-      executeCommand: jest.fn().mockResolvedValue({ collectionUuid: 'created-steps-collection' }),
-      executeCommands: jest.fn().mockResolvedValue([]),
+      executeCommandsAtVersion: jest.fn().mockResolvedValue({
+        results: [{ collectionUuid: 'created-steps-collection' }],
+        assessmentVersion: '2025-01-02T00:00:00Z',
+      }),
     },
   } as unknown as SentencePlanEffectsDeps
 }
@@ -81,7 +83,8 @@ function createStep(overrides: Partial<StepSession>): StepSession {
 }
 
 function getExecutedCommands(deps: SentencePlanEffectsDeps) {
-  return (deps.api.executeCommands as jest.Mock).mock.calls[0] ?? []
+  const calls = (deps.api.executeCommandsAtVersion as jest.Mock).mock.calls
+  return calls.at(-1)?.slice(1) ?? []
 }
 
 describe('saveStepEditSession', () => {
@@ -493,4 +496,214 @@ describe('saveStepEditSession', () => {
       }),
     )
   })
+
+  it('should save against the plan version the form was loaded from', async () => {
+    // Arrange
+    const deps = createDeps()
+    const newStep = createStep({ id: 'step-new', actor: '', description: '' })
+    const session: SentencePlanSession = {
+      stepChanges: {
+        [activeGoal.uuid]: createStepChanges({
+          steps: [newStep],
+          toCreate: [newStep.id],
+        }),
+      },
+    }
+    const context = createMockContext({
+      session,
+      data: { planVersion: '2025-01-01T00:00:00Z' },
+      answers: {
+        step_actor_0: 'probation_practitioner',
+        step_description_0: 'Book an appointment',
+        step_status_0: 'NOT_STARTED',
+      },
+    })
+
+    // Act
+    await saveStepEditSession(deps)(context)
+
+    // Assert
+    const [expectedVersion] = (deps.api.executeCommandsAtVersion as jest.Mock).mock.calls[0]
+    expect(expectedVersion).toBe('2025-01-01T00:00:00Z')
+    expect(context.setData).toHaveBeenCalledWith('planVersion', '2025-01-02T00:00:00Z')
+  })
+
+  it('should create a missing STEPS collection in the same batch as the new steps', async () => {
+    // Arrange
+    const deps = createDeps()
+    const newStep = createStep({ id: 'step-new', actor: '', description: '' })
+    const session: SentencePlanSession = {
+      stepChanges: {
+        [activeGoal.uuid]: createStepChanges({
+          steps: [newStep],
+          toCreate: [newStep.id],
+          collectionUuid: undefined,
+        }),
+      },
+    }
+    const context = createMockContext({
+      session,
+      answers: {
+        step_actor_0: 'probation_practitioner',
+        step_description_0: 'Book an appointment',
+        step_status_0: 'NOT_STARTED',
+      },
+    })
+
+    // Act
+    await saveStepEditSession(deps)(context)
+
+    // Assert
+    expect(deps.api.executeCommandsAtVersion).toHaveBeenCalledTimes(1)
+
+    const commands = getExecutedCommands(deps)
+    expect(commands[0]).toEqual(
+      expect.objectContaining({
+        type: 'CreateCollectionCommand',
+        name: 'STEPS',
+        parentCollectionItemUuid: activeGoal.uuid,
+      }),
+    )
+    expect(commands).toContainEqual(
+      expect.objectContaining({
+        type: 'AddCollectionItemCommand',
+        collectionUuid: '$ref:0.collectionUuid',
+      }),
+    )
+  })
+
+  it('should store the target date of a new step and include it in the goal snapshot', async () => {
+    // Arrange
+    const deps = createDeps()
+    const newStep = createStep({ id: 'step-new', actor: '', description: '', status: '' })
+    const session: SentencePlanSession = {
+      stepChanges: {
+        [activeGoal.uuid]: createStepChanges({
+          steps: [newStep],
+          toCreate: [newStep.id],
+        }),
+      },
+    }
+    const context = createMockContext({
+      session,
+      answers: {
+        step_actor_0: 'probation_practitioner',
+        step_description_0: 'Book an appointment',
+        step_status_0: 'NOT_STARTED',
+        step_target_date_0: '2025-03-31',
+      },
+    })
+
+    // Act
+    await saveStepEditSession(deps)(context)
+
+    // Assert
+    const commands = getExecutedCommands(deps)
+    expect(commands).toContainEqual(
+      expect.objectContaining({
+        type: 'AddCollectionItemCommand',
+        answers: expect.objectContaining({
+          target_date: { type: 'Single', value: '2025-03-31' },
+        }),
+      }),
+    )
+    expect(commands).toContainEqual(
+      expect.objectContaining({
+        timeline: expect.objectContaining({
+          type: 'GOAL_UPDATED',
+          data: expect.objectContaining({
+            goalSnapshot: expect.objectContaining({
+              steps: [expect.objectContaining({ targetDate: '2025-03-31' })],
+            }),
+          }),
+        }),
+      }),
+    )
+  })
+
+  it('should remove the target date of an existing step when it is cleared', async () => {
+    // Arrange
+    const deps = createDeps()
+    const session: SentencePlanSession = {
+      stepChanges: {
+        [activeGoal.uuid]: createStepChanges({
+          steps: [createStep({ id: 'step-1', targetDate: '2025-03-31' })],
+        }),
+      },
+    }
+    const context = createMockContext({
+      session,
+      data: {
+        activeGoalStepsOriginal: [createStep({ id: 'step-1', targetDate: '2025-03-31' })],
+      },
+      answers: {
+        step_actor_0: 'probation_practitioner',
+        step_description_0: 'Contact housing services',
+        step_status_0: 'NOT_STARTED',
+        step_target_date_0: '',
+      },
+    })
+
+    // Act
+    await saveStepEditSession(deps)(context)
+
+    // Assert
+    const commands = getExecutedCommands(deps)
+    expect(commands).toContainEqual(
+      expect.objectContaining({
+        type: 'UpdateCollectionItemAnswersCommand',
+        collectionItemUuid: 'step-1',
+        removed: ['target_date'],
+      }),
+    )
+  })
+
+  it('should publish a step completed event for each step completed on an agreed plan', async () => {
+    // Arrange
+    const deps = createDeps()
+    deps.domainEventsService = { publish: jest.fn() } as unknown as SentencePlanEffectsDeps['domainEventsService']
+    ;(deps.api.executeCommandsAtVersion as jest.Mock).mockResolvedValue({
+      results: [{}, {}, { collectionItemUuid: 'created-step' }],
+      assessmentVersion: '2025-01-02T00:00:00Z',
+    })
+    const session: SentencePlanSession = {
+      caseDetails: { crn: 'X123456' },
+      stepChanges: {
+        [activeGoal.uuid]: createStepChanges({
+          steps: [createStep({ id: 'step-1' }), createStep({ id: 'step-2' }), createStep({ id: 'new-step' })],
+          toCreate: ['new-step'],
+        }),
+      },
+    } as SentencePlanSession
+    const context = createMockContext({
+      session,
+      data: {
+        latestAgreementStatus: 'AGREED',
+        activeGoalStepsOriginal: [createStep({ id: 'step-1' }), createStep({ id: 'step-2', status: 'COMPLETED' })],
+      },
+      answers: {
+        step_actor_0: 'probation_practitioner',
+        step_description_0: 'Contact housing services',
+        step_status_0: 'COMPLETED',
+        step_actor_1: 'probation_practitioner',
+        step_description_1: 'Contact housing services',
+        step_status_1: 'COMPLETED',
+        step_actor_2: 'probation_practitioner',
+        step_description_2: 'Open a bank account',
+        step_status_2: 'COMPLETED',
+      },
+    })
+
+    // Act
+    await saveStepEditSession(deps)(context)
+
+    // Assert
+    const publishedSteps = (deps.domainEventsService.publish as jest.Mock).mock.calls.map(
+      ([event]) => event.additionalInformation,
+    )
+    expect(publishedSteps).toEqual([
+      { goalUuid: 'goal-1', stepUuid: 'step-1' },
+      { goalUuid: 'goal-1', stepUuid: 'created-step' },
+    ])
+  })
 })
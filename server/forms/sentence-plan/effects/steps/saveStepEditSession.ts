@@ -1,12 +1,18 @@
 import { wrapAll } from '../../../../data/aap-api/wrappers'
 import { SentencePlanContext, SentencePlanEffectsDeps, StepChangesStorage, StepProperties } from '../types'
-import { Commands } from '../../../../interfaces/aap-api/command'
+import CommandBatch, { BatchedCommand } from '../../../../data/aap-api/commandBatch'
+import { AddCollectionItemCommand } from '../../../../interfaces/aap-api/command'
 import { getPractitionerName, getRequiredEffectContext } from '../goals/goalUtils'
 import { snapshotFromGoal } from '../goals/goalSnapshot'
 import { trackBusinessEvent } from '../telemetry/trackBusinessEvent'
+import { executePlanCommands } from '../plan/executePlanCommands'
+import { publishStepsCompletedEvents } from '../domain-events/publishSentencePlanDomainEvent'
 
 /**
  * Save the step edit session to the API
+ *
+ * Each step's optional target date is stored as its `target_date` answer, and cleared
+ * (removed) when the practitioner empties the field.
  */
 export const saveStepEditSession = (deps: SentencePlanEffectsDeps) => async (context: SentencePlanContext) => {
   const { user, assessmentUuid } = getRequiredEffectContext(context, 'saveStepEditSession')
@@ -27,11 +33,16 @@ export const saveStepEditSession = (deps: SentencePlanEffectsDeps) => async (con
     actor: context.getAnswer(`step_actor_${index}`),
     description: context.getAnswer(`step_description_${index}`),
     status: context.getAnswer(`step_status_${index}`),
+    targetDate: context.getAnswer(`step_target_date_${index}`) || undefined,
   })
 
   // Get original step values for change detection
   const stepsOriginal = context.getData('activeGoalStepsOriginal') ?? []
 
+  // Whether a step is completed by this save, so it can be published as a domain event
+  const isNewlyCompleted = (index: number, original?: { status?: string }) =>
+    getFormValues(index).status === 'COMPLETED' && original?.status !== 'COMPLETED'
+
   // Partition steps into new and existing
   const newStepIds = new Set(toCreate)
   const newSteps: { index: number; id: string }[] = []
@@ -52,18 +63,22 @@ export const saveStepEditSession = (deps: SentencePlanEffectsDeps) => async (con
 
     return current.actor !== original?.actor ||
       current.description !== original?.description ||
-      current.status !== original?.status
+      current.status !== original?.status ||
+      current.targetDate !== original?.targetDate
   })
 
   const hasStepChanges = newSteps.length > 0 || modifiedSteps.length > 0 || toDelete.length > 0
   const isCreatingGoal = context.getData('navigationReferrer') === 'add-goal'
 
+  // Build batch of all step commands
+  const batch = new CommandBatch()
+
   // Find or create STEPS collection if we have new steps to add
   let stepsCollectionUuid = collectionUuid
 
   if (newSteps.length > 0 && !stepsCollectionUuid) {
-    // Create the STEPS collection (goal doesn't have one yet)
-    const createResult = await deps.api.executeCommand({
+    // Create the STEPS collection (goal doesn't have one yet) at the start of the batch
+    const createCollection = batch.add({
       type: 'CreateCollectionCommand',
       name: 'STEPS',
       parentCollectionItemUuid: activeGoalUuid,
@@ -71,15 +86,12 @@ export const saveStepEditSession = (deps: SentencePlanEffectsDeps) => async (con
       user,
     })
 
-    stepsCollectionUuid = createResult.collectionUuid
+    stepsCollectionUuid = createCollection.ref('collectionUuid')
   }
 
-  // Build batch of all step commands
-  const commands: Commands[] = []
-
   // 1. DELETE commands
   toDelete.forEach(stepId => {
-    commands.push({
+    batch.add({
       type: 'RemoveCollectionItemCommand',
       collectionItemUuid: stepId,
       timeline: { type: 'STEP_REMOVED', data: {} },
@@ -93,15 +105,16 @@ export const saveStepEditSession = (deps: SentencePlanEffectsDeps) => async (con
     const values = getFormValues(index)
     const original = stepsOriginal.find(s => s.id === id)
 
-    commands.push({
+    batch.add({
       type: 'UpdateCollectionItemAnswersCommand',
       collectionItemUuid: id,
       added: wrapAll({
         actor: values.actor,
         description: values.description,
         status: values.status,
+        target_date: values.targetDate,
       }),
-      removed: [],
+      removed: !values.targetDate && original?.targetDate ? ['target_date'] : [],
       timeline: { type: 'STEP_UPDATED', data: {} },
       assessmentUuid,
       user,
@@ -109,7 +122,7 @@ export const saveStepEditSession = (deps: SentencePlanEffectsDeps) => async (con
 
     // Refresh status_date when the status itself changed
     if (values.status !== original?.status) {
-      commands.push({
+      batch.add({
         type: 'UpdateCollectionItemPropertiesCommand',
         collectionItemUuid: id,
         added: wrapAll({
@@ -123,6 +136,8 @@ export const saveStepEditSession = (deps: SentencePlanEffectsDeps) => async (con
   })
 
   // 3. CREATE commands
+  const createdCompletedSteps: BatchedCommand<AddCollectionItemCommand>[] = []
+
   newSteps.forEach(({ index }) => {
     const values = getFormValues(index)
 
@@ -134,9 +149,10 @@ export const saveStepEditSession = (deps: SentencePlanEffectsDeps) => async (con
       status: values.status,
       actor: values.actor,
       description: values.description,
+      target_date: values.targetDate,
     }
 
-    commands.push({
+    const createStep = batch.add({
       type: 'AddCollectionItemCommand',
       collectionUuid: stepsCollectionUuid!,
       properties: wrapAll(properties),
@@ -145,6 +161,10 @@ export const saveStepEditSession = (deps: SentencePlanEffectsDeps) => async (con
       assessmentUuid,
       user,
     })
+
+    if (isNewlyCompleted(index)) {
+      createdCompletedSteps.push(createStep)
+    }
   })
 
   // When saving inside the goal-create journey, flag the GOAL_UPDATED with
@@ -157,12 +177,13 @@ export const saveStepEditSession = (deps: SentencePlanEffectsDeps) => async (con
         actor: values.actor,
         description: values.description,
         status: values.status,
+        targetDate: values.targetDate,
       }
     })
 
     const goalSnapshot = snapshotFromGoal(activeGoal, { steps: postEditSteps })
 
-    commands.push({
+    batch.add({
       type: 'UpdateCollectionItemPropertiesCommand',
       collectionItemUuid: activeGoal.uuid,
       added: {},
@@ -184,7 +205,7 @@ export const saveStepEditSession = (deps: SentencePlanEffectsDeps) => async (con
 
   // 4. REORDER commands
   existingSteps.forEach(({ id, index }) => {
-    commands.push({
+    batch.add({
       type: 'ReorderCollectionItemCommand',
       collectionItemUuid: id,
       index,
@@ -194,9 +215,7 @@ export const saveStepEditSession = (deps: SentencePlanEffectsDeps) => async (con
   })
 
   // Execute all commands in a single batch
-  if (commands.length) {
-    await deps.api.executeCommands(...commands)
-  }
+  const results = batch.size > 0 ? await executePlanCommands(deps, context, ...batch.commands) : []
 
   if (hasStepChanges) {
     trackBusinessEvent(context, isCreatingGoal ? 'ADD_STEPS_PAGE_SUBMITTED' : 'EDIT_STEPS_PAGE_SUBMITTED', {
@@ -205,6 +224,18 @@ export const saveStepEditSession = (deps: SentencePlanEffectsDeps) => async (con
     })
   }
 
+  const modifiedStepUuids = modifiedSteps
+    .filter(({ id, index }) =>
+      isNewlyCompleted(
+        index,
+        stepsOriginal.find(s => s.id === id),
+      ),
+    )
+    .map(({ id }) => id)
+  const createdStepUuids = createdCompletedSteps.map(createStep => createStep.result(results).collectionItemUuid)
+
+  await publishStepsCompletedEvents(deps, context, activeGoalUuid, [...modifiedStepUuids, ...createdStepUuids])
+
   // Clear session state for this goal after successful save
   if (activeGoalUuid && storage[activeGoalUuid]) {
     delete storage[activeGoalUuid]
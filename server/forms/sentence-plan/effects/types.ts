@@ -8,6 +8,7 @@ import {
   DeliusApiClient,
   MPoPComponents,
   ArnsApiClient,
+  AccessLogStore,
 } from '../../../data'
 import AuditService from '../../../services/auditService'
 import DomainEventsService from '../../../services/domainEventsService'
@@ -21,7 +22,11 @@ import { CreateAssessmentCommandResult } from '../../../interfaces/aap-api/comma
 import { AssessmentArea } from '../../../interfaces/coordinator-api/entityAssessment'
 import { AuthSource } from '../../../interfaces/hmppsUser'
 import { PreviousVersionsResponse } from '../../../interfaces/coordinator-api/previousVersions'
+import { PlanConflict, PlanConflictChange } from '../../../interfaces/planConflict'
+import { CaseContext } from '../../../interfaces/caseContext'
 import FeatureFlagService from '../../../services/featureFlagService'
+import type { FeatureFlagOverrides } from '../../../utils/featureFlagsUtils'
+import type { PlanDataExport } from './plan/planDataExport'
 
 /**
  * Status of the assessment info loading operation.
@@ -46,12 +51,7 @@ export type StepStatus = 'NOT_STARTED' | 'IN_PROGRESS' | 'COMPLETED' | 'CANNOT_B
 
 // Plan agreement statuses - DRAFT is the initial status before any agreement action
 export type AgreementStatus =
-  | 'DRAFT'
-  | 'AGREED'
-  | 'DO_NOT_AGREE'
-  | 'COULD_NOT_ANSWER'
-  | 'UPDATED_AGREED'
-  | 'UPDATED_DO_NOT_AGREE'
+  'DRAFT' | 'AGREED' | 'DO_NOT_AGREE' | 'COULD_NOT_ANSWER' | 'UPDATED_AGREED' | 'UPDATED_DO_NOT_AGREE'
 
 // Statuses that indicate a plan has been through the agreement process (not draft)
 export const POST_AGREEMENT_PROCESS_STATUSES: AgreementStatus[] = [
@@ -82,6 +82,8 @@ export interface DerivedStep {
   status: string
   description: string
   statusDate: string
+  /** Optional date (YYYY-MM-DD) the step should be done by */
+  targetDate?: string
 }
 
 export interface DerivedNote {
@@ -162,6 +164,61 @@ export interface PlanAgreementHistoryEntry {
   notes?: string
 }
 
+/**
+ * Event types the plan history can be filtered by, as they appear in the query string.
+ */
+export type PlanHistoryEventType = 'created' | 'achieved' | 'removed' | 'readded' | 'updated' | 'agreement'
+
+/**
+ * Plan history filters, parsed from the plan-history query string.
+ * Dates are YYYY-MM-DD and inclusive. No event types means all of them.
+ */
+export interface PlanHistoryFilters {
+  page: number
+  from?: string
+  to?: string
+  eventTypes: PlanHistoryEventType[]
+  practitioner?: { id: string; name: string }
+}
+
+/**
+ * Goal sections a plan can be printed or exported with, as they appear in the query string.
+ */
+export type PlanExportSection = 'active' | 'future' | 'achieved' | 'removed'
+
+/**
+ * Details that can be left out of a printed or exported plan, e.g. when sharing it with
+ * a partner agency.
+ */
+export type PlanExportExclusion = 'notes' | 'removal-reasons'
+
+/**
+ * What to include in a printed or exported plan, parsed from the print-preview query string.
+ */
+export interface PlanExportOptions {
+  sections: PlanExportSection[]
+  exclude: PlanExportExclusion[]
+}
+
+/**
+ * The page of timeline events loaded for the plan history.
+ * `newest`/`oldest` are the timestamps at either end of the page, used to place
+ * plan agreements (which are not timeline events) on the right page.
+ */
+export interface PlanTimelinePage {
+  page: number
+  pageSize: number
+  /** Whether a page of timeline events was loaded, or only agreements are listed */
+  eventsLoaded: boolean
+  /** Timestamp of the newest event on the next page, when there is one */
+  nextPageEventDate?: string
+}
+
+export interface PlanHistoryPagination {
+  previousHref?: string
+  nextHref?: string
+}
+
 /**
  * Per-event goal context on a plan-history entry.
  *
@@ -176,7 +233,7 @@ export interface GoalEventContext {
   statusDate?: string
   areaOfNeedLabel?: string
   relatedAreasOfNeedLabels?: string[]
-  steps?: Array<{ actor: string; description: string; status: string }>
+  steps?: Array<{ actor: string; description: string; status: string; targetDate?: string }>
   currentGoalStatus?: GoalStatus
 }
 
@@ -231,6 +288,25 @@ export interface GoalUpdatedHistoryEntry extends GoalEventContext {
   notes?: string
 }
 
+/**
+ * A goal event as shown on the goal history page.
+ * `changes` lists what differs from the goal's previous snapshot, and is empty for
+ * the first event and for events (like achieving) that only change the goal's status.
+ */
+export type GoalHistoryEntry = Exclude<PlanHistoryEntry, PlanAgreementHistoryEntry> & {
+  changes: GoalHistoryChange[]
+}
+
+/**
+ * One field that changed between two goal snapshots. `before` is unset for something
+ * added (e.g. a new step) and `after` is unset for something removed.
+ */
+export interface GoalHistoryChange {
+  label: string
+  before?: string
+  after?: string
+}
+
 /**
  * Response and payload types for the MPoP components client, derived from the
  * client methods because the library does not export its data types directly —
@@ -268,6 +344,7 @@ export interface StepAnswers {
   status: StepStatus
   actor: string
   description: string
+  target_date?: string
 }
 
 export interface StepProperties {
@@ -297,6 +374,54 @@ export interface HistoricPlanData {
   lastUpdatedByName?: string
 }
 
+export type PlanComparisonChangeType = 'added' | 'removed' | 'changed' | 'unchanged'
+
+export interface PlanComparisonStep {
+  uuid: string
+  actorLabel: string
+  description: string
+  status: string
+  change: PlanComparisonChangeType
+  changes: GoalHistoryChange[]
+}
+
+/**
+ * A goal in a comparison of two plan versions, as it is in the later version
+ * (or the earlier one, if it was removed). Steps are matched between versions by uuid.
+ */
+export interface PlanComparisonGoal {
+  uuid: string
+  title: string
+  areaOfNeedLabel: string
+  change: PlanComparisonChangeType
+  changes: GoalHistoryChange[]
+  steps: PlanComparisonStep[]
+}
+
+/**
+ * The differences between two plan versions. `from` is always the earlier version.
+ * `agreementStatusChange` is only set when the agreement status differs.
+ */
+export interface PlanComparison {
+  from: string
+  to: string
+  fromAgreementStatus: AgreementStatus
+  toAgreementStatus: AgreementStatus
+  agreementStatusChange?: GoalHistoryChange
+  goals: PlanComparisonGoal[]
+  hasChanges: boolean
+}
+
+/**
+ * One row of a case's access log, built from an audit record.
+ */
+export interface AccessLogEntry {
+  when: string
+  who: string
+  /** The audit event, in sentence case, e.g. 'View plan overview' */
+  action: string
+}
+
 /**
  * Alert variant types matching MOJ Alert component
  */
@@ -321,6 +446,7 @@ export interface StepSession {
   actor: string
   description: string
   status: string
+  targetDate?: string
 }
 
 /**
@@ -351,6 +477,10 @@ export interface SentencePlanData extends Record<string, unknown> {
   // Assessment
   assessment: AssessmentVersionQueryResult | CreateAssessmentCommandResult
   assessmentUuid: string
+  // Version (updatedAt) of the plan the current form was built from, used as the expected version for writes
+  planVersion: string | undefined
+  planConflict: PlanConflict | undefined
+  planConflictChanges: PlanConflictChange[]
 
   // Goals
   goals: DerivedGoal[]
@@ -376,11 +506,33 @@ export interface SentencePlanData extends Record<string, unknown> {
 
   // Plan History (unified timeline of agreements + goal achievements)
   planHistoryEntries: PlanHistoryEntry[]
+  planHistoryFilters: PlanHistoryFilters
+  planHistoryPractitioners: Array<{ value: string; text: string }>
+  planHistoryFilterUrl: string
+  planTimelinePage: PlanTimelinePage
+  planHistoryPagination: PlanHistoryPagination
+
+  // Print and export options (sections and details to include, from the print-preview query string)
+  exportOptions: PlanExportOptions
+  exportOptionsQuery: string
+  exportOptionsUrl: string
+  // The plan as structured data, for the JSON and CSV exports
+  planDataExport: PlanDataExport
+
+  // Goal History (one goal's events, with the changes between them)
+  goalHistoryEntries: GoalHistoryEntry[]
 
   // Plan Previous Versions
   previousVersions: PreviousVersionsResponse
   showAssessmentColumn?: boolean
   historic: HistoricPlanData
+  planComparison: PlanComparison
+
+  // Access log
+  canViewAccessLog?: boolean
+  accessLog?: AccessLogEntry[]
+  // True when the access log couldn't be loaded, or isn't recorded (Redis disabled)
+  accessLogUnavailable?: boolean
 
   // Areas of need
   areasOfNeed: AreaOfNeed[]
@@ -393,6 +545,8 @@ export interface SentencePlanData extends Record<string, unknown> {
 
   // Case data (from Delius)
   caseData: unknown
+  // Case context the page was built for, from the request's path
+  caseContextId: string
 
   // Assessment area info for current area of need (from coordinator API)
   currentAreaAssessment: AssessmentArea | null
@@ -403,6 +557,7 @@ export interface SentencePlanData extends Record<string, unknown> {
 
   // Feature flags
   featureFlags?: Record<string, boolean>
+  featureFlagVariants?: Record<string, string>
 
   // Privacy screen state copied from the Express session
   privacyAccepted?: boolean
@@ -439,10 +594,17 @@ export interface SentencePlanAnswers extends Record<string, unknown> {
   target_date_option: string
   custom_target_date: string
 
+  // Plan history filter fields
+  history_from: string
+  history_to: string
+  history_event_types: string[]
+  history_practitioner: string
+
   // Dynamic step fields are accessed via index signature
   [key: `step_actor_${number}`]: string
   [key: `step_description_${number}`]: string
   [key: `step_status_${number}`]: string
+  [key: `step_target_date_${number}`]: string
 }
 
 /**
@@ -454,11 +616,14 @@ export interface SentencePlanSession {
   privacyAccepted?: boolean
   stepChanges?: StepChangesStorage
   notifications?: PlanNotification[]
+  planConflict?: PlanConflict
   handoverContext?: HandoverContext
   accessDetails?: AccessDetails
   sessionDetails?: SessionDetails
   practitionerDetails?: PractitionerDetails
   caseDetails?: CaseDetails
+  caseContextId?: string
+  caseContexts?: Record<string, CaseContext>
   principal?: {
     identifier: string
     username: string
@@ -472,6 +637,7 @@ export interface SentencePlanSession {
 export interface SentencePlanState extends Record<string, unknown> {
   user: User & { authSource: string; token: string; userRoles: string[] }
   requestId: string
+  featureFlagOverrides?: FeatureFlagOverrides
 }
 
 /**
@@ -506,4 +672,8 @@ export interface SentencePlanEffectsDeps {
   auditService: AuditService
   featureFlagService: FeatureFlagService
   domainEventsService: DomainEventsService
+  /** Only set when Redis is enabled */
+  accessLogStore?: AccessLogStore
+  /** Roles, without the ROLE_ prefix, that can see a case's access log */
+  accessLogRoles: string[]
 }
@@ -4,7 +4,7 @@ import { AuditEvent, SentencePlanEffects, sentencePlanEffectRegistry } from './e
 import { SentencePlanEffectsDeps } from './effects/types'
 import { sentencePlanComponents } from './components'
 import { sentencePlanTransformerRegistry } from './transformers'
-import { createPrivacyScreen } from '../shared'
+import { createPrivacyScreen, FormAccessPolicy } from '../shared'
 import { CaseData } from './versions/v1.0/constants'
 import { unsavedInformationDeletedStep } from './steps/unsaved-information-deleted/step'
 import { mergedPlanWarningStep } from './steps/merged-plan-warning/step'
@@ -16,7 +16,7 @@ import config from '../../config'
  * Uses the shared privacy screen factory with Sentence Plan specific configuration.
  */
 const privacyScreenStep = createPrivacyScreen({
-  loadEffects: [SentencePlanEffects.loadSessionData()],
+  loadEffects: [SentencePlanEffects.resolveCaseContext(), SentencePlanEffects.loadSessionData()],
   submitEffects: [
     SentencePlanEffects.setPrivacyAccepted(),
     SentencePlanEffects.sendAuditEvent(AuditEvent.CONFIRM_PRIVACY_SCREEN),
@@ -39,8 +39,10 @@ const privacyScreenStep = createPrivacyScreen({
  * - /access/sentence-plan/oasys     → OASys handover
  * - /access/sentence-plan/crn/:crn  → CRN-based access
  *
- * Both redirect to /sentence-plan/v1.0/plan/overview after
+ * Both redirect to /sentence-plan/case/:caseContextId/ after
  * setting up session with case details and access configuration.
+ * Pages for a case carry its case context ID in their path, which
+ * setUpCaseContextPaths takes out before the request reaches the form.
  *
  * Structure:
  * /sentence-plan/
@@ -57,11 +59,22 @@ const sentencePlanRootJourney = journey({
   steps: [mergedPlanWarningStep, privacyScreenStep, unsavedInformationDeletedStep],
 })
 
+/**
+ * Users reach plans through the access form, from OASys or signed in with HMPPS Auth.
+ * The page shown once unsaved information is deleted works after the session has expired.
+ */
+export const accessPolicy: FormAccessPolicy = {
+  path: '/sentence-plan',
+  enabled: config.forms.sentencePlan.enabled,
+  publicPaths: ['/sentence-plan/unsaved-information-deleted'],
+  authSources: ['OASYS', 'HMPPS_AUTH'],
+}
+
 /**
  * Root Sentence Plan Form Package
  */
 export default createForgePackage<SentencePlanEffectsDeps>({
-  enabled: config.forms.sentencePlan.enabled,
+  enabled: accessPolicy.enabled,
   journey: sentencePlanRootJourney,
   components: sentencePlanComponents,
   functions: [sentencePlanEffectRegistry, sentencePlanTransformerRegistry],
@@ -20,6 +20,7 @@ export const mergedPlanWarningStep = step({
   onAccess: [
     access({
       effects: [
+        SentencePlanEffects.resolveCaseContext(),
         SentencePlanEffects.loadFeatureFlags(),
         SentencePlanEffects.initializeSessionFromAccess(),
         SentencePlanEffects.loadSessionData(),
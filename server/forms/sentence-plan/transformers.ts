@@ -53,4 +53,18 @@ export const SentencePlanTransformers = {
       return `(${parts[0]}, ${parts[1]} and ${parts[2]})`
     },
   ),
+  /**
+   * Format an ISO timestamp as UK local date and time, e.g. '30 July 2026 at 11:05am'.
+   */
+  ToDateTime: sentencePlanTransformerRegistry.register('ToDateTime', () => (value: unknown) => {
+    assertString(value, 'SentencePlanTransformers.ToDateTime')
+
+    const dateTime = DateTime.fromISO(value.trim(), { zone: 'Europe/London' })
+
+    if (!dateTime.isValid) {
+      return ''
+    }
+
+    return dateTime.toFormat("d MMMM yyyy 'at' h:mma").replace(/AM|PM/, meridiem => meridiem.toLowerCase())
+  }),
 }
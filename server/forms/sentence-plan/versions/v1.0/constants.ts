@@ -6,6 +6,14 @@ export const sentencePlanBasePath = `/sentence-plan/${formVersion}`
 export const sentencePlanOverviewPath = `${sentencePlanBasePath}/plan/overview`
 export const sentencePlanPrintPreviewPath = `${sentencePlanBasePath}/plan/print-preview`
 export const sentencePlanPrintPreviewPdfPath = `${sentencePlanPrintPreviewPath}/pdf`
+export const sentencePlanEasyReadPath = `${sentencePlanBasePath}/plan/easy-read`
+export const sentencePlanEasyReadPdfPath = `${sentencePlanEasyReadPath}/pdf`
+export const sentencePlanDataExportPath = `${sentencePlanBasePath}/plan/export-data`
+export const sentencePlanDataExportJsonPath = `${sentencePlanDataExportPath}/json`
+export const sentencePlanDataExportCsvPath = `${sentencePlanDataExportPath}/csv`
+/** Set by the data export route on the requests it hands on to the export data step */
+export const sentencePlanDataExportHeader = 'x-plan-data-export'
+export const sentencePlanPlanChangedPath = `${sentencePlanBasePath}/plan/plan-changed`
 
 /**
  * Centralised data accessors for case data.
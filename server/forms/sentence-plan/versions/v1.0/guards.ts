@@ -13,7 +13,7 @@ import {
 } from '@ministryofjustice/hmpps-forge/core/authoring'
 import { POST_AGREEMENT_PROCESS_STATUSES } from '../../effects'
 import { GOTENBERG_RENDER_HEADER, GOTENBERG_RENDER_HEADER_VALUE } from '../../../../data/gotenbergClient'
-import { sentencePlanOverviewPath } from './constants'
+import { sentencePlanDataExportHeader, sentencePlanOverviewPath } from './constants'
 
 /**
  * Shared access predicates for sentence-plan steps.
@@ -66,10 +66,13 @@ export const canAccessSupervisionPackage = and(
   or(isSupervisionPackageDisplayable, hasSupervisionPackageError),
 )
 
+export const canViewAccessLog = Data('canViewAccessLog').match(Condition.Equals(true))
+
 export const isMpopAssessmentInfoEnabled = Data('featureFlags.mpopAssessmentInfoEnabled').match(Condition.Equals(true))
 
 /**
- * True when Gotenberg is loading this page to build a PDF, rather than a person viewing it.
+ * True when this page is being rendered to build a PDF, rather than a person viewing it: either
+ * Gotenberg is loading it, or the PDF route is rendering it in-process and has set the header.
  *
  * This only picks which label the audit event gets, never whether one is sent. A faked header
  * can mislabel an event but cannot remove it.
@@ -78,6 +81,12 @@ export const isPdfRenderRequest = Request.Headers(GOTENBERG_RENDER_HEADER).match
   Condition.Equals(GOTENBERG_RENDER_HEADER_VALUE),
 )
 
+/**
+ * True when the data export route has handed the request on, rather than a person browsing to
+ * the page. The route removes the header from every other request, so it cannot be faked.
+ */
+export const isDataExportRequest = Request.Headers(sentencePlanDataExportHeader).match(Condition.Equals('true'))
+
 export const hasPostAgreementStatus = Data('latestAgreementStatus').match(
   Condition.Array.IsIn(POST_AGREEMENT_PROCESS_STATUSES),
 )
@@ -102,6 +111,24 @@ export const redirectToOverviewUnlessPrintAndShareEnabled = () =>
     next: [redirect({ goto: sentencePlanOverviewPath })],
   })
 
+/**
+ * Redirect users to plan overview unless the data export route handed the request on.
+ */
+export const redirectToOverviewUnlessDataExportRequest = () =>
+  access({
+    when: not(isDataExportRequest),
+    next: [redirect({ goto: sentencePlanOverviewPath })],
+  })
+
+/**
+ * Redirect users to plan overview unless they have a role that can see the access log.
+ */
+export const redirectToOverviewUnlessCanViewAccessLog = () =>
+  access({
+    when: not(canViewAccessLog),
+    next: [redirect({ goto: sentencePlanOverviewPath })],
+  })
+
 export const redirectToOverviewUnlessSupervisionPackageAccessible = () =>
   access({
     when: not(canAccessSupervisionPackage),
@@ -143,6 +170,23 @@ export const allActiveGoalStepsCompleted = and(
     .match(Condition.Equals(0)),
 )
 
+/**
+ * True when the current step (the Item) has a target date before today and is still to do,
+ * i.e. not completed or no longer needed. Overdue is worked out on each render, never stored.
+ */
+export const isStepOverdue = and(
+  Item().path('targetDate').match(Condition.Date.IsValid()),
+  Item()
+    .path('status')
+    .not.match(Condition.Array.IsIn(['COMPLETED', 'NO_LONGER_NEEDED'])),
+  not(
+    or(
+      Item().path('targetDate').match(Condition.Date.IsToday()),
+      Item().path('targetDate').match(Condition.Date.IsFutureDate()),
+    ),
+  ),
+)
+
 /**
  * Redirect users unless every step on the active goal is completed.
  * Stops the confirm-if-achieved page being reached directly before a goal is ready to be achieved.
@@ -12,6 +12,7 @@ import { planOverviewJourney } from './journeys/plan-overview'
 import { goalManagementJourney } from './journeys/goal-management'
 import { aboutPersonStep } from './steps/about-person/step'
 import { supervisionPackageStep } from './steps/supervision-package/step'
+import { viewPreviousVersionStep } from './steps/view-previous-version/step'
 import { actorLabels, areasOfNeed, formVersion, sentencePlanBasePath, sentencePlanOverviewPath } from './constants'
 import { SentencePlanEffects } from '../../effects'
 import { NAV_KEY_PATTERNS } from '../../effects/navigation'
@@ -57,10 +58,14 @@ export const sentencePlanV1Journey = journey({
   onAccess: [
     access({
       effects: [
-        SentencePlanEffects.loadFeatureFlags(),
+        // First, so everything after reads the case the page was built for
+        SentencePlanEffects.resolveCaseContext(),
+        SentencePlanEffects.deriveAccessLogPermission(),
         SentencePlanEffects.initializeSessionFromAccess(),
         SentencePlanEffects.loadSessionData(),
         SentencePlanEffects.loadPlan(),
+        // After the session and plan are loaded, so flags can be targeted by the case and assessment flags
+        SentencePlanEffects.loadFeatureFlags(),
         SentencePlanEffects.deriveGoalsWithStepsFromAssessment(),
         SentencePlanEffects.derivePlanAgreementsFromAssessment(),
         SentencePlanEffects.trackNavigation(NAV_KEY_PATTERNS),
@@ -92,6 +97,6 @@ export const sentencePlanV1Journey = journey({
       effects: [SentencePlanEffects.loadSupervisionPackage()],
     }),
   ],
-  steps: [aboutPersonStep, supervisionPackageStep],
+  steps: [aboutPersonStep, supervisionPackageStep, viewPreviousVersionStep],
   children: [planOverviewJourney, goalManagementJourney],
 })
@@ -21,6 +21,7 @@ import {
   GovUKInsetText,
   GovUKBody,
 } from '@ministryofjustice/hmpps-forge/govuk-components'
+import { MOJDatePicker } from '@ministryofjustice/hmpps-forge/moj-components'
 import { AssessmentInfoDetails, ButtonAsLink, WrappingSelect } from '../../../../../components'
 import { actorLabelOptions, CaseData } from '../../../constants'
 import { canAccessSanContent } from '../../../guards'
@@ -31,6 +32,8 @@ const stepDescriptionLabelText = 'What should they do to achieve the goal?'
 const stepDescriptionHintText = 'Enter one step at a time.'
 const stepStatusLabelText = 'What is the status?'
 const stepStatusHintText = 'For example, not started.'
+const stepTargetDateLabelText = 'When should it be done by? (optional)'
+const stepTargetDateHintText = 'For example, 31/3/2023.'
 const stepActorHintId = 'step-actor-hint'
 const stepDescriptionHintId = 'step-description-hint'
 const stepStatusHintId = 'step-status-hint'
@@ -120,7 +123,7 @@ export const columnHeaders = GovUKGridRow({
       ],
     },
     {
-      width: 'one-half',
+      width: 'one-third',
       blocks: [
         GovUKBody({
           text: stepDescriptionLabelText,
@@ -147,6 +150,19 @@ export const columnHeaders = GovUKGridRow({
         }),
       ],
     },
+    {
+      width: 'one-sixth',
+      blocks: [
+        GovUKBody({
+          text: stepTargetDateLabelText,
+          classes: 'govuk-!-font-weight-bold govuk-!-margin-bottom-1',
+        }),
+        GovUKBody({
+          text: stepTargetDateHintText,
+          classes: 'govuk-hint govuk-!-margin-bottom-0',
+        }),
+      ],
+    },
   ],
 })
 
@@ -189,7 +205,7 @@ export const stepRows = HtmlBlock({
             ],
           },
           {
-            width: 'one-half',
+            width: 'one-third',
             blocks: [
               GovUKTextareaInput({
                 code: Format('step_description_%1', Loop.Index0()),
@@ -237,6 +253,27 @@ export const stepRows = HtmlBlock({
               }),
             ],
           },
+          {
+            width: 'one-sixth',
+            blocks: [
+              // Optional, so only checked once something is entered. The answer is set in
+              // DD/MM/YYYY by the step edit session effects, and stored as an ISO date.
+              MOJDatePicker({
+                code: Format('step_target_date_%1', Loop.Index0()),
+                label: {
+                  text: stepTargetDateLabelText,
+                  classes: 'govuk-visually-hidden',
+                },
+                formatters: [Transformer.String.ToISODate()],
+                validWhen: [
+                  validation({
+                    condition: or(Self().not.match(Condition.IsRequired()), Self().match(Condition.Date.IsValid())),
+                    message: 'Enter a real date for when the step should be done by',
+                  }),
+                ],
+              }),
+            ],
+          },
           {
             width: 'one-sixth',
             blocks: [
@@ -0,0 +1,149 @@
+import {
+  Data,
+  Format,
+  Item,
+  match,
+  when,
+  Iterator,
+  Condition,
+  Transformer,
+} from '@ministryofjustice/hmpps-forge/core/authoring'
+import { CollectionBlock, TemplateWrapper } from '@ministryofjustice/hmpps-forge/core/components'
+import { GovUKAccordion, GovUKBody, GovUKHeading } from '@ministryofjustice/hmpps-forge/govuk-components'
+import { GoalSummaryCardHistory } from '../../../../../components'
+
+/**
+ * Fields for the goal history page: one goal's events, newest first, each with the
+ * changes it made since the event before it and the goal as it was afterwards.
+ */
+
+export const pageHeading = GovUKHeading({
+  caption: Data('activeGoal.areaOfNeedLabel').pipe(Transformer.String.EscapeHtml()),
+  text: 'Goal history',
+  classes: 'govuk-!-margin-bottom-2',
+})
+
+export const goalSubheading = GovUKHeading({
+  text: Format('Goal: %1', Data('activeGoal.title').pipe(Transformer.String.EscapeHtml())),
+  size: 'm',
+})
+
+export const noHistoryText = GovUKBody({
+  visibleWhen: Data('goalHistoryEntries').not.match(Condition.IsRequired()),
+  text: 'There are no updates to this goal yet.',
+})
+
+// Builds an event heading "<strong>{action}</strong> on {date} by {actorField}", as on the plan history page.
+const eventHeading = (action: string, actorField: string) =>
+  Format(
+    '<strong>%1</strong> on %2 by %3',
+    action,
+    Item().path('date').pipe(Transformer.String.FormatDate()),
+    when(Item().path(actorField).match(Condition.IsRequired()))
+      .then(Item().path(actorField).pipe(Transformer.String.EscapeHtml()))
+      .else('Unknown'),
+  )
+
+const eventNotes = (notesField: string) =>
+  when(Item().path(notesField).match(Condition.IsRequired()))
+    .then(Format('<p class="govuk-body">%1</p>', Item().path(notesField).pipe(Transformer.String.EscapeHtml())))
+    .else('')
+
+const changesTable = TemplateWrapper({
+  visibleWhen: Item().path('changes').match(Condition.IsRequired()),
+  template: `
+    <table class="govuk-table">
+      <caption class="govuk-table__caption govuk-table__caption--s">What changed</caption>
+      <thead class="govuk-table__head">
+        <tr class="govuk-table__row">
+          <th scope="col" class="govuk-table__header">Detail</th>
+          <th scope="col" class="govuk-table__header">Before</th>
+          <th scope="col" class="govuk-table__header">After</th>
+        </tr>
+      </thead>
+      <tbody class="govuk-table__body">
+        {{slot:changes}}
+      </tbody>
+    </table>
+  `,
+  slots: {
+    changes: [
+      CollectionBlock({
+        collection: Item()
+          .path('changes')
+          .each(
+            Iterator.Map(
+              TemplateWrapper({
+                template: `<tr class="govuk-table__row">
+                    <th scope="row" class="govuk-table__header">{{label}}</th>
+                    <td class="govuk-table__cell">{{before}}</td>
+                    <td class="govuk-table__cell">{{after}}</td>
+                  </tr>`,
+                values: {
+                  label: Item().path('label').pipe(Transformer.String.EscapeHtml()),
+                  before: when(Item().path('before').match(Condition.IsRequired()))
+                    .then(Item().path('before').pipe(Transformer.String.EscapeHtml()))
+                    .else('Not set'),
+                  after: when(Item().path('after').match(Condition.IsRequired()))
+                    .then(Item().path('after').pipe(Transformer.String.EscapeHtml()))
+                    .else('Not set'),
+                },
+              }),
+            ),
+          ),
+      }),
+    ],
+  },
+})
+
+const goalSnapshotCard = GoalSummaryCardHistory({
+  goalTitle: Item().path('goalTitle'),
+  goalStatus: Item().path('goalStatus'),
+  goalUuid: Item().path('goalUuid'),
+  targetDate: when(Item().path('targetDate').match(Condition.IsRequired()))
+    .then(Item().path('targetDate').pipe(Transformer.String.FormatDate()))
+    .else(''),
+  statusDate: when(Item().path('statusDate').match(Condition.IsRequired()))
+    .then(Item().path('statusDate').pipe(Transformer.String.FormatDate()))
+    .else(''),
+  areaOfNeed: Item().path('areaOfNeedLabel'),
+  relatedAreasOfNeed: Item().path('relatedAreasOfNeedLabels'),
+  steps: Item()
+    .path('steps')
+    .each(
+      Iterator.Map({
+        actor: Item().path('actor'),
+        description: Item().path('description'),
+        status: Item().path('status'),
+        targetDate: when(Item().path('targetDate').match(Condition.IsRequired()))
+          .then(Item().path('targetDate').pipe(Transformer.String.FormatDate()))
+          .else(''),
+      }),
+    ),
+})
+
+export const goalHistory = GovUKAccordion({
+  id: 'goal-history-accordion',
+  rememberExpanded: false,
+  items: Data('goalHistoryEntries').each(
+    Iterator.Map({
+      heading: {
+        html: match(Item().path('type'))
+          .branch(Condition.Equals('goal_achieved'), eventHeading('Goal marked as achieved', 'achievedBy'))
+          .branch(Condition.Equals('goal_removed'), eventHeading('Goal removed', 'removedBy'))
+          .branch(Condition.Equals('goal_readded'), eventHeading('Goal added back into plan', 'readdedBy'))
+          .branch(Condition.Equals('goal_updated'), eventHeading('Goal updated', 'updatedBy'))
+          .otherwise(eventHeading('Goal created', 'createdBy')),
+      },
+      summary: {
+        html: match(Item().path('type'))
+          .branch(Condition.Array.IsIn(['goal_achieved', 'goal_updated']), eventNotes('notes'))
+          .branch(Condition.Array.IsIn(['goal_removed', 'goal_readded']), eventNotes('reason'))
+          .otherwise(''),
+      },
+      content: {
+        blocks: [changesTable, goalSnapshotCard],
+      },
+    }),
+  ),
+})
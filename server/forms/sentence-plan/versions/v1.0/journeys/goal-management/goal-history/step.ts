@@ -0,0 +1,38 @@
+import { access, Data, step, when, Condition } from '@ministryofjustice/hmpps-forge/core/authoring'
+import { pageHeading, goalSubheading, noHistoryText, goalHistory } from './fields'
+import { AuditEvent, SentencePlanEffects } from '../../../../../effects'
+import { redirectIfGoalNotFound } from '../../../guards'
+
+/**
+ * Goal history
+ *
+ * Shows one goal's lifecycle from the plan timeline: each event with what it
+ * changed since the previous one (title, target date, areas of need and steps).
+ * Linked from the goal summary card on the plan overview and from the
+ * inactive goal page.
+ */
+export const goalHistoryStep = step({
+  path: '/history',
+  title: 'Goal history',
+  reachability: { entryWhen: true },
+  view: {
+    locals: {
+      backlink: when(Data('navigationReferrer').match(Condition.Equals('view-inactive-goal')))
+        .then('view-inactive-goal')
+        .else('../../plan/overview'),
+    },
+  },
+  blocks: [pageHeading, goalSubheading, noHistoryText, goalHistory],
+  onAccess: [
+    access({
+      effects: [
+        SentencePlanEffects.setActiveGoalContext(),
+        SentencePlanEffects.loadPlanTimeline(),
+        SentencePlanEffects.derivePlanHistoryEntries(),
+        SentencePlanEffects.deriveGoalHistoryEntries(),
+        SentencePlanEffects.sendAuditEvent(AuditEvent.VIEW_GOAL_HISTORY, { goalStatus: Data('activeGoal.status') }),
+      ],
+    }),
+    redirectIfGoalNotFound('../../plan/overview'),
+  ],
+})
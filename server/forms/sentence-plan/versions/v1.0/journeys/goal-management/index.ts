@@ -10,6 +10,7 @@ import { confirmIfAchievedStep } from './confirm-if-achieved/step'
 import { confirmAddGoalStep } from './confirm-readd-goal/step'
 import { removeGoalStep } from './confirm-remove-goal/step'
 import { viewInactiveGoalStep } from './view-inactive-goal/step'
+import { goalHistoryStep } from './goal-history/step'
 import { updateGoalAndStepsStep } from './update-goal-and-steps/step'
 import { redirectToOverviewIfReadOnly } from '../../guards'
 
@@ -31,5 +32,6 @@ export const goalManagementJourney = journey({
     updateGoalAndStepsStep,
     confirmAddGoalStep,
     viewInactiveGoalStep,
+    goalHistoryStep,
   ],
 })
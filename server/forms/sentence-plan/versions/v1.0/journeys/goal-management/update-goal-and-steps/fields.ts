@@ -3,6 +3,9 @@ import {
   Format,
   Item,
   Loop,
+  or,
+  Self,
+  validation,
   when,
   Transformer,
   Iterator,
@@ -18,9 +21,12 @@ import {
   GovUKHeading,
   GovUKBody,
   GovUKInsetText,
+  GovUKTag,
 } from '@ministryofjustice/hmpps-forge/govuk-components'
+import { MOJDatePicker } from '@ministryofjustice/hmpps-forge/moj-components'
 import { WrappingSelect } from '../../../../../components'
 import { CaseData } from '../../../constants'
+import { isStepOverdue } from '../../../guards'
 
 const hasSteps = Data('activeGoal.steps').match(Condition.IsRequired())
 
@@ -123,6 +129,7 @@ export const reviewStepsTable = TemplateWrapper({
           <th scope="col" class="govuk-table__header">Who will do this</th>
           <th scope="col" class="govuk-table__header">Steps</th>
           <th scope="col" class="govuk-table__header">Status</th>
+          <th scope="col" class="govuk-table__header">Complete by (optional)</th>
         </tr>
       </thead>
       <tbody class="govuk-table__body">
@@ -139,7 +146,8 @@ export const reviewStepsTable = TemplateWrapper({
               template: `<tr class="govuk-table__row">
                   <td class="govuk-table__cell">{{actorLabel}}</td>
                   <td class="govuk-table__cell">{{description}}</td>
-                  <td class="govuk-table__cell">{{slot:statusField}}</td>
+                  <td class="govuk-table__cell">{{slot:statusField}}{{slot:overdueTag}}</td>
+                  <td class="govuk-table__cell">{{slot:targetDateField}}</td>
                 </tr>`,
               values: {
                 actorLabel: Item().path('actorLabel').pipe(Transformer.String.EscapeHtml()),
@@ -163,6 +171,30 @@ export const reviewStepsTable = TemplateWrapper({
                     }),
                   }),
                 ],
+                overdueTag: [
+                  GovUKTag({
+                    text: 'Overdue',
+                    classes: 'govuk-tag--red govuk-!-margin-top-2',
+                    visibleWhen: isStepOverdue,
+                  }),
+                ],
+                // Set in DD/MM/YYYY by loadActiveGoalForEdit, and stored as an ISO date
+                targetDateField: [
+                  MOJDatePicker({
+                    code: Format('step_target_date_%1', Loop.Index0()),
+                    label: {
+                      text: 'Complete by',
+                      classes: 'govuk-visually-hidden',
+                    },
+                    formatters: [Transformer.String.ToISODate()],
+                    validWhen: [
+                      validation({
+                        condition: or(Self().not.match(Condition.IsRequired()), Self().match(Condition.Date.IsValid())),
+                        message: 'Enter a real date for when the step should be done by',
+                      }),
+                    ],
+                  }),
+                ],
               },
             }),
           ),
@@ -65,8 +65,8 @@ export const updateGoalAndStepsStep = step({
   onSubmission: [
     submit({
       when: Post('action').match(Condition.Equals('save')),
-      validate: false,
-      onAlways: {
+      validate: true,
+      onValid: {
         effects: [
           SentencePlanEffects.updateGoalProgress(),
           SentencePlanEffects.sendAuditEvent(AuditEvent.EDIT_STEP_PROGRESS, {
@@ -91,8 +91,8 @@ export const updateGoalAndStepsStep = step({
     }),
     submit({
       when: Post('action').match(Condition.Equals('mark-achieved')),
-      validate: false,
-      onAlways: {
+      validate: true,
+      onValid: {
         effects: [
           SentencePlanEffects.updateGoalProgress(),
           SentencePlanEffects.sendAuditEvent(AuditEvent.EDIT_STEP_PROGRESS, {
@@ -182,6 +182,10 @@ export const viewAllNotesSection = GovUKDetails({
   ],
 })
 
+export const viewGoalHistoryLink = GovUKBody({
+  text: '<a href="history" class="govuk-link govuk-link--no-visited-state" data-ai-id="view-inactive-goal-history-link">View goal history</a>',
+})
+
 export const addToPlanButton = GovUKLinkButton({
   text: 'Add to plan',
   href: 'confirm-readd-goal',
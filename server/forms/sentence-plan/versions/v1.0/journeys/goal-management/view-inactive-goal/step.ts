@@ -7,6 +7,7 @@ import {
   reviewStepsTable,
   noStepsMessage,
   viewAllNotesSection,
+  viewGoalHistoryLink,
   addToPlanButton,
 } from './fields'
 import { AuditEvent, SentencePlanEffects } from '../../../../../effects'
@@ -48,6 +49,7 @@ export const viewInactiveGoalStep = step({
     reviewStepsTable,
     noStepsMessage,
     viewAllNotesSection,
+    viewGoalHistoryLink,
     addToPlanButton,
   ],
   onAccess: [
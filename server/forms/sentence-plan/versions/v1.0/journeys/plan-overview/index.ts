@@ -5,7 +5,13 @@ import { updateAgreePlanStep } from './steps/update-agree-plan/step'
 import { planHistoryStep } from './steps/plan-history/step'
 import { previousVersionsStep } from './steps/previous-versions/step'
 import { viewHistoricStep } from './steps/view-historic/step'
+import { compareStep } from './steps/compare/step'
+import { exportOptionsStep } from './steps/export-options/step'
 import { printPreviewStep } from './steps/print-preview/step'
+import { easyReadStep } from './steps/easy-read/step'
+import { exportDataStep } from './steps/export-data/step'
+import { planChangedStep } from './steps/plan-changed/step'
+import { accessLogStep } from './steps/access-log/step'
 
 export const planOverviewJourney = journey({
   code: 'plan-overview',
@@ -13,11 +19,17 @@ export const planOverviewJourney = journey({
   path: '/plan',
   steps: [
     planStep,
+    exportOptionsStep,
     printPreviewStep,
+    easyReadStep,
+    exportDataStep,
     agreePlanStep,
     updateAgreePlanStep,
     planHistoryStep,
     previousVersionsStep,
     viewHistoricStep,
+    compareStep,
+    planChangedStep,
+    accessLogStep,
   ],
 })
@@ -0,0 +1,76 @@
+import {
+  and,
+  not,
+  Data,
+  Format,
+  Item,
+  Iterator,
+  Condition,
+  Transformer,
+} from '@ministryofjustice/hmpps-forge/core/authoring'
+import { CollectionBlock, TemplateWrapper } from '@ministryofjustice/hmpps-forge/core/components'
+import { GovUKBody, GovUKWarningText } from '@ministryofjustice/hmpps-forge/govuk-components'
+import { CaseData } from '../../../../constants'
+import { SentencePlanTransformers } from '../../../../../../transformers'
+
+/**
+ * Fields for the access log: who has viewed or changed the plan, newest first.
+ * Data('accessLog') is set by loadAccessLog.
+ */
+
+const isUnavailable = Data('accessLogUnavailable').match(Condition.Equals(true))
+
+export const introText = GovUKBody({
+  text: Format('Everyone who has viewed or changed %1 plan, most recent first.', CaseData.ForenamePossessive),
+})
+
+export const unavailableWarning = GovUKWarningText({
+  visibleWhen: isUnavailable,
+  text: 'The access log cannot be shown at the moment. Try again later.',
+})
+
+export const noEntriesText = GovUKBody({
+  visibleWhen: and(not(isUnavailable), Data('accessLog').not.match(Condition.IsRequired())),
+  text: 'No one has accessed this plan yet.',
+})
+
+export const accessLogTable = TemplateWrapper({
+  visibleWhen: Data('accessLog').match(Condition.IsRequired()),
+  template: `
+    <table class="govuk-table" data-qa="access-log-table">
+      <caption class="govuk-table__caption govuk-visually-hidden">Access log</caption>
+      <thead class="govuk-table__head">
+        <tr class="govuk-table__row">
+          <th scope="col" class="govuk-table__header">Date and time</th>
+          <th scope="col" class="govuk-table__header">User</th>
+          <th scope="col" class="govuk-table__header">Activity</th>
+        </tr>
+      </thead>
+      <tbody class="govuk-table__body">
+        {{slot:entries}}
+      </tbody>
+    </table>
+  `,
+  slots: {
+    entries: [
+      CollectionBlock({
+        collection: Data('accessLog').each(
+          Iterator.Map(
+            TemplateWrapper({
+              template: `<tr class="govuk-table__row">
+                  <td class="govuk-table__cell">{{when}}</td>
+                  <td class="govuk-table__cell">{{who}}</td>
+                  <td class="govuk-table__cell">{{action}}</td>
+                </tr>`,
+              values: {
+                when: Item().path('when').pipe(SentencePlanTransformers.ToDateTime()),
+                who: Item().path('who').pipe(Transformer.String.EscapeHtml()),
+                action: Item().path('action').pipe(Transformer.String.EscapeHtml()),
+              },
+            }),
+          ),
+        ),
+      }),
+    ],
+  },
+})
@@ -0,0 +1,36 @@
+import { access, step } from '@ministryofjustice/hmpps-forge/core/authoring'
+import { introText, unavailableWarning, noEntriesText, accessLogTable } from './fields'
+import { AuditEvent, SentencePlanEffects } from '../../../../../../effects'
+import {
+  isOasysAccess,
+  redirectToOverviewUnlessCanViewAccessLog,
+  redirectToPrivacyUnlessAccepted,
+} from '../../../../guards'
+
+/**
+ * Read-only list of who has viewed or changed the plan, from the audit records kept
+ * for the case's CRN. Only users with an access log role can see it, e.g. a senior
+ * manager checking for inappropriate access to a restricted case.
+ */
+export const accessLogStep = step({
+  path: '/access-log',
+  title: 'Access log',
+  view: {
+    locals: {
+      hidePreviousVersions: true,
+      headerPageHeading: 'Access log',
+      buttons: {
+        showReturnToOasysButton: isOasysAccess,
+      },
+    },
+  },
+  reachability: { entryWhen: true },
+  blocks: [introText, unavailableWarning, noEntriesText, accessLogTable],
+  onAccess: [
+    redirectToOverviewUnlessCanViewAccessLog(),
+    redirectToPrivacyUnlessAccepted(),
+    access({
+      effects: [SentencePlanEffects.loadAccessLog(), SentencePlanEffects.sendAuditEvent(AuditEvent.VIEW_ACCESS_LOG)],
+    }),
+  ],
+})
@@ -0,0 +1,205 @@
+import {
+  Data,
+  Format,
+  Item,
+  when,
+  Iterator,
+  Condition,
+  Transformer,
+} from '@ministryofjustice/hmpps-forge/core/authoring'
+import { CollectionBlock, TemplateWrapper } from '@ministryofjustice/hmpps-forge/core/components'
+import { GovUKBody, GovUKTag } from '@ministryofjustice/hmpps-forge/govuk-components'
+import { CaseData } from '../../../../constants'
+
+/**
+ * Fields for comparing two plan versions. Only goals and steps that were added,
+ * removed or changed are listed; Data('planComparison') is set by loadPlanComparison.
+ */
+
+const isChanged = Item().path('change').not.match(Condition.Equals('unchanged'))
+
+const changedGoals = Data('planComparison.goals').each(Iterator.Filter(isChanged))
+
+const orNotSet = (path: string) =>
+  when(Item().path(path).match(Condition.IsRequired()))
+    .then(Item().path(path).pipe(Transformer.String.EscapeHtml()))
+    .else('Not set')
+
+const changeTag = [
+  GovUKTag({
+    text: 'Added',
+    classes: 'govuk-tag--green',
+    visibleWhen: Item().path('change').match(Condition.Equals('added')),
+  }),
+  GovUKTag({
+    text: 'Removed',
+    classes: 'govuk-tag--red',
+    visibleWhen: Item().path('change').match(Condition.Equals('removed')),
+  }),
+  GovUKTag({
+    text: 'Changed',
+    classes: 'govuk-tag--blue',
+    visibleWhen: Item().path('change').match(Condition.Equals('changed')),
+  }),
+]
+
+export const introText = GovUKBody({
+  text: Format(
+    'Changes to %1 plan between %2 and %3.',
+    CaseData.ForenamePossessive,
+    Data('planComparison.from').pipe(Transformer.String.FormatDate({ dateStyle: 'long' })),
+    Data('planComparison.to').pipe(Transformer.String.FormatDate({ dateStyle: 'long' })),
+  ),
+})
+
+export const agreementStatusText = GovUKBody({
+  text: when(Data('planComparison.agreementStatusChange').match(Condition.IsRequired()))
+    .then(
+      Format(
+        '<strong>Agreement status changed</strong> from %1 to %2.',
+        Data('planComparison.agreementStatusChange.before'),
+        Data('planComparison.agreementStatusChange.after'),
+      ),
+    )
+    .else('The agreement status did not change.'),
+})
+
+export const noGoalChangesText = GovUKBody({
+  visibleWhen: changedGoals.not.match(Condition.IsRequired()),
+  text: 'No goals or steps changed between these versions.',
+})
+
+const goalChangesTable = TemplateWrapper({
+  visibleWhen: Item().path('changes').match(Condition.IsRequired()),
+  template: `
+    <table class="govuk-table">
+      <caption class="govuk-table__caption govuk-table__caption--s">Goal details</caption>
+      <thead class="govuk-table__head">
+        <tr class="govuk-table__row">
+          <th scope="col" class="govuk-table__header">Detail</th>
+          <th scope="col" class="govuk-table__header">Before</th>
+          <th scope="col" class="govuk-table__header">After</th>
+        </tr>
+      </thead>
+      <tbody class="govuk-table__body">
+        {{slot:changes}}
+      </tbody>
+    </table>
+  `,
+  slots: {
+    changes: [
+      CollectionBlock({
+        collection: Item()
+          .path('changes')
+          .each(
+            Iterator.Map(
+              TemplateWrapper({
+                template: `<tr class="govuk-table__row">
+                    <th scope="row" class="govuk-table__header">{{label}}</th>
+                    <td class="govuk-table__cell">{{before}}</td>
+                    <td class="govuk-table__cell">{{after}}</td>
+                  </tr>`,
+                values: {
+                  label: Item().path('label'),
+                  before: orNotSet('before'),
+                  after: orNotSet('after'),
+                },
+              }),
+            ),
+          ),
+      }),
+    ],
+  },
+})
+
+const stepChangesTable = TemplateWrapper({
+  visibleWhen: Item().path('steps').each(Iterator.Filter(isChanged)).match(Condition.IsRequired()),
+  template: `
+    <table class="govuk-table">
+      <caption class="govuk-table__caption govuk-table__caption--s">Steps</caption>
+      <thead class="govuk-table__head">
+        <tr class="govuk-table__row">
+          <th scope="col" class="govuk-table__header">Who will do this</th>
+          <th scope="col" class="govuk-table__header">Step</th>
+          <th scope="col" class="govuk-table__header">What changed</th>
+        </tr>
+      </thead>
+      <tbody class="govuk-table__body">
+        {{slot:steps}}
+      </tbody>
+    </table>
+  `,
+  slots: {
+    steps: [
+      CollectionBlock({
+        collection: Item()
+          .path('steps')
+          .each(Iterator.Filter(isChanged))
+          .each(
+            Iterator.Map(
+              TemplateWrapper({
+                template: `<tr class="govuk-table__row">
+                    <td class="govuk-table__cell">{{actorLabel}}</td>
+                    <td class="govuk-table__cell">{{description}}</td>
+                    <td class="govuk-table__cell">{{slot:tag}}{{slot:changes}}</td>
+                  </tr>`,
+                values: {
+                  actorLabel: Item().path('actorLabel').pipe(Transformer.String.EscapeHtml()),
+                  description: Item().path('description').pipe(Transformer.String.EscapeHtml()),
+                },
+                slots: {
+                  tag: changeTag,
+                  changes: [
+                    CollectionBlock({
+                      collection: Item()
+                        .path('changes')
+                        .each(
+                          Iterator.Map(
+                            GovUKBody({
+                              classes: 'govuk-body-s govuk-!-margin-top-2 govuk-!-margin-bottom-0',
+                              text: Format('%1: %2 to %3', Item().path('label'), orNotSet('before'), orNotSet('after')),
+                            }),
+                          ),
+                        ),
+                    }),
+                  ],
+                },
+              }),
+            ),
+          ),
+      }),
+    ],
+  },
+})
+
+export const goalChanges = CollectionBlock({
+  collection: changedGoals.each(
+    Iterator.Map(
+      TemplateWrapper({
+        template: Format(
+          `<div class="govuk-summary-card" id="compare-goal-%1">
+            <div class="govuk-summary-card__title-wrapper">
+              <h2 class="govuk-summary-card__title">{{title}}</h2>
+              {{slot:tag}}
+            </div>
+            <div class="govuk-summary-card__content">
+              <p class="govuk-body-s">{{areaOfNeed}}</p>
+              {{slot:goalChanges}}
+              {{slot:stepChanges}}
+            </div>
+          </div>`,
+          Item().path('uuid'),
+        ),
+        values: {
+          title: Item().path('title').pipe(Transformer.String.EscapeHtml()),
+          areaOfNeed: Item().path('areaOfNeedLabel').pipe(Transformer.String.EscapeHtml()),
+        },
+        slots: {
+          tag: changeTag,
+          goalChanges: [goalChangesTable],
+          stepChanges: [stepChangesTable],
+        },
+      }),
+    ),
+  ),
+})
@@ -0,0 +1,37 @@
+import { access, Params, step } from '@ministryofjustice/hmpps-forge/core/authoring'
+import { introText, agreementStatusText, noGoalChangesText, goalChanges } from './fields'
+import { AuditEvent, SentencePlanEffects } from '../../../../../../effects'
+import { isOasysAccess, redirectToPrivacyUnlessAccepted } from '../../../../guards'
+
+/**
+ * Compare two historic versions of the plan, e.g. for a countersigning manager
+ * reviewing what changed between signings. `from` and `to` are version timestamps,
+ * as linked from the previous versions page.
+ */
+export const compareStep = step({
+  path: '/compare/:from/:to',
+  title: 'Compare plan versions',
+  view: {
+    locals: {
+      hidePreviousVersions: true,
+      headerPageHeading: 'Compare plan versions',
+      buttons: {
+        showReturnToOasysButton: isOasysAccess,
+      },
+    },
+  },
+  reachability: { entryWhen: true },
+  blocks: [introText, agreementStatusText, noGoalChangesText, goalChanges],
+  onAccess: [
+    redirectToPrivacyUnlessAccepted(),
+    access({
+      effects: [
+        SentencePlanEffects.loadPlanComparison(),
+        SentencePlanEffects.sendAuditEvent(AuditEvent.VIEW_PLAN_COMPARISON, {
+          fromPlanVersionTimestamp: Params('from'),
+          toPlanVersionTimestamp: Params('to'),
+        }),
+      ],
+    }),
+  ],
+})
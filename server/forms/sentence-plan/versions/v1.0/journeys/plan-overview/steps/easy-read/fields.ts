@@ -0,0 +1,84 @@
+import {
+  Data,
+  Format,
+  Item,
+  Iterator,
+  not,
+  Condition,
+  Transformer,
+} from '@ministryofjustice/hmpps-forge/core/authoring'
+import { CollectionBlock, TemplateWrapper } from '@ministryofjustice/hmpps-forge/core/components'
+import { GovUKBody } from '@ministryofjustice/hmpps-forge/govuk-components'
+import { EasyReadGoalCard } from '../../../../../../components'
+import { CaseData } from '../../../../constants'
+
+type GoalStatus = 'ACTIVE' | 'FUTURE' | 'ACHIEVED'
+
+export const easyReadIntroduction = GovUKBody({
+  classes: 'easy-read-plan__introduction',
+  text: Format(
+    'This is my plan, %1. It says what I want to do while I am on probation, and who will help me.',
+    CaseData.Forename,
+  ),
+})
+
+const goalsByStatus = (status: GoalStatus) =>
+  Data('goals').each(Iterator.Filter(Item().path('status').match(Condition.Equals(status))))
+
+const hasGoalsByStatus = (status: GoalStatus) =>
+  goalsByStatus(status).pipe(Transformer.Array.Length()).match(Condition.Number.GreaterThan(0))
+
+const goalCard = () =>
+  EasyReadGoalCard({
+    goalTitle: Item().path('title'),
+    targetDate: Item()
+      .path('targetDate')
+      .pipe(Transformer.String.FormatDate({ dateStyle: 'long' })),
+    steps: Item()
+      .path('steps')
+      .each(
+        Iterator.Map({
+          actor: Item().path('actor'),
+          actorLabel: Item().path('actorLabel'),
+          description: Item().path('description'),
+          status: Item().path('status'),
+        }),
+      ),
+  })
+
+/*
+ * Removed goals, notes and dates a goal changed status are for practitioners, so aren't
+ * part of the easy read plan.
+ */
+const goalSection = (heading: string, status: GoalStatus) =>
+  TemplateWrapper({
+    visibleWhen: hasGoalsByStatus(status),
+    template: `<section class="easy-read-plan__section govuk-!-margin-top-8" aria-labelledby="easy-read-section-${status.toLowerCase()}">
+      <h2 class="easy-read-plan__heading" id="easy-read-section-${status.toLowerCase()}">${heading}</h2>
+      {{slot:goals}}
+    </section>`,
+    slots: {
+      goals: [CollectionBlock({ collection: goalsByStatus(status).each(Iterator.Map(goalCard())) })],
+    },
+  })
+
+export const activeGoalsSection = goalSection('Goals I am working on now', 'ACTIVE')
+export const futureGoalsSection = goalSection('Goals I will work on later', 'FUTURE')
+export const achievedGoalsSection = goalSection('Goals I have achieved', 'ACHIEVED')
+
+export const noGoalsMessage = GovUKBody({
+  visibleWhen: not(
+    Data('goals')
+      .each(
+        Iterator.Filter(
+          Item()
+            .path('status')
+            .match(Condition.Array.IsIn(['ACTIVE', 'FUTURE', 'ACHIEVED'])),
+        ),
+      )
+      .pipe(Transformer.Array.Length())
+      .match(Condition.Number.GreaterThan(0)),
+  ),
+  classes: 'easy-read-plan__introduction',
+  text: 'There are no goals in my plan yet.',
+})
@@ -0,0 +1,60 @@
+import { access, not, step } from '@ministryofjustice/hmpps-forge/core/authoring'
+import { AuditEvent, SentencePlanEffects } from '../../../../../../effects'
+import { isPdfRenderRequest, redirectToOverviewUnlessPrintAndShareEnabled } from '../../../../guards'
+import { draftPlanWatermark } from '../print-preview/fields'
+import {
+  achievedGoalsSection,
+  activeGoalsSection,
+  easyReadIntroduction,
+  futureGoalsSection,
+  noGoalsMessage,
+} from './fields'
+
+/**
+ * An easy read version of the plan to share with the person on probation: their goals in
+ * their own words, steps grouped by who does them, and large type. Like the print preview,
+ * it can be printed or downloaded as a PDF.
+ */
+export const easyReadStep = step({
+  path: '/easy-read',
+  title: 'Easy read plan',
+  reachability: { entryWhen: true },
+  view: {
+    locals: {
+      user: null,
+      disableHeaderLink: true,
+      hideNavigation: true,
+      hidePreviousVersions: true,
+      hidePhaseBanner: true,
+      hideBackToTop: true,
+      showPrintPageHeaders: true,
+      headerPageHeading: 'My sentence plan',
+      buttons: {
+        showExportAsPdfButton: true,
+        exportAsPdfPath: '/plan/easy-read/pdf',
+        showPrintButton: true,
+      },
+    },
+  },
+  blocks: [
+    draftPlanWatermark,
+    easyReadIntroduction,
+    noGoalsMessage,
+    activeGoalsSection,
+    futureGoalsSection,
+    achievedGoalsSection,
+  ],
+  onAccess: [
+    redirectToOverviewUnlessPrintAndShareEnabled(),
+    access({
+      when: not(isPdfRenderRequest),
+      effects: [SentencePlanEffects.sendAuditEvent(AuditEvent.PRINT_ALL_GOALS, { format: 'easy-read' })],
+    }),
+    access({
+      when: isPdfRenderRequest,
+      effects: [
+        SentencePlanEffects.sendAuditEvent(AuditEvent.PRINT_ALL_GOALS, { format: 'easy-read', exportedAsPdf: true }),
+      ],
+    }),
+  ],
+})
@@ -0,0 +1,41 @@
+import { access, Condition, not, Query, step } from '@ministryofjustice/hmpps-forge/core/authoring'
+import { AuditEvent, SentencePlanEffects } from '../../../../../../effects'
+import {
+  redirectToOverviewUnlessDataExportRequest,
+  redirectToOverviewUnlessPrintAndShareEnabled,
+} from '../../../../guards'
+
+const isCsvExport = Query('format').match(Condition.Equals('csv'))
+
+/**
+ * The plan as structured data, in the versioned PlanDataExport schema. Not a page people
+ * visit, and anyone who tries is sent to the plan overview: the data export route renders it
+ * in-process and sends the JSON it prints as a JSON or CSV download, named by `?format=`.
+ */
+export const exportDataStep = step({
+  path: '/export-data',
+  title: 'Export plan data',
+  reachability: { entryWhen: true },
+  view: {
+    template: 'sentence-plan/views/plan-data-export',
+  },
+  onAccess: [
+    redirectToOverviewUnlessDataExportRequest(),
+    redirectToOverviewUnlessPrintAndShareEnabled(),
+    access({
+      effects: [
+        SentencePlanEffects.loadPlanTimeline(),
+        SentencePlanEffects.derivePlanHistoryEntries(),
+        SentencePlanEffects.derivePlanDataExport(),
+      ],
+    }),
+    access({
+      when: not(isCsvExport),
+      effects: [SentencePlanEffects.sendAuditEvent(AuditEvent.EXPORT_PLAN_DATA, { format: 'json' })],
+    }),
+    access({
+      when: isCsvExport,
+      effects: [SentencePlanEffects.sendAuditEvent(AuditEvent.EXPORT_PLAN_DATA, { format: 'csv' })],
+    }),
+  ],
+})
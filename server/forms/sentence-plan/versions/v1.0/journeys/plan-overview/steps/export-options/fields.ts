@@ -0,0 +1,63 @@
+import { Condition, Format, Self, Transformer, validation } from '@ministryofjustice/hmpps-forge/core/authoring'
+import { GovUKBody, GovUKButton, GovUKCheckboxInput } from '@ministryofjustice/hmpps-forge/govuk-components'
+import { CaseData } from '../../../../constants'
+
+export const sectionsField = GovUKCheckboxInput({
+  code: 'export_sections',
+  fieldset: {
+    legend: {
+      text: 'Choose what to include',
+      classes: 'govuk-fieldset__legend--l',
+      isPageHeading: true,
+    },
+  },
+  hint: Format('Only include what %1 or the people you are sharing the plan with need to see.', CaseData.Forename),
+  items: [
+    { value: 'active', text: 'Goals to work on now', attributes: { 'data-ai-id': 'export-options-active-checkbox' } },
+    { value: 'future', text: 'Future goals', attributes: { 'data-ai-id': 'export-options-future-checkbox' } },
+    { value: 'achieved', text: 'Achieved goals', attributes: { 'data-ai-id': 'export-options-achieved-checkbox' } },
+    { value: 'removed', text: 'Removed goals', attributes: { 'data-ai-id': 'export-options-removed-checkbox' } },
+  ],
+  validWhen: [
+    validation({
+      condition: Self().pipe(Transformer.Array.Length()).match(Condition.Number.GreaterThan(0)),
+      message: 'Select at least one section to include',
+    }),
+  ],
+})
+
+export const excludeField = GovUKCheckboxInput({
+  code: 'export_exclude',
+  fieldset: {
+    legend: { text: 'Leave out (optional)', classes: 'govuk-fieldset__legend--m' },
+  },
+  items: [
+    {
+      value: 'notes',
+      text: 'Practitioner notes',
+      hint: 'Notes added when a goal was achieved or added back into the plan.',
+      attributes: { 'data-ai-id': 'export-options-exclude-notes-checkbox' },
+    },
+    {
+      value: 'removal-reasons',
+      text: 'Reasons goals were removed',
+      attributes: { 'data-ai-id': 'export-options-exclude-removal-reasons-checkbox' },
+    },
+  ],
+})
+
+export const continueButton = GovUKButton({
+  text: 'Continue',
+  name: 'action',
+  value: 'continue',
+  attributes: {
+    'data-ai-id': 'export-options-continue-button',
+  },
+})
+
+export const easyReadLink = GovUKBody({
+  text: Format(
+    '<a href="easy-read" class="govuk-link govuk-link--no-visited-state" data-ai-id="export-options-easy-read-link">Print an easy read version for %1</a>',
+    CaseData.Forename.pipe(Transformer.String.EscapeHtml()),
+  ),
+})
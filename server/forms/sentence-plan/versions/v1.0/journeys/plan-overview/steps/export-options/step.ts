@@ -0,0 +1,37 @@
+import { access, Data, redirect, step, submit } from '@ministryofjustice/hmpps-forge/core/authoring'
+import { sectionsField, excludeField, continueButton, easyReadLink } from './fields'
+import { SentencePlanEffects } from '../../../../../../effects'
+import { redirectToOverviewUnlessPrintAndShareEnabled } from '../../../../guards'
+
+/**
+ * Choose which goal sections to print or export, and what to leave out, before the
+ * print preview. The choices are carried in the print-preview query string, so they
+ * apply to the PDF download too. An easy read version of the plan can be printed instead.
+ */
+export const exportOptionsStep = step({
+  path: '/export-options',
+  title: 'Choose what to include',
+  reachability: { entryWhen: true },
+  view: {
+    locals: {
+      hidePreviousVersions: true,
+    },
+  },
+  blocks: [sectionsField, excludeField, continueButton, easyReadLink],
+  onAccess: [
+    redirectToOverviewUnlessPrintAndShareEnabled(),
+    access({
+      // Pre-populated from the query string when coming back from the print preview
+      effects: [SentencePlanEffects.loadPlanExportOptions()],
+    }),
+  ],
+  onSubmission: [
+    submit({
+      validate: true,
+      onValid: {
+        effects: [SentencePlanEffects.applyPlanExportOptions()],
+        next: [redirect({ goto: Data('exportOptionsUrl') })],
+      },
+    }),
+  ],
+})
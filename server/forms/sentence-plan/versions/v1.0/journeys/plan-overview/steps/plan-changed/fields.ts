@@ -0,0 +1,80 @@
+import {
+  Data,
+  Format,
+  Item,
+  when,
+  Iterator,
+  Condition,
+  Transformer,
+} from '@ministryofjustice/hmpps-forge/core/authoring'
+import { CollectionBlock, HtmlBlock } from '@ministryofjustice/hmpps-forge/core/components'
+import { GovUKButton, GovUKButtonGroup, GovUKBody, GovUKHeading } from '@ministryofjustice/hmpps-forge/govuk-components'
+
+const hasFieldsToReapply = Data('planConflict.fields').match(Condition.IsRequired())
+
+export const pageHeading = GovUKHeading({ text: 'This plan has been changed by someone else' })
+
+export const introText = GovUKBody({
+  text: 'Your changes have not been saved because someone else updated the plan after you opened the page.',
+})
+
+export const changesHeading = GovUKHeading({ text: 'Changes made since you opened the page', size: 'm' })
+
+export const changesList = CollectionBlock({
+  collection: Data('planConflictChanges').each(
+    Iterator.Map(
+      HtmlBlock({
+        content: Format(
+          '<p class="govuk-body" data-qa="plan-changed-change"><strong>%1</strong> on %2 by %3%4</p>',
+          Item().path('description'),
+          Item().path('date').pipe(Transformer.String.FormatDate()),
+          when(Item().path('changedBy').match(Condition.IsRequired()))
+            .then(Item().path('changedBy').pipe(Transformer.String.EscapeHtml()))
+            .else('Unknown'),
+          when(Item().path('goalTitle').match(Condition.IsRequired()))
+            .then(Format('<br>%1', Item().path('goalTitle').pipe(Transformer.String.EscapeHtml())))
+            .else(''),
+        ),
+      }),
+    ),
+  ),
+  fallback: [GovUKBody({ text: 'The plan was updated, but the details of the change are not available.' })],
+})
+
+export const nextStepsText = GovUKBody({
+  text: when(hasFieldsToReapply)
+    .then(
+      'Check the changes above. You can apply your changes to the latest version of the plan, or reload the plan and start again.',
+    )
+    .else('Reload the plan to see the latest version, then try again.'),
+})
+
+// The rejected submission, re-posted as-is to the form it came from when re-applying
+export const reapplyFields = CollectionBlock({
+  collection: Data('planConflict.fields').each(
+    Iterator.Map(
+      HtmlBlock({
+        content: Format(
+          '<input type="hidden" name="%1" value="%2">',
+          Item().path('name').pipe(Transformer.String.EscapeHtml()),
+          Item().path('value').pipe(Transformer.String.EscapeHtml()),
+        ),
+      }),
+    ),
+  ),
+})
+
+export const reapplyButton = GovUKButton({
+  text: 'Apply my changes again',
+  visibleWhen: hasFieldsToReapply,
+  attributes: {
+    formaction: Data('planConflict.returnTo'),
+    'data-ai-id': 'plan-changed-reapply-button',
+  },
+})
+
+export const reloadLink = GovUKBody({
+  text: '<a href="overview" class="govuk-link" data-ai-id="plan-changed-reload-link">Reload the plan</a>',
+})
+
+export const buttonGroup = GovUKButtonGroup({ buttons: [reapplyButton, reloadLink] })
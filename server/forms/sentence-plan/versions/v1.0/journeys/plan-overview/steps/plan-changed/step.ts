@@ -0,0 +1,41 @@
+import { access, Data, redirect, step, Condition } from '@ministryofjustice/hmpps-forge/core/authoring'
+import {
+  pageHeading,
+  introText,
+  changesHeading,
+  changesList,
+  nextStepsText,
+  reapplyFields,
+  buttonGroup,
+} from './fields'
+import { SentencePlanEffects } from '../../../../../../effects'
+
+/**
+ * Plan changed page
+ *
+ * Shown when a save is rejected because someone else changed the plan after the form
+ * was loaded (see planConflictHandler). Lists what changed since, and lets the user either
+ * re-post their submission against the latest version or go back to the plan.
+ */
+export const planChangedStep = step({
+  path: '/plan-changed',
+  title: 'This plan has been changed by someone else',
+  reachability: { entryWhen: true },
+  view: {
+    locals: {
+      backlink: 'overview',
+    },
+  },
+  blocks: [pageHeading, introText, changesHeading, changesList, nextStepsText, reapplyFields, buttonGroup],
+  onAccess: [
+    access({
+      effects: [SentencePlanEffects.loadPlanConflict()],
+      next: [
+        redirect({
+          when: Data('planConflict').not.match(Condition.IsRequired()),
+          goto: 'overview',
+        }),
+      ],
+    }),
+  ],
+})
@@ -4,13 +4,25 @@ import {
   Item,
   match,
   when,
+  or,
   Iterator,
   Condition,
+  Self,
   Transformer,
+  validation,
 } from '@ministryofjustice/hmpps-forge/core/authoring'
 import { HtmlBlock } from '@ministryofjustice/hmpps-forge/core/components'
-import { GovUKAccordion, GovUKBody } from '@ministryofjustice/hmpps-forge/govuk-components'
-import { GoalSummaryCardHistory } from '../../../../../../components'
+import {
+  GovUKAccordion,
+  GovUKBody,
+  GovUKButton,
+  GovUKButtonGroup,
+  GovUKCheckboxInput,
+  GovUKHeading,
+  GovUKSelectInput,
+} from '@ministryofjustice/hmpps-forge/govuk-components'
+import { MOJDatePicker } from '@ministryofjustice/hmpps-forge/moj-components'
+import { GoalSummaryCardHistory, HistoryPagination } from '../../../../../../components'
 import { CaseData } from '../../../../constants'
 import { hasCouldNotAnswerStatus, isReadOnlyAccess } from '../../../../guards'
 
@@ -19,6 +31,79 @@ const INACTIVE_GOAL_STATUSES = ['ACHIEVED', 'REMOVED']
 
 export const subtitleText = GovUKBody({ text: 'View all updates to this plan.' })
 
+// Filters are submitted, then applyPlanHistoryFilters redirects to a URL carrying them in the query string.
+// The fields are pre-populated from that query string by loadPlanHistoryFilters.
+const historyDateFilter = (code: string, label: string) =>
+  MOJDatePicker({
+    code,
+    label: { text: label, classes: 'govuk-label--s' },
+    hint: 'For example, 31/3/2023.',
+    formatters: [Transformer.String.ToISODate()],
+    validWhen: [
+      validation({
+        condition: or(Self().not.match(Condition.IsRequired()), Self().match(Condition.Date.IsValid())),
+        message: `${label} date must be a real date`,
+      }),
+    ],
+  })
+
+export const filtersHeading = GovUKHeading({
+  text: 'Filter updates',
+  size: 's',
+  classes: 'govuk-!-display-none-print',
+})
+
+export const fromDateFilter = historyDateFilter('history_from', 'From')
+
+export const toDateFilter = historyDateFilter('history_to', 'To')
+
+export const eventTypeFilter = GovUKCheckboxInput({
+  code: 'history_event_types',
+  classes: 'govuk-checkboxes--small',
+  fieldset: {
+    legend: { text: 'Type of update', classes: 'govuk-fieldset__legend--s' },
+  },
+  hint: 'Leave blank to show all types',
+  items: [
+    { value: 'created', text: 'Goal created' },
+    { value: 'achieved', text: 'Goal marked as achieved' },
+    { value: 'removed', text: 'Goal removed' },
+    { value: 'readded', text: 'Goal added back into plan' },
+    { value: 'updated', text: 'Goal updated' },
+    { value: 'agreement', text: 'Plan agreement' },
+  ],
+})
+
+export const practitionerFilter = GovUKSelectInput({
+  code: 'history_practitioner',
+  label: { text: 'Updated by', classes: 'govuk-label--s' },
+  items: Data('planHistoryPractitioners'),
+})
+
+const applyFiltersButton = GovUKButton({
+  text: 'Apply filters',
+  name: 'action',
+  value: 'filter',
+  classes: 'govuk-button--secondary',
+  attributes: {
+    'data-ai-id': 'plan-history-apply-filters-button',
+  },
+})
+
+const clearFiltersLink = GovUKBody({
+  text: '<a href="plan-history" class="govuk-link" data-ai-id="plan-history-clear-filters-link">Clear filters</a>',
+})
+
+export const filterButtons = GovUKButtonGroup({
+  buttons: [applyFiltersButton, clearFiltersLink],
+  classes: 'govuk-!-display-none-print',
+})
+
+export const noMatchingUpdatesText = GovUKBody({
+  text: 'There are no updates to show. Try changing the filters.',
+  visibleWhen: Data('planHistoryEntries').pipe(Transformer.Array.Length()).match(Condition.Equals(0)),
+})
+
 // Plan agreement event heading: "<strong>{action}</strong> on {date} by {practitioner}[ and {forename}]"
 // The trailing forename is appended only when the practitioner agreed (or updated to agreed) on behalf of the person.
 // Note: createdBy and CaseData.Forename are NOT html-escaped here, matching the prior behaviour for agreement events.
@@ -31,7 +116,9 @@ const agreementHeadingHtml = Format(
   Item().path('date').pipe(Transformer.String.FormatDate()),
   when(Item().path('createdBy').match(Condition.IsRequired())).then(Item().path('createdBy')).else('Unknown'),
   when(
-    Item().path('status').match(Condition.Array.IsIn(['AGREED', 'UPDATED_AGREED'])),
+    Item()
+      .path('status')
+      .match(Condition.Array.IsIn(['AGREED', 'UPDATED_AGREED'])),
   )
     .then(Format(' and %1', CaseData.Forename))
     .else(''),
@@ -166,7 +253,18 @@ const goalSummaryCardForHistory = GoalSummaryCardHistory({
     .else(''),
   areaOfNeed: Item().path('areaOfNeedLabel'),
   relatedAreasOfNeed: Item().path('relatedAreasOfNeedLabels'),
-  steps: Item().path('steps'),
+  steps: Item()
+    .path('steps')
+    .each(
+      Iterator.Map({
+        actor: Item().path('actor'),
+        description: Item().path('description'),
+        status: Item().path('status'),
+        targetDate: when(Item().path('targetDate').match(Condition.IsRequired()))
+          .then(Item().path('targetDate').pipe(Transformer.String.FormatDate()))
+          .else(''),
+      }),
+    ),
   actions: [
     {
       text: 'View goal',
@@ -213,3 +311,9 @@ export const agreementHistory = GovUKAccordion({
     }),
   ),
 })
+
+export const historyPagination = HistoryPagination({
+  previousHref: Data('planHistoryPagination.previousHref'),
+  nextHref: Data('planHistoryPagination.nextHref'),
+  landmarkLabel: 'Plan history pages',
+})
@@ -1,5 +1,16 @@
-import { access, step } from '@ministryofjustice/hmpps-forge/core/authoring'
-import { subtitleText, agreementHistory } from './fields'
+import { access, Data, redirect, step, submit } from '@ministryofjustice/hmpps-forge/core/authoring'
+import {
+  subtitleText,
+  filtersHeading,
+  fromDateFilter,
+  toDateFilter,
+  eventTypeFilter,
+  practitionerFilter,
+  filterButtons,
+  noMatchingUpdatesText,
+  agreementHistory,
+  historyPagination,
+} from './fields'
 import { AuditEvent, SentencePlanEffects } from '../../../../../../effects'
 import { isOasysAccess, redirectIfNotPostAgreement, redirectToPrivacyUnlessAccepted } from '../../../../guards'
 
@@ -15,12 +26,25 @@ export const planHistoryStep = step({
       },
     },
   },
-  blocks: [subtitleText, agreementHistory],
+  blocks: [
+    subtitleText,
+    filtersHeading,
+    fromDateFilter,
+    toDateFilter,
+    eventTypeFilter,
+    practitionerFilter,
+    filterButtons,
+    noMatchingUpdatesText,
+    agreementHistory,
+    historyPagination,
+  ],
   onAccess: [
     redirectToPrivacyUnlessAccepted(),
     access({
       effects: [
-        SentencePlanEffects.loadPlanTimeline(),
+        // History is paged and filtered by the query string (?page=&from=&to=&type=&practitioner=)
+        SentencePlanEffects.loadPlanHistoryFilters(),
+        SentencePlanEffects.loadPlanTimelinePage(),
         SentencePlanEffects.derivePlanHistoryEntries(),
         SentencePlanEffects.sendAuditEvent(AuditEvent.VIEW_PLAN_HISTORY),
       ],
@@ -29,4 +53,13 @@ export const planHistoryStep = step({
     // The overview step defaults missing type to current.
     redirectIfNotPostAgreement('overview'),
   ],
+  onSubmission: [
+    submit({
+      validate: true,
+      onValid: {
+        effects: [SentencePlanEffects.applyPlanHistoryFilters()],
+        next: [redirect({ goto: Data('planHistoryFilterUrl') })],
+      },
+    }),
+  ],
 })
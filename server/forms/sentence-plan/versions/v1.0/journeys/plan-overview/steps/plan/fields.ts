@@ -23,6 +23,7 @@ import {
   hasCouldNotAnswerStatus,
   hasPostAgreementStatus,
   isReadOnlyAccess,
+  isStepOverdue,
 } from '../../../../guards'
 
 const isMissingStepsOnAgreePlan = and(
@@ -236,6 +237,10 @@ export const goalsSection = TemplateWrapper({
                                   actor: Item().path('actorLabel'),
                                   description: Item().path('description'),
                                   status: Item().path('status'),
+                                  targetDate: Item()
+                                    .path('targetDate')
+                                    .pipe(Transformer.String.FormatDate({ dateStyle: 'long' })),
+                                  isOverdue: when(isStepOverdue),
                                 }),
                               ),
                             notes: Item()
@@ -305,6 +310,10 @@ export const goalsSection = TemplateWrapper({
                                   actor: Item().path('actorLabel'),
                                   description: Item().path('description'),
                                   status: Item().path('status'),
+                                  targetDate: Item()
+                                    .path('targetDate')
+                                    .pipe(Transformer.String.FormatDate({ dateStyle: 'long' })),
+                                  isOverdue: when(isStepOverdue),
                                 }),
                               ),
                             notes: Item()
@@ -339,6 +348,11 @@ export const goalsSection = TemplateWrapper({
                                   .then('view-inactive-goal-inline-link')
                                   .else('update-goal-inline-link'),
                               },
+                              {
+                                text: 'View history',
+                                href: Format('../goal/%1/history', Item().path('uuid')),
+                                dataAiId: 'goal-history-inline-link',
+                              },
                             ],
                             isReadOnly: when(isReadOnlyAccess),
                             index: Loop.Index0(),
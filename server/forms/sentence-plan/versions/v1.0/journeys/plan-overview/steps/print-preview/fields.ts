@@ -6,6 +6,7 @@ import {
   Iterator,
   not,
   or,
+  when,
   Condition,
   Transformer,
 } from '@ministryofjustice/hmpps-forge/core/authoring'
@@ -13,7 +14,8 @@ import { CollectionBlock, TemplateWrapper } from '@ministryofjustice/hmpps-forge
 import { GovUKBody } from '@ministryofjustice/hmpps-forge/govuk-components'
 import { PrintGoalSummaryCard } from '../../../../../../components'
 import { CaseData } from '../../../../constants'
-import { hasCouldNotAnswerStatus, hasPostAgreementStatus } from '../../../../guards'
+import { hasCouldNotAnswerStatus, hasPostAgreementStatus, isStepOverdue } from '../../../../guards'
+import { PlanExportExclusion } from '../../../../../../effects/types'
 
 type GoalStatus = 'ACTIVE' | 'FUTURE' | 'ACHIEVED' | 'REMOVED'
 
@@ -66,6 +68,20 @@ export const planCreatedMessage = GovUKBody({
   ),
 })
 
+const isExcluded = (exclusion: PlanExportExclusion) =>
+  Data('exportOptions.exclude').match(Condition.Array.Contains(exclusion))
+
+const isSectionIncluded = (status: GoalStatus) =>
+  Data('exportOptions.sections').match(Condition.Array.Contains(status.toLowerCase()))
+
+export const changeExportOptionsLink = GovUKBody({
+  classes: 'govuk-!-display-none-print',
+  text: Format(
+    '<a href="export-options%1" class="govuk-link govuk-link--no-visited-state" data-ai-id="print-preview-change-export-options-link">Change what to include</a>',
+    Data('exportOptionsQuery'),
+  ),
+})
+
 const goalsByStatus = (status: GoalStatus) =>
   Data('goals').each(Iterator.Filter(Item().path('status').match(Condition.Equals(status))))
 
@@ -91,13 +107,27 @@ const goalCard = () =>
           actor: Item().path('actorLabel'),
           description: Item().path('description'),
           status: Item().path('status'),
+          targetDate: Item()
+            .path('targetDate')
+            .pipe(Transformer.String.FormatDate({ dateStyle: 'long' })),
+          isOverdue: when(isStepOverdue),
+        }),
+      ),
+    notes: Item()
+      .path('notes')
+      .each(
+        Iterator.Map({
+          type: Item().path('type'),
+          note: Item().path('note'),
         }),
       ),
+    showNotes: when(not(isExcluded('notes'))),
+    showRemovalReason: when(not(isExcluded('removal-reasons'))),
   })
 
 const goalSection = (heading: string, status: GoalStatus, showWhenEmpty = false) =>
   TemplateWrapper({
-    ...(showWhenEmpty ? {} : { visibleWhen: hasGoalsByStatus(status) }),
+    visibleWhen: showWhenEmpty ? isSectionIncluded(status) : and(isSectionIncluded(status), hasGoalsByStatus(status)),
     template: `<section class="print-goal-section print-goal-section--${status.toLowerCase()} govuk-!-margin-top-6" aria-labelledby="goal-section-${status.toLowerCase()}">
       <h2 class="govuk-heading-m" id="goal-section-${status.toLowerCase()}">${heading}</h2>
       {{slot:goals}}
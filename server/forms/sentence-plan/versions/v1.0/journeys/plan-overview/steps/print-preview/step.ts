@@ -1,10 +1,11 @@
-import { access, Format, not, step } from '@ministryofjustice/hmpps-forge/core/authoring'
+import { access, Data, Format, not, step } from '@ministryofjustice/hmpps-forge/core/authoring'
 import { AuditEvent, SentencePlanEffects } from '../../../../../../effects'
 import { CaseData } from '../../../../constants'
 import { isPdfRenderRequest, redirectToOverviewUnlessPrintAndShareEnabled } from '../../../../guards'
 import {
   achievedGoalsSection,
   activeGoalsSection,
+  changeExportOptionsLink,
   draftPlanWatermark,
   futureGoalsSection,
   planAgreedMessage,
@@ -13,6 +14,12 @@ import {
   removedGoalsSection,
 } from './fields'
 
+// What was included is recorded, so it's clear what was shared
+const exportOptionsDetails = {
+  sections: Data('exportOptions.sections'),
+  excluded: Data('exportOptions.exclude'),
+}
+
 export const printPreviewStep = step({
   path: '/print-preview',
   title: 'Print preview',
@@ -35,6 +42,7 @@ export const printPreviewStep = step({
   },
   blocks: [
     draftPlanWatermark,
+    changeExportOptionsLink,
     planLastUpdatedMessage,
     planAgreedMessage,
     planCreatedMessage,
@@ -46,19 +54,29 @@ export const printPreviewStep = step({
   onAccess: [
     redirectToOverviewUnlessPrintAndShareEnabled(),
     access({
-      effects: [SentencePlanEffects.loadPlanTimeline(), SentencePlanEffects.derivePlanLastUpdated()],
+      effects: [
+        SentencePlanEffects.loadPlanTimeline(),
+        SentencePlanEffects.derivePlanLastUpdated(),
+        // Which sections and details to include, chosen on the export options step
+        SentencePlanEffects.loadPlanExportOptions(),
+      ],
     }),
     /*
-     * Gotenberg builds the PDF by loading this page, so a download arrives here as a second
-     * request. Both are audited, and the download is flagged so the two can be told apart.
+     * A PDF is built from this page, either loaded by Gotenberg as a second request or rendered
+     * in-process by the PDF route. The download is flagged so it can be told apart from a view.
      */
     access({
       when: not(isPdfRenderRequest),
-      effects: [SentencePlanEffects.sendAuditEvent(AuditEvent.PRINT_ALL_GOALS)],
+      effects: [SentencePlanEffects.sendAuditEvent(AuditEvent.PRINT_ALL_GOALS, exportOptionsDetails)],
     }),
     access({
       when: isPdfRenderRequest,
-      effects: [SentencePlanEffects.sendAuditEvent(AuditEvent.PRINT_ALL_GOALS, { exportedAsPdf: true })],
+      effects: [
+        SentencePlanEffects.sendAuditEvent(AuditEvent.PRINT_ALL_GOALS, {
+          ...exportOptionsDetails,
+          exportedAsPdf: true,
+        }),
+      ],
     }),
   ],
 })
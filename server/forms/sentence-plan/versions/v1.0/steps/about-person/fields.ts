@@ -13,7 +13,7 @@ import {
 import { HtmlBlock } from '@ministryofjustice/hmpps-forge/core/components'
 import { GovUKAccordion, GovUKTable, GovUKWarningText } from '@ministryofjustice/hmpps-forge/govuk-components'
 import { MOJBanner } from '@ministryofjustice/hmpps-forge/moj-components'
-import { CaseData, sentencePlanOverviewPath } from '../../constants'
+import { CaseData } from '../../constants'
 import { AssessmentInfoDetails } from '../../../../components'
 import { SentencePlanTransformers } from '../../../../transformers'
 
@@ -33,7 +33,7 @@ export const sentenceInformationMissingAndAssessmentErrorMessage = HtmlBlock({
   visibleWhen: isSentenceInformationAndAssessmentLoadingError,
   content: Format(
     `<p class="govuk-body">Try reloading the page. You can do this by pressing F5 (on a PC), or Cmd + R (on a Mac).</p>
-    <p class="govuk-body">If the page still does not load, try again later or <a href="${sentencePlanOverviewPath}" class="govuk-link">go to %1's plan</a>.</p>`,
+    <p class="govuk-body">If the page still does not load, try again later or <a href="plan/overview" class="govuk-link">go to %1's plan</a>.</p>`,
     CaseData.Forename,
   ),
 })
@@ -144,7 +144,8 @@ const riskLinkBadgesHtml = Format(
 // Each item contains create a goal link and the AssessmentInfoDetails component which displays
 // assessment data and score section (when showAsDetails is false).
 // @param dataKey: the data key for the collection, for example 'highScoringAreas'
-const createAreaAccordionItems = (dataKey: string) =>
+// @param showCreateGoalLink: false for read-only views, such as a previous assessment version
+export const createAreaAccordionItems = (dataKey: string, showCreateGoalLink = true) =>
   Data(dataKey).each(
     Iterator.Map({
       heading: {
@@ -164,13 +165,17 @@ const createAreaAccordionItems = (dataKey: string) =>
             showAsDetails: false,
             fullWidth: true,
           }),
-          HtmlBlock({
-            content: Format(
-              `<p class="add-goal-link"><a href="goal/new/select-area-of-need?area=%1">Create %2 goal</a></p>`,
-              Item().path('goalRoute'),
-              Item().path('title').pipe(Transformer.String.ToLowerCase()),
-            ),
-          }),
+          ...(showCreateGoalLink
+            ? [
+                HtmlBlock({
+                  content: Format(
+                    `<p class="add-goal-link"><a href="goal/new/select-area-of-need?area=%1">Create %2 goal</a></p>`,
+                    Item().path('goalRoute'),
+                    Item().path('title').pipe(Transformer.String.ToLowerCase()),
+                  ),
+                }),
+              ]
+            : []),
         ],
       },
     }),
@@ -179,8 +184,9 @@ const createAreaAccordionItems = (dataKey: string) =>
 // Creates a GovUKAccordion component with dynamic items from a data collection.
 // dataKey: the data key for the collection, for example 'highScoringAreas' etc
 // accordionId: unique ID for the accordion element
+// showCreateGoalLink: false for read-only views
 // Hidden when assessment data failed to load OR when there are no items in the collection
-const createAreaAccordion = (dataKey: string, accordionId: string) =>
+export const createAreaAccordion = (dataKey: string, accordionId: string, showCreateGoalLink = true) =>
   GovUKAccordion({
     visibleWhen: not(
       or(
@@ -192,7 +198,7 @@ const createAreaAccordion = (dataKey: string, accordionId: string) =>
     id: accordionId,
     classes: 'about-page-accordion',
     rememberExpanded: false,
-    items: createAreaAccordionItems(dataKey),
+    items: createAreaAccordionItems(dataKey, showCreateGoalLink),
   })
 // Helpers to create accordion end
 
@@ -201,7 +207,7 @@ const createAreaAccordion = (dataKey: string, accordionId: string) =>
 // - if assessment incomplete: "No {sectionName} at the moment."
 // - if assessment complete: "No {sectionName}."
 // Hidden when assessment data failed to load OR when there are items in the collection
-const createNoAreasMessage = (dataKey: string, sectionName: string) =>
+export const createNoAreasMessage = (dataKey: string, sectionName: string) =>
   HtmlBlock({
     visibleWhen: not(
       or(
@@ -0,0 +1,58 @@
+import { Data, Format, not, or, Condition } from '@ministryofjustice/hmpps-forge/core/authoring'
+import { HtmlBlock } from '@ministryofjustice/hmpps-forge/core/components'
+import { GovUKWarningText } from '@ministryofjustice/hmpps-forge/govuk-components'
+import { CaseData } from '../../constants'
+import { createAreaAccordion, createNoAreasMessage } from '../about-person/fields'
+
+// A previous version of the SAN assessment, shown read-only with the same area layout as about-person.
+// Sentence information is not part of the assessment, so it is not shown here.
+
+const hasAssessmentDataFailedToLoad = Data('allAreasAssessmentStatus').match(Condition.Equals('error'))
+
+export const assessmentVersionLastUpdated = HtmlBlock({
+  visibleWhen: not(or(hasAssessmentDataFailedToLoad, not(Data('assessmentLastUpdated').match(Condition.IsRequired())))),
+  content: Format(
+    '<p class="govuk-body">This version of %1 assessment was last updated on %2.</p>',
+    CaseData.ForenamePossessive,
+    Data('assessmentLastUpdated'),
+  ),
+})
+
+export const assessmentVersionLoadFailureWarning = GovUKWarningText({
+  visibleWhen: hasAssessmentDataFailedToLoad,
+  text: 'There is a problem getting this version of the assessment. Try reloading the page or try again later.',
+  iconFallbackText: 'Warning',
+  attributes: { 'data-qa': 'no-assessment-data-warning' },
+})
+
+const areasHeading = (html: string) =>
+  HtmlBlock({
+    visibleWhen: not(hasAssessmentDataFailedToLoad),
+    content: html,
+  })
+
+export const incompleteAreasSection = [
+  HtmlBlock({
+    visibleWhen: not(or(hasAssessmentDataFailedToLoad, not(Data('incompleteAreas').match(Condition.IsRequired())))),
+    content: `<h2 class="govuk-heading-m govuk-!-margin-top-6">Incomplete areas</h2>
+    <p class="govuk-body">These areas had not been marked as complete in this version of the assessment.</p>`,
+  }),
+  createAreaAccordion('incompleteAreas', 'incomplete-areas-accordion', false),
+]
+
+export const highScoringAreasSection = [
+  areasHeading('<h2 class="govuk-heading-m govuk-!-margin-top-6">High-scoring areas from the assessment</h2>'),
+  createAreaAccordion('highScoringAreas', 'high-scoring-areas-accordion', false),
+  createNoAreasMessage('highScoringAreas', 'high-scoring areas'),
+]
+
+export const lowScoringAreasSection = [
+  areasHeading('<h2 class="govuk-heading-m govuk-!-margin-top-6">Low-scoring areas from the assessment</h2>'),
+  createAreaAccordion('lowScoringAreas', 'low-scoring-areas-accordion', false),
+  createNoAreasMessage('lowScoringAreas', 'low-scoring areas'),
+]
+
+export const otherAreasSection = [
+  areasHeading('<h2 class="govuk-heading-m govuk-!-margin-top-6">Areas without a need score</h2>'),
+  createAreaAccordion('otherAreas', 'other-areas-accordion', false),
+]
@@ -0,0 +1,50 @@
+import { Format, step, access, Params } from '@ministryofjustice/hmpps-forge/core/authoring'
+import { redirectToPrivacyUnlessAccepted, redirectUnlessSanSp } from '../../guards'
+import {
+  assessmentVersionLastUpdated,
+  assessmentVersionLoadFailureWarning,
+  incompleteAreasSection,
+  highScoringAreasSection,
+  lowScoringAreasSection,
+  otherAreasSection,
+} from './fields'
+import { CaseData, sentencePlanOverviewPath } from '../../constants'
+import { AuditEvent, SentencePlanEffects } from '../../../../effects'
+
+export const viewPreviousVersionStep = step({
+  path: '/view-previous-version/:uuid',
+  title: 'View previous assessment version',
+  view: {
+    locals: {
+      hidePreviousVersions: true,
+      hideNavigation: true,
+      hideFooter: true,
+      disableHeaderLink: true,
+      headerPageHeading: Format(`About %1`, CaseData.Forename),
+      buttons: {
+        showCreateGoalButton: false,
+      },
+    },
+  },
+  reachability: { entryWhen: true },
+  blocks: [
+    assessmentVersionLastUpdated,
+    assessmentVersionLoadFailureWarning,
+    ...incompleteAreasSection,
+    ...highScoringAreasSection,
+    ...lowScoringAreasSection,
+    ...otherAreasSection,
+  ],
+  onAccess: [
+    redirectToPrivacyUnlessAccepted(),
+    redirectUnlessSanSp(sentencePlanOverviewPath),
+    access({
+      effects: [
+        SentencePlanEffects.loadAssessmentVersionInfo(),
+        SentencePlanEffects.sendAuditEvent(AuditEvent.VIEW_HISTORIC_ASSESSMENT, {
+          assessmentVersionUuid: Params('uuid'),
+        }),
+      ],
+    }),
+  ],
+})
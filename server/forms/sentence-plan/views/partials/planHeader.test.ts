@@ -11,7 +11,7 @@ nunjucksEnv.addFilter('formatSimpleDate', date => formatDate(date, 'simple'))
 
 describe('plan header', () => {
   describe('print preview', () => {
-    it('opens the print preview in a new tab', () => {
+    it('opens the export options, then print preview, in a new tab', () => {
       const html = nunjucksEnv.render(template, {
         basePath: '/sentence-plan/v1.0',
         data: {
@@ -26,7 +26,7 @@ describe('plan header', () => {
       })
 
       expect(html).toContain('Print all goals')
-      expect(html).toContain('href="/sentence-plan/v1.0/plan/print-preview"')
+      expect(html).toContain('href="/sentence-plan/v1.0/plan/export-options"')
       expect(html).toContain('target="_blank"')
       expect(html).toContain('rel="noopener"')
     })
@@ -46,7 +46,7 @@ describe('plan header', () => {
       })
 
       expect(html).not.toContain('Print all goals')
-      expect(html).not.toContain('/sentence-plan/v1.0/plan/print-preview')
+      expect(html).not.toContain('/sentence-plan/v1.0/plan/export-options')
     })
 
     it('renders the read-only print preview actions', () => {
@@ -70,6 +70,48 @@ describe('plan header', () => {
       expect(printButton).toContain('data-print-sentence-plan')
     })
 
+    it('keeps the chosen export options when exporting as PDF', () => {
+      const html = nunjucksEnv.render(template, {
+        basePath: '/sentence-plan/v1.0',
+        data: {
+          caseData: {
+            name: { forename: 'Joan', surname: 'Smith' },
+            crn: 'X000000',
+            dateOfBirth: '1990-01-01',
+          },
+          exportOptionsQuery: '?sections=active&exclude=notes',
+        },
+        headerPageHeading: "Joan's plan",
+        buttons: { showExportAsPdfButton: true },
+      })
+
+      const exportButton = html.match(/<a[^>]*data-ai-id="print-preview-export-pdf-button"[^>]*>/)?.[0]
+
+      expect(exportButton).toContain(
+        'href="/sentence-plan/v1.0/plan/print-preview/pdf?sections=active&amp;exclude=notes"',
+      )
+    })
+
+    it('exports the page it is on when given a PDF path', () => {
+      const html = nunjucksEnv.render(template, {
+        basePath: '/sentence-plan/v1.0',
+        data: {
+          caseData: {
+            name: { forename: 'Joan', surname: 'Smith' },
+            crn: 'X000000',
+            dateOfBirth: '1990-01-01',
+          },
+          exportOptionsQuery: '?sections=active',
+        },
+        headerPageHeading: 'My sentence plan',
+        buttons: { showExportAsPdfButton: true, exportAsPdfPath: '/plan/easy-read/pdf' },
+      })
+
+      const exportButton = html.match(/<a[^>]*data-ai-id="print-preview-export-pdf-button"[^>]*>/)?.[0]
+
+      expect(exportButton).toContain('href="/sentence-plan/v1.0/plan/easy-read/pdf"')
+    })
+
     it('hides the print button until JavaScript is enabled', () => {
       const html = nunjucksEnv.render(template, {
         data: {
@@ -0,0 +1,28 @@
+import type { AuthSource } from '../../interfaces/hmppsUser'
+
+/**
+ * Who can use a form package. Each package declares one alongside itself, and it's enforced
+ * for every request under the package's path by formAccessPolicyMiddleware.
+ */
+export interface FormAccessPolicy {
+  /** Path the package's journey is mounted at, e.g. /sentence-plan */
+  path: string
+  /** Whether the package is served. Requests to a package that isn't are not found */
+  enabled: boolean
+  /** Anyone can use the package, without signing in */
+  public?: boolean
+  /** Paths under the package anyone can use, without signing in */
+  publicPaths?: string[]
+  /** Roles, without the ROLE_ prefix, of which the user needs at least one. Any user if empty */
+  roles?: string[]
+  /** How the user needs to have signed in. Any way if empty */
+  authSources?: AuthSource[]
+}
+
+/**
+ * Paths of enabled packages that don't need the user to sign in.
+ */
+export const getPublicPaths = (policies: FormAccessPolicy[]): string[] =>
+  policies
+    .filter(policy => policy.enabled)
+    .flatMap(policy => (policy.public ? [policy.path] : (policy.publicPaths ?? [])))
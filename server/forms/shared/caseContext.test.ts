@@ -0,0 +1,201 @@
+import {
+  activateCaseContext,
+  CaseContextSession,
+  MAX_CASE_CONTEXTS,
+  parseCaseContextPath,
+  saveCaseContext,
+  toCaseContextPath,
+  updateCaseContext,
+  withCaseContextParam,
+} from './caseContext'
+import { CaseDetails } from '../../interfaces/delius-api/caseDetails'
+
+const caseDetails = (crn: string) => ({ crn }) as CaseDetails
+
+describe('caseContext', () => {
+  describe('saveCaseContext', () => {
+    it('should keep the active case under a new ID and make it the active context', () => {
+      // Arrange
+      const session: CaseContextSession = {
+        caseDetails: caseDetails('X000001'),
+        accessDetails: { accessType: 'HMPPS_AUTH', planAccessMode: 'READ_WRITE' },
+        targetService: 'sentence-plan',
+      }
+
+      // Act
+      const caseContextId = saveCaseContext(session)
+
+      // Assert
+      expect(session.caseContextId).toBe(caseContextId)
+      expect(session.caseContexts).toEqual({
+        [caseContextId]: {
+          caseDetails: caseDetails('X000001'),
+          accessDetails: { accessType: 'HMPPS_AUTH', planAccessMode: 'READ_WRITE' },
+          targetService: 'sentence-plan',
+        },
+      })
+    })
+
+    it('should forget the oldest contexts once there are too many', () => {
+      // Arrange
+      const session: CaseContextSession = {}
+      const ids = Array.from({ length: MAX_CASE_CONTEXTS + 2 }, (_, index) => {
+        session.caseDetails = caseDetails(`X00000${index}`)
+        return saveCaseContext(session)
+      })
+
+      // Assert
+      expect(Object.keys(session.caseContexts)).toEqual(ids.slice(2))
+    })
+  })
+
+  describe('updateCaseContext', () => {
+    it('should set the fields in the session and in its saved context, so they come back with the case', () => {
+      // Arrange
+      const session: CaseContextSession = { caseDetails: caseDetails('X000001') }
+      const firstId = saveCaseContext(session)
+
+      // Act
+      updateCaseContext(session, { assessmentFlags: ['SAN_BETA'] })
+      session.caseDetails = caseDetails('X000002')
+      delete session.assessmentFlags
+      saveCaseContext(session)
+      activateCaseContext(session, firstId)
+
+      // Assert
+      expect(session.assessmentFlags).toEqual(['SAN_BETA'])
+      expect(session.caseContexts[firstId].assessmentFlags).toEqual(['SAN_BETA'])
+    })
+  })
+
+  describe('activateCaseContext', () => {
+    it('should make a saved context the active one, dropping what belonged to the previous case', () => {
+      // Arrange
+      const session: CaseContextSession = { caseDetails: caseDetails('X000001') }
+      const firstId = saveCaseContext(session)
+      session.caseDetails = caseDetails('X000002')
+      session.handoverContext = {} as CaseContextSession['handoverContext']
+      saveCaseContext(session)
+      session.sessionDetails = { accessType: 'OASYS' }
+      session.planConflict = { expectedVersion: '1' }
+
+      // Act
+      const result = activateCaseContext(session, firstId)
+
+      // Assert
+      expect(result).toBe(true)
+      expect(session.caseContextId).toBe(firstId)
+      expect(session.caseDetails).toEqual(caseDetails('X000001'))
+      expect(session.handoverContext).toBeUndefined()
+      expect(session.sessionDetails).toBeUndefined()
+      expect(session.planConflict).toBeUndefined()
+    })
+
+    it('should keep step changes, notifications and privacy acceptance with the case they were made on', () => {
+      // Arrange
+      const session: CaseContextSession = { caseDetails: caseDetails('X000001') }
+      const firstId = saveCaseContext(session)
+      session.privacyAccepted = true
+      session.stepChanges = { 'goal-1': { steps: [{ description: 'First case step' }] } }
+      session.notifications = [{ type: 'success', target: 'plan-overview' }]
+
+      session.caseDetails = caseDetails('X000002')
+      const secondId = saveCaseContext(session)
+      const secondCaseStart = {
+        privacyAccepted: session.privacyAccepted,
+        stepChanges: session.stepChanges,
+        notifications: session.notifications,
+      }
+
+      // Act
+      session.stepChanges = { 'goal-2': { steps: [{ description: 'Second case step' }] } }
+      activateCaseContext(session, firstId)
+      const firstCase = {
+        privacyAccepted: session.privacyAccepted,
+        stepChanges: session.stepChanges,
+        notifications: session.notifications,
+      }
+      activateCaseContext(session, secondId)
+
+      // Assert
+      expect(secondCaseStart).toEqual({ privacyAccepted: undefined, stepChanges: undefined, notifications: undefined })
+      expect(firstCase).toEqual({
+        privacyAccepted: true,
+        stepChanges: { 'goal-1': { steps: [{ description: 'First case step' }] } },
+        notifications: [{ type: 'success', target: 'plan-overview' }],
+      })
+      expect(session.privacyAccepted).toBeUndefined()
+      expect(session.stepChanges).toEqual({ 'goal-2': { steps: [{ description: 'Second case step' }] } })
+      expect(session.notifications).toBeUndefined()
+    })
+
+    it('should leave the session alone when the context is already active', () => {
+      // Arrange
+      const session: CaseContextSession = { caseDetails: caseDetails('X000001') }
+      const caseContextId = saveCaseContext(session)
+      session.sessionDetails = { accessType: 'OASYS' }
+
+      // Act
+      const result = activateCaseContext(session, caseContextId)
+
+      // Assert
+      expect(result).toBe(true)
+      expect(session.sessionDetails).toEqual({ accessType: 'OASYS' })
+    })
+
+    it('should return false for a context the session does not have', () => {
+      // Arrange
+      const session: CaseContextSession = { caseDetails: caseDetails('X000001') }
+      saveCaseContext(session)
+
+      // Act
+      const result = activateCaseContext(session, 'unknown')
+
+      // Assert
+      expect(result).toBe(false)
+      expect(session.caseDetails).toEqual(caseDetails('X000001'))
+    })
+  })
+
+  describe('toCaseContextPath', () => {
+    it.each([
+      ['/sentence-plan/v1.0/plan/overview', '/sentence-plan/case/context-1/v1.0/plan/overview'],
+      [
+        '/sentence-plan/v1.0/plan/overview?goalStatusTab=current',
+        '/sentence-plan/case/context-1/v1.0/plan/overview?goalStatusTab=current',
+      ],
+      ['/sentence-plan', '/sentence-plan/case/context-1/'],
+      ['/sentence-plan/case/context-2/v1.0/plan/overview', '/sentence-plan/case/context-2/v1.0/plan/overview'],
+      ['../plan/overview', '../plan/overview'],
+    ])('should give %s the case context ID as %s', (path, expected) => {
+      expect(toCaseContextPath(path, 'context-1')).toBe(expected)
+    })
+  })
+
+  describe('parseCaseContextPath', () => {
+    it('should take the case context ID out of the path', () => {
+      expect(parseCaseContextPath('/sentence-plan/case/context-1/v1.0/plan/overview?goalStatusTab=current')).toEqual({
+        caseContextId: 'context-1',
+        path: '/sentence-plan/v1.0/plan/overview?goalStatusTab=current',
+      })
+    })
+
+    it('should return undefined for a path without a case context ID', () => {
+      expect(parseCaseContextPath('/sentence-plan/v1.0/plan/overview')).toBeUndefined()
+    })
+  })
+
+  describe('withCaseContextParam', () => {
+    it('should add the case context ID to the query', () => {
+      expect(withCaseContextParam('/sentence-plan/v1.0/plan/print-preview?sections=active', 'context-1')).toBe(
+        '/sentence-plan/v1.0/plan/print-preview?sections=active&caseContext=context-1',
+      )
+    })
+
+    it('should add a query to a path without one', () => {
+      expect(withCaseContextParam('/sentence-plan/v1.0/plan/easy-read', 'context-1')).toBe(
+        '/sentence-plan/v1.0/plan/easy-read?caseContext=context-1',
+      )
+    })
+  })
+})
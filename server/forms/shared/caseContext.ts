@@ -0,0 +1,164 @@
+import { randomUUID } from 'crypto'
+import { CaseContext } from '../../interfaces/caseContext'
+
+/** Most case contexts kept in a session, after which the oldest are forgotten */
+export const MAX_CASE_CONTEXTS = 10
+
+/**
+ * Query parameter the case context ID is read from. Requests carry the ID in their path, and
+ * setUpCaseContextPaths moves it here.
+ */
+export const CASE_CONTEXT_PARAM = 'caseContext'
+
+/** A path carrying a case context ID after its first segment, e.g. /sentence-plan/case/:id/v1.0 */
+const CASE_CONTEXT_PATH = /^(\/[^/?#]+)\/case\/([^/?#]+)(.*)$/
+
+const CASE_CONTEXT_KEYS: (keyof CaseContext)[] = [
+  'handoverContext',
+  'caseDetails',
+  'practitionerDetails',
+  'accessDetails',
+  'targetService',
+  'assessmentFlags',
+]
+
+/**
+ * What the user has done on the case since it was accessed. Kept with the case like the rest,
+ * but effects change these in the session's own fields, so they are kept back in the active
+ * context before another case takes its place, and a newly accessed case starts without them.
+ */
+const CASE_STATE_KEYS: (keyof CaseContext)[] = ['privacyAccepted', 'stepChanges', 'notifications']
+
+/**
+ * The session fields case contexts are kept in. The active context is also held in the
+ * session's own fields (caseDetails etc.), which is where effects read it from.
+ */
+export interface CaseContextSession extends CaseContext {
+  caseContextId?: string
+  caseContexts?: Record<string, CaseContext>
+  sessionDetails?: unknown
+  planConflict?: unknown
+}
+
+// Keep the active case's state in its saved context, before the session's own fields are given to another case
+const keepCaseState = (session: CaseContextSession) => {
+  const caseContext = session.caseContextId ? session.caseContexts?.[session.caseContextId] : undefined
+
+  if (caseContext) {
+    CASE_STATE_KEYS.forEach(key => {
+      if (session[key] === undefined) {
+        delete caseContext[key]
+      } else {
+        Object.assign(caseContext, { [key]: session[key] })
+      }
+    })
+  }
+}
+
+/**
+ * Keep the session's active case under a new ID, and make it the active context. The case
+ * starts without the state (privacy acceptance, unsaved step changes and notifications) of
+ * the case that was active before.
+ */
+export const saveCaseContext = (session: CaseContextSession): string => {
+  keepCaseState(session)
+
+  const caseContextId = randomUUID()
+  const caseContexts = { ...session.caseContexts }
+
+  caseContexts[caseContextId] = Object.fromEntries(
+    CASE_CONTEXT_KEYS.filter(key => session[key] !== undefined).map(key => [key, session[key]]),
+  )
+
+  // Keys keep insertion order, so the oldest contexts come first
+  const ids = Object.keys(caseContexts)
+  ids.slice(0, Math.max(0, ids.length - MAX_CASE_CONTEXTS)).forEach(id => delete caseContexts[id])
+
+  CASE_STATE_KEYS.forEach(key => delete session[key])
+  session.caseContexts = caseContexts
+  session.caseContextId = caseContextId
+
+  return caseContextId
+}
+
+/**
+ * Set fields of the session's active case, in its saved context too, so they are still there
+ * when the case is made active again, or read for a request that names its case context.
+ */
+export const updateCaseContext = (session: CaseContextSession, values: Partial<CaseContext>) => {
+  Object.assign(session, values)
+
+  const caseContext = session.caseContextId ? session.caseContexts?.[session.caseContextId] : undefined
+
+  if (caseContext) {
+    Object.assign(caseContext, values)
+  }
+}
+
+/**
+ * Make a saved case context the session's active one. Returns false if the session has no
+ * context with that ID, e.g. it was forgotten, or belongs to another session.
+ */
+export const activateCaseContext = (session: CaseContextSession, caseContextId: string): boolean => {
+  const caseContext = session.caseContexts?.[caseContextId]
+
+  if (!caseContext) {
+    return false
+  }
+
+  if (session.caseContextId !== caseContextId) {
+    keepCaseState(session)
+
+    const keys = [...CASE_CONTEXT_KEYS, ...CASE_STATE_KEYS]
+    keys.forEach(key => {
+      if (caseContext[key] === undefined) {
+        delete session[key]
+      } else {
+        Object.assign(session, { [key]: caseContext[key] })
+      }
+    })
+
+    // Both belong to the previous case. Session details are set up again from the access details
+    delete session.sessionDetails
+    delete session.planConflict
+    session.caseContextId = caseContextId
+  }
+
+  return true
+}
+
+/**
+ * The path with the case context ID put in after its first segment, so
+ * `/sentence-plan/v1.0/plan/overview` becomes `/sentence-plan/case/:id/v1.0/plan/overview`.
+ * Paths that already carry an ID are left as they are.
+ */
+export const toCaseContextPath = (path: string, caseContextId: string): string => {
+  const [, formPath, rest] = path.match(/^(\/[^/?#]+)(.*)$/) ?? []
+
+  if (!formPath || CASE_CONTEXT_PATH.test(path)) {
+    return path
+  }
+
+  return `${formPath}/case/${caseContextId}${rest.startsWith('/') ? rest : `/${rest}`}`
+}
+
+/**
+ * Take the case context ID out of a path carrying one. Returns undefined for any other path.
+ */
+export const parseCaseContextPath = (path: string): { caseContextId: string; path: string } | undefined => {
+  const [, formPath, caseContextId, rest] = path.match(CASE_CONTEXT_PATH) ?? []
+
+  return formPath ? { caseContextId, path: `${formPath}${rest}` } : undefined
+}
+
+/**
+ * The path with the case context ID in its query, for requests handed on to another page of the
+ * app after setUpCaseContextPaths has moved the ID out of their path.
+ */
+export const withCaseContextParam = (path: string, caseContextId: string): string => {
+  const url = new URL(path, 'http://localhost')
+
+  url.searchParams.set(CASE_CONTEXT_PARAM, caseContextId)
+
+  return `${url.pathname}${url.search}`
+}
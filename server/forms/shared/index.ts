@@ -1,2 +1,4 @@
 export { createPrivacyScreen } from './privacy-screen'
 export type { PrivacyScreenConfig } from './privacy-screen'
+export { getPublicPaths } from './accessPolicy'
+export type { FormAccessPolicy } from './accessPolicy'
@@ -5,6 +5,17 @@ import { trainingSessionLauncherComponents } from './components'
 import { trainingSessionLauncherTransformerRegistry } from './transformers'
 import { TrainingSessionLauncherEffectsDeps } from './effects/types'
 import config from '../../config'
+import type { FormAccessPolicy } from '../shared'
+
+/**
+ * Trainers only, signed in with HMPPS Auth, and never in production.
+ */
+export const accessPolicy: FormAccessPolicy = {
+  path: '/training-session-launcher',
+  enabled: config.forms.trainingSessionLauncher.enabled ?? false,
+  roles: config.forms.trainingSessionLauncher.roles,
+  authSources: ['HMPPS_AUTH'],
+}
 
 /**
  * Training Session Launcher Form Package
@@ -13,7 +24,7 @@ import config from '../../config'
  * Replaces the OAStub functionality with a proper form-based interface.
  */
 export default createForgePackage<TrainingSessionLauncherEffectsDeps>({
-  enabled: config.forms.trainingSessionLauncher.enabled ?? false,
+  enabled: accessPolicy.enabled,
   journey: trainingSessionLauncherJourney,
   components: trainingSessionLauncherComponents,
   functions: [trainingSessionLauncherEffectRegistry, trainingSessionLauncherTransformerRegistry],
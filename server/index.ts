@@ -1,6 +1,10 @@
 import createApp from './app'
 import { services } from './services'
 
-const app = createApp(services())
+const appServices = services()
+const app = createApp(appServices)
+
+appServices.domainEventsService.startDispatcher()
+appServices.auditService.startRetrying()
 
 export default app
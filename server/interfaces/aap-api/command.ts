@@ -2,6 +2,13 @@ import { User } from '../user'
 import { Answers, Properties, PropertyKeys, QuestionCodes } from './dataModel'
 import { Identifiers } from './identifier'
 
+/**
+ * Placeholder for a UUID created by an earlier command in the same batch, e.g. `$ref:0.collectionUuid`.
+ * The API substitutes the value from that command's result before running the command that uses it.
+ * Only the UUID fields typed as CommandResultRef are substituted, not values inside timeline data.
+ */
+export type CommandResultRef = `$ref:${number}.${string}`
+
 interface CommandTimeline {
   type: string
   data: Record<string, any>
@@ -59,3 +59,12 @@ export type CommandResultFor<T extends { type: string }> = T['type'] extends key
 export type CommandResultsFor<T extends readonly { type: string }[]> = {
   [K in keyof T]: T[K] extends { type: string } ? CommandResultFor<T[K]> : never
 }
+
+/**
+ * Results of a batch executed with an optimistic concurrency check,
+ * along with the assessment version the batch produced (if the API reported one).
+ */
+export interface VersionedCommandResults<T extends readonly { type: string }[]> {
+  results: CommandResultsFor<T>
+  assessmentVersion?: string
+}
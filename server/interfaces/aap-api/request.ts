@@ -3,6 +3,12 @@ import { Queries } from './query'
 
 export interface CommandsRequest {
   commands: Commands[]
+  /**
+   * Optimistic concurrency check: the `updatedAt` of the assessment version the commands
+   * were built from. The API rejects the whole batch with a 409 if the assessment has
+   * changed since.
+   */
+  expectedVersion?: string
 }
 
 export interface QueriesRequest {
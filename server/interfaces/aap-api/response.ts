@@ -10,6 +10,18 @@ export interface CommandResponse {
 
 export interface CommandsResponse {
   commands: CommandResponse[]
+  /**
+   * The `updatedAt` of the assessment once the batch has been applied.
+   * Returned when the request carried an `expectedVersion`.
+   */
+  assessmentVersion?: string
+}
+
+/**
+ * Body of the 409 returned when a batch fails the `expectedVersion` check.
+ */
+export interface CommandsConflictResponse {
+  assessmentVersion?: string
 }
 
 export interface QueryResponse {
@@ -0,0 +1,8 @@
+/**
+ * A single mismatch between an AAP API response and its schema.
+ * `path` is relative to the response body, e.g. `queries[0].result.collections[1].name`.
+ */
+export interface ResponseValidationIssue {
+  path: string
+  message: string
+}
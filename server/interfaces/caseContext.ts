@@ -0,0 +1,25 @@
+import { HandoverContext } from './handover-api/response'
+import { CaseDetails } from './delius-api/caseDetails'
+import { PractitionerDetails } from './practitionerDetails'
+import { SessionDetails } from './sessionDetails'
+
+/**
+ * What the access form set up for one case: who it is, who is working on it and how they got
+ * there. Each access stores one in the session under a new ID, so a user can have plans for
+ * different cases open in different tabs.
+ */
+export interface CaseContext {
+  handoverContext?: HandoverContext
+  caseDetails?: CaseDetails
+  practitionerDetails?: PractitionerDetails
+  accessDetails?: Omit<SessionDetails, 'planIdentifier' | 'planVersion'>
+  targetService?: string
+  /** Flags on the case's assessment, e.g. SAN_BETA, once its plan has been loaded */
+  assessmentFlags?: string[]
+  /** Whether the privacy screen has been accepted for the case */
+  privacyAccepted?: boolean
+  /** Changes to goal steps not yet saved, by goal UUID */
+  stepChanges?: Record<string, unknown>
+  /** Notifications waiting to be shown on the case's pages */
+  notifications?: unknown[]
+}
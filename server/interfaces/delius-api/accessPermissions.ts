@@ -2,5 +2,7 @@ export interface AccessPermissions {
   inCaseload: boolean
   userExcluded: boolean
   userRestricted: boolean
+  exclusionMessage?: string
+  restrictionMessage?: string
   canAccess: boolean
 }
@@ -0,0 +1,24 @@
+/**
+ * A sentence plan write rejected because the plan changed after the form was loaded.
+ * Stored in the session between the rejected POST and the "plan changed" page.
+ */
+export interface PlanConflict {
+  /** Version (updatedAt) of the plan the rejected form was built from */
+  expectedVersion: string
+  /** Version of the plan at the time of the conflict, if the API reported one */
+  currentVersion?: string
+  /** Path of the form that was submitted, used to re-apply the changes */
+  returnTo: string
+  /** Submitted form fields, flattened so they can be re-posted as hidden inputs */
+  fields: { name: string; value: string }[]
+}
+
+/**
+ * A change made to the plan by someone else, shown on the "plan changed" page.
+ */
+export interface PlanConflictChange {
+  date: string
+  description: string
+  goalTitle?: string
+  changedBy?: string
+}
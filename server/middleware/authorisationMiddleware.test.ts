@@ -39,6 +39,8 @@ describe('authorisationMiddleware', () => {
         },
       },
       redirect: jest.fn(),
+      status: jest.fn(),
+      render: jest.fn(),
     } as unknown as Response
   }
 
@@ -157,4 +159,84 @@ describe('authorisationMiddleware', () => {
     expect(next).toHaveBeenCalled()
     expect(res.redirect).not.toHaveBeenCalled()
   })
+  describe('sentence plan requests', () => {
+    const allowed: AccessPermissions = {
+      inCaseload: true,
+      userExcluded: false,
+      userRestricted: false,
+      canAccess: true,
+    }
+
+    const createSentencePlanRequest = (overrides: Partial<Request> = {}) =>
+      ({
+        ...req,
+        path: '/sentence-plan/v1.0/plan/overview',
+        session: {
+          caseDetails: { crn: 'X000001' },
+          caseContexts: { 'context-2': { caseDetails: { crn: 'X000002' } } },
+        },
+        ...overrides,
+      }) as unknown as Request
+
+    afterEach(() => {
+      jest.useRealTimers()
+    })
+
+    it('should re-check access to the session case, using the cached result until it expires', async () => {
+      jest.useFakeTimers().setSystemTime(new Date('2026-01-01T10:00:00Z'))
+      accessClient.getUserAccess.mockResolvedValue(allowed)
+      const middleware = authorisationMiddleware([], accessClient, { accessRecheckSeconds: 60 })
+
+      await middleware(createSentencePlanRequest(), createResWithToken({ authorities: [] }), next)
+      await middleware(createSentencePlanRequest(), createResWithToken({ authorities: [] }), next)
+      jest.setSystemTime(new Date('2026-01-01T10:01:01Z'))
+      await middleware(createSentencePlanRequest(), createResWithToken({ authorities: [] }), next)
+
+      expect(accessClient.getUserAccess).toHaveBeenCalledTimes(2)
+      expect(accessClient.getUserAccess).toHaveBeenCalledWith('USER1', 'X000001')
+      expect(next).toHaveBeenCalledTimes(3)
+    })
+
+    it('should check access to the case the request was made for', async () => {
+      accessClient.getUserAccess.mockResolvedValue(allowed)
+
+      await authorisationMiddleware([], accessClient)(
+        createSentencePlanRequest({ query: { caseContext: 'context-2' } }),
+        createResWithToken({ authorities: [] }),
+        next,
+      )
+
+      expect(accessClient.getUserAccess).toHaveBeenCalledWith('USER1', 'X000002')
+    })
+
+    it('should show the access restricted page when the user has been excluded or restricted', async () => {
+      accessClient.getUserAccess.mockResolvedValue({
+        inCaseload: true,
+        userExcluded: true,
+        userRestricted: true,
+        exclusionMessage: 'You are excluded from this case',
+        canAccess: false,
+      })
+      const res = createResWithToken({ authorities: [] })
+
+      await authorisationMiddleware([], accessClient)(createSentencePlanRequest(), res, next)
+
+      expect(next).not.toHaveBeenCalled()
+      expect(res.status).toHaveBeenCalledWith(403)
+      expect(res.render).toHaveBeenCalledWith('pages/access-restricted', {
+        messages: ['You are excluded from this case', 'This is a restricted case.'],
+      })
+    })
+
+    it('should not re-check access for non-hmpps-auth users', async () => {
+      await authorisationMiddleware([], accessClient)(
+        createSentencePlanRequest(),
+        createResWithToken({ authorities: [], authSource: 'OASYS' }),
+        next,
+      )
+
+      expect(accessClient.getUserAccess).not.toHaveBeenCalled()
+      expect(next).toHaveBeenCalled()
+    })
+  })
 })
@@ -1,22 +1,83 @@
 import { jwtDecode } from 'jwt-decode'
-import type { RequestHandler } from 'express'
+import type { Request, RequestHandler, Response } from 'express'
 
 import logger from '../../logger'
 import { AccessPermissions } from '../interfaces/delius-api/accessPermissions'
+import { CASE_CONTEXT_PARAM } from '../forms/shared/caseContext'
 
 type FineGrainedAccessClient = {
   getUserAccess: (username: string, crn: string) => Promise<AccessPermissions>
 }
 
+export interface AuthorisationOptions {
+  /** How long a user's access to a case is trusted before Delius is asked again */
+  accessRecheckSeconds?: number
+}
+
+const DEFAULT_ACCESS_RECHECK_SECONDS = 60
+
 const getCrnFromAccessPath = (path: string): string | undefined => {
   const match = path.match(/^\/access\/[^/]+\/crn\/([^/]+)\/?$/i)
   return match?.[1]
 }
 
+/**
+ * The CRN of the case a sentence plan request is for: the case its case context ID belongs to,
+ * otherwise the session's active case. Plan pages reject requests without an ID themselves.
+ */
+const getCrnForSentencePlanRequest = (req: Request): string | undefined => {
+  if (!/^\/sentence-plan\//i.test(req.path)) {
+    return undefined
+  }
+
+  const caseContextId = req.query?.[CASE_CONTEXT_PARAM]
+  const caseDetails =
+    typeof caseContextId === 'string'
+      ? req.session?.caseContexts?.[caseContextId]?.caseDetails
+      : req.session?.caseDetails
+
+  return caseDetails?.crn
+}
+
+const renderAccessRestricted = (res: Response, access: AccessPermissions) => {
+  res.status(403)
+  return res.render('pages/access-restricted', {
+    messages: [
+      access.userExcluded && (access.exclusionMessage || 'You are excluded from viewing this case.'),
+      access.userRestricted && (access.restrictionMessage || 'This is a restricted case.'),
+    ].filter(Boolean),
+  })
+}
+
 export default function authorisationMiddleware(
   authorisedRoles: string[],
   fineGrainedAccessClient: FineGrainedAccessClient,
+  { accessRecheckSeconds = DEFAULT_ACCESS_RECHECK_SECONDS }: AuthorisationOptions = {},
 ): RequestHandler {
+  // Delius access by username and CRN, so it isn't checked on every request
+  const accessCache = new Map<string, { access: AccessPermissions; expiresAt: number }>()
+
+  const getUserAccess = async (username: string, crn: string, { useCache }: { useCache: boolean }) => {
+    const key = `${username}:${crn}`
+    const now = Date.now()
+    const cached = accessCache.get(key)
+
+    if (useCache && cached && cached.expiresAt > now) {
+      return cached.access
+    }
+
+    const access = await fineGrainedAccessClient.getUserAccess(username, crn)
+
+    accessCache.forEach((entry, entryKey) => {
+      if (entry.expiresAt <= now) {
+        accessCache.delete(entryKey)
+      }
+    })
+    accessCache.set(key, { access, expiresAt: now + accessRecheckSeconds * 1000 })
+
+    return access
+  }
+
   return async (req, res, next) => {
     if (req.authBypassed) {
       return next()
@@ -36,11 +97,22 @@ export default function authorisationMiddleware(
         return res.redirect('/authError')
       }
 
-      const crn = getCrnFromAccessPath(req.path)
+      // Checked when the case is opened, then again every so often while it's being worked on,
+      // in case the user is excluded or restricted, or the case becomes limited access, mid-session
+      const accessCrn = getCrnFromAccessPath(req.path)
+      const crn = accessCrn ?? getCrnForSentencePlanRequest(req)
 
       if (crn && res.locals.user.authSource === 'HMPPS_AUTH' && username) {
         try {
-          const access = await fineGrainedAccessClient.getUserAccess(username, crn)
+          const access = await getUserAccess(username, crn, { useCache: !accessCrn })
+
+          if (access.userExcluded || access.userRestricted) {
+            logger.warn(
+              { username, crn, userExcluded: access.userExcluded, userRestricted: access.userRestricted },
+              'User is excluded or restricted from CRN',
+            )
+            return renderAccessRestricted(res, access)
+          }
 
           if (!access.canAccess) {
             logger.warn({ username, crn }, 'User cannot access requested CRN')
@@ -0,0 +1,122 @@
+import type { Request, Response } from 'express'
+
+import formAccessPolicyMiddleware from './formAccessPolicyMiddleware'
+import type { FormAccessPolicy } from '../forms/shared'
+import type { AuthSource } from '../interfaces/hmppsUser'
+import { accessPolicy as accessFormPolicy } from '../forms/access'
+import { accessPolicy as dataDeletionToolPolicy } from '../forms/data-deletion-tool'
+import { accessPolicy as platformPoliciesPolicy } from '../forms/platform'
+import { accessPolicy as sentencePlanPolicy } from '../forms/sentence-plan'
+import { accessPolicy as trainingSessionLauncherPolicy } from '../forms/training-session-launcher'
+
+jest.mock('../../logger', () => ({
+  warn: jest.fn(),
+}))
+
+type User = { authSource: AuthSource; userRoles: string[] }
+
+const hmppsAuthUser = (...userRoles: string[]): User => ({ authSource: 'HMPPS_AUTH', userRoles })
+const oasysUser = (...userRoles: string[]): User => ({ authSource: 'OASYS', userRoles })
+
+/**
+ * Runs a request through the middleware, returning where it went: 'next', 'not found',
+ * or the path it was redirected to.
+ */
+const check = (
+  policies: FormAccessPolicy[],
+  path: string,
+  user?: User,
+  { authBypassed = false }: { authBypassed?: boolean } = {},
+): string => {
+  const req = { path, authBypassed } as Request
+  const res = { locals: { user }, redirect: jest.fn() } as unknown as Response
+  const next = jest.fn()
+
+  formAccessPolicyMiddleware(policies)(req, res, next)
+
+  if (next.mock.calls.length) {
+    return next.mock.calls[0][0]?.status === 404 ? 'not found' : 'next'
+  }
+
+  return (res.redirect as jest.Mock).mock.calls[0][0]
+}
+
+describe('formAccessPolicyMiddleware', () => {
+  const adminPolicy: FormAccessPolicy = {
+    path: '/admin',
+    enabled: true,
+    roles: ['ADMIN'],
+    authSources: ['HMPPS_AUTH'],
+  }
+
+  it('should let through paths not covered by a policy', () => {
+    expect(check([adminPolicy], '/other', oasysUser())).toBe('next')
+  })
+
+  it('should let through users with one of the roles, signed in an allowed way', () => {
+    expect(check([adminPolicy], '/admin/page', hmppsAuthUser('PROBATION', 'ADMIN'))).toBe('next')
+  })
+
+  it('should redirect users without one of the roles', () => {
+    expect(check([adminPolicy], '/admin', hmppsAuthUser('PROBATION'))).toBe('/authError')
+  })
+
+  it('should redirect users signed in a way the policy does not allow', () => {
+    expect(check([adminPolicy], '/admin', oasysUser('ADMIN'))).toBe('/authError')
+  })
+
+  it('should not find pages of a disabled package', () => {
+    expect(check([{ ...adminPolicy, enabled: false }], '/admin', hmppsAuthUser('ADMIN'))).toBe('not found')
+  })
+
+  it('should let anyone through to public paths', () => {
+    expect(check([adminPolicy], '/admin/help', undefined, { authBypassed: true })).toBe('next')
+  })
+
+  it('should use the most specific policy for a path', () => {
+    const policies = [adminPolicy, { path: '/admin/reports', enabled: true, roles: ['REPORTS'] }]
+
+    expect(check(policies, '/admin/reports/1', oasysUser('REPORTS'))).toBe('next')
+  })
+
+  describe('form packages', () => {
+    it('training session launcher should need a trainer signed in with HMPPS Auth', () => {
+      const policies = [{ ...trainingSessionLauncherPolicy, enabled: true }]
+
+      expect(check(policies, '/training-session-launcher', hmppsAuthUser('ARNS_TRAINER'))).toBe('next')
+      expect(check(policies, '/training-session-launcher', hmppsAuthUser('PROBATION'))).toBe('/authError')
+      expect(check(policies, '/training-session-launcher', oasysUser('ARNS_TRAINER'))).toBe('/authError')
+    })
+
+    it('training session launcher should not be found when disabled', () => {
+      const policies = [{ ...trainingSessionLauncherPolicy, enabled: false }]
+
+      expect(check(policies, '/training-session-launcher', hmppsAuthUser('ARNS_TRAINER'))).toBe('not found')
+    })
+
+    it('data deletion tool should need an admin signed in with HMPPS Auth', () => {
+      const policies = [{ ...dataDeletionToolPolicy, enabled: true }]
+
+      expect(check(policies, '/data-deletion-tool', hmppsAuthUser('ARNS_ADMIN'))).toBe('next')
+      expect(check(policies, '/data-deletion-tool', hmppsAuthUser('ARNS_TRAINER'))).toBe('/authError')
+      expect(check(policies, '/data-deletion-tool', oasysUser('ARNS_ADMIN'))).toBe('/authError')
+    })
+
+    it('platform policy pages should be public', () => {
+      expect(platformPoliciesPolicy.public).toBe(true)
+      expect(check([platformPoliciesPolicy], '/platform/cookies-policy')).toBe('next')
+    })
+
+    it.each([accessFormPolicy, sentencePlanPolicy])('$path should be for OASys and HMPPS Auth users', policy => {
+      const policies = [{ ...policy, enabled: true }]
+
+      expect(check(policies, policy.path, oasysUser())).toBe('next')
+      expect(check(policies, policy.path, hmppsAuthUser('PROBATION'))).toBe('next')
+      expect(check(policies, policy.path, { authSource: 'EXTERNAL', userRoles: [] })).toBe('/authError')
+    })
+
+    it('sentence plan should let anyone see that unsaved information was deleted', () => {
+      expect(sentencePlanPolicy.publicPaths).toEqual(['/sentence-plan/unsaved-information-deleted'])
+    })
+  })
+})
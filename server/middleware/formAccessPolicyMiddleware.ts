@@ -0,0 +1,53 @@
+import createError from 'http-errors'
+import type { RequestHandler } from 'express'
+
+import logger from '../../logger'
+import type { FormAccessPolicy } from '../forms/shared'
+
+const isPathUnderPrefix = (path: string, prefix: string): boolean => {
+  const normalizedPrefix = prefix.replace(/\/+$/, '') || '/'
+
+  return path === normalizedPrefix || path.startsWith(`${normalizedPrefix}/`)
+}
+
+/**
+ * Enforces each form package's access policy on requests under its path. Must run after
+ * setUpCurrentUser, as it checks the user's roles and how they signed in.
+ *
+ * Paths not covered by a policy, and public paths (bypassed by setUpAuthentication), are
+ * let through.
+ */
+export default function formAccessPolicyMiddleware(policies: FormAccessPolicy[]): RequestHandler {
+  // Most specific path first, in case packages are nested
+  const sortedPolicies = [...policies].sort((a, b) => b.path.length - a.path.length)
+
+  return (req, res, next) => {
+    const policy = sortedPolicies.find(({ path }) => isPathUnderPrefix(req.path, path))
+
+    if (!policy) {
+      return next()
+    }
+
+    if (!policy.enabled) {
+      return next(createError(404, 'Not found'))
+    }
+
+    if (policy.public || req.authBypassed) {
+      return next()
+    }
+
+    const { user } = res.locals
+
+    if (policy.authSources?.length && !policy.authSources.includes(user?.authSource)) {
+      logger.warn({ username: user?.username, path: req.path }, 'User signed in a way not allowed for this form')
+      return res.redirect('/authError')
+    }
+
+    if (policy.roles?.length && !policy.roles.some(role => user?.userRoles?.includes(role))) {
+      logger.warn({ username: user?.username, path: req.path }, 'User does not have a role needed for this form')
+      return res.redirect('/authError')
+    }
+
+    return next()
+  }
+}
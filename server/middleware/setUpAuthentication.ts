@@ -8,6 +8,7 @@ import config from '../config'
 import { HmppsUser } from '../interfaces/hmppsUser'
 import generateOauthClientToken from '../utils/clientCredentials'
 import logger from '../../logger'
+import { getOasysAccessPath, getTargetService } from '../forms/access/registry'
 
 interface AuthenticationOptions {
   bypassPaths?: (string | RegExp)[]
@@ -54,14 +55,6 @@ const authPaths = {
   hmppsToken: '/oauth/token',
 }
 
-/**
- * Mapping of service names to their access form entry paths after handover auth.
- * The access form handles loading handover context and redirecting to the target service.
- */
-const targetServicePaths: Record<string, string> = {
-  'sentence-plan': '/access/sentence-plan/oasys',
-}
-
 passport.serializeUser((user, done) => {
   // Not used but required for Passport
   done(null, user)
@@ -136,7 +129,8 @@ export default function setupAuthentication(options: AuthenticationOptions = {})
   router.get(authPaths.handover, (req, res, next) => {
     const service = req.query.service as string | undefined
 
-    if (service) {
+    // Only services in the access form's registry can be handed over to
+    if (service && getTargetService(service)) {
       req.session.targetService = service
     }
 
@@ -167,10 +161,9 @@ export default function setupAuthentication(options: AuthenticationOptions = {})
           req.session.csrfToken = csrfToken
         }
 
-        // Redirect to the service path, or fallback to root
-        const redirectPath = targetService ? targetServicePaths[targetService] : '/'
-
-        return res.redirect(redirectPath)
+        // Redirect to the service's access form entry path, which loads the handover context
+        // and redirects on to the service, or fallback to root
+        return res.redirect((targetService && getOasysAccessPath(targetService)) || '/')
       })
     })(req, res, next)
   })
@@ -0,0 +1,87 @@
+import express, { Express } from 'express'
+import request from 'supertest'
+import setUpCaseContextPaths from './setUpCaseContextPaths'
+
+const buildApp = (): Express => {
+  const app = express()
+
+  app.use(setUpCaseContextPaths())
+
+  app.get('/sentence-plan/v1.0/plan/overview', (req, res) => {
+    return res.json({ url: req.url, originalUrl: req.originalUrl, query: req.query })
+  })
+
+  app.get('/sentence-plan/v1.0/plan/agree-plan', (_req, res) => {
+    return res.redirect('/sentence-plan/v1.0/plan/overview?goalStatusTab=current')
+  })
+
+  app.get('/sentence-plan/v1.0/goal/:goalUuid/add-steps', (_req, res) => {
+    return res.redirect('../../plan/overview')
+  })
+
+  app.get('/sentence-plan/v1.0/about-person', (_req, res) => {
+    return res.redirect('/platform/privacy-policy')
+  })
+
+  return app
+}
+
+describe('setUpCaseContextPaths', () => {
+  let app: Express
+
+  beforeEach(() => {
+    app = buildApp()
+  })
+
+  it('should move the case context ID from the path into the query', async () => {
+    // Act
+    const response = await request(app).get('/sentence-plan/case/context-1/v1.0/plan/overview?goalStatusTab=future')
+
+    // Assert
+    expect(response.body).toEqual({
+      url: '/sentence-plan/v1.0/plan/overview?goalStatusTab=future&caseContext=context-1',
+      originalUrl: '/sentence-plan/case/context-1/v1.0/plan/overview?goalStatusTab=future',
+      query: { goalStatusTab: 'future', caseContext: 'context-1' },
+    })
+  })
+
+  it('should use the ID in the path over one in the query', async () => {
+    // Act
+    const response = await request(app).get('/sentence-plan/case/context-1/v1.0/plan/overview?caseContext=context-2')
+
+    // Assert
+    expect(response.body.query).toEqual({ caseContext: 'context-1' })
+  })
+
+  it('should leave paths without a case context ID as they are', async () => {
+    // Act
+    const response = await request(app).get('/sentence-plan/v1.0/plan/overview?goalStatusTab=future')
+
+    // Assert
+    expect(response.body.url).toBe('/sentence-plan/v1.0/plan/overview?goalStatusTab=future')
+  })
+
+  it('should keep the case context ID on redirects to pages of the same form', async () => {
+    // Act & Assert
+    await request(app)
+      .get('/sentence-plan/case/context-1/v1.0/plan/agree-plan')
+      .expect(302)
+      .expect('Location', '/sentence-plan/case/context-1/v1.0/plan/overview?goalStatusTab=current')
+  })
+
+  it('should leave relative redirects, which keep the ID already, as they are', async () => {
+    // Act & Assert
+    await request(app)
+      .get('/sentence-plan/case/context-1/v1.0/goal/goal-1/add-steps')
+      .expect(302)
+      .expect('Location', '../../plan/overview')
+  })
+
+  it('should leave redirects out of the form as they are', async () => {
+    // Act & Assert
+    await request(app)
+      .get('/sentence-plan/case/context-1/v1.0/about-person')
+      .expect(302)
+      .expect('Location', '/platform/privacy-policy')
+  })
+})
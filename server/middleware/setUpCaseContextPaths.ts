@@ -0,0 +1,43 @@
+import { Router } from 'express'
+import { CASE_CONTEXT_PARAM, parseCaseContextPath, toCaseContextPath } from '../forms/shared/caseContext'
+
+/**
+ * Middleware for paths carrying a case context ID, e.g. `/sentence-plan/case/:id/v1.0/plan/overview`,
+ * which keep each browser tab on the case it was opened for.
+ *
+ * The request carries on without the ID in its path and with it in the query instead, e.g.
+ * `/sentence-plan/v1.0/plan/overview?caseContext=:id`, so routes and forms match it as they
+ * would any other request. Pages link to each other with relative URLs, which keep the ID, and
+ * redirects to other pages of the same form are given it here.
+ */
+export default function setUpCaseContextPaths(): Router {
+  const router = Router()
+
+  router.use((req, res, next) => {
+    const caseContextPath = parseCaseContextPath(req.url)
+
+    if (!caseContextPath) {
+      return next()
+    }
+
+    const { caseContextId, path } = caseContextPath
+    const url = new URL(path, 'http://localhost')
+    const formPath = url.pathname.split('/').slice(0, 2).join('/')
+
+    url.searchParams.set(CASE_CONTEXT_PARAM, caseContextId)
+    req.url = `${url.pathname}${url.search}`
+
+    const { location } = res
+    res.location = (address: string) =>
+      location.call(
+        res,
+        address === formPath || address.startsWith(`${formPath}/`) || address.startsWith(`${formPath}?`)
+          ? toCaseContextPath(address, caseContextId)
+          : address,
+      )
+
+    return next()
+  })
+
+  return router
+}
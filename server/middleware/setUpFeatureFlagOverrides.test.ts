@@ -0,0 +1,53 @@
+import type { Request, Response } from 'express'
+import setUpFeatureFlagOverrides from './setUpFeatureFlagOverrides'
+
+jest.mock('../config', () => ({
+  featureFlags: { overridesEnabled: true },
+}))
+
+const mockConfig = jest.requireMock('../config')
+
+type MiddlewareStack = Array<{ handle: (req: Request, res: Response, next: () => void) => unknown }>
+
+const runMiddleware = (headers: Record<string, string> = {}, cookies: Record<string, string> = {}) => {
+  const router = setUpFeatureFlagOverrides() as unknown as { stack: MiddlewareStack }
+  const req = { get: (name: string) => headers[name], cookies } as unknown as Request
+  const next = jest.fn()
+
+  router.stack[0].handle(req, {} as Response, next)
+
+  expect(next).toHaveBeenCalled()
+  return req
+}
+
+describe('setUpFeatureFlagOverrides', () => {
+  beforeEach(() => {
+    mockConfig.featureFlags.overridesEnabled = true
+  })
+
+  it('should read overrides from the header', () => {
+    const req = runMiddleware({ 'x-feature-flag-overrides': '{"sp-enable-print-and-share":true}' })
+
+    expect(req.state.featureFlagOverrides).toEqual({ 'sp-enable-print-and-share': true })
+  })
+
+  it('should read overrides from the cookie, ignoring values that are not booleans or strings', () => {
+    const req = runMiddleware({}, { 'feature-flag-overrides': '{"sp-test-variant":"treatment","sp-other":1}' })
+
+    expect(req.state.featureFlagOverrides).toEqual({ 'sp-test-variant': 'treatment' })
+  })
+
+  it('should ignore overrides that are not valid JSON', () => {
+    const req = runMiddleware({ 'x-feature-flag-overrides': 'not json' })
+
+    expect(req.state).toBeUndefined()
+  })
+
+  it('should ignore overrides when they are disabled', () => {
+    mockConfig.featureFlags.overridesEnabled = false
+
+    const req = runMiddleware({ 'x-feature-flag-overrides': '{"sp-enable-print-and-share":true}' })
+
+    expect(req.state).toBeUndefined()
+  })
+})
@@ -0,0 +1,37 @@
+import { Router, Request, Response, NextFunction } from 'express'
+import config from '../config'
+import { parseFeatureFlagOverrides } from '../utils/featureFlagsUtils'
+
+export const OVERRIDES_HEADER = 'x-feature-flag-overrides'
+export const OVERRIDES_COOKIE = 'feature-flag-overrides'
+
+/**
+ * Middleware that reads feature flag overrides for the request, so integration tests can turn
+ * features on and off without changing Flipt. Overrides are JSON of flag values by Flipt key,
+ * sent in a header or cookie, e.g. `{"sp-enable-print-and-share":true}`.
+ *
+ * Does nothing unless FEATURE_FLAG_OVERRIDES_ENABLED is on, and never in production.
+ */
+export default function setUpFeatureFlagOverrides(): Router {
+  const router = Router()
+
+  router.use((req: Request, res: Response, next: NextFunction) => {
+    if (!config.featureFlags.overridesEnabled) {
+      return next()
+    }
+
+    const overrides = parseFeatureFlagOverrides(req.get(OVERRIDES_HEADER) ?? req.cookies?.[OVERRIDES_COOKIE])
+
+    if (Object.keys(overrides).length > 0) {
+      if (!req.state) {
+        req.state = {}
+      }
+
+      req.state.featureFlagOverrides = overrides
+    }
+
+    return next()
+  })
+
+  return router
+}
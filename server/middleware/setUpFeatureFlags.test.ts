@@ -1,11 +1,11 @@
 import type { Request, Response } from 'express'
 import setUpFeatureFlags from './setUpFeatureFlags'
-import { BooleanFeatureFlags } from '../utils/featureFlagsUtils'
+import { BooleanFeatureFlags, VariantFeatureFlags } from '../utils/featureFlagsUtils'
 
 type MiddlewareStack = Array<{ handle: (req: Request, res: Response, next: () => void) => unknown }>
 
-const createMocks = (userId?: string) => {
-  const req = {} as Request
+const createMocks = (userId?: string, session?: Record<string, unknown>) => {
+  const req = { session } as unknown as Request
   const res = {
     locals: {
       user: userId ? { userId } : undefined,
@@ -27,7 +27,8 @@ describe('setUpFeatureFlags', () => {
         smartSurveyInNationalRolloutEnabled: true,
       },
     })
-    const featureFlagService = { evaluateBooleanFlags }
+    const evaluateVariantFlags = jest.fn().mockResolvedValue({ variantFeatureFlags: {} })
+    const featureFlagService = { evaluateBooleanFlags, evaluateVariantFlags }
 
     const router = setUpFeatureFlags(featureFlagService as never) as unknown as { stack: MiddlewareStack }
     const middleware = router.stack[0].handle
@@ -35,7 +36,7 @@ describe('setUpFeatureFlags', () => {
 
     await middleware(req, res, next)
 
-    expect(evaluateBooleanFlags).toHaveBeenCalledWith(BooleanFeatureFlags, 'user-123')
+    expect(evaluateBooleanFlags).toHaveBeenCalledWith(BooleanFeatureFlags, 'user-123', {}, undefined)
     expect(res.locals.featureFlags).toEqual({
       smartSurveyInNationalRolloutEnabled: true,
     })
@@ -48,7 +49,8 @@ describe('setUpFeatureFlags', () => {
         smartSurveyInNationalRolloutEnabled: false,
       },
     })
-    const featureFlagService = { evaluateBooleanFlags }
+    const evaluateVariantFlags = jest.fn().mockResolvedValue({ variantFeatureFlags: {} })
+    const featureFlagService = { evaluateBooleanFlags, evaluateVariantFlags }
 
     const router = setUpFeatureFlags(featureFlagService as never) as unknown as { stack: MiddlewareStack }
     const middleware = router.stack[0].handle
@@ -56,10 +58,82 @@ describe('setUpFeatureFlags', () => {
 
     await middleware(req, res, next)
 
-    expect(evaluateBooleanFlags).toHaveBeenCalledWith(BooleanFeatureFlags, undefined)
+    expect(evaluateBooleanFlags).toHaveBeenCalledWith(BooleanFeatureFlags, undefined, {}, undefined)
     expect(res.locals.featureFlags).toEqual({
       smartSurveyInNationalRolloutEnabled: false,
     })
     expect(next).toHaveBeenCalled()
   })
+  it('should target the flags by the case in the session, and store the variant flags in locals', async () => {
+    const evaluateBooleanFlags = jest.fn().mockResolvedValue({ booleanFeatureFlags: {} })
+    const evaluateVariantFlags = jest.fn().mockResolvedValue({ variantFeatureFlags: { testVariant: 'b' } })
+    const featureFlagService = { evaluateBooleanFlags, evaluateVariantFlags }
+
+    const router = setUpFeatureFlags(featureFlagService as never) as unknown as { stack: MiddlewareStack }
+    const middleware = router.stack[0].handle
+    const { req, res, next } = createMocks('user-123', {
+      accessDetails: { accessType: 'OASYS' },
+      caseDetails: { region: 'North West', location: 'Manchester' },
+      assessmentFlags: ['SAN_BETA'],
+    })
+
+    await middleware(req, res, next)
+
+    const evaluationContext = {
+      accessType: 'OASYS',
+      region: 'North West',
+      location: 'Manchester',
+      assessmentFlags: ['SAN_BETA'],
+    }
+    expect(evaluateBooleanFlags).toHaveBeenCalledWith(BooleanFeatureFlags, 'user-123', evaluationContext, undefined)
+    expect(evaluateVariantFlags).toHaveBeenCalledWith(VariantFeatureFlags, 'user-123', evaluationContext, undefined)
+    expect(res.locals.featureFlagVariants).toEqual({ testVariant: 'b' })
+    expect(next).toHaveBeenCalled()
+  })
+  it('should target the flags by the case the request names, rather than the active one', async () => {
+    const evaluateBooleanFlags = jest.fn().mockResolvedValue({ booleanFeatureFlags: {} })
+    const evaluateVariantFlags = jest.fn().mockResolvedValue({ variantFeatureFlags: {} })
+    const featureFlagService = { evaluateBooleanFlags, evaluateVariantFlags }
+
+    const router = setUpFeatureFlags(featureFlagService as never) as unknown as { stack: MiddlewareStack }
+    const middleware = router.stack[0].handle
+    const { req, res, next } = createMocks('user-123', {
+      accessDetails: { accessType: 'HMPPS_AUTH' },
+      caseDetails: { region: 'London' },
+      caseContexts: {
+        'case-context-1': {
+          accessDetails: { accessType: 'OASYS' },
+          caseDetails: { region: 'North West' },
+          assessmentFlags: ['SAN_BETA'],
+        },
+      },
+    })
+    req.query = { caseContext: 'case-context-1' }
+
+    await middleware(req, res, next)
+
+    expect(evaluateBooleanFlags).toHaveBeenCalledWith(
+      BooleanFeatureFlags,
+      'user-123',
+      { accessType: 'OASYS', region: 'North West', assessmentFlags: ['SAN_BETA'] },
+      undefined,
+    )
+  })
+
+  it('should pass on any feature flag overrides for the request', async () => {
+    const evaluateBooleanFlags = jest.fn().mockResolvedValue({ booleanFeatureFlags: {} })
+    const evaluateVariantFlags = jest.fn().mockResolvedValue({ variantFeatureFlags: {} })
+    const featureFlagService = { evaluateBooleanFlags, evaluateVariantFlags }
+
+    const router = setUpFeatureFlags(featureFlagService as never) as unknown as { stack: MiddlewareStack }
+    const middleware = router.stack[0].handle
+    const { req, res, next } = createMocks('user-123')
+    const overrides = { 'sp-enable-print-and-share': true }
+    req.state = { featureFlagOverrides: overrides }
+
+    await middleware(req, res, next)
+
+    expect(evaluateBooleanFlags).toHaveBeenCalledWith(BooleanFeatureFlags, 'user-123', {}, overrides)
+    expect(evaluateVariantFlags).toHaveBeenCalledWith(VariantFeatureFlags, 'user-123', {}, overrides)
+  })
 })
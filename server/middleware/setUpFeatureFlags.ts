@@ -1,17 +1,36 @@
 import express from 'express'
 import type FeatureFlagService from '../services/featureFlagService'
-import { BooleanFeatureFlags } from '../utils/featureFlagsUtils'
+import { BooleanFeatureFlags, VariantFeatureFlags, buildFeatureFlagEvaluationContext } from '../utils/featureFlagsUtils'
+import { CASE_CONTEXT_PARAM } from '../forms/shared/caseContext'
 
 export default function setUpFeatureFlags(featureFlagService: FeatureFlagService) {
   const router = express.Router()
 
-  router.use(async (_req, res, next) => {
+  router.use(async (req, res, next) => {
     const userId = res.locals.user?.userId
 
-    // Flags can be targeted to a specific user, so we pass the current user ID when we have one.
-    const result = await featureFlagService.evaluateBooleanFlags(BooleanFeatureFlags, userId)
+    // Flags can be targeted to a specific user, and to the case they're working on, so we pass
+    // the current user ID and what we know about the case from the session: the case the
+    // request names, as the plan pages would use, or else the active one. The assessment's
+    // flags are kept with the case by the plan pages' loadFeatureFlags.
+    const caseContextId = req.query?.[CASE_CONTEXT_PARAM]
+    const caseContext = (typeof caseContextId === 'string' && req.session?.caseContexts?.[caseContextId]) || req.session
 
-    res.locals.featureFlags = result.booleanFeatureFlags
+    const evaluationContext = buildFeatureFlagEvaluationContext({
+      sessionDetails: caseContext?.accessDetails,
+      caseDetails: caseContext?.caseDetails,
+      assessmentFlags: caseContext?.assessmentFlags,
+    })
+
+    const overrides = req.state?.featureFlagOverrides
+
+    const [booleanResult, variantResult] = await Promise.all([
+      featureFlagService.evaluateBooleanFlags(BooleanFeatureFlags, userId, evaluationContext, overrides),
+      featureFlagService.evaluateVariantFlags(VariantFeatureFlags, userId, evaluationContext, overrides),
+    ])
+
+    res.locals.featureFlags = booleanResult.booleanFeatureFlags
+    res.locals.featureFlagVariants = variantResult.variantFeatureFlags
     return next()
   })
 
@@ -1,6 +1,6 @@
 import express, { Router } from 'express'
 
-import { monitoringMiddleware, endpointHealthComponent } from '@ministryofjustice/hmpps-monitoring'
+import { monitoringMiddleware, endpointHealthComponent, HealthComponent } from '@ministryofjustice/hmpps-monitoring'
 import type { ApplicationInfo } from '../applicationInfo'
 import logger from '../../logger'
 import config from '../config'
@@ -14,14 +14,23 @@ import config from '../config'
  */
 const EXCLUDED_FROM_HEALTH_CHECK = ['tierApi', 'supervisionPackageApi']
 
-export default function setUpHealthChecks(applicationInfo: ApplicationInfo): Router {
+/**
+ * @param healthComponents components reported alongside the APIs, such as the domain events outbox
+ */
+export default function setUpHealthChecks(
+  applicationInfo: ApplicationInfo,
+  healthComponents: HealthComponent[] = [],
+): Router {
   const router = express.Router()
 
   const apiConfig = Object.entries(config.apis).filter(([name]) => !EXCLUDED_FROM_HEALTH_CHECK.includes(name))
 
   const middleware = monitoringMiddleware({
     applicationInfo,
-    healthComponents: apiConfig.map(([name, options]) => endpointHealthComponent(logger, name, options)),
+    healthComponents: [
+      ...apiConfig.map(([name, options]) => endpointHealthComponent(logger, name, options)),
+      ...healthComponents,
+    ],
   })
 
   router.get('/health', middleware.health)
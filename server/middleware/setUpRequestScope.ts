@@ -0,0 +1,16 @@
+import express from 'express'
+import { runInRequestScope } from '../utils/requestScope'
+
+/**
+ * Gives each request its own scope for per-request state such as memoised API queries.
+ *
+ * Mounted after session and body parsing, as their callbacks don't run in the scope
+ * of the middleware that called them.
+ */
+export default function setUpRequestScope() {
+  const router = express.Router()
+
+  router.use((_req, _res, next) => runInRequestScope(() => next()))
+
+  return router
+}
@@ -0,0 +1,74 @@
+import type { Request, Response } from 'express'
+import createPlanConflictHandler from './planConflictHandler'
+import { CommandConflictError } from '../../errors/aap-api/CommandConflictError'
+
+jest.mock('../../../logger', () => ({
+  info: jest.fn(),
+}))
+
+describe('planConflictHandler', () => {
+  const next = jest.fn()
+  let res: Response
+
+  const createRequest = (overrides: Partial<Request> = {}): Request =>
+    ({
+      method: 'POST',
+      originalUrl: '/sentence-plan/v1.0/goal/goal-1/add-steps',
+      session: {},
+      body: {},
+      ...overrides,
+    }) as unknown as Request
+
+  beforeEach(() => {
+    jest.resetAllMocks()
+    res = { redirect: jest.fn() } as unknown as Response
+  })
+
+  it('should pass on errors that are not conflicts', () => {
+    const error = new Error('Something else')
+    const req = createRequest()
+
+    createPlanConflictHandler()(error, req, res, next)
+
+    expect(next).toHaveBeenCalledWith(error)
+    expect(res.redirect).not.toHaveBeenCalled()
+    expect(req.session.planConflict).toBeUndefined()
+  })
+
+  it('should store the submitted form and redirect to the plan changed page', () => {
+    const error = new CommandConflictError(['AddCollectionItemCommand'], '2025-01-01T00:00:00Z', '2025-01-02T00:00:00Z')
+    const req = createRequest({
+      body: {
+        _csrf: 'token',
+        _planVersion: '2025-01-01T00:00:00Z',
+        step_description_0: 'Book an appointment',
+        related_areas_of_need: ['finances', 'health'],
+      },
+    })
+
+    createPlanConflictHandler()(error, req, res, next)
+
+    expect(next).not.toHaveBeenCalled()
+    expect(res.redirect).toHaveBeenCalledWith('/sentence-plan/v1.0/plan/plan-changed')
+    expect(req.session.planConflict).toEqual({
+      expectedVersion: '2025-01-01T00:00:00Z',
+      currentVersion: '2025-01-02T00:00:00Z',
+      returnTo: '/sentence-plan/v1.0/goal/goal-1/add-steps',
+      fields: [
+        { name: 'step_description_0', value: 'Book an appointment' },
+        { name: 'related_areas_of_need', value: 'finances' },
+        { name: 'related_areas_of_need', value: 'health' },
+      ],
+    })
+  })
+
+  it('should not keep any fields when the conflict came from a GET request', () => {
+    const error = new CommandConflictError(['ReorderCollectionItemCommand'], '2025-01-01T00:00:00Z')
+    const req = createRequest({ method: 'GET', originalUrl: '/sentence-plan/v1.0/plan/overview?goalUuid=goal-1' })
+
+    createPlanConflictHandler()(error, req, res, next)
+
+    expect(req.session.planConflict.fields).toEqual([])
+    expect(res.redirect).toHaveBeenCalledWith('/sentence-plan/v1.0/plan/plan-changed')
+  })
+})
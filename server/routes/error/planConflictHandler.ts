@@ -0,0 +1,56 @@
+import type { Request, Response, NextFunction } from 'express'
+import logger from '../../../logger'
+import { CommandConflictError } from '../../errors/aap-api/CommandConflictError'
+import { PlanConflict } from '../../interfaces/planConflict'
+import { sentencePlanPlanChangedPath } from '../../forms/sentence-plan/versions/v1.0/constants'
+
+// Fields added by the page itself rather than entered by the user
+const IGNORED_FIELDS = ['_csrf', '_planVersion']
+
+const flattenFields = (value: unknown, name: string): PlanConflict['fields'] => {
+  if (Array.isArray(value)) {
+    return value.flatMap(item => flattenFields(item, name))
+  }
+
+  if (value !== null && typeof value === 'object') {
+    return Object.entries(value).flatMap(([key, item]) => flattenFields(item, `${name}[${key}]`))
+  }
+
+  return value === undefined || value === null ? [] : [{ name, value: String(value) }]
+}
+
+/**
+ * Turns a CommandConflictError (someone else saved the plan after this form was loaded)
+ * into a redirect to the "plan changed" page, keeping the submitted form in the session
+ * so the user can re-apply it against the latest version. Anything else is passed on.
+ */
+export default function createPlanConflictHandler() {
+  return (error: Error, req: Request, res: Response, next: NextFunction): void => {
+    if (!(error instanceof CommandConflictError)) {
+      return next(error)
+    }
+
+    logger.info(
+      {
+        originalUrl: req.originalUrl,
+        commandTypes: error.commandTypes,
+        expectedVersion: error.expectedVersion,
+        currentVersion: error.currentVersion,
+      },
+      'Sentence plan changed since form was loaded',
+    )
+
+    const body = req.method === 'POST' && req.body && typeof req.body === 'object' ? req.body : {}
+
+    req.session.planConflict = {
+      expectedVersion: error.expectedVersion,
+      currentVersion: error.currentVersion,
+      returnTo: req.originalUrl,
+      fields: Object.entries(body)
+        .filter(([name]) => !IGNORED_FIELDS.includes(name))
+        .flatMap(([name, value]) => flattenFields(value, name)),
+    }
+
+    return res.redirect(sentencePlanPlanChangedPath)
+  }
+}
@@ -0,0 +1,35 @@
+import { NextFunction, Request, Response } from 'express'
+
+/**
+ * Hands the request on to a page of the app as if it had asked for it, and gives the rendered
+ * page to `onPage` instead of sending it. The page loads and audits whatever it shows, as it
+ * would for a person browsing, so the route using it doesn't have to.
+ *
+ * `onPage` sends the response, with the original `send`. Anything other than the page itself,
+ * e.g. a redirect or an error page, is sent as it is.
+ */
+export default function handOnToPage(
+  path: string,
+  onPage: (page: string, send: Response['send']) => void,
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  const send = res.send.bind(res)
+
+  res.send = ((body?: unknown) => {
+    res.send = send
+
+    if (typeof body !== 'string' || res.statusCode !== 200) {
+      return send(body)
+    }
+
+    onPage(body, send)
+
+    return res
+  }) as Response['send']
+
+  req.url = path
+
+  return next()
+}
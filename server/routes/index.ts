@@ -2,9 +2,10 @@ import { Router } from 'express'
 
 import sessionRoutes from './session'
 import pdfRoutes from './pdf'
+import planExportRoutes from './planExport'
 import type { Services } from '../services'
 
-export default function routes(services: Pick<Services, 'gotenbergClient'>): Router {
+export default function routes(services: Pick<Services, 'pdfRenderer'>): Router {
   const router = Router()
 
   router.get('/', async (_req, res) => {
@@ -19,7 +20,8 @@ export default function routes(services: Pick<Services, 'gotenbergClient'>): Rou
   })
 
   router.use('/session', sessionRoutes())
-  router.use(pdfRoutes(services.gotenbergClient))
+  router.use(pdfRoutes(services.pdfRenderer))
+  router.use(planExportRoutes())
 
   return router
 }
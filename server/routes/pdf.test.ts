@@ -1,10 +1,50 @@
 import express from 'express'
 import request from 'supertest'
+import { AgentConfig } from '@ministryofjustice/hmpps-rest-client'
 import GotenbergClient from '../data/gotenbergClient'
-import pdfRoutes, { PRINT_PREVIEW_PATH, PRINT_PREVIEW_PDF_PATH } from './pdf'
+import GotenbergUrlPdfRenderer from '../services/pdf-renderers/gotenbergUrlPdfRenderer'
+import StubPdfRenderer from '../services/pdf-renderers/stubPdfRenderer'
+import pdfRoutes, { EASY_READ_PATH, EASY_READ_PDF_PATH, PRINT_PREVIEW_PATH, PRINT_PREVIEW_PDF_PATH } from './pdf'
 import { SESSION_COOKIE_NAME } from '../middleware/setUpWebSession'
+import { buildPlanPdfDocument } from '../forms/sentence-plan/effects/plan/planPdfDocument'
 
-describe(`GET ${PRINT_PREVIEW_PDF_PATH}`, () => {
+const caseDetails = { name: { forename: 'Buster', middleName: '', surname: 'Sanford' }, crn: 'X000001' }
+
+const planDocument = expect.objectContaining({
+  title: 'Sentence plan for Buster Sanford',
+  language: 'en-GB',
+  headerHtml: expect.stringContaining('<span>Buster Sanford</span><span>CRN: X000001</span>'),
+  footerHtml: expect.stringContaining('Generated on'),
+})
+
+/**
+ * What a PDF's XMP metadata says about it: the PDF/A and PDF/UA parts it conforms to, and its
+ * title and language.
+ */
+const readPdfMetadata = (pdf: Buffer) => {
+  const content = pdf.toString('latin1')
+  const read = (pattern: RegExp) => content.match(pattern)?.[1]
+
+  return {
+    isPdf: content.startsWith('%PDF-'),
+    pdfaPart: read(/pdfaid:part(?:="|>)(\d)/),
+    pdfuaPart: read(/pdfuaid:part(?:="|>)(\d)/),
+    title: read(/<dc:title>\s*<rdf:Alt>\s*<rdf:li[^>]*>([^<]*)</),
+    language: read(/<dc:language>\s*<rdf:Bag>\s*<rdf:li[^>]*>([^<]*)</),
+  }
+}
+
+const expectAccessibleArchivablePdf = (pdf: Buffer) => {
+  expect(readPdfMetadata(pdf)).toEqual({
+    isPdf: true,
+    pdfaPart: '2',
+    pdfuaPart: '1',
+    title: 'Sentence plan for Buster Sanford',
+    language: 'en-GB',
+  })
+}
+
+describe(`GET ${PRINT_PREVIEW_PDF_PATH} rendered by URL`, () => {
   const renderPdfFromUrl = jest.fn()
   const gotenbergClient = { renderPdfFromUrl } as unknown as GotenbergClient
 
@@ -15,14 +55,14 @@ describe(`GET ${PRINT_PREVIEW_PDF_PATH}`, () => {
       Object.defineProperty(req, 'session', {
         value: {
           principal: { identifier: 'user-id' },
-          caseDetails: { crn: 'X000001' },
+          caseDetails,
           sessionDetails: { planIdentifier: { type: 'UUID', uuid: 'assessment-id' } },
         },
       })
       res.locals.featureFlags = { printAndShareEnabled }
       next()
     })
-    app.use(pdfRoutes(gotenbergClient))
+    app.use(pdfRoutes(new GotenbergUrlPdfRenderer(gotenbergClient)))
     app.use(
       (
         error: { status?: number; message: string },
@@ -53,10 +93,53 @@ describe(`GET ${PRINT_PREVIEW_PDF_PATH}`, () => {
     expect(renderPdfFromUrl).toHaveBeenCalledWith({
       path: PRINT_PREVIEW_PATH,
       sessionCookie: `${SESSION_COOKIE_NAME}=session-value`,
+      document: planDocument,
       requestId: 'request-id',
     })
   })
 
+  it('renders only the chosen sections and names the PDF after them', async () => {
+    renderPdfFromUrl.mockResolvedValue(Buffer.from('%PDF-1.7'))
+
+    await request(createApp())
+      .get(`${PRINT_PREVIEW_PDF_PATH}?sections=active,unknown&exclude=notes`)
+      .set('Cookie', `${SESSION_COOKIE_NAME}=session-value`)
+      .expect(200)
+      .expect('Content-Disposition', 'attachment; filename="sentence-plan-active-without-notes.pdf"')
+
+    expect(renderPdfFromUrl).toHaveBeenCalledWith({
+      path: `${PRINT_PREVIEW_PATH}?sections=active&exclude=notes`,
+      sessionCookie: `${SESSION_COOKIE_NAME}=session-value`,
+      document: planDocument,
+      requestId: 'request-id',
+    })
+  })
+
+  it('renders and titles the PDF for the case the link was built for', async () => {
+    renderPdfFromUrl.mockResolvedValue(Buffer.from('%PDF-1.7'))
+    const app = express()
+    app.use((req, res, next) => {
+      Object.defineProperty(req, 'session', {
+        value: {
+          caseDetails: { name: { forename: 'Someone', surname: 'Else' }, crn: 'X999999' },
+          caseContexts: { 'case-context-id': { caseDetails } },
+        },
+      })
+      res.locals.featureFlags = { printAndShareEnabled: true }
+      next()
+    })
+    app.use(pdfRoutes(new GotenbergUrlPdfRenderer(gotenbergClient)))
+
+    await request(app)
+      .get(`${PRINT_PREVIEW_PDF_PATH}?caseContext=case-context-id`)
+      .set('Cookie', `${SESSION_COOKIE_NAME}=session-value`)
+      .expect(200)
+
+    expect(renderPdfFromUrl).toHaveBeenCalledWith(
+      expect.objectContaining({ path: `${PRINT_PREVIEW_PATH}?caseContext=case-context-id`, document: planDocument }),
+    )
+  })
+
   it('rejects a request without a session cookie', async () => {
     await request(createApp())
       .get(PRINT_PREVIEW_PDF_PATH)
@@ -86,3 +169,151 @@ describe(`GET ${PRINT_PREVIEW_PDF_PATH}`, () => {
       .expect('Gotenberg failed')
   })
 })
+
+describe(`GET ${PRINT_PREVIEW_PDF_PATH} rendered in-process`, () => {
+  let pdfRenderer: StubPdfRenderer
+
+  const errorHandler = (
+    error: { status?: number; message: string },
+    _req: express.Request,
+    res: express.Response,
+    _next: express.NextFunction,
+  ) => res.status(error.status ?? 500).send(error.message)
+
+  const createApp = ({ printAndShareEnabled = true, planAgreed = true } = {}) => {
+    const app = express()
+    app.use((req, res, next) => {
+      req.id = 'request-id'
+      Object.defineProperty(req, 'session', {
+        value: { caseDetails },
+      })
+      res.locals.featureFlags = { printAndShareEnabled }
+      next()
+    })
+    app.use(pdfRoutes(pdfRenderer))
+    // Stands in for the print preview page, which loads and audits the plan
+    app.get(PRINT_PREVIEW_PATH, (req, res) => {
+      if (!planAgreed) {
+        return res.redirect('/sentence-plan/v1.0/plan/overview')
+      }
+
+      return res.send(`<html><body>Plan, rendered for PDF: ${req.headers['x-gotenberg-render']}</body></html>`)
+    })
+    app.get(EASY_READ_PATH, (req, res) =>
+      res.send(
+        `<html><body>Easy read plan${req.query.caseContext ? ` for ${req.query.caseContext}` : ''}</body></html>`,
+      ),
+    )
+    app.use(errorHandler)
+    return app
+  }
+
+  beforeEach(() => {
+    pdfRenderer = new StubPdfRenderer({ recordRequests: true })
+  })
+
+  it('renders the print preview page without a session cookie and downloads it as a PDF', async () => {
+    const response = await request(createApp())
+      .get(PRINT_PREVIEW_PDF_PATH)
+      .expect(200)
+      .expect('Content-Type', 'application/pdf')
+      .expect('Content-Disposition', 'attachment; filename="sentence-plan.pdf"')
+
+    expect(response.body.toString()).toBe(`%PDF-1.7\n% Stub PDF of ${PRINT_PREVIEW_PATH}\n%%EOF\n`)
+    expect(pdfRenderer.requests).toEqual([
+      {
+        path: PRINT_PREVIEW_PATH,
+        html: '<html><body>Plan, rendered for PDF: true</body></html>',
+        document: planDocument,
+        requestId: 'request-id',
+      },
+    ])
+  })
+
+  it('downloads the easy read plan as a PDF', async () => {
+    await request(createApp())
+      .get(EASY_READ_PDF_PATH)
+      .expect(200)
+      .expect('Content-Type', 'application/pdf')
+      .expect('Content-Disposition', 'attachment; filename="sentence-plan-easy-read.pdf"')
+
+    expect(pdfRenderer.requests).toEqual([
+      {
+        path: EASY_READ_PATH,
+        html: '<html><body>Easy read plan</body></html>',
+        document: expect.objectContaining({ title: 'Easy read sentence plan for Buster Sanford', language: 'en-GB' }),
+        requestId: 'request-id',
+      },
+    ])
+  })
+
+  it('renders the page for the case the link was built for', async () => {
+    await request(createApp())
+      .get(`${EASY_READ_PDF_PATH}?caseContext=case-context-id`)
+      .expect(200)
+
+    expect(pdfRenderer.requests).toEqual([
+      expect.objectContaining({
+        path: `${EASY_READ_PATH}?caseContext=case-context-id`,
+        html: '<html><body>Easy read plan for case-context-id</body></html>',
+      }),
+    ])
+  })
+
+  it('does not export the easy read plan when print and share is disabled', async () => {
+    await request(createApp({ printAndShareEnabled: false }))
+      .get(EASY_READ_PDF_PATH)
+      .expect(404)
+
+    expect(pdfRenderer.requests).toEqual([])
+  })
+
+  it('sends anything other than the page as it is', async () => {
+    await request(createApp({ planAgreed: false }))
+      .get(PRINT_PREVIEW_PDF_PATH)
+      .expect(302)
+      .expect('Location', '/sentence-plan/v1.0/plan/overview')
+
+    expect(pdfRenderer.requests).toEqual([])
+  })
+
+  it('rejects a request when print and share is disabled', async () => {
+    await request(createApp({ printAndShareEnabled: false }))
+      .get(PRINT_PREVIEW_PDF_PATH)
+      .expect(404)
+      .expect('PDF export is not available')
+
+    expect(pdfRenderer.requests).toEqual([])
+  })
+
+  it('passes a rendering failure to the error handler', async () => {
+    jest.spyOn(pdfRenderer, 'render').mockRejectedValue(new Error('Gotenberg failed'))
+
+    await request(createApp()).get(PRINT_PREVIEW_PDF_PATH).expect(500).expect('Gotenberg failed')
+  })
+})
+
+/*
+ * Checks what Gotenberg actually produces. Runs only when GOTENBERG_API_URL points at a running
+ * Gotenberg, e.g. the one in docker compose, as `make test-pdf` does in CI.
+ */
+const gotenbergApiUrl = process.env.GOTENBERG_API_URL ?? ''
+const describeWithGotenberg = gotenbergApiUrl ? describe : describe.skip
+
+describeWithGotenberg('PDFs rendered by Gotenberg', () => {
+  it('are PDF/A-2b and PDF/UA, with the plan title and language', async () => {
+    const client = new GotenbergClient({
+      url: gotenbergApiUrl,
+      renderUrl: process.env.GOTENBERG_RENDER_URL ?? 'http://localhost:3000',
+      timeout: { response: 30_000, deadline: 30_000 },
+      agent: new AgentConfig(30_000),
+    })
+
+    const pdf = await client.renderPdfFromHtml({
+      html: '<!DOCTYPE html><html lang="en-GB"><head><title>Print preview</title></head><body><h1>Plan</h1></body></html>',
+      document: buildPlanPdfDocument(caseDetails, new Date()),
+    })
+
+    expectAccessibleArchivablePdf(pdf)
+  }, 60_000)
+})
@@ -1,30 +1,103 @@
-import { Router } from 'express'
+import { NextFunction, Request, RequestHandler, Response, Router } from 'express'
 import { NotFound, Unauthorized } from 'http-errors'
-import GotenbergClient from '../data/gotenbergClient'
+import { GOTENBERG_RENDER_HEADER, GOTENBERG_RENDER_HEADER_VALUE } from '../data/gotenbergClient'
 import { SESSION_COOKIE_NAME } from '../middleware/setUpWebSession'
+import type { PdfDocument, PdfRenderer } from '../services/pdf-renderers/pdfRenderer'
+import type { CaseDetails } from '../interfaces/delius-api/caseDetails'
+import { CASE_CONTEXT_PARAM, withCaseContextParam } from '../forms/shared/caseContext'
+import handOnToPage from './handOnToPage'
+import { buildPlanPdfDocument } from '../forms/sentence-plan/effects/plan/planPdfDocument'
 import {
+  buildPlanExportQuery,
+  getPlanExportFilename,
+  parsePlanExportOptions,
+} from '../forms/sentence-plan/effects/plan/planExportOptions'
+import {
+  sentencePlanEasyReadPath,
+  sentencePlanEasyReadPdfPath,
   sentencePlanPrintPreviewPath,
   sentencePlanPrintPreviewPdfPath,
 } from '../forms/sentence-plan/versions/v1.0/constants'
 
 export const PRINT_PREVIEW_PATH = sentencePlanPrintPreviewPath
 export const PRINT_PREVIEW_PDF_PATH = sentencePlanPrintPreviewPdfPath
+export const EASY_READ_PATH = sentencePlanEasyReadPath
+export const EASY_READ_PDF_PATH = sentencePlanEasyReadPdfPath
+
+const EASY_READ_PDF_FILENAME = 'sentence-plan-easy-read.pdf'
 
 const getSessionCookie = (cookieHeader?: string): string | undefined => {
   const cookieName = `${SESSION_COOKIE_NAME}=`
-  return cookieHeader
-      ?.split(';')
-      .map(cookie => cookie.trim())
-      .find(cookie => cookie.startsWith(cookieName))
+  const cookies = cookieHeader?.split(';') ?? []
+
+  return cookies.map(cookie => cookie.trim()).find(cookie => cookie.startsWith(cookieName))
 }
 
-export default function pdfRoutes(gotenbergClient: GotenbergClient): Router {
-  const router = Router()
+/**
+ * The case the plan is for, the one the link was built for if it carries a case context ID.
+ */
+const getCaseDetails = (req: Request): CaseDetails | undefined => {
+  const caseContextId = req.query[CASE_CONTEXT_PARAM]
+
+  return typeof caseContextId === 'string'
+    ? req.session?.caseContexts?.[caseContextId]?.caseDetails
+    : req.session?.caseDetails
+}
+
+/**
+ * The page to export, for the case the link was built for if it carries a case context ID.
+ */
+const getCasePath = (path: string, req: Request): string => {
+  const caseContextId = req.query[CASE_CONTEXT_PARAM]
+
+  return typeof caseContextId === 'string' ? withCaseContextParam(path, caseContextId) : path
+}
+
+/**
+ * A page exported as a PDF: which page, and what the PDF is called and says about itself.
+ */
+interface PdfExport {
+  path: string
+  filename: string
+  document: PdfDocument
+}
 
-  router.get(PRINT_PREVIEW_PDF_PATH, async (req, res, next) => {
+/**
+ * Renders the page being exported in-process and turns it into a PDF instead of sending it.
+ * The page audits the export as it would for Gotenberg, so one download is one audited view.
+ */
+const renderPageInProcess = (
+  pdfRenderer: PdfRenderer,
+  { path, filename, document }: PdfExport,
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  req.headers[GOTENBERG_RENDER_HEADER] = GOTENBERG_RENDER_HEADER_VALUE
+
+  return handOnToPage(
+    path,
+    (html, send) => {
+      pdfRenderer
+        .render({ path, html, document, requestId: req.id })
+        .then(pdf => {
+          res.attachment(filename)
+          send(pdf)
+        })
+        .catch(next)
+    },
+    req,
+    res,
+    next,
+  )
+}
+
+const exportAsPdf =
+  (pdfRenderer: PdfRenderer, getPdfExport: (req: Request) => PdfExport): RequestHandler =>
+  async (req, res, next) => {
     const sessionCookie = getSessionCookie(req.headers.cookie)
 
-    if (!sessionCookie) {
+    if (!pdfRenderer.rendersHtml && !sessionCookie) {
       return next(new Unauthorized('A valid session is required to export a sentence plan'))
     }
 
@@ -32,23 +105,57 @@ export default function pdfRoutes(gotenbergClient: GotenbergClient): Router {
       return next(new NotFound('PDF export is not available'))
     }
 
+    const { path: pagePath, filename, document } = getPdfExport(req)
+    const path = getCasePath(pagePath, req)
+
+    if (pdfRenderer.rendersHtml) {
+      return renderPageInProcess(pdfRenderer, { path, filename, document }, req, res, next)
+    }
+
     try {
       /*
-       * The export is audited by the print preview page that Gotenberg loads, so auditing
-       * here as well would record one download twice.
+       * The export is audited by the page that Gotenberg loads, so auditing here as well
+       * would record one download twice.
        */
-      const pdf = await gotenbergClient.renderPdfFromUrl({
-        path: PRINT_PREVIEW_PATH,
+      const pdf = await pdfRenderer.render({
+        path,
         sessionCookie,
+        document,
         requestId: req.id,
       })
 
-      res.attachment('sentence-plan.pdf')
+      res.attachment(filename)
       return res.send(pdf)
     } catch (error) {
       return next(error)
     }
-  })
+  }
+
+export default function pdfRoutes(pdfRenderer: PdfRenderer): Router {
+  const router = Router()
+
+  router.get(
+    PRINT_PREVIEW_PDF_PATH,
+    exportAsPdf(pdfRenderer, req => {
+      // The sections and details chosen on the export options step
+      const exportOptions = parsePlanExportOptions({ sections: req.query.sections, exclude: req.query.exclude })
+
+      return {
+        path: `${PRINT_PREVIEW_PATH}${buildPlanExportQuery(exportOptions)}`,
+        filename: getPlanExportFilename(exportOptions),
+        document: buildPlanPdfDocument(getCaseDetails(req), new Date()),
+      }
+    }),
+  )
+
+  router.get(
+    EASY_READ_PDF_PATH,
+    exportAsPdf(pdfRenderer, req => ({
+      path: EASY_READ_PATH,
+      filename: EASY_READ_PDF_FILENAME,
+      document: buildPlanPdfDocument(getCaseDetails(req), new Date(), 'Easy read sentence plan'),
+    })),
+  )
 
   return router
 }
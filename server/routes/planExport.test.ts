@@ -0,0 +1,107 @@
+import express from 'express'
+import request from 'supertest'
+import planExportRoutes, {
+  DATA_EXPORT_CSV_PATH,
+  DATA_EXPORT_HEADER,
+  DATA_EXPORT_JSON_PATH,
+  DATA_EXPORT_PATH,
+} from './planExport'
+import { PLAN_DATA_CSV_COLUMNS, PlanDataExport } from '../forms/sentence-plan/effects/plan/planDataExport'
+
+const planDataExport: PlanDataExport = {
+  schemaVersion: '1.0',
+  exportedAt: '2026-10-19T09:30:00.000Z',
+  crn: 'X000001',
+  goals: [],
+  agreements: [
+    {
+      uuid: 'agreement-1',
+      status: 'AGREED',
+      statusDate: '2026-10-04T10:00:00Z',
+      agreementQuestion: 'Does Buster agree to this plan?',
+    },
+  ],
+  history: [],
+}
+
+describe('plan data export', () => {
+  const errorHandler = (
+    error: { status?: number; message: string },
+    _req: express.Request,
+    res: express.Response,
+    _next: express.NextFunction,
+  ) => res.status(error.status ?? 500).send(error.message)
+
+  const createApp = ({ printAndShareEnabled = true, planAgreed = true } = {}) => {
+    const app = express()
+    app.use((_req, res, next) => {
+      res.locals.featureFlags = { printAndShareEnabled }
+      next()
+    })
+    app.use(planExportRoutes())
+    // Stands in for the export data page, which loads and audits the plan
+    app.get(DATA_EXPORT_PATH, (req, res) => {
+      if (!planAgreed || req.headers[DATA_EXPORT_HEADER] !== 'true') {
+        return res.redirect('/sentence-plan/v1.0/plan/overview')
+      }
+
+      const crn = [planDataExport.crn, req.query.format, req.query.caseContext].filter(Boolean).join(':')
+
+      return res.send(JSON.stringify({ ...planDataExport, crn }))
+    })
+    app.use(errorHandler)
+    return app
+  }
+
+  it('downloads the plan as JSON', async () => {
+    const response = await request(createApp())
+      .get(DATA_EXPORT_JSON_PATH)
+      .expect(200)
+      .expect('Content-Type', 'application/json; charset=utf-8')
+      .expect('Content-Disposition', 'attachment; filename="sentence-plan-data.json"')
+
+    expect(response.body).toEqual({ ...planDataExport, crn: 'X000001:json' })
+  })
+
+  it('downloads the plan as CSV', async () => {
+    const response = await request(createApp())
+      .get(DATA_EXPORT_CSV_PATH)
+      .expect(200)
+      .expect('Content-Type', 'text/csv; charset=utf-8')
+      .expect('Content-Disposition', 'attachment; filename="sentence-plan-data.csv"')
+
+    expect(response.text.split('\r\n')).toEqual([
+      PLAN_DATA_CSV_COLUMNS.join(','),
+      '1.0,X000001:csv,agreement,agreement-1,,,,AGREED,2026-10-04T10:00:00Z,,,,,,Does Buster agree to this plan?,,',
+    ])
+  })
+
+  it('sends on whatever the page sends instead of the plan', async () => {
+    await request(createApp({ planAgreed: false }))
+      .get(DATA_EXPORT_JSON_PATH)
+      .expect(302)
+      .expect('Location', '/sentence-plan/v1.0/plan/overview')
+  })
+
+  it('exports the plan for the case the link was built for', async () => {
+    const response = await request(createApp())
+      .get(`${DATA_EXPORT_JSON_PATH}?caseContext=case-context-id`)
+      .expect(200)
+
+    expect(response.body.crn).toBe('X000001:json:case-context-id')
+  })
+
+  it('does not let requests from anywhere else through to the export data page', async () => {
+    await request(createApp())
+      .get(`${DATA_EXPORT_PATH}?format=json`)
+      .set(DATA_EXPORT_HEADER, 'true')
+      .expect(302)
+      .expect('Location', '/sentence-plan/v1.0/plan/overview')
+  })
+
+  it('returns not found when print and share is disabled', async () => {
+    await request(createApp({ printAndShareEnabled: false }))
+      .get(DATA_EXPORT_CSV_PATH)
+      .expect(404)
+  })
+})
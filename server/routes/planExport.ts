@@ -0,0 +1,74 @@
+import { RequestHandler, Router } from 'express'
+import { NotFound } from 'http-errors'
+import handOnToPage from './handOnToPage'
+import { CASE_CONTEXT_PARAM, withCaseContextParam } from '../forms/shared/caseContext'
+import { PlanDataExport, toPlanDataCsv } from '../forms/sentence-plan/effects/plan/planDataExport'
+import {
+  sentencePlanDataExportCsvPath,
+  sentencePlanDataExportHeader,
+  sentencePlanDataExportJsonPath,
+  sentencePlanDataExportPath,
+} from '../forms/sentence-plan/versions/v1.0/constants'
+
+export const DATA_EXPORT_PATH = sentencePlanDataExportPath
+export const DATA_EXPORT_JSON_PATH = sentencePlanDataExportJsonPath
+export const DATA_EXPORT_CSV_PATH = sentencePlanDataExportCsvPath
+export const DATA_EXPORT_HEADER = sentencePlanDataExportHeader
+
+type PlanDataFormat = 'json' | 'csv'
+
+const toDownload: Record<PlanDataFormat, (planDataExport: PlanDataExport) => string> = {
+  json: planDataExport => JSON.stringify(planDataExport, null, 2),
+  csv: toPlanDataCsv,
+}
+
+/**
+ * Downloads the plan as data. The export data page loads, derives and audits the plan, and
+ * prints it in the PlanDataExport schema, which is sent on as a JSON or CSV file. The page is
+ * for the case the link was built for, and only shows the plan to requests marked as handed on
+ * from here.
+ */
+const exportPlanData =
+  (format: PlanDataFormat): RequestHandler =>
+  (req, res, next) => {
+    if (!res.locals.featureFlags?.printAndShareEnabled) {
+      return next(new NotFound('Plan data export is not available'))
+    }
+
+    const caseContextId = req.query[CASE_CONTEXT_PARAM]
+    const path = `${DATA_EXPORT_PATH}?format=${format}`
+
+    req.headers[DATA_EXPORT_HEADER] = 'true'
+
+    return handOnToPage(
+      typeof caseContextId === 'string' ? withCaseContextParam(path, caseContextId) : path,
+      (page, send) => {
+        try {
+          const download = toDownload[format](JSON.parse(page) as PlanDataExport)
+
+          res.attachment(`sentence-plan-data.${format}`)
+          send(download)
+        } catch (error) {
+          next(error)
+        }
+      },
+      req,
+      res,
+      next,
+    )
+  }
+
+export default function planExportRoutes(): Router {
+  const router = Router()
+
+  // Only this route may hand requests on to the export data page
+  router.use((req, _res, next) => {
+    delete req.headers[DATA_EXPORT_HEADER]
+    next()
+  })
+
+  router.get(DATA_EXPORT_JSON_PATH, exportPlanData('json'))
+  router.get(DATA_EXPORT_CSV_PATH, exportPlanData('csv'))
+
+  return router
+}
@@ -1,4 +1,5 @@
-import AuditService, { AuditEvent, AuditMessage } from './auditService'
+import { telemetry } from '@ministryofjustice/hmpps-azure-telemetry'
+import AuditService, { AuditDeliveryConfig, AuditEvent, AuditMessage, AuditSink } from './auditService'
 
 jest.mock('@ministryofjustice/hmpps-audit-client', () => ({
   auditService: {
@@ -6,6 +7,12 @@ jest.mock('@ministryofjustice/hmpps-audit-client', () => ({
   },
 }))
 
+jest.mock('@ministryofjustice/hmpps-azure-telemetry', () => ({
+  telemetry: {
+    trackEvent: jest.fn(),
+  },
+}))
+
 const { auditService: mockAuditClient } = jest.requireMock('@ministryofjustice/hmpps-audit-client')
 
 describe('AuditService', () => {
@@ -98,4 +105,205 @@ describe('AuditService', () => {
       })
     })
   })
+
+  describe('retries', () => {
+    const deliveryConfig: AuditDeliveryConfig = {
+      retryIntervalMs: 1000,
+      maxAttempts: 3,
+      baseDelayMs: 1000,
+      maxDelayMs: 10000,
+      maxBufferedMessages: 2,
+      failClosedAttempts: 2,
+      failClosedEvents: [AuditEvent.PRINT_ALL_GOALS],
+    }
+
+    const message: AuditMessage = {
+      action: AuditEvent.VIEW_PLAN_OVERVIEW,
+      who: 'testuser',
+      subjectId: 'CRN123',
+    }
+
+    beforeEach(() => {
+      jest.useFakeTimers().setSystemTime(new Date('2026-07-30T10:00:00.000Z'))
+      mockAuditClient.sendAuditMessage.mockResolvedValue(undefined)
+      auditService = new AuditService('test-app', deliveryConfig)
+    })
+
+    afterEach(() => {
+      jest.useRealTimers()
+    })
+
+    it('should retry a failed message once its backoff has passed', async () => {
+      // Arrange
+      mockAuditClient.sendAuditMessage.mockRejectedValueOnce(new Error('SQS unavailable'))
+      await auditService.send(message)
+
+      // Act
+      await auditService.retryPending()
+      jest.advanceTimersByTime(1000)
+      await auditService.retryPending()
+
+      // Assert
+      expect(mockAuditClient.sendAuditMessage).toHaveBeenCalledTimes(2)
+      expect(telemetry.trackEvent).toHaveBeenCalledWith('AuditMessageFailed', {
+        action: 'VIEW_PLAN_OVERVIEW',
+        attempts: 1,
+      })
+      expect(telemetry.trackEvent).not.toHaveBeenCalledWith('AuditMessageDropped', expect.anything())
+    })
+
+    it('should send a retried message with when the action happened, not just when it was sent', async () => {
+      // Arrange
+      mockAuditClient.sendAuditMessage.mockRejectedValueOnce(new Error('SQS unavailable'))
+      await auditService.send({ ...message, details: { assessmentUuid: 'assessment-uuid-123' } })
+
+      // Act
+      jest.advanceTimersByTime(1000)
+      await auditService.retryPending()
+
+      // Assert
+      expect(mockAuditClient.sendAuditMessage).toHaveBeenLastCalledWith({
+        ...message,
+        service: 'test-app',
+        details: JSON.stringify({ assessmentUuid: 'assessment-uuid-123', occurredAt: '2026-07-30T10:00:00.000Z' }),
+      })
+    })
+
+    it('should drop a message once it reaches the maximum attempts', async () => {
+      // Arrange
+      mockAuditClient.sendAuditMessage.mockRejectedValue(new Error('SQS unavailable'))
+      await auditService.send(message)
+
+      // Act
+      jest.advanceTimersByTime(1000)
+      await auditService.retryPending()
+      jest.advanceTimersByTime(2000)
+      await auditService.retryPending()
+      jest.advanceTimersByTime(4000)
+      await auditService.retryPending()
+
+      // Assert
+      expect(mockAuditClient.sendAuditMessage).toHaveBeenCalledTimes(3)
+      expect(telemetry.trackEvent).toHaveBeenCalledWith('AuditMessageDropped', {
+        action: 'VIEW_PLAN_OVERVIEW',
+        reason: 'MAX_ATTEMPTS',
+      })
+    })
+
+    it('should drop the oldest message when the buffer is full', async () => {
+      // Arrange
+      mockAuditClient.sendAuditMessage.mockRejectedValue(new Error('SQS unavailable'))
+
+      // Act
+      await auditService.send({ ...message, action: AuditEvent.VIEW_ABOUT_PERSON })
+      await auditService.send(message)
+      await auditService.send(message)
+
+      // Assert
+      expect(telemetry.trackEvent).toHaveBeenCalledTimes(4)
+      expect(telemetry.trackEvent).toHaveBeenCalledWith('AuditMessageDropped', {
+        action: 'VIEW_ABOUT_PERSON',
+        reason: 'BUFFER_FULL',
+      })
+    })
+
+    it('should block a fail-closed event that cannot be sent', async () => {
+      // Arrange
+      mockAuditClient.sendAuditMessage.mockRejectedValue(new Error('SQS unavailable'))
+
+      // Act
+      const result = auditService.send({ ...message, action: AuditEvent.PRINT_ALL_GOALS })
+      const assertion = expect(result).rejects.toMatchObject({ status: 503 })
+      await jest.advanceTimersByTimeAsync(1000)
+
+      // Assert
+      await assertion
+      expect(mockAuditClient.sendAuditMessage).toHaveBeenCalledTimes(2)
+      expect(telemetry.trackEvent).toHaveBeenCalledWith('AuditMessageDropped', {
+        action: 'PRINT_ALL_GOALS',
+        reason: 'FAIL_CLOSED',
+      })
+    })
+
+    it('should let a fail-closed event through once a retry succeeds', async () => {
+      // Arrange
+      mockAuditClient.sendAuditMessage.mockRejectedValueOnce(new Error('SQS unavailable'))
+
+      // Act
+      const result = auditService.send({ ...message, action: AuditEvent.PRINT_ALL_GOALS })
+      await jest.advanceTimersByTimeAsync(1000)
+
+      // Assert
+      await expect(result).resolves.toBeUndefined()
+      expect(mockAuditClient.sendAuditMessage).toHaveBeenCalledTimes(2)
+    })
+  })
+  describe('sinks', () => {
+    const message: AuditMessage = {
+      action: AuditEvent.VIEW_PLAN_OVERVIEW,
+      who: 'testuser',
+      subjectId: 'CRN123',
+      subjectType: 'CRN',
+    }
+
+    let sink: jest.Mocked<AuditSink>
+
+    beforeEach(() => {
+      jest.useFakeTimers().setSystemTime(new Date('2026-07-30T10:00:00.000Z'))
+      mockAuditClient.sendAuditMessage.mockResolvedValue(undefined)
+      sink = { record: jest.fn().mockResolvedValue(undefined) }
+    })
+
+    afterEach(() => {
+      jest.useRealTimers()
+    })
+
+    it('should record each message in the sinks with when it happened', async () => {
+      // Arrange
+      auditService = new AuditService('test-app', undefined, [sink])
+
+      // Act
+      await auditService.send(message)
+
+      // Assert
+      expect(sink.record).toHaveBeenCalledWith({ ...message, when: '2026-07-30T10:00:00.000Z' })
+    })
+
+    it('should still send the message when a sink fails', async () => {
+      // Arrange
+      sink.record.mockRejectedValue(new Error('Redis unavailable'))
+      auditService = new AuditService('test-app', undefined, [sink])
+
+      // Act
+      await auditService.send(message)
+
+      // Assert
+      expect(mockAuditClient.sendAuditMessage).toHaveBeenCalled()
+    })
+
+    it('should not record a fail-closed message that blocked the action', async () => {
+      // Arrange
+      mockAuditClient.sendAuditMessage.mockRejectedValue(new Error('SQS unavailable'))
+      auditService = new AuditService(
+        'test-app',
+        {
+          retryIntervalMs: 1000,
+          maxAttempts: 3,
+          baseDelayMs: 1000,
+          maxDelayMs: 10000,
+          maxBufferedMessages: 10,
+          failClosedAttempts: 1,
+          failClosedEvents: [AuditEvent.VIEW_PLAN_OVERVIEW],
+        },
+        [sink],
+      )
+
+      // Act
+      const result = auditService.send(message)
+
+      // Assert
+      await expect(result).rejects.toMatchObject({ status: 503 })
+      expect(sink.record).not.toHaveBeenCalled()
+    })
+  })
 })
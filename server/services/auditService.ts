@@ -1,4 +1,6 @@
 import { auditService } from '@ministryofjustice/hmpps-audit-client'
+import { telemetry } from '@ministryofjustice/hmpps-azure-telemetry'
+import { ServiceUnavailable } from 'http-errors'
 import logger from '../../logger'
 
 export enum AuditEvent {
@@ -13,6 +15,8 @@ export enum AuditEvent {
    * the preview page.
    */
   PRINT_ALL_GOALS = 'PRINT_ALL_GOALS',
+  // Sent when the plan is downloaded as data, with `format` of json or csv
+  EXPORT_PLAN_DATA = 'EXPORT_PLAN_DATA',
 
   // Goal Management - Pre Agree
   VIEW_SELECT_AREA_OF_NEED = 'VIEW_SELECT_AREA_OF_NEED',
@@ -39,6 +43,7 @@ export enum AuditEvent {
   VIEW_CONFIRM_RE_ADD_GOAL = 'VIEW_CONFIRM_RE_ADD_GOAL',
   CREATE_RE_ADD_GOAL = 'CREATE_RE_ADD_GOAL',
   VIEW_INACTIVE_GOAL = 'VIEW_INACTIVE_GOAL',
+  VIEW_GOAL_HISTORY = 'VIEW_GOAL_HISTORY',
 
   // History & Info
   VIEW_ABOUT_PERSON = 'VIEW_ABOUT_PERSON',
@@ -46,7 +51,9 @@ export enum AuditEvent {
   VIEW_PLAN_HISTORY = 'VIEW_PLAN_HISTORY',
   VIEW_PREVIOUS_VERSIONS = 'VIEW_PREVIOUS_VERSIONS',
   VIEW_HISTORIC_PLAN = 'VIEW_HISTORIC_PLAN',
-  VIEW_HISTORIC_ASSESSMENT = 'VIEW_HISTORIC_ASSESSMENT', // TODO: wire up when /view-previous-version/:uuid route is built
+  VIEW_PLAN_COMPARISON = 'VIEW_PLAN_COMPARISON',
+  VIEW_HISTORIC_ASSESSMENT = 'VIEW_HISTORIC_ASSESSMENT',
+  VIEW_ACCESS_LOG = 'VIEW_ACCESS_LOG',
 }
 
 export interface AuditMessage {
@@ -58,36 +65,232 @@ export interface AuditMessage {
   details?: Record<string, unknown>
 }
 
+/**
+ * An audit message as recorded by an AuditSink, with when the audited action happened.
+ */
+export interface AuditRecord extends AuditMessage {
+  when: string
+}
+
+/**
+ * Somewhere, besides the HMPPS audit queue, that audit messages are recorded so they can be
+ * read back, e.g. the access log shown to practitioners.
+ */
+export interface AuditSink {
+  record(auditRecord: AuditRecord): Promise<void>
+}
+
+export interface AuditDeliveryConfig {
+  /** How often buffered messages are checked for ones due to be retried */
+  retryIntervalMs: number
+  /** Attempts after which a buffered message is dropped */
+  maxAttempts: number
+  /** Delay before the first retry, doubled for each further attempt up to maxDelayMs */
+  baseDelayMs: number
+  maxDelayMs: number
+  /** Most messages held for retry, after which the oldest is dropped */
+  maxBufferedMessages: number
+  /** Attempts made while the user waits, for events that fail closed */
+  failClosedAttempts: number
+  /** Events whose action is blocked if they can't be sent, rather than retried in the background */
+  failClosedEvents: string[]
+}
+
+const DEFAULT_DELIVERY_CONFIG: AuditDeliveryConfig = {
+  retryIntervalMs: 5000,
+  maxAttempts: 8,
+  baseDelayMs: 1000,
+  maxDelayMs: 5 * 60 * 1000,
+  maxBufferedMessages: 1000,
+  failClosedAttempts: 3,
+  failClosedEvents: [],
+}
+
+interface BufferedMessage {
+  message: AuditMessage
+  /** When the audited action happened, as the audit client stamps messages with when they're sent */
+  when: string
+  /** Number of failed attempts to send the message so far */
+  attempts: number
+  dueAt: number
+}
+
+// eslint-disable-next-line no-promise-executor-return
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+const getLogContext = (message: AuditMessage) => ({
+  action: message.action,
+  correlationId: message.correlationId,
+  subjectId: message.subjectId,
+  subjectType: message.subjectType,
+})
+
+/**
+ * Sends audit messages to the HMPPS audit queue.
+ *
+ * Messages that fail to send are buffered in memory and retried with exponential backoff, and
+ * dropped once they reach `maxAttempts` or the buffer is full. Each failure and drop is tracked
+ * as a telemetry event (`AuditMessageFailed`, `AuditMessageDropped`). The buffer only lives as
+ * long as the process, so messages waiting to be retried are lost on a restart, with no drop
+ * event: events that must not be lost that way should fail closed. The audit client sets a
+ * message's `when` to the time it's sent, so a retried message also carries when the action
+ * happened, as `occurredAt` in its details.
+ *
+ * Events listed in `failClosedEvents` are retried while the user waits instead, and a
+ * ServiceUnavailable error is thrown if they still can't be sent, so the action is blocked.
+ *
+ * Every message that isn't blocked is also recorded in each of the `sinks`. A sink failing
+ * is logged, and doesn't stop the message being sent to the queue.
+ */
 export default class AuditService {
-  constructor(private readonly serviceName: string) {}
+  private readonly deliveryConfig: AuditDeliveryConfig
+
+  private readonly buffer: BufferedMessage[] = []
+
+  private retryTimer: NodeJS.Timeout | undefined
+
+  private retrying = false
+
+  constructor(
+    private readonly serviceName: string,
+    deliveryConfig?: AuditDeliveryConfig,
+    private readonly sinks: AuditSink[] = [],
+  ) {
+    this.deliveryConfig = deliveryConfig ?? DEFAULT_DELIVERY_CONFIG
+  }
 
   async send(message: AuditMessage) {
+    const when = new Date().toISOString()
+
+    if (this.deliveryConfig.failClosedEvents.includes(message.action)) {
+      await this.sendFailClosed(message)
+    } else {
+      try {
+        await this.sendMessage(message)
+      } catch (error) {
+        this.handleFailure({ message, when, attempts: 0, dueAt: Date.now() }, error)
+      }
+    }
+
+    await this.recordInSinks({ ...message, when })
+  }
+
+  /**
+   * Retry the buffered messages that are due, one at a time.
+   */
+  async retryPending(): Promise<void> {
+    if (this.retrying) {
+      return
+    }
+
+    this.retrying = true
+
     try {
-      await auditService.sendAuditMessage({
-        ...message,
-        service: this.serviceName,
-        details: message.details ? JSON.stringify(message.details) : undefined,
-      })
-      logger.info(
-        {
-          action: message.action,
-          correlationId: message.correlationId,
-          subjectId: message.subjectId,
-          subjectType: message.subjectType,
-        },
-        'HMPPS audit event sent successfully',
-      )
-    } catch (error) {
-      logger.error(
-        {
-          err: error,
-          action: message.action,
-          correlationId: message.correlationId,
-          subjectId: message.subjectId,
-          subjectType: message.subjectType,
-        },
-        'Error sending HMPPS audit event',
-      )
+      const now = Date.now()
+      const due = this.buffer.filter(buffered => buffered.dueAt <= now)
+
+      for (const buffered of due) {
+        this.buffer.splice(this.buffer.indexOf(buffered), 1)
+
+        try {
+          // eslint-disable-next-line no-await-in-loop -- One at a time, so a backlog doesn't flood the queue
+          await this.sendMessage({
+            ...buffered.message,
+            details: { ...buffered.message.details, occurredAt: buffered.when },
+          })
+        } catch (error) {
+          this.handleFailure(buffered, error)
+        }
+      }
+    } finally {
+      this.retrying = false
+    }
+  }
+
+  startRetrying(): void {
+    if (this.retryTimer) {
+      return
+    }
+
+    this.retryTimer = setInterval(() => this.retryPending(), this.deliveryConfig.retryIntervalMs)
+    this.retryTimer.unref()
+  }
+
+  stopRetrying(): void {
+    clearInterval(this.retryTimer)
+    this.retryTimer = undefined
+  }
+
+  private async sendFailClosed(message: AuditMessage): Promise<void> {
+    const { failClosedAttempts, baseDelayMs, maxDelayMs } = this.deliveryConfig
+
+    for (let attempt = 1; ; attempt += 1) {
+      try {
+        // eslint-disable-next-line no-await-in-loop -- Each attempt waits on the one before
+        await this.sendMessage(message)
+        return
+      } catch (error) {
+        telemetry.trackEvent('AuditMessageFailed', { action: message.action, attempts: attempt, failClosed: true })
+
+        if (attempt >= failClosedAttempts) {
+          telemetry.trackEvent('AuditMessageDropped', { action: message.action, reason: 'FAIL_CLOSED' })
+          logger.error(
+            { err: error, ...getLogContext(message), attempts: attempt },
+            'Failed to send HMPPS audit event, blocking the action',
+          )
+          throw new ServiceUnavailable('Unable to record an audit event for this action')
+        }
+
+        // eslint-disable-next-line no-await-in-loop -- Back off before the next attempt
+        await sleep(Math.min(baseDelayMs * 2 ** (attempt - 1), maxDelayMs))
+      }
     }
   }
+
+  private handleFailure(buffered: BufferedMessage, error: unknown): void {
+    const { message, when } = buffered
+    const attempts = buffered.attempts + 1
+
+    telemetry.trackEvent('AuditMessageFailed', { action: message.action, attempts })
+
+    if (attempts >= this.deliveryConfig.maxAttempts) {
+      this.drop(message, 'MAX_ATTEMPTS', error)
+      return
+    }
+
+    if (this.buffer.length >= this.deliveryConfig.maxBufferedMessages) {
+      this.drop(this.buffer.shift().message, 'BUFFER_FULL')
+    }
+
+    const delay = Math.min(this.deliveryConfig.baseDelayMs * 2 ** (attempts - 1), this.deliveryConfig.maxDelayMs)
+    logger.warn(
+      { err: error, ...getLogContext(message), attempts, delay },
+      'Error sending HMPPS audit event, will retry',
+    )
+    this.buffer.push({ message, when, attempts, dueAt: Date.now() + delay })
+  }
+
+  private drop(message: AuditMessage, reason: 'MAX_ATTEMPTS' | 'BUFFER_FULL', error?: unknown): void {
+    telemetry.trackEvent('AuditMessageDropped', { action: message.action, reason })
+    logger.error({ err: error, ...getLogContext(message), reason }, 'Error sending HMPPS audit event, dropping it')
+  }
+
+  private async recordInSinks(auditRecord: AuditRecord): Promise<void> {
+    await Promise.all(
+      this.sinks.map(sink =>
+        sink.record(auditRecord).catch(error => {
+          logger.error({ err: error, ...getLogContext(auditRecord) }, 'Error recording HMPPS audit event in sink')
+        }),
+      ),
+    )
+  }
+
+  private async sendMessage(message: AuditMessage): Promise<void> {
+    await auditService.sendAuditMessage({
+      ...message,
+      service: this.serviceName,
+      details: message.details ? JSON.stringify(message.details) : undefined,
+    })
+    logger.info(getLogContext(message), 'HMPPS audit event sent successfully')
+  }
 }
@@ -1,9 +1,12 @@
 import { mockClient } from 'aws-sdk-client-mock'
 import { SNSClient, PublishCommand } from '@aws-sdk/client-sns'
 import DomainEventsService, { DomainEvent } from './domainEventsService'
+import type DomainEventOutboxStore from '../data/domainEventOutboxStore'
+import type { DeadLetteredMessage, OutboxMessage } from '../data/domainEventOutboxStore'
 
 jest.mock('../../logger', () => ({
   info: jest.fn(),
+  warn: jest.fn(),
   error: jest.fn(),
 }))
 
@@ -22,6 +25,63 @@ const event: DomainEvent = {
   personReference: { identifiers: [{ type: 'CRN', value: 'X123456' }] },
 }
 
+/**
+ * Stand-in for the Redis outbox, holding messages in memory.
+ */
+class InMemoryOutbox {
+  messages = new Map<string, { message: OutboxMessage; dueAt: number }>()
+
+  locks = new Set<string>()
+
+  deadLettered: DeadLetteredMessage[] = []
+
+  add = jest.fn(async (message: OutboxMessage, dueAt: number) => {
+    this.messages.set(message.id, { message, dueAt })
+  })
+
+  getDue = jest.fn(async (now: number, limit: number) =>
+    [...this.messages.values()]
+      .filter(({ dueAt }) => dueAt <= now)
+      .slice(0, limit)
+      .map(({ message }) => ({ id: message.id, message })),
+  )
+
+  claim = jest.fn(async (id: string) => {
+    if (this.locks.has(id)) {
+      return false
+    }
+    this.locks.add(id)
+    return true
+  })
+
+  reschedule = jest.fn(async (message: OutboxMessage, dueAt: number) => {
+    this.messages.set(message.id, { message, dueAt })
+    this.locks.delete(message.id)
+  })
+
+  remove = jest.fn(async (id: string) => {
+    this.messages.delete(id)
+    this.locks.delete(id)
+  })
+
+  deadLetter = jest.fn(async (id: string, message: OutboxMessage | undefined, reason: string) => {
+    this.deadLettered.push({ ...(message ?? { id, attempts: 0 }), lastError: reason, deadLetteredAt: 'now' })
+    this.messages.delete(id)
+    this.locks.delete(id)
+  })
+
+  getCounts = jest.fn(async () => ({ pending: this.messages.size, deadLettered: this.deadLettered.length }))
+}
+
+const outboxConfig = {
+  pollIntervalMs: 1000,
+  batchSize: 10,
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 3000,
+  leaseMs: 5000,
+}
+
 describe('DomainEventsService', () => {
   beforeEach(() => {
     jest.clearAllMocks()
@@ -30,7 +90,6 @@ describe('DomainEventsService', () => {
 
   describe('publish()', () => {
     it('should send a PublishCommand with the topic, message and eventType attribute when a topic is configured', async () => {
-
       snsMock.on(PublishCommand).resolves({})
       const service = new DomainEventsService({ region: 'eu-west-2', topicArn: TOPIC_ARN })
 
@@ -48,7 +107,6 @@ describe('DomainEventsService', () => {
     })
 
     it('should not publish when no topic is configured', async () => {
-
       const service = new DomainEventsService({ region: 'eu-west-2', topicArn: '' })
 
       await service.publish(event)
@@ -57,7 +115,6 @@ describe('DomainEventsService', () => {
     })
 
     it('should not throw when publishing fails', async () => {
-
       snsMock.on(PublishCommand).rejects(new Error('SNS unavailable'))
       const service = new DomainEventsService({ region: 'eu-west-2', topicArn: TOPIC_ARN })
 
@@ -65,4 +122,160 @@ describe('DomainEventsService', () => {
       expect(mockLogger.error).toHaveBeenCalled()
     })
   })
+
+  describe('with an outbox', () => {
+    const now = new Date('2026-07-30T10:00:00.000Z').getTime()
+
+    let outbox: InMemoryOutbox
+    let service: DomainEventsService
+
+    beforeEach(() => {
+      jest.useFakeTimers().setSystemTime(now)
+      outbox = new InMemoryOutbox()
+      service = new DomainEventsService(
+        { region: 'eu-west-2', topicArn: TOPIC_ARN, outbox: outboxConfig },
+        outbox as unknown as DomainEventOutboxStore,
+      )
+    })
+
+    afterEach(() => {
+      service.stopDispatcher()
+      jest.useRealTimers()
+    })
+
+    it('should write the event to the outbox and remove it once published', async () => {
+      // Arrange
+      snsMock.on(PublishCommand).resolves({})
+
+      // Act
+      await service.publish(event)
+
+      // Assert
+      expect(outbox.add).toHaveBeenCalledWith(expect.objectContaining({ event, attempts: 0 }), now)
+      expect(snsMock.commandCalls(PublishCommand)).toHaveLength(1)
+      expect(outbox.messages.size).toBe(0)
+    })
+
+    it('should keep the event in the outbox and retry with backoff when publishing fails', async () => {
+      // Arrange
+      snsMock.on(PublishCommand).rejects(new Error('SNS unavailable'))
+
+      // Act
+      await service.publish(event)
+
+      // Assert
+      const [{ message, dueAt }] = outbox.messages.values()
+      expect(message).toEqual(expect.objectContaining({ event, attempts: 1, lastError: 'SNS unavailable' }))
+      expect(dueAt).toBe(now + 1000)
+      expect(mockLogger.warn).toHaveBeenCalled()
+    })
+
+    it('should publish events that are due once SNS recovers', async () => {
+      // Arrange
+      snsMock.on(PublishCommand).rejectsOnce(new Error('SNS unavailable')).resolves({})
+      await service.publish(event)
+      jest.setSystemTime(now + 1000)
+
+      // Act
+      await service.dispatchPending()
+
+      // Assert
+      expect(snsMock.commandCalls(PublishCommand)).toHaveLength(2)
+      expect(outbox.messages.size).toBe(0)
+    })
+
+    it('should not retry events before their backoff has passed', async () => {
+      // Arrange
+      snsMock.on(PublishCommand).rejects(new Error('SNS unavailable'))
+      await service.publish(event)
+
+      // Act
+      await service.dispatchPending()
+
+      // Assert
+      expect(snsMock.commandCalls(PublishCommand)).toHaveLength(1)
+    })
+
+    it('should move the event to the dead-letter list after the last attempt', async () => {
+      // Arrange
+      snsMock.on(PublishCommand).rejects(new Error('Invalid parameter'))
+      await service.publish(event)
+      jest.setSystemTime(now + 1000)
+      await service.dispatchPending()
+      jest.setSystemTime(now + 3000)
+
+      // Act
+      await service.dispatchPending()
+
+      // Assert
+      expect(snsMock.commandCalls(PublishCommand)).toHaveLength(3)
+      expect(outbox.messages.size).toBe(0)
+      expect(outbox.deadLettered).toEqual([
+        expect.objectContaining({ event, attempts: 3, lastError: 'Invalid parameter' }),
+      ])
+    })
+
+    it('should skip events claimed by another instance', async () => {
+      // Arrange
+      snsMock.on(PublishCommand).resolves({})
+      await outbox.add({ id: 'claimed', event, attempts: 1 }, now)
+      outbox.locks.add('claimed')
+
+      // Act
+      await service.dispatchPending()
+
+      // Assert
+      expect(snsMock.commandCalls(PublishCommand)).toHaveLength(0)
+      expect(outbox.messages.has('claimed')).toBe(true)
+    })
+
+    it('should dead-letter messages that cannot be read', async () => {
+      // Arrange
+      outbox.getDue.mockResolvedValueOnce([{ id: 'unreadable', message: undefined }])
+
+      // Act
+      await service.dispatchPending()
+
+      // Assert
+      expect(outbox.deadLetter).toHaveBeenCalledWith('unreadable', undefined, 'Unreadable outbox message')
+    })
+
+    it('should publish directly when the outbox cannot be written', async () => {
+      // Arrange
+      snsMock.on(PublishCommand).resolves({})
+      outbox.add.mockRejectedValueOnce(new Error('Redis unavailable'))
+
+      // Act
+      await service.publish(event)
+
+      // Assert
+      expect(snsMock.commandCalls(PublishCommand)).toHaveLength(1)
+      expect(mockLogger.error).toHaveBeenCalled()
+    })
+
+    it('should dispatch pending events on an interval', async () => {
+      // Arrange
+      snsMock.on(PublishCommand).resolves({})
+      await outbox.add({ id: 'pending', event, attempts: 1 }, now)
+
+      // Act
+      service.startDispatcher()
+      await jest.advanceTimersByTimeAsync(1000)
+
+      // Assert
+      expect(snsMock.commandCalls(PublishCommand)).toHaveLength(1)
+      expect(outbox.messages.size).toBe(0)
+    })
+
+    it('should report the pending and dead-lettered counts as a health component', async () => {
+      // Arrange
+      await outbox.add({ id: 'pending', event, attempts: 1 }, now)
+
+      // Act
+      const result = await service.outboxHealthComponent().health()
+
+      // Assert
+      expect(result).toEqual({ name: 'domainEventsOutbox', status: 'UP', details: { pending: 1, deadLettered: 0 } })
+    })
+  })
 })
@@ -1,5 +1,9 @@
+import { randomUUID } from 'crypto'
 import { SNSClient, PublishCommand } from '@aws-sdk/client-sns'
+import type { HealthComponent } from '@ministryofjustice/hmpps-monitoring'
 import logger from '../../logger'
+import type DomainEventOutboxStore from '../data/domainEventOutboxStore'
+import type { OutboxMessage } from '../data/domainEventOutboxStore'
 
 /**
  * An HMPPS domain event, per the shared hmpps-domain-event schema.
@@ -15,11 +19,52 @@ export interface DomainEvent {
   }
 }
 
+export interface DomainEventOutboxConfig {
+  /** How often the dispatcher looks for events due to be (re)published */
+  pollIntervalMs: number
+  /** Most events published by one run of the dispatcher */
+  batchSize: number
+  /** Failed attempts after which an event is dead-lettered */
+  maxAttempts: number
+  /** Delay before the first retry, doubled for each further attempt up to maxDelayMs */
+  baseDelayMs: number
+  maxDelayMs: number
+  /** How long an instance has to publish an event it claimed before another may try */
+  leaseMs: number
+}
+
+const DEFAULT_OUTBOX_CONFIG: DomainEventOutboxConfig = {
+  pollIntervalMs: 10000,
+  batchSize: 50,
+  maxAttempts: 10,
+  baseDelayMs: 5000,
+  maxDelayMs: 15 * 60 * 1000,
+  leaseMs: 30000,
+}
+
+/**
+ * Publishes domain events to SNS.
+ *
+ * With an outbox store (when Redis is enabled), each event is written to the outbox before it
+ * is published, and only removed once SNS accepts it. Events that fail are retried by the
+ * dispatcher with exponential backoff, and dead-lettered after `maxAttempts`. Without one,
+ * or if the outbox can't be written, events are published directly and lost on failure.
+ */
 export default class DomainEventsService {
   private readonly client: SNSClient
 
-  constructor(private readonly config: { region: string; topicArn: string }) {
+  private readonly outboxConfig: DomainEventOutboxConfig
+
+  private dispatcherTimer: NodeJS.Timeout | undefined
+
+  private dispatching = false
+
+  constructor(
+    private readonly config: { region: string; topicArn: string; outbox?: DomainEventOutboxConfig },
+    private readonly outbox?: DomainEventOutboxStore,
+  ) {
     this.client = new SNSClient({ region: config.region })
+    this.outboxConfig = config.outbox ?? DEFAULT_OUTBOX_CONFIG
   }
 
   async publish(event: DomainEvent): Promise<void> {
@@ -27,23 +72,148 @@ export default class DomainEventsService {
       return
     }
 
+    const message: OutboxMessage = { id: randomUUID(), event, attempts: 0 }
+
+    if (!(await this.addToOutbox(message))) {
+      await this.send(event).catch(error => {
+        logger.error({ err: error, eventType: event.eventType }, 'Failed to publish domain event')
+      })
+      return
+    }
+
+    // Try straight away, leaving the dispatcher to retry if this fails
     try {
-      await this.client.send(
-        new PublishCommand({
-          TopicArn: this.config.topicArn,
-          Message: JSON.stringify(event),
-          MessageAttributes: {
-            eventType: {
-              DataType: 'String',
-              StringValue: event.eventType,
-            },
-          },
-        }),
-      )
+      await this.dispatch(message.id, message)
+    } catch (error) {
+      logger.error({ err: error, eventType: event.eventType }, 'Failed to publish domain event from outbox')
+    }
+  }
+
+  /**
+   * Publish the outbox events that are due, one at a time. Events claimed by another
+   * instance are skipped, and events that can't be read are dead-lettered.
+   */
+  async dispatchPending(): Promise<void> {
+    if (!this.outbox || !this.config.topicArn || this.dispatching) {
+      return
+    }
+
+    this.dispatching = true
+
+    try {
+      const due = await this.outbox.getDue(Date.now(), this.outboxConfig.batchSize)
+
+      for (const { id, message } of due) {
+        // eslint-disable-next-line no-await-in-loop -- One at a time, so a backlog doesn't flood SNS
+        await this.dispatch(id, message)
+      }
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to dispatch domain events from outbox')
+    } finally {
+      this.dispatching = false
+    }
+  }
+
+  startDispatcher(): void {
+    if (!this.outbox || !this.config.topicArn || this.dispatcherTimer) {
+      return
+    }
+
+    this.dispatcherTimer = setInterval(() => this.dispatchPending(), this.outboxConfig.pollIntervalMs)
+    this.dispatcherTimer.unref()
+  }
 
-      logger.info({ eventType: event.eventType }, 'Domain event published')
+  stopDispatcher(): void {
+    clearInterval(this.dispatcherTimer)
+    this.dispatcherTimer = undefined
+  }
+
+  /**
+   * Reports how many events are waiting in the outbox and how many were dead-lettered.
+   * Always UP, as a backlog shouldn't make this service report itself down.
+   */
+  outboxHealthComponent(): HealthComponent {
+    return {
+      isEnabled: () => Boolean(this.outbox && this.config.topicArn),
+      health: async () => {
+        try {
+          const { pending, deadLettered } = await this.outbox.getCounts()
+
+          return { name: 'domainEventsOutbox', status: 'UP', details: { pending, deadLettered } }
+        } catch (error) {
+          logger.error({ err: error }, 'Failed to count domain events in outbox')
+
+          return { name: 'domainEventsOutbox', status: 'UP', details: { message: 'Outbox unavailable' } }
+        }
+      },
+    }
+  }
+
+  private async addToOutbox(message: OutboxMessage): Promise<boolean> {
+    if (!this.outbox) {
+      return false
+    }
+
+    try {
+      await this.outbox.add(message, Date.now())
+      return true
+    } catch (error) {
+      logger.error({ err: error, eventType: message.event.eventType }, 'Failed to add domain event to outbox')
+      return false
+    }
+  }
+
+  private async dispatch(id: string, message: OutboxMessage | undefined): Promise<void> {
+    if (!(await this.outbox.claim(id, this.outboxConfig.leaseMs))) {
+      return
+    }
+
+    if (!message) {
+      await this.outbox.deadLetter(id, undefined, 'Unreadable outbox message')
+      return
+    }
+
+    await this.deliver(message)
+  }
+
+  private async deliver(message: OutboxMessage): Promise<void> {
+    const { eventType } = message.event
+
+    try {
+      await this.send(message.event)
     } catch (error) {
-      logger.error({ err: error, eventType: event.eventType }, 'Failed to publish domain event')
+      const attempts = message.attempts + 1
+      const lastError = error instanceof Error ? error.message : String(error)
+
+      if (attempts >= this.outboxConfig.maxAttempts) {
+        logger.error({ err: error, eventType, attempts }, 'Failed to publish domain event, moving to dead-letter list')
+        await this.outbox.deadLetter(message.id, { ...message, attempts }, lastError)
+        return
+      }
+
+      const delay = Math.min(this.outboxConfig.baseDelayMs * 2 ** (attempts - 1), this.outboxConfig.maxDelayMs)
+      logger.warn({ err: error, eventType, attempts, delay }, 'Failed to publish domain event, will retry')
+      await this.outbox.reschedule({ ...message, attempts, lastError }, Date.now() + delay)
+      return
     }
+
+    await this.outbox.remove(message.id)
+  }
+
+  private async send(event: DomainEvent): Promise<void> {
+    await this.client.send(
+      new PublishCommand({
+        TopicArn: this.config.topicArn,
+        Message: JSON.stringify(event),
+        MessageAttributes: {
+          eventType: {
+            DataType: 'String',
+            StringValue: event.eventType,
+          },
+        },
+      }),
+    )
+
+    logger.info({ eventType: event.eventType }, 'Domain event published')
   }
 }
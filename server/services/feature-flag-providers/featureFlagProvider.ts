@@ -0,0 +1,24 @@
+/**
+ * Where feature flags are evaluated, e.g. Flipt, or a local file for offline development.
+ *
+ * Evaluation is synchronous once `init()` has resolved true. Evaluating a flag the provider
+ * doesn't know about throws, and FeatureFlagService uses the flag's fallback instead.
+ */
+export interface FeatureFlagProvider {
+  /** Named in logs, e.g. when the provider can't be initialised */
+  readonly name: string
+
+  /** Get ready to evaluate flags. Resolves false if the provider can't be used */
+  init(): Promise<boolean>
+
+  evaluateBoolean(request: FeatureFlagEvaluationRequest): boolean
+
+  /** The key of the variant the entity is given, or undefined if no variant matches */
+  evaluateVariant(request: FeatureFlagEvaluationRequest): string | undefined
+}
+
+export interface FeatureFlagEvaluationRequest {
+  flagKey: string
+  entityId: string
+  context: Record<string, string>
+}
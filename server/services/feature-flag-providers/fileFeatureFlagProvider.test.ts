@@ -0,0 +1,81 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import FileFeatureFlagProvider from './fileFeatureFlagProvider'
+
+jest.mock('../../../logger', () => ({
+  error: jest.fn(),
+}))
+
+const mockLogger = jest.requireMock('../../../logger')
+
+describe('FileFeatureFlagProvider', () => {
+  let directory: string
+
+  const request = (flagKey: string) => ({ flagKey, entityId: 'user123', context: {} })
+
+  const writeFlags = (contents: string, fileName = 'feature-flags.json') => {
+    const filePath = path.join(directory, fileName)
+    writeFileSync(filePath, contents)
+    return filePath
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    directory = mkdtempSync(path.join(tmpdir(), 'feature-flags-'))
+  })
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it('should evaluate boolean and variant flags from the file', async () => {
+    const provider = new FileFeatureFlagProvider(
+      writeFlags(JSON.stringify({ 'sp-enable-print-and-share': true, 'sp-test-variant': 'treatment' })),
+    )
+
+    expect(await provider.init()).toBe(true)
+    expect(provider.evaluateBoolean(request('sp-enable-print-and-share'))).toBe(true)
+    expect(provider.evaluateVariant(request('sp-test-variant'))).toBe('treatment')
+  })
+
+  it('should read YAML files', async () => {
+    const provider = new FileFeatureFlagProvider(
+      writeFlags('# Local flags\nsp-enable-print-and-share: true\nsp-test-variant: treatment\n', 'feature-flags.yml'),
+    )
+
+    expect(await provider.init()).toBe(true)
+    expect(provider.evaluateBoolean(request('sp-enable-print-and-share'))).toBe(true)
+    expect(provider.evaluateVariant(request('sp-test-variant'))).toBe('treatment')
+  })
+
+  it('should throw for flags missing from the file or of the wrong type', async () => {
+    const provider = new FileFeatureFlagProvider(writeFlags(JSON.stringify({ 'sp-test-variant': 'treatment' })))
+    await provider.init()
+
+    expect(() => provider.evaluateBoolean(request('sp-enable-print-and-share'))).toThrow(
+      'Feature flag sp-enable-print-and-share is not set',
+    )
+    expect(() => provider.evaluateBoolean(request('sp-test-variant'))).toThrow(
+      'Feature flag sp-test-variant is not a boolean flag',
+    )
+  })
+
+  it('should not be ready when the file cannot be read', async () => {
+    const provider = new FileFeatureFlagProvider(path.join(directory, 'missing.json'))
+
+    expect(await provider.init()).toBe(false)
+    expect(mockLogger.error).toHaveBeenCalledWith(
+      `Failed to read feature flag file ${path.join(directory, 'missing.json')}:`,
+      expect.objectContaining({ code: 'ENOENT' }),
+    )
+  })
+
+  it('should not be ready when the file does not hold an object', async () => {
+    const filePath = writeFlags('[true]')
+    const provider = new FileFeatureFlagProvider(filePath)
+
+    expect(await provider.init()).toBe(false)
+    expect(mockLogger.error).toHaveBeenCalledWith(`Feature flag file ${filePath} must contain an object of flag values`)
+  })
+})
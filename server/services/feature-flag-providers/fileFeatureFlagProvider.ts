@@ -0,0 +1,56 @@
+import { readFile } from 'fs/promises'
+import { extname } from 'path'
+import { parse as parseYaml } from 'yaml'
+import logger from '../../../logger'
+import InMemoryFeatureFlagProvider, { FeatureFlagValues } from './inMemoryFeatureFlagProvider'
+
+/**
+ * Evaluates flags from a local JSON or YAML file, so features can be turned on without Flipt
+ * running, e.g. for offline development. The file maps Flipt keys to values:
+ *
+ * {
+ *   "sp-enable-print-and-share": true,
+ *   "sp-enable-supervision-package": false
+ * }
+ *
+ * Files ending .yaml or .yml are read as YAML:
+ *
+ * sp-enable-print-and-share: true
+ * sp-enable-supervision-package: false
+ *
+ * The file is read once, when the provider is initialised. Flags missing from it use
+ * their fallback.
+ */
+export default class FileFeatureFlagProvider extends InMemoryFeatureFlagProvider {
+  declare readonly name: string
+
+  private loadPromise: Promise<boolean> | undefined
+
+  constructor(private readonly filePath: string) {
+    super()
+    this.name = `feature flag file ${filePath}`
+  }
+
+  async init(): Promise<boolean> {
+    this.loadPromise ??= this.load()
+    return this.loadPromise
+  }
+
+  private async load(): Promise<boolean> {
+    try {
+      const contents = await readFile(this.filePath, 'utf8')
+      const values = ['.yaml', '.yml'].includes(extname(this.filePath)) ? parseYaml(contents) : JSON.parse(contents)
+
+      if (!values || typeof values !== 'object' || Array.isArray(values)) {
+        logger.error(`Feature flag file ${this.filePath} must contain an object of flag values`)
+        return false
+      }
+
+      this.values = values as FeatureFlagValues
+      return true
+    } catch (error) {
+      logger.error(`Failed to read feature flag file ${this.filePath}:`, error)
+      return false
+    }
+  }
+}
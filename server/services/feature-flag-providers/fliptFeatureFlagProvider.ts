@@ -0,0 +1,55 @@
+import { FliptClient, type ClientOptions } from '@flipt-io/flipt-client-js'
+import logger from '../../../logger'
+import { FeatureFlagEvaluationRequest, FeatureFlagProvider } from './featureFlagProvider'
+
+/**
+ * Evaluates flags with the Flipt client, which keeps a snapshot of the namespace's flags
+ * and refreshes it every `updateInterval` seconds.
+ */
+export default class FliptFeatureFlagProvider implements FeatureFlagProvider {
+  readonly name = 'Flipt client'
+
+  private client: FliptClient | undefined
+
+  private clientPromise: Promise<FliptClient | undefined> | undefined
+
+  constructor(private readonly clientConfig: ClientOptions | undefined) {}
+
+  async init(): Promise<boolean> {
+    if (this.client) {
+      return true
+    }
+
+    if (!this.clientPromise) {
+      this.clientPromise = this.initClient()
+        .then(client => {
+          this.client = client
+          return client
+        })
+        .catch((error): undefined => {
+          logger.error('Failed to initialise Flipt client:', error)
+          return undefined
+        })
+    }
+
+    return Boolean(await this.clientPromise)
+  }
+
+  evaluateBoolean({ flagKey, entityId, context }: FeatureFlagEvaluationRequest): boolean {
+    return this.client.evaluateBoolean({ flagKey, entityId, context }).enabled
+  }
+
+  evaluateVariant({ flagKey, entityId, context }: FeatureFlagEvaluationRequest): string | undefined {
+    const result = this.client.evaluateVariant({ flagKey, entityId, context })
+    return result.match ? result.variantKey : undefined
+  }
+
+  private async initClient(): Promise<FliptClient | undefined> {
+    if (!this.clientConfig) {
+      logger.error('Unable to initiate FliptClient: config is missing')
+      return undefined
+    }
+
+    return FliptClient.init(this.clientConfig)
+  }
+}
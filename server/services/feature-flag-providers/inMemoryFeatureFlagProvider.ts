@@ -0,0 +1,57 @@
+import { FeatureFlagEvaluationRequest, FeatureFlagProvider } from './featureFlagProvider'
+
+/**
+ * The value of each flag by its Flipt key: true/false for boolean flags, or the variant key
+ * for variant flags.
+ */
+export type FeatureFlagValues = Record<string, boolean | string>
+
+/**
+ * Evaluates flags from values held in memory, the same for every user and case.
+ * Useful in tests, where flags can be changed with `setFlag()`.
+ */
+export default class InMemoryFeatureFlagProvider implements FeatureFlagProvider {
+  readonly name: string = 'in-memory feature flags'
+
+  protected values: FeatureFlagValues
+
+  constructor(values: FeatureFlagValues = {}) {
+    this.values = { ...values }
+  }
+
+  async init(): Promise<boolean> {
+    return true
+  }
+
+  setFlag(flagKey: string, value: boolean | string): void {
+    this.values[flagKey] = value
+  }
+
+  evaluateBoolean({ flagKey }: FeatureFlagEvaluationRequest): boolean {
+    const value = this.getValue(flagKey)
+
+    if (typeof value !== 'boolean') {
+      throw new Error(`Feature flag ${flagKey} is not a boolean flag`)
+    }
+
+    return value
+  }
+
+  evaluateVariant({ flagKey }: FeatureFlagEvaluationRequest): string | undefined {
+    const value = this.getValue(flagKey)
+
+    if (typeof value !== 'string') {
+      throw new Error(`Feature flag ${flagKey} is not a variant flag`)
+    }
+
+    return value
+  }
+
+  private getValue(flagKey: string): boolean | string {
+    if (!(flagKey in this.values)) {
+      throw new Error(`Feature flag ${flagKey} is not set`)
+    }
+
+    return this.values[flagKey]
+  }
+}
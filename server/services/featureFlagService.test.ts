@@ -1,6 +1,7 @@
 import { FliptClient } from '@flipt-io/flipt-client-js'
 import FeatureFlagService from './featureFlagService'
-import { FeatureFlagsConfig } from '../utils/featureFlagsUtils'
+import InMemoryFeatureFlagProvider from './feature-flag-providers/inMemoryFeatureFlagProvider'
+import { FeatureFlagsConfig, VariantFeatureFlagsConfig } from '../utils/featureFlagsUtils'
 
 jest.mock('@flipt-io/flipt-client-js')
 jest.mock('../config', () => ({
@@ -18,6 +19,7 @@ const mockFliptClientInit = FliptClient.init as jest.Mock
 describe('FeatureFlagService', () => {
   let featureFlagService: FeatureFlagService
   let mockEvaluateBoolean: jest.Mock
+  let mockEvaluateVariant: jest.Mock
 
   const mockFeatureFlags: FeatureFlagsConfig = {
     TEST_FLAG_ONE: {
@@ -41,7 +43,11 @@ describe('FeatureFlagService', () => {
     jest.clearAllMocks()
 
     mockEvaluateBoolean = jest.fn()
-    mockFliptClientInit.mockResolvedValue({ evaluateBoolean: mockEvaluateBoolean })
+    mockEvaluateVariant = jest.fn()
+    mockFliptClientInit.mockResolvedValue({
+      evaluateBoolean: mockEvaluateBoolean,
+      evaluateVariant: mockEvaluateVariant,
+    })
 
     featureFlagService = new FeatureFlagService()
   })
@@ -72,6 +78,22 @@ describe('FeatureFlagService', () => {
       })
     })
 
+    it('should pass the evaluation context to Flipt as strings', async () => {
+      mockEvaluateBoolean.mockReturnValue({ enabled: true })
+
+      await featureFlagService.evaluateBooleanFlags(mockFeatureFlags, 'user123', {
+        accessType: 'HMPPS_AUTH',
+        region: 'North West',
+        assessmentFlags: ['SAN_BETA', 'OTHER'],
+      })
+
+      expect(mockEvaluateBoolean).toHaveBeenCalledWith({
+        flagKey: mockFeatureFlags.TEST_FLAG_ONE.fliptKey,
+        entityId: 'user123',
+        context: { accessType: 'HMPPS_AUTH', region: 'North West', assessmentFlags: 'SAN_BETA,OTHER' },
+      })
+    })
+
     it('should use fallbackUser when userId is not provided', async () => {
       mockEvaluateBoolean.mockImplementation(({ flagKey }) => ({
         enabled: true,
@@ -114,4 +136,111 @@ describe('FeatureFlagService', () => {
       expect(mockLogger.error).toHaveBeenCalledWith(`Error evaluating feature flag ${failingFlag.fliptKey}:`, testError)
     })
   })
+  describe('evaluateVariantFlags', () => {
+    const mockVariantFlags: VariantFeatureFlagsConfig = {
+      TEST_VARIANT: {
+        fliptKey: 'test-variant',
+        nunjucksKey: 'testVariant',
+        fallbackVariant: 'control',
+      },
+    }
+
+    it('should return the matched variant for each flag', async () => {
+      mockEvaluateVariant.mockReturnValue({ match: true, variantKey: 'treatment' })
+
+      const result = await featureFlagService.evaluateVariantFlags(mockVariantFlags, 'user123', { region: 'Wales' })
+
+      expect(result.variantFeatureFlags).toEqual({ testVariant: 'treatment' })
+      expect(mockEvaluateVariant).toHaveBeenCalledWith({
+        flagKey: 'test-variant',
+        entityId: 'user123',
+        context: { region: 'Wales' },
+      })
+    })
+
+    it('should return the fallback variant when no variant matches', async () => {
+      mockEvaluateVariant.mockReturnValue({ match: false, variantKey: '' })
+
+      const result = await featureFlagService.evaluateVariantFlags(mockVariantFlags, 'user123')
+
+      expect(result.variantFeatureFlags).toEqual({ testVariant: 'control' })
+    })
+
+    it('should return fallback variants when client fails to initialise', async () => {
+      mockFliptClientInit.mockResolvedValue(undefined)
+      featureFlagService = new FeatureFlagService()
+
+      const result = await featureFlagService.evaluateVariantFlags(mockVariantFlags, 'user123')
+
+      expect(result.variantFeatureFlags).toEqual({ testVariant: 'control' })
+    })
+  })
+  describe('with another provider', () => {
+    it('should evaluate flags with the provider given, using the fallback for flags it does not have', async () => {
+      featureFlagService = new FeatureFlagService(new InMemoryFeatureFlagProvider({ 'test-flag-two': true }))
+
+      const result = await featureFlagService.evaluateBooleanFlags(mockFeatureFlags, 'user123')
+
+      expect(result.booleanFeatureFlags).toEqual({ testFlagOneEnabled: true, testFlagTwoEnabled: true })
+      expect(mockFliptClientInit).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('overrides', () => {
+    it('should use overridden values in place of evaluated ones', async () => {
+      const provider = new InMemoryFeatureFlagProvider({
+        'test-flag-one': true,
+        'test-flag-two': false,
+        'test-variant': 'treatment',
+      })
+      featureFlagService = new FeatureFlagService(provider)
+
+      const booleanResult = await featureFlagService.evaluateBooleanFlags(
+        mockFeatureFlags,
+        'user123',
+        {},
+        { 'test-flag-two': true },
+      )
+      const variantResult = await featureFlagService.evaluateVariantFlags(
+        { TEST_VARIANT: { fliptKey: 'test-variant', nunjucksKey: 'testVariant', fallbackVariant: 'control' } },
+        'user123',
+        {},
+        { 'test-variant': 'other' },
+      )
+
+      expect(booleanResult.booleanFeatureFlags).toEqual({ testFlagOneEnabled: true, testFlagTwoEnabled: true })
+      expect(variantResult.variantFeatureFlags).toEqual({ testVariant: 'other' })
+    })
+
+    it('should use overrides when the provider fails to initialise', async () => {
+      mockFliptClientInit.mockResolvedValue(undefined)
+      featureFlagService = new FeatureFlagService()
+
+      const result = await featureFlagService.evaluateBooleanFlags(
+        mockFeatureFlags,
+        'user123',
+        {},
+        {
+          'test-flag-two': true,
+        },
+      )
+
+      expect(result.booleanFeatureFlags).toEqual({ testFlagOneEnabled: true, testFlagTwoEnabled: true })
+    })
+
+    it('should ignore an override of the wrong type', async () => {
+      featureFlagService = new FeatureFlagService(new InMemoryFeatureFlagProvider({ 'test-flag-two': false }))
+
+      const result = await featureFlagService.evaluateBooleanFlags(
+        mockFeatureFlags,
+        'user123',
+        {},
+        {
+          'test-flag-two': 'treatment',
+        },
+      )
+
+      expect(result.booleanFeatureFlags).toEqual({ testFlagOneEnabled: true, testFlagTwoEnabled: false })
+    })
+  })
 })
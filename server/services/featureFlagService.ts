@@ -1,14 +1,21 @@
-import { FliptClient, type ClientOptions } from '@flipt-io/flipt-client-js'
 import config from '../config'
 import logger from '../../logger'
 import {
   BooleanFeatureFlagsResult,
   FEATURE_FLAG_NAMESPACE,
+  FeatureFlag,
   FeatureFlagConfig,
+  FeatureFlagEvaluationContext,
+  FeatureFlagOverrides,
   FeatureFlagsConfig,
   UPDATE_INTERVAL_SECONDS,
-  getFallbackFeatureFlags,
+  VariantFeatureFlag,
+  VariantFeatureFlagsConfig,
+  VariantFeatureFlagsResult,
+  toFliptContext,
 } from '../utils/featureFlagsUtils'
+import { FeatureFlagEvaluationRequest, FeatureFlagProvider } from './feature-flag-providers/featureFlagProvider'
+import FliptFeatureFlagProvider from './feature-flag-providers/fliptFeatureFlagProvider'
 
 const getConfig = (): FeatureFlagConfig => {
   return {
@@ -18,68 +25,99 @@ const getConfig = (): FeatureFlagConfig => {
   }
 }
 
+/**
+ * Evaluates feature flags with a FeatureFlagProvider, Flipt by default.
+ *
+ * A flag that can't be evaluated, because the provider is unavailable or the evaluation
+ * fails, takes its fallback value. Overrides, keyed by Flipt key, take precedence over
+ * both, and are only passed in outside production.
+ */
 export default class FeatureFlagService {
-  private readonly clientConfig: ClientOptions | undefined
+  constructor(private readonly provider: FeatureFlagProvider = new FliptFeatureFlagProvider(getConfig())) {}
 
-  private client: FliptClient
+  async evaluateBooleanFlags(
+    featureFlags: FeatureFlagsConfig,
+    userId?: string,
+    evaluationContext: FeatureFlagEvaluationContext = {},
+    overrides: FeatureFlagOverrides = {},
+  ): Promise<BooleanFeatureFlagsResult> {
+    const isReady = await this.initProvider()
+    const booleanFeatureFlags: Record<string, boolean> = {}
 
-  private clientPromise: Promise<FliptClient> | undefined
+    const entityId = userId || 'fallbackUser'
+    const context = toFliptContext(evaluationContext)
 
-  constructor() {
-    this.clientConfig = getConfig()
-  }
+    for (const flag of Object.values(featureFlags)) {
+      const override = overrides[flag.fliptKey]
 
-  private async initClient(): Promise<FliptClient> | undefined {
-    if (!this.clientConfig) {
-      logger.error('Unable to initiate FliptClient: config is missing')
-      return undefined
+      if (typeof override === 'boolean') {
+        booleanFeatureFlags[flag.nunjucksKey] = override
+      } else {
+        booleanFeatureFlags[flag.nunjucksKey] = isReady
+          ? this.evaluateBoolean(flag, { flagKey: flag.fliptKey, entityId, context })
+          : flag.fallbackState
+      }
     }
 
-    return FliptClient.init(this.clientConfig)
+    return { booleanFeatureFlags }
   }
 
-  private async getClient(): Promise<FliptClient | undefined> {
-    if (this.client) {
-      return this.client
+  async evaluateVariantFlags(
+    featureFlags: VariantFeatureFlagsConfig,
+    userId?: string,
+    evaluationContext: FeatureFlagEvaluationContext = {},
+    overrides: FeatureFlagOverrides = {},
+  ): Promise<VariantFeatureFlagsResult> {
+    if (Object.keys(featureFlags).length === 0) {
+      return { variantFeatureFlags: {} }
     }
 
-    if (!this.clientPromise) {
-      this.clientPromise = this.initClient()
-        .then(client => {
-          this.client = client
-          return client
-        })
-        .catch((error): undefined => {
-          logger.error('Failed to initialise Flipt client:', error)
-          return undefined
-        })
+    const isReady = await this.initProvider()
+    const variantFeatureFlags: Record<string, string> = {}
+
+    const entityId = userId || 'fallbackUser'
+    const context = toFliptContext(evaluationContext)
+
+    for (const flag of Object.values(featureFlags)) {
+      const override = overrides[flag.fliptKey]
+
+      if (typeof override === 'string') {
+        variantFeatureFlags[flag.nunjucksKey] = override
+      } else {
+        variantFeatureFlags[flag.nunjucksKey] = isReady
+          ? this.evaluateVariant(flag, { flagKey: flag.fliptKey, entityId, context })
+          : flag.fallbackVariant
+      }
     }
 
-    return this.clientPromise
+    return { variantFeatureFlags }
   }
 
-  async evaluateBooleanFlags(featureFlags: FeatureFlagsConfig, userId?: string): Promise<BooleanFeatureFlagsResult> {
-    const client = await this.getClient()
-    const booleanFeatureFlags: Record<string, boolean> = {}
+  private async initProvider(): Promise<boolean> {
+    const isReady = await this.provider.init()
 
-    if (!client) {
-      logger.error('Unable to initialise Flipt client for feature flag evaluation')
-      return { booleanFeatureFlags: getFallbackFeatureFlags(featureFlags) }
+    if (!isReady) {
+      logger.error(`Unable to initialise ${this.provider.name} for feature flag evaluation`)
     }
 
-    const entityId = userId || 'fallbackUser'
-    const context = {}
+    return isReady
+  }
 
-    for (const flag of Object.values(featureFlags)) {
-      try {
-        const result = client.evaluateBoolean({ flagKey: flag.fliptKey, entityId, context })
-        booleanFeatureFlags[flag.nunjucksKey] = result.enabled
-      } catch (error) {
-        logger.error(`Error evaluating feature flag ${flag.fliptKey}:`, error)
-        booleanFeatureFlags[flag.nunjucksKey] = flag.fallbackState
-      }
+  private evaluateBoolean(flag: FeatureFlag, request: FeatureFlagEvaluationRequest): boolean {
+    try {
+      return this.provider.evaluateBoolean(request)
+    } catch (error) {
+      logger.error(`Error evaluating feature flag ${flag.fliptKey}:`, error)
+      return flag.fallbackState
     }
+  }
 
-    return { booleanFeatureFlags }
+  private evaluateVariant(flag: VariantFeatureFlag, request: FeatureFlagEvaluationRequest): string {
+    try {
+      return this.provider.evaluateVariant(request) ?? flag.fallbackVariant
+    } catch (error) {
+      logger.error(`Error evaluating feature flag ${flag.fliptKey}:`, error)
+      return flag.fallbackVariant
+    }
   }
 }
@@ -3,7 +3,24 @@ import config from '../config'
 import AuditService from './auditService'
 import AssessmentService from './assessmentService'
 import FeatureFlagService from './featureFlagService'
+import FileFeatureFlagProvider from './feature-flag-providers/fileFeatureFlagProvider'
 import DomainEventsService from './domainEventsService'
+import GotenbergClient from '../data/gotenbergClient'
+import { PdfRenderer } from './pdf-renderers/pdfRenderer'
+import GotenbergHtmlPdfRenderer from './pdf-renderers/gotenbergHtmlPdfRenderer'
+import GotenbergUrlPdfRenderer from './pdf-renderers/gotenbergUrlPdfRenderer'
+import StubPdfRenderer from './pdf-renderers/stubPdfRenderer'
+
+const createPdfRenderer = (gotenbergClient: GotenbergClient): PdfRenderer => {
+  switch (config.pdf.renderer) {
+    case 'html':
+      return new GotenbergHtmlPdfRenderer(gotenbergClient)
+    case 'stub':
+      return new StubPdfRenderer()
+    default:
+      return new GotenbergUrlPdfRenderer(gotenbergClient)
+  }
+}
 
 export const services = () => {
   const {
@@ -16,6 +33,8 @@ export const services = () => {
     deliusApiClient,
     mpopComponents,
     preferencesStore,
+    domainEventOutboxStore,
+    accessLogStore,
   } = dataAccess()
 
   return {
@@ -25,13 +44,21 @@ export const services = () => {
     coordinatorApiClient,
     arnsApiClient,
     gotenbergClient,
+    pdfRenderer: createPdfRenderer(gotenbergClient),
     handoverApiClient,
     mpopComponents,
     preferencesStore,
-    auditService: new AuditService(applicationInfo.applicationName),
+    accessLogStore,
+    auditService: new AuditService(
+      applicationInfo.applicationName,
+      config.sqs.audit.delivery,
+      accessLogStore ? [accessLogStore] : [],
+    ),
     assessmentService: new AssessmentService(assessmentPlatformApiClient),
-    featureFlagService: new FeatureFlagService(),
-    domainEventsService: new DomainEventsService(config.sns),
+    featureFlagService: new FeatureFlagService(
+      config.featureFlags.file ? new FileFeatureFlagProvider(config.featureFlags.file) : undefined,
+    ),
+    domainEventsService: new DomainEventsService(config.sns, domainEventOutboxStore),
   }
 }
 
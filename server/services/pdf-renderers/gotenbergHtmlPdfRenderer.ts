@@ -0,0 +1,22 @@
+import GotenbergClient from '../../data/gotenbergClient'
+import { PdfRenderer, PdfRenderRequest } from './pdfRenderer'
+
+/**
+ * Renders a PDF from a page the app has already rendered, by posting its HTML to
+ * Gotenberg. Nothing is loaded with the user's session, so the page is only viewed once.
+ */
+export default class GotenbergHtmlPdfRenderer implements PdfRenderer {
+  readonly name: string = 'Gotenberg HTML renderer'
+
+  readonly rendersHtml: boolean = true
+
+  constructor(private readonly gotenbergClient: GotenbergClient) {}
+
+  async render({ path, html, document, requestId }: PdfRenderRequest): Promise<Buffer> {
+    if (html === undefined) {
+      throw new Error(`${this.name} needs the HTML of ${path}`)
+    }
+
+    return this.gotenbergClient.renderPdfFromHtml({ html, document, requestId })
+  }
+}
@@ -0,0 +1,23 @@
+import GotenbergClient from '../../data/gotenbergClient'
+import { PdfRenderer, PdfRenderRequest } from './pdfRenderer'
+
+/**
+ * Renders a PDF by having Gotenberg's Chromium load the page back through the ingress,
+ * signed in with the user's session cookie. The page is requested a second time, so is
+ * audited as a second view.
+ */
+export default class GotenbergUrlPdfRenderer implements PdfRenderer {
+  readonly name: string = 'Gotenberg URL renderer'
+
+  readonly rendersHtml: boolean = false
+
+  constructor(private readonly gotenbergClient: GotenbergClient) {}
+
+  async render({ path, sessionCookie, document, requestId }: PdfRenderRequest): Promise<Buffer> {
+    if (!sessionCookie) {
+      throw new Error(`${this.name} needs the user's session cookie to load ${path}`)
+    }
+
+    return this.gotenbergClient.renderPdfFromUrl({ path, sessionCookie, document, requestId })
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Turns a page of the app into a PDF, e.g. with Gotenberg, or a stub in tests.
+ *
+ * A renderer either loads the page itself by URL, with the user's session cookie, or is given
+ * the page's HTML once the app has rendered it in-process (`rendersHtml`).
+ */
+export interface PdfRenderer {
+  /** Named in logs, e.g. when a PDF can't be rendered */
+  readonly name: string
+
+  /** True if the renderer needs the page's HTML, rather than loading it by URL */
+  readonly rendersHtml: boolean
+
+  render(request: PdfRenderRequest): Promise<Buffer>
+}
+
+export interface PdfRenderRequest {
+  /** Path of the page being rendered, e.g. the print preview */
+  path: string
+  /** The rendered page, for renderers that are given the HTML */
+  html?: string
+  /** The user's session cookie, for renderers that load the page by URL */
+  sessionCookie?: string
+  /** Title, language and running header and footer of the PDF */
+  document?: PdfDocument
+  requestId?: string
+}
+
+/**
+ * What a PDF says about itself, so it can be read out by a screen reader and archived.
+ */
+export interface PdfDocument {
+  /** Shown by PDF readers in place of the file name */
+  title: string
+  /** Language of the content, e.g. en-GB */
+  language: string
+  /**
+   * Printed at the top and bottom of every page. Each is a whole HTML document with inline
+   * styles, where elements with the class pageNumber or totalPages are filled in per page.
+   */
+  headerHtml: string
+  footerHtml: string
+}
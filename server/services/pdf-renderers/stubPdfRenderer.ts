@@ -0,0 +1,23 @@
+import { PdfRenderer, PdfRenderRequest } from './pdfRenderer'
+
+/**
+ * Returns a placeholder PDF without calling Gotenberg. Useful in tests, which can have it keep
+ * what it was asked to render, and locally without Gotenberg running.
+ */
+export default class StubPdfRenderer implements PdfRenderer {
+  readonly name: string = 'stub PDF renderer'
+
+  readonly rendersHtml: boolean = true
+
+  readonly requests: PdfRenderRequest[] = []
+
+  constructor(private readonly options: { recordRequests?: boolean } = {}) {}
+
+  async render(request: PdfRenderRequest): Promise<Buffer> {
+    if (this.options.recordRequests) {
+      this.requests.push(request)
+    }
+
+    return Buffer.from(`%PDF-1.7\n% Stub PDF of ${request.path}\n%%EOF\n`)
+  }
+}
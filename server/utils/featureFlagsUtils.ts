@@ -1,3 +1,7 @@
+import type { AuthSource } from '../interfaces/hmppsUser'
+import type { CaseDetails } from '../interfaces/delius-api/caseDetails'
+import type { SessionDetails } from '../interfaces/sessionDetails'
+
 export const FEATURE_FLAG_NAMESPACE = 'hmpps-arns-assessment-platform'
 export const UPDATE_INTERVAL_SECONDS = 120
 
@@ -34,6 +38,12 @@ export const BooleanFeatureFlags = {
   },
 }
 
+/**
+ * Flags with more than an on/off state, e.g. for an A/B test. Each resolves to the key of
+ * the Flipt variant the user is given, or `fallbackVariant` if none matches.
+ */
+export const VariantFeatureFlags: VariantFeatureFlagsConfig = {}
+
 export interface FeatureFlagConfig {
   url: string
   environment?: string
@@ -60,3 +70,108 @@ export const getFallbackFeatureFlags = (featureFlags: FeatureFlagsConfig): Recor
   }
   return booleanFeatureFlags
 }
+
+export type VariantFeatureFlagsConfig = Record<string, VariantFeatureFlag>
+
+export type VariantFeatureFlag = {
+  fliptKey: string
+  nunjucksKey: string
+  fallbackVariant: string
+}
+
+export type VariantFeatureFlagsResult = {
+  variantFeatureFlags: Record<string, string>
+}
+
+export const getFallbackVariantFlags = (featureFlags: VariantFeatureFlagsConfig): Record<string, string> => {
+  const variantFeatureFlags: Record<string, string> = {}
+  for (const flag of Object.values(featureFlags)) {
+    variantFeatureFlags[flag.nunjucksKey] = flag.fallbackVariant
+  }
+  return variantFeatureFlags
+}
+
+/**
+ * What we know about the user and case when flags are evaluated, so a flag can be rolled out
+ * to e.g. one probation region, or only to users coming from OASys.
+ */
+export interface FeatureFlagEvaluationContext {
+  /** How the user reached the service, e.g. OASYS or HMPPS_AUTH */
+  accessType?: AuthSource
+  /** The case's probation region, from Delius */
+  region?: string
+  /** The case's location, from Delius */
+  location?: string
+  /** Flags on the assessment, e.g. SAN_BETA */
+  assessmentFlags?: string[]
+}
+
+export const buildFeatureFlagEvaluationContext = ({
+  sessionDetails,
+  caseDetails,
+  assessmentFlags,
+}: {
+  sessionDetails?: Pick<SessionDetails, 'accessType'>
+  caseDetails?: CaseDetails
+  assessmentFlags?: string[]
+}): FeatureFlagEvaluationContext =>
+  Object.fromEntries(
+    Object.entries({
+      accessType: sessionDetails?.accessType,
+      region: caseDetails?.region,
+      location: caseDetails?.location,
+      assessmentFlags,
+    }).filter(([, value]) => value !== undefined),
+  )
+
+/**
+ * Flipt contexts only hold strings, so assessment flags are sent comma separated, for segments
+ * to match with the `contains` operator. Anything not known is left out rather than sent empty.
+ */
+export const toFliptContext = (context: FeatureFlagEvaluationContext): Record<string, string> => {
+  const { assessmentFlags, ...values } = context
+  const fliptContext: Record<string, string> = {}
+
+  for (const [key, value] of Object.entries(values)) {
+    if (value) {
+      fliptContext[key] = value
+    }
+  }
+
+  if (assessmentFlags?.length) {
+    fliptContext.assessmentFlags = assessmentFlags.join(',')
+  }
+
+  return fliptContext
+}
+
+/**
+ * Values to use for flags instead of evaluating them, by Flipt key: true/false for boolean
+ * flags, or the variant key for variant flags. Only honoured when overrides are enabled, and
+ * never in production, so integration tests can turn features on and off for a single request.
+ */
+export type FeatureFlagOverrides = Record<string, boolean | string>
+
+/**
+ * Read overrides sent as JSON, e.g. `{"sp-enable-print-and-share":true}`. Anything that isn't
+ * a boolean or string value is ignored, as is input that isn't a JSON object.
+ */
+export const parseFeatureFlagOverrides = (raw: string | undefined): FeatureFlagOverrides => {
+  if (!raw) {
+    return {}
+  }
+
+  try {
+    const parsed = JSON.parse(raw)
+
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      return {}
+    }
+
+    return Object.fromEntries(
+      Object.entries(parsed).filter(([, value]) => typeof value === 'boolean' || typeof value === 'string'),
+    ) as FeatureFlagOverrides
+  } catch {
+    return {}
+  }
+}
@@ -4,9 +4,10 @@ import express from 'express'
 import fs from 'fs'
 import { mpopNunjucksSetup } from '@ministryofjustice/hmpps-mpop-frontend-components-lib'
 import { ValidationResult } from '@ministryofjustice/hmpps-forge/core/framework'
-import { formatDate, initialiseName, possessive } from './utils'
+import { formatDate, initialiseName, possessive, toHtmlSafeJson } from './utils'
 import config from '../config'
 import logger from '../../logger'
+import { toCaseContextPath } from '../forms/shared/caseContext'
 
 export default function nunjucksSetup(app?: express.Express) {
   if (app) {
@@ -78,7 +79,11 @@ export default function nunjucksSetup(app?: express.Express) {
   njkEnv.addFilter('initialiseName', initialiseName)
   njkEnv.addFilter('assetMap', (url: string) => assetManifest[url] || url)
   njkEnv.addFilter('json', (obj, spaces = 2) => JSON.stringify(obj, null, spaces))
+  njkEnv.addFilter('htmlSafeJson', obj => new nunjucks.runtime.SafeString(toHtmlSafeJson(obj)))
   njkEnv.addFilter('formatSimpleDate', date => formatDate(date, 'simple'))
+  njkEnv.addFilter('caseContextPath', (path: string, caseContextId?: string) =>
+    path && caseContextId ? toCaseContextPath(path, caseContextId) : path,
+  )
 
   // Map navigation data structure (path → url) for nav-list-item macro
   interface NavItem {
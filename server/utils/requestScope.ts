@@ -0,0 +1,27 @@
+import { AsyncLocalStorage } from 'node:async_hooks'
+
+const requestScope = new AsyncLocalStorage<Map<unknown, unknown>>()
+
+/**
+ * Run a function with a fresh request scope. Anything stored with getRequestScoped()
+ * while it (and any async work it starts) runs is shared, and is dropped afterwards.
+ */
+export const runInRequestScope = <T>(fn: () => T): T => requestScope.run(new Map(), fn)
+
+/**
+ * Get the value stored under `key` for the current request, creating it on first use.
+ * Returns undefined when called outside a request scope (e.g. background jobs).
+ */
+export const getRequestScoped = <T>(key: unknown, create: () => T): T | undefined => {
+  const scope = requestScope.getStore()
+
+  if (!scope) {
+    return undefined
+  }
+
+  if (!scope.has(key)) {
+    scope.set(key, create())
+  }
+
+  return scope.get(key) as T
+}
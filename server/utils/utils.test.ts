@@ -1,4 +1,4 @@
-import { convertToTitleCase, formatDate, initialiseName, possessive } from './utils'
+import { convertToTitleCase, formatDate, initialiseName, possessive, toHtmlSafeJson } from './utils'
 
 describe('convert to title case', () => {
   it.each([
@@ -73,3 +73,21 @@ describe('formatDate', () => {
     expect(formatDate('1990-01-01', 'unknown')).toBe('1 January 1990')
   })
 })
+
+describe('toHtmlSafeJson', () => {
+  it('escapes characters HTML gives meaning to', () => {
+    expect(toHtmlSafeJson({ title: '</pre><script>alert("&")</script>' })).toBe(
+      '{"title":"\\u003c/pre\\u003e\\u003cscript\\u003ealert(\\"\\u0026\\")\\u003c/script\\u003e"}',
+    )
+  })
+
+  it('is read back unchanged', () => {
+    const value = { title: '<b>Find & keep a job</b>', steps: [1, 2] }
+
+    expect(JSON.parse(toHtmlSafeJson(value))).toEqual(value)
+  })
+
+  it('returns an empty string for undefined', () => {
+    expect(toHtmlSafeJson(undefined)).toBe('')
+  })
+})
@@ -53,3 +53,10 @@ export const formatDate = (date: string, format: 'iso' | 'simple') => {
       })
   }
 }
+
+/**
+ * JSON with the characters HTML gives meaning to escaped, so it can be printed into a page as it
+ * is without being read as markup. JSON.parse reads it back unchanged.
+ */
+export const toHtmlSafeJson = (value: unknown): string =>
+  (JSON.stringify(value) ?? '').replace(/[<>&]/g, char => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`)